@@ -7,9 +7,12 @@ import { Dashboard } from './components/Dashboard';
 import { ProductManagement } from './components/ProductManagement';
 import { PointOfSale } from './components/PointOfSale';
 import { RentalManagement } from './components/RentalManagement';
+import { MaintenanceManagement } from './components/MaintenanceManagement';
 import { TransactionHistory } from './components/TransactionHistory';
 import { CustomerManagement } from './components/CustomerManagement';
+import { Receivables } from './components/Receivables';
 import { UserManagement } from './components/UserManagement';
+import { Settings } from './components/Settings';
 
 function AppContent() {
   const { user, loading } = useAuth();
@@ -37,19 +40,18 @@ function AppContent() {
         return <ProductManagement />;
       case 'rentals':
         return <RentalManagement />;
+      case 'maintenance':
+        return <MaintenanceManagement />;
       case 'transactions':
         return <TransactionHistory />;
       case 'customers':
         return <CustomerManagement />;
+      case 'receivables':
+        return <Receivables />;
       case 'users':
         return <UserManagement />;
       case 'settings':
-        return (
-          <div className="text-center py-12">
-            <h1 className="text-2xl font-bold text-gray-900 mb-4">Paramètres</h1>
-            <p className="text-gray-600">Configuration du système (à venir)</p>
-          </div>
-        );
+        return <Settings />;
       default:
         return <PointOfSale />;
     }
@@ -0,0 +1,297 @@
+import React, { useState } from 'react';
+import { useStore } from '../context/StoreContext';
+import {
+  CalendarSearch,
+  Check,
+  Plus,
+  Search,
+  Tag,
+  X
+} from 'lucide-react';
+import { AvailabilitySearchResult, Product } from '../types';
+import { computeRentalPrice, getSeasonalSurcharge } from '../utils/pricing';
+
+interface AvailabilitySearchProps {
+  cartRentalIds: string[];
+  onAdd: (product: Product, startDate: Date, rentalDays: number) => void;
+  onClose: () => void;
+}
+
+interface SearchRow {
+  product: Product;
+  unitCodes: string[];
+  price: number;
+  explanation: string;
+}
+
+const toInputDate = (date: Date) => date.toISOString().split('T')[0];
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+export function AvailabilitySearch({ cartRentalIds, onAdd, onClose }: AvailabilitySearchProps) {
+  const { products, productUnits, pricingRules, pricingPeriods, searchAvailability } = useStore();
+  const [criteria, setCriteria] = useState({
+    startDate: toInputDate(new Date()),
+    endDate: toInputDate(addDays(new Date(), 1)),
+    category: '',
+    size: '',
+    color: '',
+    minPrice: '',
+    maxPrice: ''
+  });
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [results, setResults] = useState<AvailabilitySearchResult[] | null>(null);
+  const [searchedRange, setSearchedRange] = useState<{ startDate: Date; rentalDays: number } | null>(null);
+  const [searching, setSearching] = useState(false);
+
+  const rentableProducts = products.filter(product => product.isAvailableForRental);
+  const categories = [...new Set(rentableProducts.map(p => p.category))].sort((a, b) => a.localeCompare(b));
+  const sizes = [...new Set(rentableProducts.map(p => p.size).filter(Boolean))].sort((a, b) => a.localeCompare(b));
+  const colors = [...new Set(rentableProducts.map(p => p.color).filter(Boolean))].sort((a, b) => a.localeCompare(b));
+
+  const handleSearch = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const startDate = new Date(criteria.startDate);
+    const endDate = new Date(criteria.endDate);
+    if (endDate <= startDate) {
+      alert('La date de retour doit suivre la date de retrait');
+      return;
+    }
+
+    setSearching(true);
+    try {
+      setResults(await searchAvailability(startDate, endDate));
+      setSearchedRange({
+        startDate,
+        rentalDays: Math.round((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24))
+      });
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors de la recherche de disponibilité');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  // Prix de la location sur la période, tarifs et majorations de saison compris
+  const getRows = (): SearchRow[] => {
+    if (!results || !searchedRange) return [];
+
+    const endDate = addDays(searchedRange.startDate, searchedRange.rentalDays);
+    const minPrice = criteria.minPrice === '' ? 0 : Number(criteria.minPrice);
+    const maxPrice = criteria.maxPrice === '' ? Infinity : Number(criteria.maxPrice);
+
+    return results
+      .map(result => {
+        const product = products.find(p => p.id === result.productId);
+        if (!product) return null;
+
+        const rentalPrice = computeRentalPrice(product, searchedRange.startDate, endDate, searchedRange.rentalDays, pricingRules);
+        const surcharge = getSeasonalSurcharge(product, 'rental', searchedRange.startDate, endDate, rentalPrice.total, pricingPeriods);
+
+        return {
+          product,
+          unitCodes: productUnits
+            .filter(unit => result.freeUnitIds.includes(unit.id))
+            .map(unit => unit.unitCode),
+          price: rentalPrice.total + (surcharge?.amount || 0),
+          explanation: surcharge ? `${rentalPrice.explanation} · ${surcharge.label}` : rentalPrice.explanation
+        };
+      })
+      .filter((row): row is SearchRow => row !== null)
+      .filter(row =>
+        (!criteria.category || row.product.category === criteria.category) &&
+        (!criteria.size || row.product.size === criteria.size) &&
+        (!criteria.color || row.product.color === criteria.color) &&
+        row.price >= minPrice &&
+        row.price <= maxPrice
+      )
+      .sort((a, b) => sortOrder === 'asc' ? a.price - b.price : b.price - a.price);
+  };
+
+  const rows = getRows();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-screen overflow-y-auto">
+        <div className="p-6 border-b border-gray-100 flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+              <CalendarSearch className="w-5 h-5 mr-2" />
+              Recherche de disponibilité
+            </h2>
+            <p className="text-sm text-gray-600">Articles libres sur toute la période, dans tout le catalogue</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSearch} className="p-6 border-b border-gray-100 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Retrait le</label>
+              <input
+                type="date"
+                required
+                value={criteria.startDate}
+                onChange={(e) => setCriteria({ ...criteria, startDate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Retour le</label>
+              <input
+                type="date"
+                required
+                min={criteria.startDate}
+                value={criteria.endDate}
+                onChange={(e) => setCriteria({ ...criteria, endDate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Catégorie</label>
+              <select
+                value={criteria.category}
+                onChange={(e) => setCriteria({ ...criteria, category: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Toutes</option>
+                {categories.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Taille</label>
+              <select
+                value={criteria.size}
+                onChange={(e) => setCriteria({ ...criteria, size: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Toutes</option>
+                {sizes.map(size => (
+                  <option key={size} value={size}>{size}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Couleur</label>
+              <select
+                value={criteria.color}
+                onChange={(e) => setCriteria({ ...criteria, color: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Toutes</option>
+                {colors.map(color => (
+                  <option key={color} value={color}>{color}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Prix min (DA)</label>
+              <input
+                type="number"
+                min="0"
+                value={criteria.minPrice}
+                onChange={(e) => setCriteria({ ...criteria, minPrice: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Prix max (DA)</label>
+              <input
+                type="number"
+                min="0"
+                value={criteria.maxPrice}
+                onChange={(e) => setCriteria({ ...criteria, maxPrice: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div className="flex items-end">
+              <button
+                type="submit"
+                disabled={searching}
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 transition-colors flex items-center justify-center space-x-2"
+              >
+                <Search className="w-4 h-4" />
+                <span>{searching ? 'Recherche...' : 'Rechercher'}</span>
+              </button>
+            </div>
+          </div>
+        </form>
+
+        {results && searchedRange && (
+          <div className="p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">
+                {rows.length} article(s) libre(s) du {searchedRange.startDate.toLocaleDateString('fr-FR')} au{' '}
+                {addDays(searchedRange.startDate, searchedRange.rentalDays).toLocaleDateString('fr-FR')}
+                {' '}({searchedRange.rentalDays} jour(s))
+              </p>
+              <select
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value as 'asc' | 'desc')}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="asc">Prix croissant</option>
+                <option value="desc">Prix décroissant</option>
+              </select>
+            </div>
+
+            <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+              {rows.map(row => (
+                <div key={row.product.id} className="p-4 flex items-center justify-between hover:bg-gray-50 transition-colors">
+                  <div>
+                    <p className="font-medium text-gray-900">{row.product.name}</p>
+                    <p className="text-sm text-gray-600">
+                      {row.product.category} · {row.product.size} · {row.product.color}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Exemplaires libres : {row.unitCodes.join(', ')}
+                    </p>
+                    <p className="text-xs text-purple-700 flex items-center mt-1">
+                      <Tag className="w-3 h-3 mr-1" />
+                      {row.explanation}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <span className="text-lg font-semibold text-gray-900 whitespace-nowrap">
+                      {row.price.toLocaleString('fr-FR')} DA
+                    </span>
+                    {cartRentalIds.includes(row.product.id) ? (
+                      <span className="px-3 py-2 text-sm text-green-700 flex items-center space-x-1">
+                        <Check className="w-4 h-4" />
+                        <span>Au panier</span>
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => onAdd(row.product, searchedRange.startDate, searchedRange.rentalDays)}
+                        className="px-3 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors flex items-center space-x-1 text-sm"
+                      >
+                        <Plus className="w-4 h-4" />
+                        <span>Ajouter</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              {rows.length === 0 && (
+                <div className="text-center py-12">
+                  <CalendarSearch className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+                  <p className="text-gray-500">Aucun article libre pour ces critères</p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useStore } from '../context/StoreContext';
+import { useAuth } from '../context/AuthContext';
 import { 
   Search, 
   User, 
@@ -8,30 +9,166 @@ import {
   MapPin,
   Eye,
   Calendar,
+  Camera,
   CreditCard,
   Package,
   Clock,
-  TrendingUp
+  TrendingUp,
+  Archive,
+  ArchiveRestore,
+  Contact,
+  Download,
+  Edit2,
+  FileSpreadsheet,
+  FileText,
+  Merge,
+  Plus,
+  Ruler,
+  ShieldAlert,
+  ShieldCheck,
+  Trash2,
+  X
 } from 'lucide-react';
-import { Customer, Transaction, Rental, Payment } from '../types';
+import { Customer, CustomerDetails, CustomerIdentity, CustomerRiskOverride, MeasurementKey, Order, Transaction, Rental, Payment } from '../types';
+import { downloadCSV } from '../utils/export';
+import { formatMeasurement, measurementKeys, measurementLabels, measurementUnits } from '../utils/fit';
+import { formatPhone, phoneSearchTerm } from '../utils/phone';
+import { generateCustomerStatementPDF } from '../utils/pdfGenerator';
+import { riskStatusColors, riskStatusLabels, suggestRiskStatus } from '../utils/risk';
+import { buildCustomerStatement, CustomerStatement } from '../utils/statement';
+
+const documentTypeLabels: Record<CustomerIdentity['documentType'], string> = {
+  national_id: 'Carte nationale d\'identité',
+  passport: 'Passeport',
+  driving_license: 'Permis de conduire'
+};
+
+const emptyCustomerForm: CustomerDetails = {
+  name: '',
+  phone: '',
+  email: '',
+  address: '',
+  notes: ''
+};
+
+const emptyMeasurementForm = {
+  values: {} as Partial<Record<MeasurementKey, string>>,
+  notes: '',
+  measuredAt: new Date().toISOString().split('T')[0]
+};
+
+const emptyIdentityForm = {
+  documentType: 'national_id' as CustomerIdentity['documentType'],
+  documentNumber: '',
+  expiryDate: '',
+  scan: null as File | null
+};
 
 export function CustomerManagement() {
-  const { customers, getCustomerHistory, loading } = useStore();
+  const {
+    customers,
+    orders,
+    rentals,
+    storeSettings,
+    getCustomerHistory,
+    getRentalExtensions,
+    addCustomer,
+    updateCustomer,
+    archiveCustomer,
+    mergeCustomers,
+    getCustomerIdentity,
+    saveCustomerIdentity,
+    deleteCustomerIdentity,
+    getIdentityScanUrl,
+    getInspectionPhotoUrl,
+    updateCustomerRisk,
+    getRiskOverrides,
+    customerMeasurements,
+    addCustomerMeasurement,
+    deleteCustomerMeasurement,
+    loading
+  } = useStore();
+  const { user, isAdmin } = useAuth();
   const [searchTerm, setSearchTerm] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [showCustomerModal, setShowCustomerModal] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [customerForm, setCustomerForm] = useState<CustomerDetails>(emptyCustomerForm);
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [customerHistory, setCustomerHistory] = useState<{
+    orders: Order[];
     transactions: Transaction[];
     rentals: Rental[];
     payments: Payment[];
   } | null>(null);
   const [showHistoryModal, setShowHistoryModal] = useState(false);
+  const [identityCustomer, setIdentityCustomer] = useState<Customer | null>(null);
+  const [currentIdentity, setCurrentIdentity] = useState<CustomerIdentity | null>(null);
+  const [identityForm, setIdentityForm] = useState(emptyIdentityForm);
+  const [riskCustomer, setRiskCustomer] = useState<Customer | null>(null);
+  const [riskForm, setRiskForm] = useState({ riskStatus: 'normal' as Customer['riskStatus'], riskReason: '' });
+  const [riskOverrides, setRiskOverrides] = useState<CustomerRiskOverride[]>([]);
+  const [measurementCustomer, setMeasurementCustomer] = useState<Customer | null>(null);
+  const [measurementForm, setMeasurementForm] = useState(emptyMeasurementForm);
+  const [statementCustomer, setStatementCustomer] = useState<Customer | null>(null);
+  const [statementRange, setStatementRange] = useState({ dateFrom: '', dateTo: '' });
+  const [statement, setStatement] = useState<CustomerStatement | null>(null);
+  const [mergeTarget, setMergeTarget] = useState<Customer | null>(null);
+  const [mergeSourceIds, setMergeSourceIds] = useState<string[]>([]);
+  const [mergeSearch, setMergeSearch] = useState('');
 
+  const phoneTerm = phoneSearchTerm(searchTerm);
   const filteredCustomers = customers.filter(customer =>
-    customer.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    customer.phone.includes(searchTerm) ||
-    (customer.email && customer.email.toLowerCase().includes(searchTerm.toLowerCase()))
+    !!customer.archivedAt === showArchived && (
+      customer.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (!!phoneTerm && customer.phone.includes(phoneTerm)) ||
+      (customer.email && customer.email.toLowerCase().includes(searchTerm.toLowerCase()))
+    )
   );
 
+  const openCustomerModal = (customer?: Customer) => {
+    setEditingCustomer(customer ?? null);
+    setCustomerForm(customer ? {
+      name: customer.name,
+      phone: customer.phone,
+      email: customer.email || '',
+      address: customer.address || '',
+      notes: customer.notes || ''
+    } : emptyCustomerForm);
+    setShowCustomerModal(true);
+  };
+
+  const closeCustomerModal = () => {
+    setShowCustomerModal(false);
+    setEditingCustomer(null);
+  };
+
+  const handleSaveCustomer = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    try {
+      if (editingCustomer) {
+        await updateCustomer(editingCustomer.id, customerForm);
+      } else {
+        await addCustomer(customerForm);
+      }
+      closeCustomerModal();
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors de l\'enregistrement du client');
+    }
+  };
+
+  const handleArchive = async (customer: Customer) => {
+    const archived = !customer.archivedAt;
+    if (archived && !confirm(`Archiver ${customer.name} ? Son historique reste consultable.`)) return;
+
+    try {
+      await archiveCustomer(customer.id, archived);
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors de l\'archivage du client');
+    }
+  };
+
   const handleViewHistory = async (customer: Customer) => {
     setSelectedCustomer(customer);
     try {
@@ -44,16 +181,306 @@ export function CustomerManagement() {
     }
   };
 
-  const calculateCustomerStats = (history: { transactions: Transaction[]; rentals: Rental[]; payments: Payment[] }) => {
-    const totalSpent = history.transactions.reduce((sum, t) => sum + (t.amountPaid || t.totalAmount), 0) +
-                     history.rentals.reduce((sum, r) => sum + (r.amountPaid || r.totalAmount), 0);
+  const openIdentity = async (customer: Customer) => {
+    if (!user) return;
+
+    try {
+      const identity = await getCustomerIdentity(customer.id, user.id);
+      setCurrentIdentity(identity);
+      setIdentityForm(identity ? {
+        documentType: identity.documentType,
+        documentNumber: identity.documentNumber,
+        expiryDate: identity.expiryDate ? identity.expiryDate.toISOString().split('T')[0] : '',
+        scan: null
+      } : emptyIdentityForm);
+      setIdentityCustomer(customer);
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors du chargement de la pièce d\'identité');
+    }
+  };
+
+  const closeIdentity = () => {
+    setIdentityCustomer(null);
+    setCurrentIdentity(null);
+  };
+
+  const handleSaveIdentity = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!identityCustomer || !user) return;
+
+    try {
+      await saveCustomerIdentity({
+        customerId: identityCustomer.id,
+        documentType: identityForm.documentType,
+        documentNumber: identityForm.documentNumber.trim(),
+        expiryDate: identityForm.expiryDate ? new Date(identityForm.expiryDate) : undefined
+      }, { agentId: user.id, agentName: user.name }, identityForm.scan ?? undefined);
+      closeIdentity();
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors de l\'enregistrement de la pièce d\'identité');
+    }
+  };
+
+  const handleDeleteIdentity = async () => {
+    if (!identityCustomer || !user || !confirm('Supprimer la pièce d\'identité de ce client ?')) return;
+
+    try {
+      await deleteCustomerIdentity(identityCustomer.id, user.id);
+      closeIdentity();
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors de la suppression de la pièce d\'identité');
+    }
+  };
+
+  const handleViewScan = async () => {
+    if (!currentIdentity?.scanPath || !user) return;
+
+    try {
+      window.open(await getIdentityScanUrl(currentIdentity.customerId, user.id), '_blank');
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors de l\'ouverture du scan');
+    }
+  };
+
+  const handleViewInspectionPhoto = async (path: string) => {
+    try {
+      window.open(await getInspectionPhotoUrl(path), '_blank');
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors de l\'ouverture de la photo');
+    }
+  };
+
+  const openRisk = async (customer: Customer) => {
+    try {
+      setRiskOverrides(await getRiskOverrides(customer.id));
+      setRiskForm({ riskStatus: customer.riskStatus, riskReason: customer.riskReason || '' });
+      setRiskCustomer(customer);
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors du chargement des dérogations');
+    }
+  };
+
+  const applyRiskSuggestion = (customer: Customer) => {
+    const suggestion = suggestRiskStatus(customer, rentals, orders);
+    setRiskForm({ riskStatus: suggestion.status, riskReason: suggestion.reasons.join(', ') });
+  };
+
+  const handleSaveRisk = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!riskCustomer || !user) return;
+
+    if (riskForm.riskStatus !== 'normal' && !riskForm.riskReason.trim()) {
+      alert('Veuillez indiquer le motif');
+      return;
+    }
+
+    try {
+      await updateCustomerRisk(
+        riskCustomer.id,
+        { riskStatus: riskForm.riskStatus, riskReason: riskForm.riskReason.trim() || undefined },
+        { agentId: user.id, agentName: user.name }
+      );
+      setRiskCustomer(null);
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors de la mise à jour du statut du client');
+    }
+  };
+
+  const renderRiskSuggestion = (customer: Customer) => {
+    const suggestion = suggestRiskStatus(customer, rentals, orders);
+
+    return (
+      <div className="bg-gray-50 rounded-lg p-3 text-sm">
+        <div className="flex items-center justify-between">
+          <span className="text-gray-700">
+            Suggestion d'après l'historique :{' '}
+            <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${riskStatusColors[suggestion.status]}`}>
+              {riskStatusLabels[suggestion.status]}
+            </span>
+          </span>
+          {suggestion.status !== riskForm.riskStatus && (
+            <button
+              type="button"
+              onClick={() => applyRiskSuggestion(customer)}
+              className="text-xs text-blue-600 hover:text-blue-800"
+            >
+              Appliquer
+            </button>
+          )}
+        </div>
+        {suggestion.reasons.length > 0 && (
+          <ul className="mt-2 text-xs text-gray-600 list-disc list-inside">
+            {suggestion.reasons.map(reason => (
+              <li key={reason}>{reason}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  const openMeasurements = (customer: Customer) => {
+    setMeasurementForm({ ...emptyMeasurementForm, measuredAt: new Date().toISOString().split('T')[0] });
+    setMeasurementCustomer(customer);
+  };
+
+  const getMeasurementHistory = (customer: Customer) =>
+    customerMeasurements
+      .filter(measurement => measurement.customerId === customer.id)
+      .sort((a, b) => b.measuredAt.getTime() - a.measuredAt.getTime() || b.createdAt.getTime() - a.createdAt.getTime());
+
+  const handleSaveMeasurement = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!measurementCustomer) return;
+
+    const values = measurementKeys.reduce<Partial<Record<MeasurementKey, number>>>((result, key) => {
+      const value = measurementForm.values[key];
+      return value ? { ...result, [key]: Number(value) } : result;
+    }, {});
+
+    if (Object.keys(values).length === 0) {
+      alert('Veuillez renseigner au moins une mesure');
+      return;
+    }
+
+    try {
+      await addCustomerMeasurement({
+        customerId: measurementCustomer.id,
+        ...values,
+        notes: measurementForm.notes.trim() || undefined,
+        measuredAt: new Date(measurementForm.measuredAt),
+        recordedById: user?.id,
+        recordedByName: user?.name
+      });
+      setMeasurementForm({ ...emptyMeasurementForm, measuredAt: measurementForm.measuredAt });
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors de l\'enregistrement des mensurations');
+    }
+  };
+
+  const handleDeleteMeasurement = async (id: string) => {
+    if (!confirm('Supprimer ce relevé de mensurations ?')) return;
+
+    try {
+      await deleteCustomerMeasurement(id);
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors de la suppression des mensurations');
+    }
+  };
+
+  const openStatement = (customer: Customer) => {
+    const today = new Date();
+    setStatementRange({
+      dateFrom: new Date(today.getFullYear(), 0, 1).toISOString().split('T')[0],
+      dateTo: today.toISOString().split('T')[0]
+    });
+    setStatement(null);
+    setStatementCustomer(customer);
+  };
+
+  const handleBuildStatement = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!statementCustomer) return;
+
+    try {
+      const history = await getCustomerHistory(statementCustomer.phone);
+      const extensions = await Promise.all(history.rentals.map(rental => getRentalExtensions(rental.id)));
+      setStatement(buildCustomerStatement(
+        { orders: history.orders, rentals: history.rentals, payments: history.payments, extensions: extensions.flat() },
+        new Date(statementRange.dateFrom),
+        new Date(statementRange.dateTo)
+      ));
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors de l\'établissement du relevé');
+    }
+  };
+
+  const handleStatementPDF = () => {
+    if (!statementCustomer || !statement) return;
+
+    generateCustomerStatementPDF({
+      store: storeSettings,
+      statement,
+      customerName: statementCustomer.name,
+      customerPhone: formatPhone(statementCustomer.phone),
+      customerEmail: statementCustomer.email,
+      date: new Date(),
+      agentName: user?.name || 'Agent'
+    });
+  };
+
+  const handleStatementCSV = () => {
+    if (!statementCustomer || !statement) return;
+
+    downloadCSV(
+      `Releve_${statementCustomer.name.replace(/\s+/g, '_')}_${statementRange.dateTo}.csv`,
+      ['Date', 'Reçu', 'Opération', 'Débit (DA)', 'Crédit (DA)', 'Caution (DA)', 'Solde (DA)'],
+      [
+        [statement.dateFrom, '', 'Solde reporté', null, null, null, statement.openingBalance],
+        ...statement.entries.map(entry => [
+          entry.date,
+          entry.reference,
+          entry.label,
+          entry.debit || null,
+          entry.credit || null,
+          entry.deposit || null,
+          entry.balance
+        ])
+      ]
+    );
+  };
+
+  const openMerge = (customer: Customer) => {
+    setMergeTarget(customer);
+    setMergeSourceIds([]);
+    setMergeSearch('');
+  };
+
+  // Doublons probables (même nom) en tête, puis les clients correspondant à la recherche
+  const getMergeCandidates = (target: Customer) => {
+    const sameName = (customer: Customer) =>
+      customer.name.trim().toLowerCase() === target.name.trim().toLowerCase();
+    const term = mergeSearch.trim().toLowerCase();
+    const mergePhoneTerm = phoneSearchTerm(term);
+
+    return customers
+      .filter(customer => customer.id !== target.id)
+      .filter(customer =>
+        mergeSourceIds.includes(customer.id) ||
+        (term ? customer.name.toLowerCase().includes(term) || (!!mergePhoneTerm && customer.phone.includes(mergePhoneTerm)) : sameName(customer))
+      )
+      .sort((a, b) => Number(sameName(b)) - Number(sameName(a)) || a.name.localeCompare(b.name));
+  };
+
+  const toggleMergeSource = (id: string) => {
+    setMergeSourceIds(ids => ids.includes(id) ? ids.filter(sourceId => sourceId !== id) : [...ids, id]);
+  };
+
+  const handleMerge = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!mergeTarget || !user || mergeSourceIds.length === 0) return;
+
+    if (!confirm(`Fusionner ${mergeSourceIds.length} fiche(s) dans celle de ${mergeTarget.name} ? Les fiches fusionnées seront supprimées.`)) return;
+
+    try {
+      await mergeCustomers(mergeTarget.id, mergeSourceIds, user.id);
+      setMergeTarget(null);
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors de la fusion des clients');
+    }
+  };
+
+  const calculateCustomerStats = (history: { orders: Order[]; transactions: Transaction[]; rentals: Rental[]; payments: Payment[] }) => {
+    const activeOrders = history.orders.filter(o => o.status !== 'cancelled');
+
+    const totalSpent = activeOrders.reduce((sum, o) => sum + o.amountPaid, 0);
     
-    const totalTransactions = history.transactions.length + history.rentals.length;
+    const totalTransactions = activeOrders.length;
     
-    const pendingAmount = history.transactions.reduce((sum, t) => sum + (t.remainingAmount || 0), 0) +
+    const pendingAmount = activeOrders.reduce((sum, o) => sum + o.remainingAmount, 0) +
                          history.rentals.reduce((sum, r) => sum + (r.remainingAmount || 0), 0);
     
-    const activeRentals = history.rentals.filter(r => r.status === 'active').length;
+    const activeRentals = history.rentals.filter(r => r.status === 'booked' || r.status === 'picked_up' || r.status === 'overdue').length;
 
     return { totalSpent, totalTransactions, pendingAmount, activeRentals };
   };
@@ -68,9 +495,18 @@ export function CustomerManagement() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900">Gestion des Clients</h1>
-        <p className="text-gray-600 mt-2">Consultez la liste des clients et leur historique</p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Gestion des Clients</h1>
+          <p className="text-gray-600 mt-2">Gérez les fiches clients et consultez leur historique</p>
+        </div>
+        <button
+          onClick={() => openCustomerModal()}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Nouveau client</span>
+        </button>
       </div>
 
       {/* Search */}
@@ -85,9 +521,20 @@ export function CustomerManagement() {
             className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           />
         </div>
-        <p className="text-sm text-gray-600 mt-2">
-          {filteredCustomers.length} client(s) trouvé(s)
-        </p>
+        <div className="flex items-center justify-between mt-2">
+          <p className="text-sm text-gray-600">
+            {filteredCustomers.length} client(s) {showArchived ? 'archivé(s)' : 'trouvé(s)'}
+          </p>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Clients archivés</span>
+          </label>
+        </div>
       </div>
 
       {/* Customers Grid */}
@@ -105,19 +552,76 @@ export function CustomerManagement() {
                     <p className="text-sm text-gray-600">Client depuis {customer.createdAt.toLocaleDateString('fr-FR')}</p>
                   </div>
                 </div>
-                <button
-                  onClick={() => handleViewHistory(customer)}
-                  className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
-                  title="Voir l'historique"
-                >
-                  <Eye className="w-4 h-4" />
-                </button>
+                <div className="flex items-center">
+                  <button
+                    onClick={() => openCustomerModal(customer)}
+                    className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                    title="Modifier"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleArchive(customer)}
+                    className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                    title={customer.archivedAt ? 'Désarchiver' : 'Archiver'}
+                  >
+                    {customer.archivedAt ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => openStatement(customer)}
+                    className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                    title="Relevé de compte"
+                  >
+                    <FileText className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => openMeasurements(customer)}
+                    className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                    title="Mensurations"
+                  >
+                    <Ruler className="w-4 h-4" />
+                  </button>
+                  {isAdmin && (
+                    <button
+                      onClick={() => openRisk(customer)}
+                      className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                      title="Statut de risque"
+                    >
+                      <ShieldAlert className="w-4 h-4" />
+                    </button>
+                  )}
+                  {isAdmin && (
+                    <button
+                      onClick={() => openMerge(customer)}
+                      className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                      title="Fusionner des doublons"
+                    >
+                      <Merge className="w-4 h-4" />
+                    </button>
+                  )}
+                  {isAdmin && (
+                    <button
+                      onClick={() => openIdentity(customer)}
+                      className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                      title="Pièce d'identité"
+                    >
+                      <Contact className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleViewHistory(customer)}
+                    className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                    title="Voir l'historique"
+                  >
+                    <Eye className="w-4 h-4" />
+                  </button>
+                </div>
               </div>
 
               <div className="space-y-3">
                 <div className="flex items-center space-x-2 text-sm text-gray-600">
                   <Phone className="w-4 h-4" />
-                  <span>{customer.phone}</span>
+                  <span>{formatPhone(customer.phone)}</span>
                 </div>
                 
                 {customer.email && (
@@ -133,6 +637,24 @@ export function CustomerManagement() {
                     <span className="truncate">{customer.address}</span>
                   </div>
                 )}
+
+                {customer.riskStatus !== 'normal' && (
+                  <div className="text-sm">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${riskStatusColors[customer.riskStatus]}`}>
+                      {riskStatusLabels[customer.riskStatus]}
+                    </span>
+                    {customer.riskReason && (
+                      <p className="text-xs text-gray-600 mt-1">{customer.riskReason}</p>
+                    )}
+                  </div>
+                )}
+
+                {customer.hasIdentity && (
+                  <div className="flex items-center space-x-2 text-sm text-green-700">
+                    <ShieldCheck className="w-4 h-4" />
+                    <span>Pièce d'identité enregistrée</span>
+                  </div>
+                )}
               </div>
 
               {customer.notes && (
@@ -162,7 +684,7 @@ export function CustomerManagement() {
                   <h2 className="text-xl font-semibold text-gray-900">
                     Historique de {selectedCustomer.name}
                   </h2>
-                  <p className="text-gray-600">{selectedCustomer.phone}</p>
+                  <p className="text-gray-600">{formatPhone(selectedCustomer.phone)}</p>
                 </div>
                 <button
                   onClick={() => {
@@ -200,7 +722,7 @@ export function CustomerManagement() {
                         <div className="flex items-center space-x-2">
                           <Package className="w-5 h-5 text-blue-600" />
                           <div>
-                            <p className="text-sm text-blue-600">Transactions</p>
+                            <p className="text-sm text-blue-600">Commandes</p>
                             <p className="font-semibold text-blue-800">{stats.totalTransactions}</p>
                           </div>
                         </div>
@@ -234,20 +756,20 @@ export function CustomerManagement() {
 
               {/* Transactions History */}
               <div className="space-y-6">
-                {/* Ventes */}
-                {customerHistory.transactions.length > 0 && (
+                {/* Commandes */}
+                {customerHistory.orders.length > 0 && (
                   <div>
                     <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
                       <Package className="w-5 h-5 mr-2" />
-                      Ventes ({customerHistory.transactions.length})
+                      Commandes ({customerHistory.orders.length})
                     </h3>
                     <div className="overflow-x-auto">
                       <table className="w-full text-sm">
                         <thead className="bg-gray-50">
                           <tr>
                             <th className="px-4 py-2 text-left">Date</th>
-                            <th className="px-4 py-2 text-left">Produit</th>
-                            <th className="px-4 py-2 text-left">Quantité</th>
+                            <th className="px-4 py-2 text-left">N° Reçu</th>
+                            <th className="px-4 py-2 text-left">Articles</th>
                             <th className="px-4 py-2 text-left">Montant</th>
                             <th className="px-4 py-2 text-left">Payé</th>
                             <th className="px-4 py-2 text-left">Restant</th>
@@ -255,30 +777,37 @@ export function CustomerManagement() {
                           </tr>
                         </thead>
                         <tbody className="divide-y divide-gray-100">
-                          {customerHistory.transactions.map((transaction) => (
-                            <tr key={transaction.id}>
+                          {customerHistory.orders.map((order) => (
+                            <tr key={order.id}>
+                              <td className="px-4 py-2">
+                                {order.createdAt.toLocaleDateString('fr-FR')}
+                              </td>
+                              <td className="px-4 py-2">{order.receiptNumber}</td>
                               <td className="px-4 py-2">
-                                {transaction.createdAt.toLocaleDateString('fr-FR')}
+                                {order.items.map(line => (
+                                  <div key={line.id}>
+                                    {line.quantity}x {line.productName}
+                                    <span className="text-gray-500"> ({line.type === 'sale' ? 'Vente' : 'Location'})</span>
+                                  </div>
+                                ))}
                               </td>
-                              <td className="px-4 py-2">{transaction.productName}</td>
-                              <td className="px-4 py-2">{transaction.quantity}</td>
                               <td className="px-4 py-2">
-                                {transaction.totalAmount.toLocaleString('fr-FR')} DA
+                                {order.totalAmount.toLocaleString('fr-FR')} DA
                               </td>
                               <td className="px-4 py-2">
-                                {(transaction.amountPaid || 0).toLocaleString('fr-FR')} DA
+                                {order.amountPaid.toLocaleString('fr-FR')} DA
                               </td>
                               <td className="px-4 py-2">
-                                {(transaction.remainingAmount || 0).toLocaleString('fr-FR')} DA
+                                {order.remainingAmount.toLocaleString('fr-FR')} DA
                               </td>
                               <td className="px-4 py-2">
                                 <span className={`px-2 py-1 text-xs rounded-full ${
-                                  transaction.paymentStatus === 'completed' ? 'bg-green-100 text-green-800' :
-                                  transaction.paymentStatus === 'partial' ? 'bg-yellow-100 text-yellow-800' :
+                                  order.paymentStatus === 'completed' ? 'bg-green-100 text-green-800' :
+                                  order.paymentStatus === 'partial' ? 'bg-yellow-100 text-yellow-800' :
                                   'bg-red-100 text-red-800'
                                 }`}>
-                                  {transaction.paymentStatus === 'completed' ? 'Payé' :
-                                   transaction.paymentStatus === 'partial' ? 'Partiel' : 'En attente'}
+                                  {order.paymentStatus === 'completed' ? 'Payé' :
+                                   order.paymentStatus === 'partial' ? 'Partiel' : 'En attente'}
                                 </span>
                               </td>
                             </tr>
@@ -307,6 +836,7 @@ export function CustomerManagement() {
                             <th className="px-4 py-2 text-left">Payé</th>
                             <th className="px-4 py-2 text-left">Restant</th>
                             <th className="px-4 py-2 text-left">Statut</th>
+                            <th className="px-4 py-2 text-left">État au retour</th>
                           </tr>
                         </thead>
                         <tbody className="divide-y divide-gray-100">
@@ -325,23 +855,67 @@ export function CustomerManagement() {
                                 {rental.totalAmount.toLocaleString('fr-FR')} DA
                               </td>
                               <td className="px-4 py-2">
-                                {(rental.amountPaid || 0).toLocaleString('fr-FR')} DA
+                                {rental.amountPaid !== undefined ? (
+                                  `${rental.amountPaid.toLocaleString('fr-FR')} DA`
+                                ) : (
+                                  <span className="text-gray-400" title="Réglée avec la commande">-</span>
+                                )}
                               </td>
                               <td className="px-4 py-2">
                                 {(rental.remainingAmount || 0).toLocaleString('fr-FR')} DA
                               </td>
                               <td className="px-4 py-2">
                                 <span className={`px-2 py-1 text-xs rounded-full ${
-                                  rental.status === 'active' ? 'bg-green-100 text-green-800' :
+                                  rental.status === 'booked' ? 'bg-yellow-100 text-yellow-800' :
+                                  rental.status === 'picked_up' ? 'bg-green-100 text-green-800' :
                                   rental.status === 'returned' ? 'bg-blue-100 text-blue-800' :
                                   rental.status === 'cancelled' ? 'bg-gray-100 text-gray-800' :
                                   'bg-red-100 text-red-800'
                                 }`}>
-                                  {rental.status === 'active' ? 'Active' :
+                                  {rental.status === 'booked' ? 'Réservée' :
+                                   rental.status === 'picked_up' ? 'Sortie' :
                                    rental.status === 'returned' ? 'Retournée' :
                                    rental.status === 'cancelled' ? 'Annulée' : 'En retard'}
                                 </span>
                               </td>
+                              <td className="px-4 py-2">
+                                {rental.inspection ? (
+                                  <div className="space-y-1">
+                                    {rental.inspection.checklist.some(check => !check.ok) ? (
+                                      <div className="text-red-700">
+                                        {rental.inspection.checklist.filter(check => !check.ok).map(check => check.item).join(', ')}
+                                      </div>
+                                    ) : (
+                                      <div className="text-green-700">Conforme</div>
+                                    )}
+                                    {rental.inspection.notes && (
+                                      <div className="text-gray-500">{rental.inspection.notes}</div>
+                                    )}
+                                    {(rental.damageCharge || 0) > 0 && (
+                                      <div className="text-red-600 font-medium">
+                                        Dégâts: {rental.damageCharge?.toLocaleString('fr-FR')} DA
+                                      </div>
+                                    )}
+                                    {rental.inspection.photos.length > 0 && (
+                                      <div className="flex space-x-1">
+                                        {rental.inspection.photos.map((photo, index) => (
+                                          <button
+                                            key={photo}
+                                            type="button"
+                                            onClick={() => handleViewInspectionPhoto(photo)}
+                                            className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                                            title={`Photo du retour ${index + 1}`}
+                                          >
+                                            <Camera className="w-4 h-4" />
+                                          </button>
+                                        ))}
+                                      </div>
+                                    )}
+                                  </div>
+                                ) : (
+                                  <span className="text-gray-400">-</span>
+                                )}
+                              </td>
                             </tr>
                           ))}
                         </tbody>
@@ -362,6 +936,7 @@ export function CustomerManagement() {
                         <thead className="bg-gray-50">
                           <tr>
                             <th className="px-4 py-2 text-left">Date</th>
+                            <th className="px-4 py-2 text-left">Type</th>
                             <th className="px-4 py-2 text-left">Montant Payé</th>
                             <th className="px-4 py-2 text-left">Méthode</th>
                             <th className="px-4 py-2 text-left">Agent</th>
@@ -375,6 +950,13 @@ export function CustomerManagement() {
                                 {payment.paymentDate.toLocaleDateString('fr-FR')}
                               </td>
                               <td className="px-4 py-2">
+                                {payment.paymentType === 'deposit' ? 'Caution' :
+                                 payment.paymentType === 'deposit_refund' ? 'Caution restituée' :
+                                 payment.paymentType === 'deposit_retained' ? 'Retenue sur caution' :
+                                 payment.paymentType === 'late_fee' ? 'Pénalité de retard' : 'Paiement'}
+                              </td>
+                              <td className={`px-4 py-2 ${payment.paymentType === 'deposit_refund' ? 'text-red-600' : ''}`}>
+                                {payment.paymentType === 'deposit_refund' && '-'}
                                 {payment.amountPaid.toLocaleString('fr-FR')} DA
                               </td>
                               <td className="px-4 py-2 capitalize">{payment.paymentMethod}</td>
@@ -388,7 +970,7 @@ export function CustomerManagement() {
                   </div>
                 )}
 
-                {customerHistory.transactions.length === 0 && 
+                {customerHistory.orders.length === 0 && 
                  customerHistory.rentals.length === 0 && 
                  customerHistory.payments.length === 0 && (
                   <div className="text-center py-8">
@@ -401,6 +983,608 @@ export function CustomerManagement() {
           </div>
         </div>
       )}
+
+      {/* Customer Modal */}
+      {showCustomerModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100 flex items-start justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {editingCustomer ? 'Modifier le client' : 'Nouveau client'}
+              </h2>
+              <button onClick={closeCustomerModal} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSaveCustomer} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Nom</label>
+                <input
+                  type="text"
+                  required
+                  value={customerForm.name}
+                  onChange={(e) => setCustomerForm({ ...customerForm, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Téléphone</label>
+                <input
+                  type="tel"
+                  required
+                  value={customerForm.phone}
+                  onChange={(e) => setCustomerForm({ ...customerForm, phone: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+                <input
+                  type="email"
+                  value={customerForm.email}
+                  onChange={(e) => setCustomerForm({ ...customerForm, email: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Adresse</label>
+                <input
+                  type="text"
+                  value={customerForm.address}
+                  onChange={(e) => setCustomerForm({ ...customerForm, address: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+                <textarea
+                  rows={3}
+                  value={customerForm.notes}
+                  onChange={(e) => setCustomerForm({ ...customerForm, notes: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="flex space-x-4 pt-4">
+                <button
+                  type="button"
+                  onClick={closeCustomerModal}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Enregistrer
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Risk Modal (administrateurs) */}
+      {riskCustomer && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100 flex items-start justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Statut de risque</h2>
+                <p className="text-sm text-gray-600">{riskCustomer.name} · {riskCustomer.phone}</p>
+              </div>
+              <button onClick={() => setRiskCustomer(null)} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSaveRisk} className="p-6 space-y-4">
+              {renderRiskSuggestion(riskCustomer)}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Statut</label>
+                <select
+                  value={riskForm.riskStatus}
+                  onChange={(e) => setRiskForm({ ...riskForm, riskStatus: e.target.value as Customer['riskStatus'] })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {Object.entries(riskStatusLabels).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Motif</label>
+                <textarea
+                  rows={3}
+                  value={riskForm.riskReason}
+                  onChange={(e) => setRiskForm({ ...riskForm, riskReason: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              {riskCustomer.riskUpdatedAt && (
+                <p className="text-xs text-gray-500">
+                  Modifié le {riskCustomer.riskUpdatedAt.toLocaleDateString('fr-FR')}
+                  {riskCustomer.riskUpdatedByName && ` par ${riskCustomer.riskUpdatedByName}`}
+                </p>
+              )}
+
+              {riskOverrides.length > 0 && (
+                <div className="border-t border-gray-100 pt-4">
+                  <h3 className="text-sm font-medium text-gray-900 mb-2">Dérogations accordées</h3>
+                  <div className="space-y-2">
+                    {riskOverrides.map(override => (
+                      <div key={override.id} className="text-xs text-gray-600">
+                        <span className="font-medium">{override.createdAt.toLocaleDateString('fr-FR')}</span>
+                        {override.adminName && ` · ${override.adminName}`} : {override.reason}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex space-x-4 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setRiskCustomer(null)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Enregistrer
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Statement Modal */}
+      {statementCustomer && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100 flex items-start justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Relevé de compte</h2>
+                <p className="text-sm text-gray-600">{statementCustomer.name} · {formatPhone(statementCustomer.phone)}</p>
+              </div>
+              <button onClick={() => setStatementCustomer(null)} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleBuildStatement} className="p-6 border-b border-gray-100 grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Du</label>
+                <input
+                  type="date"
+                  required
+                  value={statementRange.dateFrom}
+                  onChange={(e) => setStatementRange({ ...statementRange, dateFrom: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Au</label>
+                <input
+                  type="date"
+                  required
+                  min={statementRange.dateFrom}
+                  value={statementRange.dateTo}
+                  onChange={(e) => setStatementRange({ ...statementRange, dateTo: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div className="flex items-end">
+                <button
+                  type="submit"
+                  className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Afficher le relevé
+                </button>
+              </div>
+            </form>
+
+            {statement && (
+              <div className="p-6 space-y-4">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left">Date</th>
+                        <th className="px-4 py-2 text-left">Reçu</th>
+                        <th className="px-4 py-2 text-left">Opération</th>
+                        <th className="px-4 py-2 text-right">Débit</th>
+                        <th className="px-4 py-2 text-right">Crédit</th>
+                        <th className="px-4 py-2 text-right">Solde</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      <tr className="text-gray-600 italic">
+                        <td className="px-4 py-2">{statement.dateFrom.toLocaleDateString('fr-FR')}</td>
+                        <td className="px-4 py-2"></td>
+                        <td className="px-4 py-2">Solde reporté</td>
+                        <td className="px-4 py-2"></td>
+                        <td className="px-4 py-2"></td>
+                        <td className="px-4 py-2 text-right">{statement.openingBalance.toLocaleString('fr-FR')} DA</td>
+                      </tr>
+                      {statement.entries.map((entry, index) => (
+                        <tr key={index}>
+                          <td className="px-4 py-2 whitespace-nowrap">{entry.date.toLocaleDateString('fr-FR')}</td>
+                          <td className="px-4 py-2 whitespace-nowrap">{entry.reference}</td>
+                          <td className="px-4 py-2">
+                            {entry.label}
+                            {entry.deposit !== 0 && (
+                              <span className="block text-xs text-gray-500">
+                                Caution : {entry.deposit > 0 ? '+' : ''}{entry.deposit.toLocaleString('fr-FR')} DA
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-right whitespace-nowrap">
+                            {entry.debit > 0 && `${entry.debit.toLocaleString('fr-FR')} DA`}
+                          </td>
+                          <td className="px-4 py-2 text-right whitespace-nowrap text-green-600">
+                            {entry.credit > 0 && `${entry.credit.toLocaleString('fr-FR')} DA`}
+                          </td>
+                          <td className="px-4 py-2 text-right whitespace-nowrap font-medium">
+                            {entry.balance.toLocaleString('fr-FR')} DA
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="flex items-center justify-between border-t border-gray-100 pt-4">
+                  <div className="text-sm text-gray-600 space-y-1">
+                    <p>Total débit : {statement.totalDebit.toLocaleString('fr-FR')} DA · Total crédit : {statement.totalCredit.toLocaleString('fr-FR')} DA</p>
+                    {statement.depositHeld > 0 && <p>Caution détenue : {statement.depositHeld.toLocaleString('fr-FR')} DA</p>}
+                    <p className={`text-base font-semibold ${statement.closingBalance > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      {statement.closingBalance > 0 ? 'Reste à payer' : 'Solde'} : {statement.closingBalance.toLocaleString('fr-FR')} DA
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={handleStatementCSV}
+                      className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+                    >
+                      <FileSpreadsheet className="w-4 h-4" />
+                      <span>CSV</span>
+                    </button>
+                    <button
+                      onClick={handleStatementPDF}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+                    >
+                      <Download className="w-4 h-4" />
+                      <span>PDF</span>
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Measurements Modal */}
+      {measurementCustomer && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100 flex items-start justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Mensurations</h2>
+                <p className="text-sm text-gray-600">{measurementCustomer.name} · {formatPhone(measurementCustomer.phone)}</p>
+              </div>
+              <button onClick={() => setMeasurementCustomer(null)} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSaveMeasurement} className="p-6 space-y-4 border-b border-gray-100">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {measurementKeys.map(key => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {measurementLabels[key]} ({measurementUnits[key]})
+                    </label>
+                    <input
+                      type="number"
+                      step="0.5"
+                      min="0"
+                      value={measurementForm.values[key] ?? ''}
+                      onChange={(e) => setMeasurementForm({
+                        ...measurementForm,
+                        values: { ...measurementForm.values, [key]: e.target.value }
+                      })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Relevé le</label>
+                  <input
+                    type="date"
+                    required
+                    value={measurementForm.measuredAt}
+                    onChange={(e) => setMeasurementForm({ ...measurementForm, measuredAt: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+                <input
+                  type="text"
+                  placeholder="Retouches, essayage..."
+                  value={measurementForm.notes}
+                  onChange={(e) => setMeasurementForm({ ...measurementForm, notes: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Ajouter le relevé</span>
+                </button>
+              </div>
+            </form>
+
+            <div className="p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Historique des relevés</h3>
+              {getMeasurementHistory(measurementCustomer).length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                        {measurementKeys.map(key => (
+                          <th key={key} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                            {measurementLabels[key]}
+                          </th>
+                        ))}
+                        <th className="px-4 py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {getMeasurementHistory(measurementCustomer).map(measurement => (
+                        <tr key={measurement.id}>
+                          <td className="px-4 py-2 whitespace-nowrap">
+                            <p className="text-gray-900">{measurement.measuredAt.toLocaleDateString('fr-FR')}</p>
+                            {measurement.recordedByName && (
+                              <p className="text-xs text-gray-500">{measurement.recordedByName}</p>
+                            )}
+                            {measurement.notes && (
+                              <p className="text-xs text-gray-500 italic">{measurement.notes}</p>
+                            )}
+                          </td>
+                          {measurementKeys.map(key => {
+                            const value = measurement[key];
+                            return (
+                              <td key={key} className="px-4 py-2 whitespace-nowrap text-gray-900">
+                                {value !== undefined ? formatMeasurement(key, value) : '—'}
+                              </td>
+                            );
+                          })}
+                          <td className="px-4 py-2 text-right">
+                            <button
+                              onClick={() => handleDeleteMeasurement(measurement.id)}
+                              className="text-gray-400 hover:text-red-600 transition-colors"
+                              title="Supprimer"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Aucune mensuration relevée</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Merge Modal (administrateurs) */}
+      {mergeTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100 flex items-start justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Fusionner des doublons</h2>
+                <p className="text-sm text-gray-600">Fiche conservée : {mergeTarget.name} · {formatPhone(mergeTarget.phone)}</p>
+              </div>
+              <button onClick={() => setMergeTarget(null)} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleMerge} className="p-6 space-y-4">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                <input
+                  type="text"
+                  placeholder="Nom ou téléphone du doublon..."
+                  value={mergeSearch}
+                  onChange={(e) => setMergeSearch(e.target.value)}
+                  className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="border border-gray-100 rounded-lg divide-y divide-gray-100 max-h-64 overflow-y-auto">
+                {getMergeCandidates(mergeTarget).map(customer => (
+                  <label key={customer.id} className="flex items-center space-x-3 p-3 hover:bg-gray-50 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={mergeSourceIds.includes(customer.id)}
+                      onChange={() => toggleMergeSource(customer.id)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <div className="text-sm">
+                      <p className="font-medium text-gray-900">{customer.name}</p>
+                      <p className="text-gray-600">
+                        {formatPhone(customer.phone)} · client depuis {customer.createdAt.toLocaleDateString('fr-FR')}
+                      </p>
+                    </div>
+                  </label>
+                ))}
+
+                {getMergeCandidates(mergeTarget).length === 0 && (
+                  <p className="p-3 text-sm text-gray-500">Aucun autre client à ce nom : recherchez le doublon</p>
+                )}
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Commandes, locations et paiements des fiches cochées passent sur cette fiche, qui reprend leurs coordonnées manquantes.
+              </p>
+
+              <div className="flex space-x-4 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setMergeTarget(null)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  disabled={mergeSourceIds.length === 0}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
+                >
+                  Fusionner
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Identity Modal (administrateurs) */}
+      {identityCustomer && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100 flex items-start justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Pièce d'identité</h2>
+                <p className="text-sm text-gray-600">{identityCustomer.name} · {identityCustomer.phone}</p>
+              </div>
+              <button onClick={closeIdentity} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSaveIdentity} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Type de document</label>
+                <select
+                  value={identityForm.documentType}
+                  onChange={(e) => setIdentityForm({ ...identityForm, documentType: e.target.value as CustomerIdentity['documentType'] })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {Object.entries(documentTypeLabels).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Numéro</label>
+                <input
+                  type="text"
+                  required
+                  value={identityForm.documentNumber}
+                  onChange={(e) => setIdentityForm({ ...identityForm, documentNumber: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Date d'expiration</label>
+                <input
+                  type="date"
+                  value={identityForm.expiryDate}
+                  onChange={(e) => setIdentityForm({ ...identityForm, expiryDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                {currentIdentity?.expiryDate && currentIdentity.expiryDate < new Date() && (
+                  <p className="text-xs text-red-600 mt-1">Document expiré</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Scan du document</label>
+                <input
+                  type="file"
+                  accept="image/*,application/pdf"
+                  onChange={(e) => setIdentityForm({ ...identityForm, scan: e.target.files?.[0] ?? null })}
+                  className="w-full text-sm text-gray-600"
+                />
+                {currentIdentity?.scanPath && (
+                  <button
+                    type="button"
+                    onClick={handleViewScan}
+                    className="text-xs text-blue-600 hover:text-blue-800 mt-1"
+                  >
+                    Voir le scan enregistré
+                  </button>
+                )}
+              </div>
+
+              {currentIdentity && (
+                <p className="text-xs text-gray-500">
+                  Enregistrée le {currentIdentity.updatedAt.toLocaleDateString('fr-FR')}
+                  {currentIdentity.recordedByName && ` par ${currentIdentity.recordedByName}`}
+                </p>
+              )}
+
+              <div className="flex space-x-4 pt-4">
+                {currentIdentity && (
+                  <button
+                    type="button"
+                    onClick={handleDeleteIdentity}
+                    className="px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                    title="Supprimer"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={closeIdentity}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Enregistrer
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -10,7 +10,9 @@ import {
   User,
   Users,
   Calendar,
-  UserCheck
+  UserCheck,
+  Wallet,
+  Wrench
 } from 'lucide-react';
 
 interface LayoutProps {
@@ -27,8 +29,10 @@ export function Layout({ children, currentPage, onPageChange }: LayoutProps) {
     { id: 'pos', name: 'Point de Vente', icon: ShoppingBag, adminOnly: false },
     { id: 'products', name: 'Produits', icon: Package, adminOnly: true },
     { id: 'rentals', name: 'Locations', icon: Calendar, adminOnly: false },
+    { id: 'maintenance', name: 'Entretien', icon: Wrench, adminOnly: false },
     { id: 'transactions', name: 'Historique', icon: Receipt, adminOnly: false },
     { id: 'customers', name: 'Clients', icon: UserCheck, adminOnly: false },
+    { id: 'receivables', name: 'Créances', icon: Wallet, adminOnly: false },
     { id: 'users', name: 'Utilisateurs', icon: Users, adminOnly: true },
     { id: 'settings', name: 'Paramètres', icon: Settings, adminOnly: true },
   ];
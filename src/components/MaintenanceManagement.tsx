@@ -0,0 +1,504 @@
+import React, { useState } from 'react';
+import { useStore } from '../context/StoreContext';
+import { useAuth } from '../context/AuthContext';
+import {
+  Wrench,
+  Plus,
+  AlertTriangle,
+  CheckCircle,
+  MapPin,
+  Package
+} from 'lucide-react';
+import { MaintenanceTicket } from '../types';
+
+const ticketTypeLabels: Record<MaintenanceTicket['ticketType'], string> = {
+  cleaning: 'Nettoyage',
+  alteration: 'Retouche',
+  repair: 'Réparation'
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export function MaintenanceManagement() {
+  const { products, productUnits, maintenanceTickets, openMaintenanceTicket, closeMaintenanceTicket, loading } = useStore();
+  const { user } = useAuth();
+  const [showModal, setShowModal] = useState(false);
+  const [ticketForm, setTicketForm] = useState({
+    productId: '',
+    unitId: '',
+    ticketType: 'cleaning' as MaintenanceTicket['ticketType'],
+    vendor: '',
+    sentDate: today(),
+    expectedReturnDate: today(),
+    cost: 0,
+    notes: ''
+  });
+  const [closingTicket, setClosingTicket] = useState<MaintenanceTicket | null>(null);
+  const [closeForm, setCloseForm] = useState({ returnedDate: today(), cost: 0 });
+
+  const openTickets = maintenanceTickets.filter(ticket => ticket.status === 'open');
+  const closedTickets = maintenanceTickets.filter(ticket => ticket.status === 'closed');
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+  const isLate = (ticket: MaintenanceTicket) => new Date(ticket.expectedReturnDate) < startOfToday;
+  const lateTickets = openTickets.filter(isLate);
+  const totalCost = closedTickets.reduce((sum, ticket) => sum + ticket.cost, 0);
+  const vendors = [...new Set(maintenanceTickets.map(ticket => ticket.vendor))];
+
+  const openNewTicket = () => {
+    setTicketForm({
+      productId: '',
+      unitId: '',
+      ticketType: 'cleaning',
+      vendor: '',
+      sentDate: today(),
+      expectedReturnDate: today(),
+      cost: 0,
+      notes: ''
+    });
+    setShowModal(true);
+  };
+
+  const handleOpenTicket = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!ticketForm.productId || !ticketForm.vendor.trim()) return;
+
+    if (ticketForm.expectedReturnDate < ticketForm.sentDate) {
+      alert('La date de retour prévue doit suivre la date d\'envoi');
+      return;
+    }
+
+    try {
+      await openMaintenanceTicket({
+        productId: ticketForm.productId,
+        unitId: ticketForm.unitId || undefined,
+        ticketType: ticketForm.ticketType,
+        vendor: ticketForm.vendor.trim(),
+        sentDate: new Date(ticketForm.sentDate),
+        expectedReturnDate: new Date(ticketForm.expectedReturnDate),
+        cost: Math.max(0, ticketForm.cost),
+        notes: ticketForm.notes.trim() || undefined,
+        agentId: user?.id,
+        agentName: user?.name
+      });
+      setShowModal(false);
+    } catch (error) {
+      console.error('Erreur lors de l\'envoi en entretien:', error);
+      // Message de la base, ex. exemplaire réservé pendant la période
+      alert((error as { message?: string })?.message || 'Erreur lors de l\'envoi en entretien');
+    }
+  };
+
+  const openClosing = (ticket: MaintenanceTicket) => {
+    setClosingTicket(ticket);
+    setCloseForm({ returnedDate: today(), cost: ticket.cost });
+  };
+
+  const handleCloseTicket = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!closingTicket) return;
+
+    try {
+      await closeMaintenanceTicket(closingTicket.id, {
+        returnedDate: new Date(closeForm.returnedDate),
+        cost: Math.max(0, closeForm.cost)
+      });
+      setClosingTicket(null);
+    } catch (error) {
+      console.error('Erreur lors de la clôture du ticket:', error);
+      alert('Erreur lors de la clôture du ticket');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Entretien</h1>
+          <p className="text-gray-600 mt-2">Nettoyage, retouches et réparations des articles</p>
+        </div>
+        <button
+          onClick={openNewTicket}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Envoyer en entretien</span>
+        </button>
+      </div>
+
+      {/* Statistiques rapides */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">En Entretien</p>
+              <p className="text-2xl font-bold text-purple-600 mt-2">{openTickets.length}</p>
+            </div>
+            <div className="p-3 bg-purple-100 rounded-lg">
+              <Wrench className="w-6 h-6 text-purple-600" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Retour en Retard</p>
+              <p className="text-2xl font-bold text-red-600 mt-2">{lateTickets.length}</p>
+            </div>
+            <div className="p-3 bg-red-100 rounded-lg">
+              <AlertTriangle className="w-6 h-6 text-red-600" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Coût d'Entretien</p>
+              <p className="text-2xl font-bold text-gray-900 mt-2">{totalCost.toLocaleString('fr-FR')} DA</p>
+            </div>
+            <div className="p-3 bg-gray-100 rounded-lg">
+              <Package className="w-6 h-6 text-gray-600" />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* En entretien */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+        <div className="p-6 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-900">En entretien</h2>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Article
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Type
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Chez
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Période
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Coût estimé
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {openTickets.map(ticket => (
+                <tr key={ticket.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{ticket.productName}</div>
+                    <div className="text-xs text-gray-500">
+                      {ticket.unitCode ? `Exemplaire : ${ticket.unitCode}` : 'Produit entier'}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {ticketTypeLabels[ticket.ticketType]}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900 flex items-center">
+                      <MapPin className="w-3 h-3 mr-1" />
+                      {ticket.vendor}
+                    </div>
+                    {ticket.notes && (
+                      <div className="text-xs text-gray-500">{ticket.notes}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900">
+                      Envoyé le {new Date(ticket.sentDate).toLocaleDateString('fr-FR')}
+                    </div>
+                    <div className={`text-sm ${isLate(ticket) ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                      Retour prévu le {new Date(ticket.expectedReturnDate).toLocaleDateString('fr-FR')}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {ticket.cost.toLocaleString('fr-FR')} DA
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <button
+                      onClick={() => openClosing(ticket)}
+                      className="text-green-600 hover:text-green-900 transition-colors"
+                      title="Article récupéré"
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {openTickets.length === 0 && (
+          <div className="text-center py-12">
+            <Wrench className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Aucun article en entretien</p>
+          </div>
+        )}
+      </div>
+
+      {/* Historique */}
+      {closedTickets.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+          <div className="p-6 border-b border-gray-100">
+            <h2 className="text-lg font-semibold text-gray-900">Historique</h2>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Article</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Chez</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Envoi</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Retour</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Coût</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {closedTickets.map(ticket => (
+                  <tr key={ticket.id}>
+                    <td className="px-6 py-3">
+                      {ticket.productName}
+                      {ticket.unitCode && <span className="text-gray-500"> - {ticket.unitCode}</span>}
+                    </td>
+                    <td className="px-6 py-3">{ticketTypeLabels[ticket.ticketType]}</td>
+                    <td className="px-6 py-3">{ticket.vendor}</td>
+                    <td className="px-6 py-3">{new Date(ticket.sentDate).toLocaleDateString('fr-FR')}</td>
+                    <td className="px-6 py-3">
+                      {ticket.returnedDate ? new Date(ticket.returnedDate).toLocaleDateString('fr-FR') : '-'}
+                    </td>
+                    <td className="px-6 py-3">{ticket.cost.toLocaleString('fr-FR')} DA</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* New Ticket Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100">
+              <h2 className="text-xl font-semibold text-gray-900">Envoyer en entretien</h2>
+              <p className="text-sm text-gray-600">L'exemplaire est bloqué à la location jusqu'au retour prévu</p>
+            </div>
+
+            <form onSubmit={handleOpenTicket} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Produit *</label>
+                <select
+                  required
+                  value={ticketForm.productId}
+                  onChange={(e) => setTicketForm({ ...ticketForm, productId: e.target.value, unitId: '' })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Sélectionner un produit</option>
+                  {products.map(product => (
+                    <option key={product.id} value={product.id}>
+                      {product.name} - {product.size} ({product.color})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {ticketForm.productId && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Exemplaire</label>
+                  <select
+                    value={ticketForm.unitId}
+                    onChange={(e) => setTicketForm({ ...ticketForm, unitId: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Produit entier (bloque tous les exemplaires)</option>
+                    {productUnits
+                      .filter(unit => unit.productId === ticketForm.productId && unit.status === 'active')
+                      .map(unit => (
+                        <option key={unit.id} value={unit.id}>{unit.unitCode}</option>
+                      ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+                  <select
+                    value={ticketForm.ticketType}
+                    onChange={(e) => setTicketForm({ ...ticketForm, ticketType: e.target.value as MaintenanceTicket['ticketType'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {Object.entries(ticketTypeLabels).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Prestataire *</label>
+                  <input
+                    type="text"
+                    required
+                    list="maintenance-vendors"
+                    value={ticketForm.vendor}
+                    onChange={(e) => setTicketForm({ ...ticketForm, vendor: e.target.value })}
+                    placeholder="Pressing, couturière..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <datalist id="maintenance-vendors">
+                    {vendors.map(vendor => (
+                      <option key={vendor} value={vendor} />
+                    ))}
+                  </datalist>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Envoyé le</label>
+                  <input
+                    type="date"
+                    required
+                    value={ticketForm.sentDate}
+                    onChange={(e) => setTicketForm({ ...ticketForm, sentDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Retour prévu le</label>
+                  <input
+                    type="date"
+                    required
+                    min={ticketForm.sentDate}
+                    value={ticketForm.expectedReturnDate}
+                    onChange={(e) => setTicketForm({ ...ticketForm, expectedReturnDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Coût estimé (DA)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={ticketForm.cost}
+                  onChange={(e) => setTicketForm({ ...ticketForm, cost: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+                <textarea
+                  rows={2}
+                  value={ticketForm.notes}
+                  onChange={(e) => setTicketForm({ ...ticketForm, notes: e.target.value })}
+                  placeholder="Tache sur la traîne, ourlet à reprendre..."
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowModal(false)}
+                  className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Envoyer
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Close Ticket Modal */}
+      {closingTicket && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-100">
+              <h2 className="text-xl font-semibold text-gray-900">Retour d'entretien</h2>
+              <p className="text-sm text-gray-600">
+                {closingTicket.productName}
+                {closingTicket.unitCode && ` - ${closingTicket.unitCode}`} · {closingTicket.vendor}
+              </p>
+            </div>
+
+            <form onSubmit={handleCloseTicket} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Récupéré le</label>
+                <input
+                  type="date"
+                  required
+                  value={closeForm.returnedDate}
+                  onChange={(e) => setCloseForm({ ...closeForm, returnedDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Coût final (DA)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={closeForm.cost}
+                  onChange={(e) => setCloseForm({ ...closeForm, cost: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">Imputé à la rentabilité du produit</p>
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setClosingTicket(null)}
+                  className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                >
+                  Clôturer
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
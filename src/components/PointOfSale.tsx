@@ -0,0 +1,1056 @@
+import React, { useState } from 'react';
+import { useStore } from '../context/StoreContext';
+import { useAuth } from '../context/AuthContext';
+import { 
+  ShoppingCart, 
+  Plus, 
+  Minus, 
+  Trash2, 
+  Search,
+  Calendar,
+  CalendarSearch,
+  User,
+  FileSignature,
+  Phone,
+  Mail,
+  Receipt as ReceiptIcon,
+  Printer,
+  Barcode,
+  AlertCircle,
+  Percent,
+  Ruler,
+  Shield,
+  Contact,
+  ShieldAlert,
+  Tag,
+  TrendingUp
+} from 'lucide-react';
+import { Product } from '../types';
+import { AvailabilitySearch } from './AvailabilitySearch';
+import { SignaturePad } from './SignaturePad';
+import { generateReceiptPDF, generateRentalContractPDF } from '../utils/pdfGenerator';
+import { checkFit, formatMeasurement, getLatestMeasurement, measurementKeys, measurementLabels } from '../utils/fit';
+import { computeRentalPrice, getSeasonalSurcharge } from '../utils/pricing';
+import { normalizePhone } from '../utils/phone';
+
+interface CartItem extends Product {
+  cartQuantity: number;
+  isRental: boolean;
+  rentalDays?: number;
+  rentalStartDate?: Date;
+  rentalEndDate?: Date;
+  discount?: number;
+  discountAmount?: number;
+  depositAmount?: number;
+}
+
+export function PointOfSale() {
+  const { products, productUnits, rentals, customers, customerMeasurements, pricingRules, pricingPeriods, storeSettings, checkout, checkProductAvailability, getDefaultDeposit, getRentalSignatures, loading } = useStore();
+  const { user, isAdmin } = useAuth();
+  const [cart, setCart] = useState<CartItem[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [barcodeFilter, setBarcodeFilter] = useState('');
+  const [customerInfo, setCustomerInfo] = useState({
+    name: '',
+    phone: '',
+    email: ''
+  });
+  const [showReceipt, setShowReceipt] = useState(false);
+  const [lastTransaction, setLastTransaction] = useState<any>(null);
+  const [lastOrderItemIds, setLastOrderItemIds] = useState<string[]>([]);
+  const [availabilityCheck, setAvailabilityCheck] = useState<{[key: string]: boolean}>({});
+  const [reservationConflicts, setReservationConflicts] = useState<{[key: string]: string}>({});
+  const [showAvailabilitySearch, setShowAvailabilitySearch] = useState(false);
+  const [contractSignature, setContractSignature] = useState<string | undefined>();
+  const [riskOverrideReason, setRiskOverrideReason] = useState('');
+
+  const clearReservationConflict = (id: string) => {
+    setReservationConflicts(prev => {
+      const newConflicts = { ...prev };
+      delete newConflicts[id];
+      return newConflicts;
+    });
+  };
+
+  const filteredProducts = products.filter(product => {
+    const matchSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase())
+      || product.brand.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchBarcode = !barcodeFilter || (product.barcode ?? '').toLowerCase().includes(barcodeFilter.toLowerCase());
+    return matchSearch && matchBarcode;
+  });
+
+  const getRentalUnitCount = (productId: string) =>
+    productUnits.filter(unit => unit.productId === productId && unit.status === 'active').length;
+
+  const getMaxQuantity = (product: Product, isRental: boolean) =>
+    isRental ? getRentalUnitCount(product.id) : product.stock;
+
+  // Meilleur tarif de location pour les dates choisies (journalier, week-end, forfait ou semaine)
+  const getRentalPrice = (item: CartItem) => {
+    const startDate = item.rentalStartDate || new Date();
+    const endDate = item.rentalEndDate || startDate;
+    return computeRentalPrice(item, startDate, endDate, item.rentalDays || 1, pricingRules);
+  };
+
+  const getBasePrice = (item: CartItem) =>
+    item.isRental ? getRentalPrice(item).total : item.salePrice;
+
+  // Majoration de saison : date de la vente, ou dates de la location
+  const getSurcharge = (item: CartItem) => {
+    const startDate = (item.isRental && item.rentalStartDate) || new Date();
+    const endDate = (item.isRental && item.rentalEndDate) || startDate;
+    return getSeasonalSurcharge(
+      item,
+      item.isRental ? 'rental' : 'sale',
+      startDate,
+      endDate,
+      getBasePrice(item),
+      pricingPeriods
+    );
+  };
+
+  // Prix avant réduction, majoration comprise
+  const getListPrice = (item: CartItem) =>
+    getBasePrice(item) + (getSurcharge(item)?.amount || 0);
+
+  const addToCart = async (product: Product, isRental: boolean = false) => {
+    if (getMaxQuantity(product, isRental) <= 0) return;
+    
+    if (isRental && !product.isAvailableForRental) {
+      alert('Ce produit n\'est pas disponible pour la location');
+      return;
+    }
+    
+    const existingItem = cart.find(item => 
+      item.id === product.id && item.isRental === isRental
+    );
+    
+    if (existingItem) {
+      setCart(cart.map(item => 
+        item.id === product.id && item.isRental === isRental
+          ? { ...item, cartQuantity: Math.min(item.cartQuantity + 1, getMaxQuantity(product, isRental)) }
+          : item
+      ));
+    } else {
+      const today = new Date();
+      const tomorrow = new Date(today);
+      tomorrow.setDate(tomorrow.getDate() + 1);
+      
+      setCart([...cart, { 
+        ...product, 
+        cartQuantity: 1, 
+        isRental, 
+        rentalDays: isRental ? 1 : undefined,
+        rentalStartDate: isRental ? today : undefined,
+        rentalEndDate: isRental ? tomorrow : undefined,
+        discount: 0,
+        discountAmount: 0,
+        depositAmount: isRental ? getDefaultDeposit(product) : undefined
+      }]);
+    }
+  };
+
+  // Location ajoutée depuis la recherche de disponibilité, avec les dates recherchées
+  const addRentalWithDates = (product: Product, startDate: Date, rentalDays: number) => {
+    const endDate = new Date(startDate);
+    endDate.setDate(endDate.getDate() + rentalDays);
+
+    setCart([...cart, {
+      ...product,
+      cartQuantity: 1,
+      isRental: true,
+      rentalDays,
+      rentalStartDate: startDate,
+      rentalEndDate: endDate,
+      discount: 0,
+      discountAmount: 0,
+      depositAmount: getDefaultDeposit(product)
+    }]);
+    setAvailabilityCheck(prev => ({ ...prev, [product.id]: true }));
+    clearReservationConflict(product.id);
+  };
+
+  const updateCartQuantity = (id: string, isRental: boolean, quantity: number) => {
+    if (quantity <= 0) {
+      removeFromCart(id, isRental);
+      return;
+    }
+    
+    setCart(cart.map(item => 
+      item.id === id && item.isRental === isRental
+        ? { ...item, cartQuantity: Math.min(quantity, getMaxQuantity(item, isRental)) }
+        : item
+    ));
+  };
+
+  const updateDiscount = (id: string, isRental: boolean, discount: number) => {
+    setCart(cart.map(item => {
+      if (item.id === id && item.isRental === isRental) {
+        const discountAmount = (getListPrice(item) * discount) / 100;
+        return { 
+          ...item, 
+          discount: Math.max(0, Math.min(100, discount)),
+          discountAmount
+        };
+      }
+      return item;
+    }));
+  };
+
+  const updateDeposit = (id: string, depositAmount: number) => {
+    setCart(cart.map(item =>
+      item.id === id && item.isRental
+        ? { ...item, depositAmount: Math.max(0, depositAmount) }
+        : item
+    ));
+  };
+
+  const updateRentalDates = async (id: string, startDate: Date, days: number) => {
+    const endDate = new Date(startDate);
+    endDate.setDate(endDate.getDate() + days);
+    
+    const quantity = cart.find(item => item.id === id && item.isRental)?.cartQuantity || 1;
+    const isAvailable = await checkProductAvailability(id, startDate, endDate, quantity);
+    setAvailabilityCheck(prev => ({ ...prev, [id]: isAvailable }));
+    clearReservationConflict(id);
+    
+    setCart(cart.map(item => {
+      if (item.id === id && item.isRental) {
+        const updatedItem = {
+          ...item,
+          rentalDays: Math.max(1, days),
+          rentalStartDate: startDate,
+          rentalEndDate: endDate
+        };
+        // Le tarif peut changer avec les dates : la réduction suit le nouveau prix
+        return {
+          ...updatedItem,
+          discountAmount: (getListPrice(updatedItem) * (item.discount || 0)) / 100
+        };
+      }
+      return item;
+    }));
+  };
+
+  const removeFromCart = (id: string, isRental: boolean) => {
+    setCart(cart.filter(item => !(item.id === id && item.isRental === isRental)));
+    if (isRental) {
+      setAvailabilityCheck(prev => {
+        const newCheck = { ...prev };
+        delete newCheck[id];
+        return newCheck;
+      });
+      clearReservationConflict(id);
+    }
+  };
+
+  const calculateItemTotal = (item: CartItem) => {
+    const discountAmount = item.discountAmount || 0;
+    return (getListPrice(item) - discountAmount) * item.cartQuantity;
+  };
+
+  // Le numéro saisi est ramené au format +213 avant toute recherche
+  const customerPhone = normalizePhone(customerInfo.phone);
+  const enteredCustomer = customers.find(c => c.phone === customerPhone);
+  const latestMeasurement = enteredCustomer ? getLatestMeasurement(customerMeasurements, enteredCustomer.id) : undefined;
+  const hasRentals = cart.some(item => item.isRental);
+
+  // Pièce d'identité exigée par le produit ou au-delà du seuil de prix par article
+  const requiresIdentity = (item: CartItem) =>
+    item.isRental && (
+      !!item.requiresIdentity ||
+      (storeSettings.identityThreshold > 0 && getListPrice(item) - (item.discountAmount || 0) >= storeSettings.identityThreshold)
+    );
+
+  const calculateTotal = () => {
+    return cart.reduce((total, item) => total + calculateItemTotal(item), 0);
+  };
+
+  // Caution encaissée en plus du total, restituée au retour
+  const calculateDepositTotal = () => {
+    return cart
+      .filter(item => item.isRental)
+      .reduce((total, item) => total + (item.depositAmount || 0) * item.cartQuantity, 0);
+  };
+
+  const handleCheckout = async () => {
+    if (!customerInfo.name || !customerInfo.phone) {
+      alert('Veuillez renseigner au minimum le nom et téléphone du client');
+      return;
+    }
+
+    if (cart.length === 0) {
+      alert('Le panier est vide');
+      return;
+    }
+
+    if (!user) {
+      alert('Utilisateur non connecté');
+      return;
+    }
+
+    // Le nom de la fiche client fait foi : l'agent confirme quand le nom saisi diffère
+    let customerName = customerInfo.name.trim();
+    if (enteredCustomer && enteredCustomer.name.trim().toLowerCase() !== customerName.toLowerCase()) {
+      if (!confirm(`Le ${enteredCustomer.phone} est enregistré au nom de « ${enteredCustomer.name} ». Continuer avec ce client ? Le nom saisi « ${customerName} » ne sera pas enregistré.`)) {
+        return;
+      }
+      customerName = enteredCustomer.name;
+    }
+
+    // Client bloqué : location refusée, sauf dérogation motivée d'un administrateur
+    const isBlocked = hasRentals && enteredCustomer?.riskStatus === 'blocked';
+    if (isBlocked && !(isAdmin && riskOverrideReason.trim())) {
+      alert(isAdmin
+        ? 'Ce client est bloqué pour la location : indiquez le motif de la dérogation'
+        : 'Ce client est bloqué pour la location. Seul un administrateur peut accorder une dérogation.');
+      return;
+    }
+
+    if (hasRentals && enteredCustomer?.riskStatus === 'watch' &&
+        !confirm(`Client sous surveillance${enteredCustomer.riskReason ? ` : ${enteredCustomer.riskReason}` : ''}. Poursuivre la location ?`)) {
+      return;
+    }
+
+    const itemRequiringIdentity = cart.find(requiresIdentity);
+    if (itemRequiringIdentity && !enteredCustomer?.hasIdentity) {
+      alert(`Une pièce d'identité du client doit être enregistrée pour louer ${itemRequiringIdentity.name}. Un administrateur peut la saisir dans la fiche client.`);
+      return;
+    }
+
+    // Vérifier la disponibilité pour toutes les locations
+    for (const item of cart.filter(i => i.isRental)) {
+      if (!item.rentalStartDate || !item.rentalEndDate) {
+        alert(`Veuillez définir les dates de location pour ${item.name}`);
+        return;
+      }
+      
+      const isAvailable = await checkProductAvailability(item.id, item.rentalStartDate, item.rentalEndDate, item.cartQuantity);
+      if (!isAvailable) {
+        setAvailabilityCheck(prev => ({ ...prev, [item.id]: false }));
+        setReservationConflicts(prev => ({ ...prev, [item.id]: `${item.name} est déjà réservé pour ces dates` }));
+        return;
+      }
+    }
+
+    try {
+      const lines = cart.map(item => {
+        const basePrice = getBasePrice(item);
+        const surcharge = getSurcharge(item);
+        const listPrice = basePrice + (surcharge?.amount || 0);
+        const unitPrice = listPrice - (item.discountAmount || 0);
+        const pricingRuleName = item.isRental ? getRentalPrice(item).rule?.name : undefined;
+        return { item, basePrice, listPrice, unitPrice, surcharge, pricingRuleName };
+      });
+
+      const subtotal = lines.reduce((sum, line) => sum + line.listPrice * line.item.cartQuantity, 0);
+      const total = calculateTotal();
+
+      const result = await checkout({
+        customerName,
+        customerPhone,
+        customerEmail: customerInfo.email,
+        subtotal,
+        discountAmount: subtotal - total,
+        totalAmount: total,
+        amountPaid: total,
+        remainingAmount: 0,
+        paymentStatus: 'completed',
+        agentId: user.id,
+        agentName: user.name
+      }, lines.map(({ item, unitPrice, surcharge, pricingRuleName }) => ({
+        type: item.isRental ? 'rental' : 'sale',
+        productId: item.id,
+        productName: item.name,
+        quantity: item.cartQuantity,
+        unitPrice,
+        totalAmount: unitPrice * item.cartQuantity,
+        discount: item.discount,
+        discountAmount: (item.discountAmount || 0) * item.cartQuantity,
+        surchargeAmount: (surcharge?.amount || 0) * item.cartQuantity,
+        surchargeLabel: surcharge?.label,
+        rental: item.isRental && item.rentalStartDate && item.rentalEndDate ? {
+          startDate: item.rentalStartDate,
+          endDate: item.rentalEndDate,
+          rentalDays: item.rentalDays || 1,
+          dailyRate: item.rentalPricePerDay,
+          totalAmount: unitPrice,
+          pricingRuleName,
+          discountAmount: item.discountAmount || 0,
+          depositAmount: item.depositAmount || 0,
+          signature: contractSignature
+        } : undefined
+      })), isBlocked ? riskOverrideReason.trim() : undefined);
+
+      if (!result.success) {
+        const failedItem = result.error.itemIndex !== undefined ? cart[result.error.itemIndex] : undefined;
+        if (result.error.code === 'already_reserved' && failedItem?.isRental) {
+          setAvailabilityCheck(prev => ({ ...prev, [failedItem.id]: false }));
+          setReservationConflicts(prev => ({ ...prev, [failedItem.id]: result.error.message }));
+        } else {
+          alert(result.error.message);
+        }
+        return;
+      }
+
+      const order = result.order;
+
+      const receiptItems = lines.map(({ item, basePrice, unitPrice, surcharge, pricingRuleName }) => ({
+        name: item.name,
+        quantity: item.cartQuantity,
+        unitPrice: basePrice,
+        finalPrice: unitPrice,
+        discount: item.discount || 0,
+        discountAmount: item.discountAmount || 0,
+        isRental: item.isRental,
+        rentalDays: item.rentalDays,
+        pricingRule: pricingRuleName,
+        surcharge: surcharge ? { label: surcharge.label, amount: surcharge.amount } : undefined,
+        depositAmount: item.isRental ? item.depositAmount || 0 : undefined,
+        barcode: item.barcode
+      }));
+
+      const receiptData = {
+        customerName,
+        customerPhone,
+        customerEmail: customerInfo.email,
+        items: receiptItems,
+        total,
+        depositTotal: calculateDepositTotal(),
+        date: order.createdAt,
+        agentName: user.name,
+        receiptNumber: order.receiptNumber
+      };
+
+      setLastTransaction(receiptData);
+      setLastOrderItemIds(order.items.map(transaction => transaction.id));
+      setShowReceipt(true);
+      
+      setCart([]);
+      setCustomerInfo({ name: '', phone: '', email: '' });
+      setContractSignature(undefined);
+      setRiskOverrideReason('');
+      setAvailabilityCheck({});
+      setReservationConflicts({});
+      
+    } catch (error) {
+      console.error('Erreur lors de la finalisation:', error);
+      alert('Erreur lors de la finalisation de la vente');
+    }
+  };
+
+  const handlePrintReceipt = () => {
+    if (lastTransaction) {
+      generateReceiptPDF(lastTransaction);
+    }
+  };
+
+  // Un contrat regroupe les exemplaires loués par la dernière commande
+  const lastOrderRentals = rentals.filter(rental => lastOrderItemIds.includes(rental.transactionId));
+
+  const handlePrintContract = async () => {
+    if (!lastTransaction || lastOrderRentals.length === 0) return;
+
+    let signatures;
+    try {
+      signatures = await getRentalSignatures(lastOrderRentals[0].id);
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors du chargement de la signature');
+      return;
+    }
+
+    generateRentalContractPDF({
+      store: storeSettings,
+      contractNumber: `CTR-${lastTransaction.receiptNumber}`,
+      customerName: lastTransaction.customerName,
+      customerPhone: lastTransaction.customerPhone,
+      customerEmail: lastTransaction.customerEmail,
+      items: lastOrderRentals.map(rental => {
+        const product = products.find(p => p.id === rental.productId);
+        return {
+          productName: rental.productName || product?.name || 'Article',
+          category: product?.category,
+          size: product?.size,
+          color: product?.color,
+          unitCode: rental.unitCode,
+          barcode: product?.barcode,
+          startDate: rental.rentalStartDate,
+          endDate: rental.rentalEndDate,
+          rentalDays: rental.rentalDays,
+          totalAmount: rental.totalAmount,
+          depositAmount: rental.depositAmount
+        };
+      }),
+      customerSignature: signatures.contractSignature,
+      signedAt: lastOrderRentals[0].contractSignedAt,
+      date: new Date(lastTransaction.date),
+      agentName: lastTransaction.agentName
+    });
+  };
+
+  // Avertit le vendeur dès que le téléphone saisi correspond à un client signalé
+  const renderRiskWarning = () => {
+    if (!enteredCustomer || enteredCustomer.riskStatus === 'normal') return null;
+
+    const isBlocked = enteredCustomer.riskStatus === 'blocked';
+
+    return (
+      <div className={`rounded-lg p-3 space-y-2 ${isBlocked ? 'bg-red-50 border border-red-200' : 'bg-yellow-50 border border-yellow-200'}`}>
+        <div className="flex items-start space-x-2">
+          <ShieldAlert className={`w-4 h-4 mt-0.5 ${isBlocked ? 'text-red-600' : 'text-yellow-600'}`} />
+          <div className={`text-sm ${isBlocked ? 'text-red-800' : 'text-yellow-800'}`}>
+            <p className="font-medium">
+              {isBlocked ? 'Client bloqué pour la location' : 'Client sous surveillance'}
+            </p>
+            {enteredCustomer.riskReason && <p className="text-xs">{enteredCustomer.riskReason}</p>}
+          </div>
+        </div>
+        {isBlocked && hasRentals && isAdmin && (
+          <input
+            type="text"
+            placeholder="Motif de la dérogation (administrateur)"
+            value={riskOverrideReason}
+            onChange={(e) => setRiskOverrideReason(e.target.value)}
+            className="w-full px-3 py-2 text-sm border border-red-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          />
+        )}
+      </div>
+    );
+  };
+
+  // Dernières mensurations du client reconnu, relevées en boutique
+  const renderMeasurements = () => {
+    if (!latestMeasurement) return null;
+
+    return (
+      <div className="rounded-lg p-3 bg-gray-50 border border-gray-200 text-sm">
+        <p className="font-medium text-gray-900 flex items-center">
+          <Ruler className="w-4 h-4 mr-1" />
+          Mensurations du {latestMeasurement.measuredAt.toLocaleDateString('fr-FR')}
+        </p>
+        <div className="grid grid-cols-2 gap-x-4 mt-1 text-xs text-gray-600">
+          {measurementKeys.map(key => {
+            const value = latestMeasurement[key];
+            if (value === undefined) return null;
+            return <span key={key}>{measurementLabels[key]} : {formatMeasurement(key, value)}</span>;
+          })}
+        </div>
+        {latestMeasurement.notes && <p className="text-xs text-gray-500 italic mt-1">{latestMeasurement.notes}</p>}
+      </div>
+    );
+  };
+
+  // Mesures du client hors du guide des tailles de l'article : à essayer avant de conclure
+  const renderFitIssues = (item: CartItem) => {
+    if (!latestMeasurement) return null;
+    const issues = checkFit(item, latestMeasurement);
+    if (issues.length === 0) return null;
+
+    return (
+      <div className="flex items-start space-x-2 mb-2">
+        <Ruler className="w-4 h-4 mt-0.5 text-yellow-600" />
+        <div className="text-xs text-yellow-800">
+          <p className="font-medium">Taille probablement inadaptée</p>
+          {issues.map(issue => (
+            <p key={issue}>{issue}</p>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderIdentityRequirement = (item: CartItem) => {
+    if (!requiresIdentity(item)) return null;
+
+    return (
+      <div className="flex items-start space-x-2 mb-2">
+        <Contact className="w-4 h-4 mt-0.5 text-blue-500" />
+        <span className="text-xs text-blue-700">Pièce d'identité du client exigée</span>
+      </div>
+    );
+  };
+
+  const renderSurcharge = (item: CartItem) => {
+    const surcharge = getSurcharge(item);
+    if (!surcharge) return null;
+
+    return (
+      <div className="flex items-start space-x-2 mb-2">
+        <TrendingUp className="w-4 h-4 mt-0.5 text-orange-500" />
+        <span className="text-xs text-orange-700">
+          {surcharge.label} : +{surcharge.amount.toLocaleString('fr-FR')} DA / article
+        </span>
+      </div>
+    );
+  };
+
+  // Explique au vendeur quel tarif a été retenu
+  const renderRentalPrice = (item: CartItem) => {
+    const price = getRentalPrice(item);
+
+    return (
+      <div className="flex items-start space-x-2">
+        <Tag className={`w-4 h-4 mt-0.5 ${price.rule ? 'text-purple-500' : 'text-gray-400'}`} />
+        <span className={`text-xs ${price.rule ? 'text-purple-700' : 'text-gray-600'}`}>
+          {price.explanation}
+        </span>
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 h-full">
+      {/* Products */}
+      <div className="lg:col-span-2 space-y-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Point de Vente</h1>
+            <p className="text-gray-600 mt-2">Sélectionnez les produits pour vente ou location</p>
+          </div>
+          <button
+            onClick={() => setShowAvailabilitySearch(true)}
+            className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors flex items-center space-x-2"
+          >
+            <CalendarSearch className="w-4 h-4" />
+            <span>Disponibilités</span>
+          </button>
+        </div>
+
+        {/* Zone de recherche */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Rechercher un produit..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10 pr-4 py-3 border border-gray-300 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div className="relative">
+            <Barcode className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Filtrer par code-barres"
+              value={barcodeFilter}
+              onChange={(e) => setBarcodeFilter(e.target.value)}
+              className="pl-10 pr-4 py-3 border border-gray-300 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-h-[calc(100vh-300px)] overflow-y-auto">
+          {filteredProducts.map((product) => (
+            <div key={product.id} className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+              <div className="flex justify-between items-start mb-3">
+                <div>
+                  <h3 className="font-semibold text-gray-900">{product.name}</h3>
+                  <p className="text-sm text-gray-600">{product.brand} - {product.size}</p>
+                  <p className="text-xs text-gray-500">{product.color}</p>
+                  {product.barcode && (
+                    <p className="text-xs text-gray-500">Code-barres : {product.barcode}</p>
+                  )}
+                </div>
+                <span className={`px-2 py-1 text-xs rounded-full ${
+                  product.stock > 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                }`}>
+                  Stock: {product.stock}
+                </span>
+              </div>
+              
+              <div className="space-y-2 mb-4">
+                <div className="flex justify-between text-sm">
+                  <span>Prix vente:</span>
+                  <span className="font-medium">{product.salePrice} DA</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span>Location/jour:</span>
+                  <span className="font-medium">{product.rentalPricePerDay} DA</span>
+                </div>
+                {product.isAvailableForRental && (
+                  <div className="flex justify-between text-sm">
+                    <span>Exemplaires location:</span>
+                    <span className="font-medium">{getRentalUnitCount(product.id)}</span>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => addToCart(product, false)}
+                  disabled={product.stock <= 0}
+                  className="flex-1 bg-green-600 text-white py-2 px-3 rounded-lg hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors text-sm"
+                >
+                  Vendre
+                </button>
+                <button
+                  onClick={() => addToCart(product, true)}
+                  disabled={getRentalUnitCount(product.id) <= 0 || !product.isAvailableForRental}
+                  className="flex-1 bg-orange-600 text-white py-2 px-3 rounded-lg hover:bg-orange-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors text-sm"
+                >
+                  Louer
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Cart & Checkout */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 h-fit">
+        <div className="flex items-center mb-6">
+          <ShoppingCart className="w-6 h-6 text-gray-600 mr-2" />
+          <h2 className="text-xl font-semibold text-gray-900">Panier ({cart.length})</h2>
+        </div>
+
+        {/* Customer Info */}
+        <div className="space-y-4 mb-6">
+          <h3 className="font-medium text-gray-900 flex items-center">
+            <User className="w-4 h-4 mr-2" />
+            Informations Client
+          </h3>
+          <div className="space-y-3">
+            <input
+              type="text"
+              placeholder="Nom du client *"
+              value={customerInfo.name}
+              onChange={(e) => setCustomerInfo({...customerInfo, name: e.target.value})}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <div className="relative">
+              <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <input
+                type="tel"
+                placeholder="Téléphone *"
+                value={customerInfo.phone}
+                onChange={(e) => setCustomerInfo({...customerInfo, phone: e.target.value})}
+                onBlur={() => setCustomerInfo({...customerInfo, phone: customerPhone})}
+                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div className="relative">
+              <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <input
+                type="email"
+                placeholder="Email (optionnel)"
+                value={customerInfo.email}
+                onChange={(e) => setCustomerInfo({...customerInfo, email: e.target.value})}
+                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            {renderRiskWarning()}
+            {renderMeasurements()}
+          </div>
+        </div>
+
+        {/* Cart Items */}
+        <div className="space-y-4 mb-6 max-h-64 overflow-y-auto">
+          {cart.map((item, index) => (
+            <div key={`${item.id}-${item.isRental}-${index}`} className={`border rounded-lg p-3 ${
+              item.isRental && reservationConflicts[item.id] ? 'border-red-300 bg-red-50' : 'border-gray-100'
+            }`}>
+              <div className="flex justify-between items-start mb-2">
+                <div>
+                  <h4 className="font-medium text-gray-900 text-sm">{item.name}</h4>
+                  <p className="text-xs text-gray-600">{item.size} - {item.color}</p>
+                  {item.barcode && (
+                    <p className="text-xs text-gray-500">Code-barres : {item.barcode}</p>
+                  )}
+                  <span className={`inline-block px-2 py-1 text-xs rounded-full mt-1 ${
+                    item.isRental ? 'bg-orange-100 text-orange-800' : 'bg-green-100 text-green-800'
+                  }`}>
+                    {item.isRental ? 'Location' : 'Vente'}
+                  </span>
+                </div>
+                <button
+                  onClick={() => removeFromCart(item.id, item.isRental)}
+                  className="text-red-500 hover:text-red-700 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => updateCartQuantity(item.id, item.isRental, item.cartQuantity - 1)}
+                    className="p-1 border border-gray-300 rounded hover:bg-gray-50"
+                  >
+                    <Minus className="w-3 h-3" />
+                  </button>
+                  <span className="text-sm font-medium">{item.cartQuantity}</span>
+                  <button
+                    onClick={() => updateCartQuantity(item.id, item.isRental, item.cartQuantity + 1)}
+                    className="p-1 border border-gray-300 rounded hover:bg-gray-50"
+                  >
+                    <Plus className="w-3 h-3" />
+                  </button>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-semibold">
+                    {calculateItemTotal(item).toLocaleString('fr-FR')} DA
+                  </p>
+                  {item.discountAmount && item.discountAmount > 0 && (
+                    <p className="text-xs text-green-600">
+                      -{(item.discountAmount * item.cartQuantity).toLocaleString('fr-FR')} DA
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {renderSurcharge(item)}
+              {renderIdentityRequirement(item)}
+              {renderFitIssues(item)}
+
+              {/* Réduction */}
+              <div className="flex items-center space-x-2 mb-2">
+                <Percent className="w-4 h-4 text-gray-400" />
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={item.discount || 0}
+                  onChange={(e) => updateDiscount(item.id, item.isRental, Number(e.target.value))}
+                  className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+                  placeholder="0"
+                />
+                <span className="text-xs text-gray-600">% de réduction</span>
+              </div>
+
+              {item.isRental && (
+                <div className="space-y-2 mt-2">
+                  <div className="flex items-center space-x-2">
+                    <Calendar className="w-4 h-4 text-gray-400" />
+                    <input
+                      type="date"
+                      value={item.rentalStartDate?.toISOString().split('T')[0] || ''}
+                      min={new Date().toISOString().split('T')[0]}
+                      onChange={(e) => {
+                        const startDate = new Date(e.target.value);
+                        updateRentalDates(item.id, startDate, item.rentalDays || 1);
+                      }}
+                      className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs text-gray-600">Durée:</span>
+                    <input
+                      type="number"
+                      min="1"
+                      value={item.rentalDays || 1}
+                      onChange={(e) => {
+                        const days = parseInt(e.target.value);
+                        if (item.rentalStartDate) {
+                          updateRentalDates(item.id, item.rentalStartDate, days);
+                        }
+                      }}
+                      className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+                    />
+                    <span className="text-xs text-gray-600">jour(s)</span>
+                  </div>
+                  {renderRentalPrice(item)}
+                  <div className="flex items-center space-x-2">
+                    <Shield className="w-4 h-4 text-gray-400" />
+                    <span className="text-xs text-gray-600">Caution:</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={item.depositAmount || 0}
+                      onChange={(e) => updateDeposit(item.id, Number(e.target.value))}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded text-sm"
+                    />
+                    <span className="text-xs text-gray-600">DA / exemplaire</span>
+                  </div>
+                  {reservationConflicts[item.id] ? (
+                    <div className="flex items-center space-x-1 text-red-700 text-xs font-medium">
+                      <AlertCircle className="w-3 h-3" />
+                      <span>{reservationConflicts[item.id]}. Choisissez d'autres dates.</span>
+                    </div>
+                  ) : availabilityCheck[item.id] === false && (
+                    <div className="flex items-center space-x-1 text-red-600 text-xs">
+                      <AlertCircle className="w-3 h-3" />
+                      <span>Pas assez d'exemplaires libres pour ces dates</span>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+          
+          {cart.length === 0 && (
+            <div className="text-center py-8 text-gray-500">
+              <ShoppingCart className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+              <p>Votre panier est vide</p>
+            </div>
+          )}
+        </div>
+
+        {/* Total & Checkout */}
+        {cart.length > 0 && (
+          <div className="space-y-4">
+            <div className="border-t border-gray-100 pt-4">
+              <div className="flex justify-between items-center text-lg font-semibold">
+                <span>Total:</span>
+                <span>{calculateTotal().toLocaleString('fr-FR')} DA</span>
+              </div>
+              {calculateDepositTotal() > 0 && (
+                <>
+                  <div className="flex justify-between items-center text-sm text-gray-600 mt-1">
+                    <span>Caution (restituable):</span>
+                    <span>{calculateDepositTotal().toLocaleString('fr-FR')} DA</span>
+                  </div>
+                  <div className="flex justify-between items-center text-sm font-medium mt-1">
+                    <span>À encaisser:</span>
+                    <span>{(calculateTotal() + calculateDepositTotal()).toLocaleString('fr-FR')} DA</span>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {cart.some(item => item.isRental) && (
+              <SignaturePad
+                label="Signature du contrat de location"
+                signed={!!contractSignature}
+                onChange={setContractSignature}
+              />
+            )}
+            
+            <button
+              onClick={handleCheckout}
+              disabled={Object.values(availabilityCheck).some(available => !available)}
+              className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium"
+            >
+              Finaliser la Vente
+            </button>
+          </div>
+        )}
+      </div>
+
+      {showAvailabilitySearch && (
+        <AvailabilitySearch
+          cartRentalIds={cart.filter(item => item.isRental).map(item => item.id)}
+          onAdd={addRentalWithDates}
+          onClose={() => setShowAvailabilitySearch(false)}
+        />
+      )}
+
+      {/* Receipt Modal */}
+      {showReceipt && lastTransaction && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100 text-center">
+              <ReceiptIcon className="w-12 h-12 text-green-600 mx-auto mb-4" />
+              <h2 className="text-xl font-semibold text-gray-900">Vente Terminée</h2>
+              <p className="text-gray-600">{storeSettings.storeName}</p>
+            </div>
+            
+            <div className="p-6 space-y-4">
+              <div className="text-center text-sm text-gray-600">
+                <p>N° Reçu: {lastTransaction.receiptNumber}</p>
+                <p>{new Date(lastTransaction.date).toLocaleString('fr-FR')}</p>
+                <p>Agent: {lastTransaction.agentName}</p>
+              </div>
+
+              <div className="border-t border-gray-100 pt-4">
+                <h3 className="font-medium text-gray-900 mb-2">Client:</h3>
+                <p className="text-sm text-gray-600">{lastTransaction.customerName}</p>
+                <p className="text-sm text-gray-600">{lastTransaction.customerPhone}</p>
+                {lastTransaction.customerEmail && (
+                  <p className="text-sm text-gray-600">{lastTransaction.customerEmail}</p>
+                )}
+              </div>
+
+              <div className="border-t border-gray-100 pt-4">
+                <h3 className="font-medium text-gray-900 mb-2">Articles:</h3>
+                <div className="space-y-2">
+                  {lastTransaction.items.map((item: any, index: number) => (
+                    <div key={index} className="text-sm">
+                      <div className="flex justify-between">
+                        <div>
+                          <p className="font-medium">{item.name}</p>
+                          <p className="text-gray-600">
+                            {item.quantity}x {item.unitPrice}DA
+                            {item.isRental && ` (${item.rentalDays} jour${item.rentalDays > 1 ? 's' : ''})`}
+                            {item.barcode && <> | Code-barres: {item.barcode}</>}
+                          </p>
+                          {item.pricingRule && (
+                            <p className="text-purple-700 text-xs">Tarif : {item.pricingRule}</p>
+                          )}
+                          {item.surcharge && (
+                            <p className="text-orange-700 text-xs">
+                              {item.surcharge.label}: +{(item.surcharge.amount * item.quantity).toLocaleString('fr-FR')} DA
+                            </p>
+                          )}
+                          {item.discount > 0 && (
+                            <p className="text-green-600 text-xs">
+                              Réduction {item.discount}%: -{(item.discountAmount * item.quantity).toLocaleString('fr-FR')} DA
+                            </p>
+                          )}
+                        </div>
+                        <span className="font-medium">
+                          {((item.finalPrice || item.unitPrice) * item.quantity).toLocaleString('fr-FR')} DA
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="border-t border-gray-100 pt-4">
+                <div className="flex justify-between items-center text-lg font-semibold">
+                  <span>Total:</span>
+                  <span>{lastTransaction.total.toLocaleString('fr-FR')} DA</span>
+                </div>
+                {lastTransaction.depositTotal > 0 && (
+                  <div className="flex justify-between items-center text-sm text-gray-600 mt-1">
+                    <span>Caution encaissée (restituable):</span>
+                    <span>{lastTransaction.depositTotal.toLocaleString('fr-FR')} DA</span>
+                  </div>
+                )}
+              </div>
+
+              <div className="text-center text-xs text-gray-500 pt-4 border-t border-gray-100">
+                <p>Merci pour votre achat !</p>
+                <p>Conservez ce reçu comme preuve d'achat</p>
+              </div>
+            </div>
+
+            <div className="p-6 border-t border-gray-100 space-y-3">
+              <button
+                onClick={handlePrintReceipt}
+                className="w-full bg-green-600 text-white py-2 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center space-x-2"
+              >
+                <Printer className="w-4 h-4" />
+                <span>Imprimer le Reçu PDF</span>
+              </button>
+              {lastOrderRentals.length > 0 && (
+                <button
+                  onClick={handlePrintContract}
+                  className="w-full bg-orange-600 text-white py-2 rounded-lg hover:bg-orange-700 transition-colors flex items-center justify-center space-x-2"
+                >
+                  <FileSignature className="w-4 h-4" />
+                  <span>Imprimer le contrat de location</span>
+                </button>
+              )}
+              <button
+                onClick={() => setShowReceipt(false)}
+                className="w-full bg-gray-600 text-white py-2 rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                Fermer
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
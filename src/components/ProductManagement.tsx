@@ -0,0 +1,853 @@
+import React, { useState } from 'react';
+import { useStore } from '../context/StoreContext';
+import { useAuth } from '../context/AuthContext';
+import { 
+  Plus, 
+  Edit2, 
+  Trash2, 
+  Search, 
+  Filter,
+  Package,
+  AlertCircle,
+  Barcode,
+  Layers,
+  History,
+  Ruler
+} from 'lucide-react';
+import { Product, ProductUnit, SizeChart, StockMovement } from '../types';
+import { measurementKeys, measurementLabels, measurementUnits } from '../utils/fit';
+
+const movementLabels: Record<StockMovement['movementType'], string> = {
+  sale: 'Vente',
+  return: 'Retour',
+  adjustment: 'Ajustement',
+  reception: 'Réception',
+  loss: 'Perte',
+  transfer: 'Transfert'
+};
+
+// Sens imposé par le type ; ajustements et transferts peuvent aller dans les deux sens
+const movementSigns: Record<StockMovement['movementType'], 1 | -1 | 0> = {
+  sale: -1,
+  return: 1,
+  adjustment: 0,
+  reception: 1,
+  loss: -1,
+  transfer: 0
+};
+
+export function ProductManagement() {
+  const { products, productUnits, categorySettings, getProductProfitability, addProduct, updateProduct, deleteProduct, addProductUnit, updateProductUnit, deleteProductUnit, addStockMovement, getStockMovements } = useStore();
+  const { user, isAdmin } = useAuth();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [barcodeFilter, setBarcodeFilter] = useState('');
+  const [selectedCategory, setSelectedCategory] = useState('');
+  const [showModal, setShowModal] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [unitsProduct, setUnitsProduct] = useState<Product | null>(null);
+  const [newUnitCode, setNewUnitCode] = useState('');
+  const [stockProduct, setStockProduct] = useState<Product | null>(null);
+  const [stockMovements, setStockMovements] = useState<StockMovement[]>([]);
+  const [movementForm, setMovementForm] = useState({
+    movementType: 'reception' as StockMovement['movementType'],
+    quantity: 1,
+    reference: '',
+    notes: ''
+  });
+
+  const categories = [...new Set(products.map(p => p.category))];
+  
+  const filteredProducts = products.filter(product => {
+    const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         product.brand.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesCategory = !selectedCategory || product.category === selectedCategory;
+    const matchesBarcode = !barcodeFilter || (product.barcode ?? '').toLowerCase().includes(barcodeFilter.toLowerCase());
+    return matchesSearch && matchesCategory && matchesBarcode;
+  });
+
+  // Bornes saisies dans le guide des tailles ; les mesures sans borne sont omises
+  const readSizeChart = (formData: FormData): SizeChart => {
+    const readBound = (name: string) => formData.get(name) ? Number(formData.get(name)) : undefined;
+
+    return measurementKeys.reduce<SizeChart>((chart, key) => {
+      const min = readBound(`sizeChart.${key}.min`);
+      const max = readBound(`sizeChart.${key}.max`);
+      return min === undefined && max === undefined ? chart : { ...chart, [key]: { min, max } };
+    }, {});
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    
+    const productData: Product = {
+      name: formData.get('name') as string,
+      category: formData.get('category') as string,
+      size: formData.get('size') as string,
+      color: formData.get('color') as string,
+      brand: formData.get('brand') as string,
+      purchasePrice: Number(formData.get('purchasePrice')),
+      salePrice: Number(formData.get('salePrice')),
+      rentalPricePerDay: Number(formData.get('rentalPricePerDay')),
+      stock: Number(formData.get('stock')),
+      description: formData.get('description') as string,
+      barcode: formData.get('barcode') as string, // <-- Ajout du champ code-barres
+      depositAmount: formData.get('depositAmount') ? Number(formData.get('depositAmount')) : undefined,
+      bufferDays: formData.get('bufferDays') ? Number(formData.get('bufferDays')) : undefined,
+      requiresIdentity: formData.get('requiresIdentity') === 'on',
+      sizeChart: readSizeChart(formData),
+      id: editingProduct?.id || Math.random().toString(36).substr(2, 9), // Pour la création locale
+    };
+
+    if (editingProduct) {
+      updateProduct(editingProduct.id, productData);
+    } else {
+      try {
+        await addProduct(productData, { agentId: user?.id, agentName: user?.name });
+      } catch (error) {
+        // Message de la base, ex. code d'exemplaire déjà utilisé
+        alert((error as { message?: string })?.message || 'Erreur lors de l\'ajout du produit');
+        return;
+      }
+    }
+
+    setShowModal(false);
+    setEditingProduct(null);
+  };
+
+  const handleEdit = (product: Product) => {
+    setEditingProduct(product);
+    setShowModal(true);
+  };
+
+  const getProductUnits = (productId: string) =>
+    productUnits.filter(unit => unit.productId === productId);
+
+  const handleAddUnit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!unitsProduct || !newUnitCode.trim()) return;
+
+    try {
+      await addProductUnit({
+        productId: unitsProduct.id,
+        unitCode: newUnitCode.trim(),
+        status: 'active'
+      });
+      setNewUnitCode('');
+    } catch (error) {
+      console.error('Erreur lors de l\'ajout de l\'exemplaire:', error);
+      alert('Erreur lors de l\'ajout de l\'exemplaire (code déjà utilisé ?)');
+    }
+  };
+
+  const handleToggleUnitStatus = async (unit: ProductUnit) => {
+    try {
+      await updateProductUnit(unit.id, { status: unit.status === 'active' ? 'retired' : 'active' });
+    } catch (error) {
+      console.error('Erreur lors de la mise à jour de l\'exemplaire:', error);
+      alert('Erreur lors de la mise à jour de l\'exemplaire');
+    }
+  };
+
+  const handleDeleteUnit = async (id: string) => {
+    if (!confirm('Supprimer cet exemplaire ? Ses réservations seront aussi supprimées.')) return;
+
+    try {
+      await deleteProductUnit(id);
+    } catch (error) {
+      console.error('Erreur lors de la suppression de l\'exemplaire:', error);
+      alert('Erreur lors de la suppression de l\'exemplaire');
+    }
+  };
+
+  const openStockHistory = async (product: Product) => {
+    setStockProduct(product);
+    setStockMovements([]);
+
+    try {
+      setStockMovements(await getStockMovements(product.id));
+    } catch (error) {
+      console.error('Erreur lors du chargement des mouvements de stock:', error);
+    }
+  };
+
+  const handleAddMovement = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!stockProduct || !movementForm.quantity) return;
+
+    const sign = movementSigns[movementForm.movementType];
+    const quantity = sign === 0 ? movementForm.quantity : sign * Math.abs(movementForm.quantity);
+
+    try {
+      await addStockMovement({
+        productId: stockProduct.id,
+        movementType: movementForm.movementType,
+        quantity,
+        reference: movementForm.reference || undefined,
+        notes: movementForm.notes || undefined,
+        agentId: user?.id,
+        agentName: user?.name
+      });
+      setMovementForm({ movementType: 'reception', quantity: 1, reference: '', notes: '' });
+      setStockMovements(await getStockMovements(stockProduct.id));
+    } catch (error) {
+      console.error('Erreur lors de l\'enregistrement du mouvement:', error);
+      alert('Erreur lors de l\'enregistrement du mouvement (stock insuffisant ?)');
+    }
+  };
+
+  const renderProfitability = (product: Product) => {
+    const profitability = getProductProfitability(product);
+
+    return (
+      <div className="space-y-1 mb-4 p-3 bg-gray-50 rounded-lg text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-600">Revenus:</span>
+          <span className="font-medium">
+            {(profitability.salesRevenue + profitability.rentalRevenue).toLocaleString('fr-FR')} DA
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">Coût d'achat:</span>
+          <span className="font-medium">-{profitability.purchaseCost.toLocaleString('fr-FR')} DA</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">Entretien:</span>
+          <span className="font-medium">-{profitability.maintenanceCost.toLocaleString('fr-FR')} DA</span>
+        </div>
+        <div className="flex justify-between pt-1 border-t border-gray-200">
+          <span className="text-gray-600">Rentabilité:</span>
+          <span className={`font-semibold ${profitability.netMargin < 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {profitability.netMargin.toLocaleString('fr-FR')} DA
+          </span>
+        </div>
+      </div>
+    );
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm('Êtes-vous sûr de vouloir supprimer ce produit ?')) {
+      deleteProduct(id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Gestion des Produits</h1>
+          <p className="text-gray-600 mt-2">Gérez votre catalogue de produits</p>
+        </div>
+        {(isAdmin || true) && (
+          <button
+            onClick={() => setShowModal(true)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Ajouter Produit</span>
+          </button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Rechercher un produit..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div className="relative">
+            <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <select
+              value={selectedCategory}
+              onChange={(e) => setSelectedCategory(e.target.value)}
+              className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none"
+            >
+              <option value="">Toutes les catégories</option>
+              {categories.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+          </div>
+          {/* Filtre code-barres */}
+          <div className="relative">
+            <Barcode className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Filtrer par code-barres"
+              value={barcodeFilter}
+              onChange={(e) => setBarcodeFilter(e.target.value)}
+              className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div className="text-sm text-gray-600 flex items-center">
+            <Package className="w-4 h-4 mr-2" />
+            {filteredProducts.length} produit(s)
+          </div>
+        </div>
+      </div>
+
+      {/* Products Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {filteredProducts.map((product) => (
+          <div key={product.id} className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+            <div className="p-6">
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <h3 className="font-semibold text-gray-900">{product.name}</h3>
+                  <p className="text-sm text-gray-600">{product.brand} - {product.category}</p>
+                  {/* Affichage code-barres */}
+                  {product.barcode && (
+                    <div className="flex items-center text-xs text-gray-500 mt-1">
+                      <Barcode className="w-3 h-3 mr-1" />
+                      <span>Code-barres: {product.barcode}</span>
+                    </div>
+                  )}
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => openStockHistory(product)}
+                    className="p-2 text-gray-400 hover:text-purple-600 transition-colors"
+                    title="Mouvements de stock"
+                  >
+                    <History className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setUnitsProduct(product)}
+                    className="p-2 text-gray-400 hover:text-orange-600 transition-colors"
+                    title="Exemplaires de location"
+                  >
+                    <Layers className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleEdit(product)}
+                    className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  {isAdmin && (
+                    <button
+                      onClick={() => handleDelete(product.id)}
+                      className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-2 mb-4">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Taille:</span>
+                  <span className="font-medium">{product.size}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Couleur:</span>
+                  <span className="font-medium">{product.color}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Prix vente:</span>
+                  <span className="font-medium">{product.salePrice} DA</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Location/jour:</span>
+                  <span className="font-medium">{product.rentalPricePerDay} DA</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Exemplaires location:</span>
+                  <span className="font-medium">
+                    {getProductUnits(product.id).filter(unit => unit.status === 'active').length}
+                  </span>
+                </div>
+              </div>
+
+              {isAdmin && renderProfitability(product)}
+
+              <div className="flex items-center justify-between pt-4 border-t border-gray-100">
+                <div className={`flex items-center space-x-2 ${
+                  product.stock <= 2 ? 'text-red-600' : 'text-green-600'
+                }`}>
+                  {product.stock <= 2 && <AlertCircle className="w-4 h-4" />}
+                  <span className="text-sm font-medium">
+                    Stock: {product.stock}
+                  </span>
+                </div>
+                <span className={`px-2 py-1 text-xs rounded-full ${
+                  product.stock > 2 
+                    ? 'bg-green-100 text-green-800' 
+                    : 'bg-red-100 text-red-800'
+                }`}>
+                  {product.stock > 2 ? 'Disponible' : 'Stock faible'}
+                </span>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Add/Edit Product Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {editingProduct ? 'Modifier le Produit' : 'Ajouter un Produit'}
+              </h2>
+            </div>
+            
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Nom du produit
+                  </label>
+                  <input
+                    type="text"
+                    name="name"
+                    defaultValue={editingProduct?.name}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Marque
+                  </label>
+                  <input
+                    type="text"
+                    name="brand"
+                    defaultValue={editingProduct?.brand}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Catégorie
+                  </label>
+                  <input
+                    type="text"
+                    name="category"
+                    defaultValue={editingProduct?.category}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Taille
+                  </label>
+                  <select
+                    name="size"
+                    defaultValue={editingProduct?.size}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Sélectionner</option>
+                    <option value="XS">XS</option>
+                    <option value="S">S</option>
+                    <option value="M">M</option>
+                    <option value="L">L</option>
+                    <option value="XL">XL</option>
+                    <option value="XXL">XXL</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Couleur
+                  </label>
+                  <input
+                    type="text"
+                    name="color"
+                    defaultValue={editingProduct?.color}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Stock
+                  </label>
+                  <input
+                    type="number"
+                    name="stock"
+                    defaultValue={editingProduct?.stock}
+                    min="0"
+                    required
+                    disabled={!!editingProduct}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100 disabled:text-gray-500"
+                  />
+                  {editingProduct && (
+                    <p className="text-xs text-gray-500 mt-1">Le stock se modifie via les mouvements de stock</p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Prix d'achat (DA)
+                  </label>
+                  <input
+                    type="number"
+                    name="purchasePrice"
+                    defaultValue={editingProduct?.purchasePrice}
+                    step="0.01"
+                    min="0"
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Prix de vente (DA)
+                  </label>
+                  <input
+                    type="number"
+                    name="salePrice"
+                    defaultValue={editingProduct?.salePrice}
+                    step="0.01"
+                    min="0"
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Prix location/jour (DA)
+                  </label>
+                  <input
+                    type="number"
+                    name="rentalPricePerDay"
+                    defaultValue={editingProduct?.rentalPricePerDay}
+                    step="0.01"
+                    min="0"
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Caution location (DA)
+                  </label>
+                  <input
+                    type="number"
+                    name="depositAmount"
+                    defaultValue={editingProduct?.depositAmount}
+                    step="0.01"
+                    min="0"
+                    placeholder={`Catégorie : ${
+                      categorySettings.find(setting => setting.category === editingProduct?.category)?.depositAmount ?? 0
+                    } DA`}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Battement après location (jours)
+                  </label>
+                  <input
+                    type="number"
+                    name="bufferDays"
+                    defaultValue={editingProduct?.bufferDays}
+                    step="1"
+                    min="0"
+                    placeholder={`Catégorie : ${
+                      categorySettings.find(setting => setting.category === editingProduct?.category)?.bufferDays ?? 0
+                    } jour(s)`}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                {/* Champ code-barres */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Code-barres
+                  </label>
+                  <input
+                    type="text"
+                    name="barcode"
+                    defaultValue={editingProduct?.barcode}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  name="requiresIdentity"
+                  defaultChecked={editingProduct?.requiresIdentity}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Pièce d'identité du client exigée pour la location</span>
+              </label>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center">
+                  <Ruler className="w-4 h-4 mr-1" />
+                  Guide des tailles
+                </label>
+                <p className="text-xs text-gray-500 mb-2">
+                  Mensurations que couvre cette taille ; la caisse signale les clients hors de ces intervalles
+                </p>
+                <div className="space-y-2">
+                  {measurementKeys.map(key => (
+                    <div key={key} className="grid grid-cols-3 gap-2 items-center">
+                      <span className="text-sm text-gray-700">{measurementLabels[key]} ({measurementUnits[key]})</span>
+                      <input
+                        type="number"
+                        name={`sizeChart.${key}.min`}
+                        defaultValue={editingProduct?.sizeChart?.[key]?.min}
+                        step="0.5"
+                        min="0"
+                        placeholder="Min"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <input
+                        type="number"
+                        name={`sizeChart.${key}.max`}
+                        defaultValue={editingProduct?.sizeChart?.[key]?.max}
+                        step="0.5"
+                        min="0"
+                        placeholder="Max"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Description
+                </label>
+                <textarea
+                  name="description"
+                  defaultValue={editingProduct?.description}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="flex space-x-4 pt-6">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowModal(false);
+                    setEditingProduct(null);
+                  }}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  {editingProduct ? 'Modifier' : 'Ajouter'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Stock Movements Modal */}
+      {stockProduct && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Mouvements de stock</h2>
+                <p className="text-sm text-gray-600">
+                  {stockProduct.name} - {stockProduct.size} ({stockProduct.color}) · Stock actuel : {products.find(p => p.id === stockProduct.id)?.stock ?? stockProduct.stock}
+                </p>
+              </div>
+              <button
+                onClick={() => {
+                  setStockProduct(null);
+                  setStockMovements([]);
+                }}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="p-6 space-y-6">
+              <form onSubmit={handleAddMovement} className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                <select
+                  value={movementForm.movementType}
+                  onChange={(e) => setMovementForm({ ...movementForm, movementType: e.target.value as StockMovement['movementType'] })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {(['reception', 'return', 'adjustment', 'loss', 'transfer'] as const).map(type => (
+                    <option key={type} value={type}>{movementLabels[type]}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  value={movementForm.quantity}
+                  onChange={(e) => setMovementForm({ ...movementForm, quantity: Number(e.target.value) })}
+                  min={movementSigns[movementForm.movementType] === 0 ? undefined : 1}
+                  title={movementSigns[movementForm.movementType] === 0 ? 'Quantité négative pour une sortie' : undefined}
+                  required
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input
+                  type="text"
+                  value={movementForm.reference}
+                  onChange={(e) => setMovementForm({ ...movementForm, reference: e.target.value })}
+                  placeholder="Référence (bon, facture...)"
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center space-x-1"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Enregistrer</span>
+                </button>
+                <input
+                  type="text"
+                  value={movementForm.notes}
+                  onChange={(e) => setMovementForm({ ...movementForm, notes: e.target.value })}
+                  placeholder="Notes"
+                  className="md:col-span-4 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </form>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Date</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Type</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-500">Quantité</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-500">Stock</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Référence</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Agent</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {stockMovements.map(movement => (
+                      <tr key={movement.id}>
+                        <td className="px-3 py-2 text-gray-600">{movement.createdAt.toLocaleString('fr-FR')}</td>
+                        <td className="px-3 py-2">{movementLabels[movement.movementType]}</td>
+                        <td className={`px-3 py-2 text-right font-medium ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                        </td>
+                        <td className="px-3 py-2 text-right">{movement.stockAfter}</td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {movement.reference}
+                          {movement.notes && <span className="block text-xs text-gray-400">{movement.notes}</span>}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">{movement.agentName || '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {stockMovements.length === 0 && (
+                  <p className="text-center text-sm text-gray-500 py-4">Aucun mouvement enregistré</p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Product Units Modal */}
+      {unitsProduct && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Exemplaires de location</h2>
+                <p className="text-sm text-gray-600">{unitsProduct.name} - {unitsProduct.size} ({unitsProduct.color})</p>
+              </div>
+              <button
+                onClick={() => {
+                  setUnitsProduct(null);
+                  setNewUnitCode('');
+                }}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div className="space-y-2">
+                {getProductUnits(unitsProduct.id).map(unit => (
+                  <div key={unit.id} className="flex items-center justify-between p-3 border border-gray-100 rounded-lg">
+                    <div className="flex items-center space-x-2">
+                      <Barcode className="w-4 h-4 text-gray-400" />
+                      <span className="font-medium text-gray-900">{unit.unitCode}</span>
+                      <span className={`px-2 py-1 text-xs rounded-full ${
+                        unit.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {unit.status === 'active' ? 'En service' : 'Retiré'}
+                      </span>
+                    </div>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleToggleUnitStatus(unit)}
+                        className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+                      >
+                        {unit.status === 'active' ? 'Retirer' : 'Remettre en service'}
+                      </button>
+                      {isAdmin && (
+                        <button
+                          onClick={() => handleDeleteUnit(unit.id)}
+                          className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+
+                {getProductUnits(unitsProduct.id).length === 0 && (
+                  <p className="text-center text-sm text-gray-500 py-4">Aucun exemplaire enregistré</p>
+                )}
+              </div>
+
+              <form onSubmit={handleAddUnit} className="flex space-x-2 pt-4 border-t border-gray-100">
+                <input
+                  type="text"
+                  value={newUnitCode}
+                  onChange={(e) => setNewUnitCode(e.target.value)}
+                  placeholder="Étiquette ou code-barres de l'exemplaire"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-1"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Ajouter</span>
+                </button>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,355 @@
+import React, { useState } from 'react';
+import { useStore } from '../context/StoreContext';
+import { useAuth } from '../context/AuthContext';
+import {
+  ChevronDown,
+  ChevronRight,
+  Download,
+  FileSpreadsheet,
+  HandCoins,
+  Search,
+  Wallet
+} from 'lucide-react';
+import { Payment } from '../types';
+import { downloadCSV } from '../utils/export';
+import { generateReceivablesPDF } from '../utils/pdfGenerator';
+import { formatPhone, phoneSearchTerm } from '../utils/phone';
+import {
+  agingBucketLabels,
+  agingBuckets,
+  AgingBucket,
+  CustomerReceivables,
+  getReceivableDocuments,
+  groupReceivablesByCustomer,
+  ReceivableDocument,
+  sumBuckets
+} from '../utils/receivables';
+
+const bucketColors: Record<AgingBucket, string> = {
+  '0-30': 'bg-green-500',
+  '31-60': 'bg-yellow-500',
+  '61-90': 'bg-orange-500',
+  '90+': 'bg-red-500'
+};
+
+const documentKindLabels: Record<ReceivableDocument['kind'], string> = {
+  order: 'Commande',
+  rental: 'Location'
+};
+
+export function Receivables() {
+  const { orders, rentals, customers, storeSettings, settleReceivable, loading } = useStore();
+  const { user } = useAuth();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [bucketFilter, setBucketFilter] = useState<AgingBucket | ''>('');
+  const [paymentMethod, setPaymentMethod] = useState<Payment['paymentMethod']>('cash');
+  const [expandedPhones, setExpandedPhones] = useState<string[]>([]);
+  const [settlingId, setSettlingId] = useState<string | null>(null);
+
+  // Le nom de la fiche client fait foi ; à défaut, celui saisi sur le document
+  const documents = getReceivableDocuments(orders, rentals).map(document => ({
+    ...document,
+    customerName: customers.find(customer => customer.phone === document.customerPhone)?.name ?? document.customerName
+  }));
+
+  const phoneTerm = phoneSearchTerm(searchTerm);
+  const customerReceivables = groupReceivablesByCustomer(
+    documents.filter(document => !bucketFilter || document.bucket === bucketFilter)
+  ).filter(group =>
+    group.customerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (!!phoneTerm && group.customerPhone.includes(phoneTerm))
+  );
+
+  const totals = sumBuckets(customerReceivables);
+  const grandTotal = agingBuckets.reduce((sum, bucket) => sum + totals[bucket], 0);
+
+  const toggleExpanded = (phone: string) => {
+    setExpandedPhones(phones => phones.includes(phone) ? phones.filter(p => p !== phone) : [...phones, phone]);
+  };
+
+  // Encaissement en un clic du reste dû, avec le mode de paiement choisi en haut de l'écran
+  const handleSettle = async (document: ReceivableDocument) => {
+    if (!user) {
+      alert('Utilisateur non connecté');
+      return;
+    }
+
+    if (!confirm(`Encaisser ${document.remainingAmount.toLocaleString('fr-FR')} DA de ${document.customerName} (${document.reference}) ?`)) return;
+
+    setSettlingId(document.id);
+    try {
+      await settleReceivable({
+        orderId: document.kind === 'order' ? document.id : undefined,
+        rentalId: document.kind === 'rental' ? document.id : undefined,
+        amount: document.remainingAmount,
+        paymentMethod,
+        agentId: user.id,
+        agentName: user.name
+      });
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors de l\'encaissement');
+    } finally {
+      setSettlingId(null);
+    }
+  };
+
+  const handleExportCSV = () => {
+    downloadCSV(
+      `Balance_agee_${new Date().toISOString().split('T')[0]}.csv`,
+      ['Client', 'Téléphone', 'Document', 'N°', 'Libellé', 'Date', 'Âge (jours)', 'Tranche', 'Montant (DA)', 'Reste dû (DA)'],
+      customerReceivables.flatMap(group =>
+        group.documents.map(document => [
+          group.customerName,
+          group.customerPhone,
+          documentKindLabels[document.kind],
+          document.reference,
+          document.label,
+          document.dueDate,
+          String(document.ageDays),
+          agingBucketLabels[document.bucket],
+          document.totalAmount,
+          document.remainingAmount
+        ])
+      )
+    );
+  };
+
+  const handleExportPDF = () => {
+    generateReceivablesPDF({
+      store: storeSettings,
+      customers: customerReceivables.map(group => ({ ...group, customerPhone: formatPhone(group.customerPhone) })),
+      totals,
+      date: new Date(),
+      agentName: user?.name || 'Agent'
+    });
+  };
+
+  const renderDocuments = (group: CustomerReceivables) => (
+    <tr>
+      <td colSpan={agingBuckets.length + 2} className="px-6 pb-4 bg-gray-50">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="px-4 py-2 text-left">Document</th>
+              <th className="px-4 py-2 text-left">Libellé</th>
+              <th className="px-4 py-2 text-left">Date</th>
+              <th className="px-4 py-2 text-left">Âge</th>
+              <th className="px-4 py-2 text-right">Montant</th>
+              <th className="px-4 py-2 text-right">Reste dû</th>
+              <th className="px-4 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {group.documents.map(document => (
+              <tr key={`${document.kind}-${document.id}`}>
+                <td className="px-4 py-2 whitespace-nowrap">
+                  <p className="font-medium text-gray-900">{document.reference}</p>
+                  <p className="text-xs text-gray-500">{documentKindLabels[document.kind]}</p>
+                </td>
+                <td className="px-4 py-2 text-gray-700">{document.label}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-gray-700">{document.dueDate.toLocaleDateString('fr-FR')}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-gray-700">{document.ageDays} j</td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-gray-700">
+                  {document.totalAmount.toLocaleString('fr-FR')} DA
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-right font-medium text-red-600">
+                  {document.remainingAmount.toLocaleString('fr-FR')} DA
+                </td>
+                <td className="px-4 py-2 text-right">
+                  <button
+                    onClick={() => handleSettle(document)}
+                    disabled={settlingId === document.id}
+                    className="px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-300 transition-colors inline-flex items-center space-x-1 text-xs"
+                  >
+                    <HandCoins className="w-3 h-3" />
+                    <span>Encaisser</span>
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </td>
+    </tr>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Créances clients</h1>
+        <p className="text-gray-600 mt-2">Soldes restant dus, par client et par ancienneté</p>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6">
+        {agingBuckets.map(bucket => (
+          <button
+            key={bucket}
+            onClick={() => setBucketFilter(bucketFilter === bucket ? '' : bucket)}
+            className={`bg-white p-6 rounded-xl shadow-sm border text-left transition-colors ${
+              bucketFilter === bucket ? 'border-blue-500' : 'border-gray-100 hover:border-gray-300'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">{agingBucketLabels[bucket]}</p>
+                <p className="text-2xl font-bold text-gray-900 mt-2">{totals[bucket].toLocaleString('fr-FR')} DA</p>
+              </div>
+              <div className={`w-3 h-3 rounded-full ${bucketColors[bucket]}`} />
+            </div>
+          </button>
+        ))}
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Total restant dû</p>
+              <p className="text-2xl font-bold text-red-600 mt-2">{grandTotal.toLocaleString('fr-FR')} DA</p>
+            </div>
+            <div className="p-3 rounded-lg bg-red-500">
+              <Wallet className="w-6 h-6 text-white" />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Rechercher un client..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <select
+            value={bucketFilter}
+            onChange={(e) => setBucketFilter(e.target.value as AgingBucket | '')}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Toutes les tranches</option>
+            {agingBuckets.map(bucket => (
+              <option key={bucket} value={bucket}>{agingBucketLabels[bucket]}</option>
+            ))}
+          </select>
+
+          <select
+            value={paymentMethod}
+            onChange={(e) => setPaymentMethod(e.target.value as Payment['paymentMethod'])}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="cash">Encaisser en espèces</option>
+            <option value="card">Encaisser par carte</option>
+            <option value="transfer">Encaisser par virement</option>
+          </select>
+        </div>
+
+        <div className="flex items-center justify-between mt-4">
+          <p className="text-sm text-gray-600">
+            {customerReceivables.length} client(s) débiteur(s)
+          </p>
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={handleExportCSV}
+              className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 transition-colors"
+            >
+              <FileSpreadsheet className="w-4 h-4" />
+              <span>CSV</span>
+            </button>
+            <button
+              onClick={handleExportPDF}
+              className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              <span>PDF</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Aging Table */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Client</th>
+                {agingBuckets.map(bucket => (
+                  <th key={bucket} className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {agingBucketLabels[bucket]}
+                  </th>
+                ))}
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {customerReceivables.map(group => {
+                const expanded = expandedPhones.includes(group.customerPhone);
+                return (
+                  <React.Fragment key={group.customerPhone}>
+                    <tr onClick={() => toggleExpanded(group.customerPhone)} className="hover:bg-gray-50 cursor-pointer">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center space-x-2">
+                          {expanded ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />}
+                          <div>
+                            <p className="text-sm font-medium text-gray-900">{group.customerName}</p>
+                            <p className="text-xs text-gray-500">
+                              {formatPhone(group.customerPhone)} · {group.documents.length} document(s)
+                            </p>
+                          </div>
+                        </div>
+                      </td>
+                      {agingBuckets.map(bucket => (
+                        <td key={bucket} className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                          {group.buckets[bucket] > 0 ? `${group.buckets[bucket].toLocaleString('fr-FR')} DA` : '—'}
+                        </td>
+                      ))}
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-semibold text-red-600">
+                        {group.total.toLocaleString('fr-FR')} DA
+                      </td>
+                    </tr>
+                    {expanded && renderDocuments(group)}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+            {customerReceivables.length > 0 && (
+              <tfoot className="bg-gray-50 border-t border-gray-200">
+                <tr>
+                  <td className="px-6 py-3 text-sm font-semibold text-gray-900">Total</td>
+                  {agingBuckets.map(bucket => (
+                    <td key={bucket} className="px-6 py-3 text-right text-sm font-semibold text-gray-900">
+                      {totals[bucket].toLocaleString('fr-FR')} DA
+                    </td>
+                  ))}
+                  <td className="px-6 py-3 text-right text-sm font-semibold text-red-600">
+                    {grandTotal.toLocaleString('fr-FR')} DA
+                  </td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+
+        {customerReceivables.length === 0 && (
+          <div className="text-center py-12">
+            <Wallet className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Aucun solde restant dû</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,1680 @@
+import React, { useState, useRef } from 'react';
+import { useStore } from '../context/StoreContext';
+import { useAuth } from '../context/AuthContext';
+import { 
+  Calendar, 
+  Clock, 
+  User, 
+  Phone, 
+  Mail,
+  Package,
+  AlertTriangle,
+  CheckCircle,
+  XCircle,
+  
+  Edit2,
+  ArrowLeft,
+  ArrowRight,
+  CalendarPlus,
+  Camera,
+  PackageCheck,
+  LogIn,
+  LogOut,
+  GanttChart,
+  FileSignature,
+  Wrench,
+  X
+} from 'lucide-react';
+import { Rental, RentalInspection, Product, ProductAvailability, Payment, RentalExtension, RentalCalendar } from '../types';
+import { generateReceiptPDF } from '../utils/pdf';
+import { SignaturePad } from './SignaturePad';
+import { generateReturnReceiptPDF, generateAmendmentReceiptPDF, generateRentalContractPDF } from '../utils/pdfGenerator';
+
+const depositStatusLabels: Record<NonNullable<Rental['depositStatus']>, string> = {
+  none: '',
+  held: 'détenue',
+  refunded: 'restituée',
+  partially_kept: 'partiellement retenue',
+  kept: 'retenue'
+};
+
+const rentalStatusLabels: Record<Rental['status'], string> = {
+  booked: 'Réservée',
+  picked_up: 'Sortie',
+  returned: 'Retournée',
+  overdue: 'En retard',
+  cancelled: 'Annulée'
+};
+
+const rentalStatusColors: Record<Rental['status'], string> = {
+  booked: 'bg-yellow-100 text-yellow-800',
+  picked_up: 'bg-green-100 text-green-800',
+  returned: 'bg-blue-100 text-blue-800',
+  overdue: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+};
+
+// Largeur d'une journée dans le planning, en pixels
+const timelineDayWidth = 36;
+const timelineWeeks = 8;
+
+const timelineBlockColors: Record<'reserved' | 'occupied' | 'overdue' | 'buffer' | 'maintenance', string> = {
+  reserved: 'bg-yellow-200 border-yellow-400 text-yellow-900',
+  occupied: 'bg-green-200 border-green-400 text-green-900',
+  overdue: 'bg-red-200 border-red-400 text-red-900',
+  buffer: 'bg-purple-100 border-purple-300 text-purple-800',
+  maintenance: 'bg-gray-200 border-gray-400 text-gray-800'
+};
+
+interface TimelineBlock {
+  key: string;
+  owner: string; // Location ou ticket d'entretien à l'origine du bloc
+  startIndex: number;
+  length: number;
+  status: RentalCalendar['status'];
+  rental?: Rental;
+  ticketVendor?: string;
+}
+
+// Lundi de la semaine précédente, pour voir les retours en cours
+const getDefaultTimelineStart = () => {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7) - 7);
+  return start;
+};
+
+export function RentalManagement() {
+  const { rentals, products, productUnits, maintenanceTickets, storeSettings, getRentalTimeline, cancelRental, pickupRental, returnRental, getInspectionChecklist, extendRental, getRentalExtensions, getRentalSignatures, getLateFee, getProductAvailability, loading } = useStore();
+  const { user } = useAuth();
+  const [selectedMonth, setSelectedMonth] = useState(new Date());
+  const [selectedProduct, setSelectedProduct] = useState<string>('');
+  const [showCalendar, setShowCalendar] = useState(false);
+  const [productAvailability, setProductAvailability] = useState<ProductAvailability | null>(null);
+  const [filterStatus, setFilterStatus] = useState<string>('');
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [timelineStart, setTimelineStart] = useState(getDefaultTimelineStart);
+  const [timelineCategory, setTimelineCategory] = useState('');
+  const [timelineEntries, setTimelineEntries] = useState<RentalCalendar[]>([]);
+  const [selectedRental, setSelectedRental] = useState<Rental | null>(null);
+  const timelineScrollRef = useRef<HTMLDivElement>(null);
+  const timelineDrag = useRef<{ x: number; scrollLeft: number; moved: boolean } | null>(null);
+  const [returningRental, setReturningRental] = useState<Rental | null>(null);
+  const [returnForm, setReturnForm] = useState({
+    checklist: [] as RentalInspection['checklist'],
+    inspectionNotes: '',
+    photos: [] as File[],
+    damageCharge: 0,
+    depositKept: 0,
+    lateFeePaid: 0,
+    lateFeeFromDeposit: false,
+    paymentMethod: 'cash' as Payment['paymentMethod'],
+    signature: undefined as string | undefined
+  });
+
+  const filteredRentals = rentals.filter(rental => {
+    if (filterStatus && rental.status !== filterStatus) return false;
+    return true;
+  });
+
+  const today = new Date().toDateString();
+  const endOfToday = new Date();
+  endOfToday.setHours(23, 59, 59, 999);
+  const activeRentals = rentals.filter(r => r.status === 'picked_up' || r.status === 'overdue');
+  const overdueRentals = rentals.filter(r => r.status === 'overdue');
+  const bookedRentals = rentals.filter(r => r.status === 'booked');
+
+  // Agenda du jour : retraits prévus (ou en attente depuis une date passée) et retours attendus aujourd'hui
+  const todayPickups = bookedRentals
+    .filter(r => new Date(r.rentalStartDate) <= endOfToday)
+    .sort((a, b) => new Date(a.rentalStartDate).getTime() - new Date(b.rentalStartDate).getTime());
+  const todayReturns = activeRentals.filter(r => new Date(r.rentalEndDate).toDateString() === today);
+
+  const handleCancel = async (rental: Rental) => {
+    if (!user) return;
+    if (!confirm(`Annuler la location de ${rental.customerName} ? Les dates seront libérées et la caution restituée.`)) return;
+
+    try {
+      await cancelRental(rental.id, {
+        paymentMethod: 'cash',
+        agentId: user.id,
+        agentName: user.name
+      });
+      refreshTimeline();
+
+      // ➕ Génération de reçu d'annulation
+      generateReceiptPDF({
+        customerName: rental.customerName,
+        customerPhone: rental.customerPhone,
+        customerEmail: rental.customerEmail,
+        items: [{
+          name: rental.productName ?? 'Produit inconnu',
+          quantity: 1,
+          unitPrice: rental.dailyRate,
+          isRental: true,
+          rentalDays: rental.rentalDays,
+        }],
+        total: rental.totalAmount,
+        date: new Date(),
+        agentName: user.name,
+        receiptNumber: `ANNUL-${rental.id}`
+      });
+    } catch (error) {
+      console.error('Erreur lors de l\'annulation de la location:', error);
+      alert((error as { message?: string })?.message || 'Erreur lors de l\'annulation de la location');
+    }
+  };
+
+  const handlePickup = async (rental: Rental) => {
+    if (!user) return;
+
+    try {
+      await pickupRental(rental.id, {
+        agentId: user.id,
+        agentName: user.name
+      });
+      refreshTimeline();
+    } catch (error) {
+      console.error('Erreur lors du retrait de la location:', error);
+      alert((error as { message?: string })?.message || 'Erreur lors du retrait de la location');
+    }
+  };
+
+  const [extendingRental, setExtendingRental] = useState<Rental | null>(null);
+  const [extensionHistory, setExtensionHistory] = useState<RentalExtension[]>([]);
+  const [extensionForm, setExtensionForm] = useState({
+    extraDays: 1,
+    amountPaid: 0,
+    paymentMethod: 'cash' as Payment['paymentMethod'],
+    notes: ''
+  });
+
+  // Même tarif que la location initiale, réduction comprise
+  const getExtensionAmount = (rental: Rental, extraDays: number) =>
+    Math.round(extraDays * rental.dailyRate * (1 - (rental.discount || 0) / 100) * 100) / 100;
+
+  const openExtension = async (rental: Rental) => {
+    setExtendingRental(rental);
+    setExtensionForm({
+      extraDays: 1,
+      amountPaid: getExtensionAmount(rental, 1),
+      paymentMethod: 'cash',
+      notes: ''
+    });
+    setExtensionHistory([]);
+
+    try {
+      setExtensionHistory(await getRentalExtensions(rental.id));
+    } catch (error) {
+      console.error('Erreur lors du chargement des prolongations:', error);
+    }
+  };
+
+  const handleExtend = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!extendingRental || !user || extensionForm.extraDays < 1) return;
+
+    const rental = extendingRental;
+    const newEndDate = new Date(rental.rentalEndDate);
+    newEndDate.setDate(newEndDate.getDate() + extensionForm.extraDays);
+    const amount = getExtensionAmount(rental, extensionForm.extraDays);
+    const amountPaid = Math.min(Math.max(0, extensionForm.amountPaid), amount);
+
+    try {
+      const extension = await extendRental(rental.id, {
+        newEndDate,
+        amountPaid,
+        paymentMethod: extensionForm.paymentMethod,
+        agentId: user.id,
+        agentName: user.name,
+        notes: extensionForm.notes.trim() || undefined
+      });
+
+      generateAmendmentReceiptPDF({
+        customerName: rental.customerName,
+        customerPhone: rental.customerPhone,
+        customerEmail: rental.customerEmail,
+        productName: rental.productName ?? 'Produit inconnu',
+        unitCode: rental.unitCode,
+        rentalStartDate: new Date(rental.rentalStartDate),
+        previousEndDate: extension.previousEndDate,
+        newEndDate: extension.newEndDate,
+        extraDays: extension.extraDays,
+        dailyRate: extension.dailyRate,
+        amount: extension.amount,
+        amountPaid: extension.amountPaid,
+        remainingAmount: Math.max(0, (rental.remainingAmount || 0) - (rental.lateFee || 0) + extension.amount - extension.amountPaid),
+        date: extension.createdAt,
+        agentName: user.name,
+        receiptNumber: `AVN-${extension.id.slice(0, 8).toUpperCase()}`
+      });
+
+      setExtendingRental(null);
+      refreshTimeline();
+    } catch (error) {
+      console.error('Erreur lors de la prolongation:', error);
+      // Message de la base, ex. exemplaire déjà réservé sur les jours demandés
+      alert((error as { message?: string })?.message || 'Erreur lors de la prolongation');
+    }
+  };
+
+  const handlePrintContract = async (rental: Rental) => {
+    const product = products.find(p => p.id === rental.productId);
+
+    let signatures;
+    try {
+      signatures = await getRentalSignatures(rental.id);
+    } catch (error) {
+      alert((error as { message?: string })?.message || 'Erreur lors du chargement de la signature');
+      return;
+    }
+
+    generateRentalContractPDF({
+      store: storeSettings,
+      contractNumber: `CTR-${rental.id.slice(0, 8).toUpperCase()}`,
+      customerName: rental.customerName,
+      customerPhone: rental.customerPhone,
+      customerEmail: rental.customerEmail,
+      items: [{
+        productName: rental.productName || product?.name || 'Produit inconnu',
+        category: product?.category,
+        size: product?.size,
+        color: product?.color,
+        unitCode: rental.unitCode,
+        barcode: product?.barcode,
+        startDate: new Date(rental.rentalStartDate),
+        endDate: new Date(rental.rentalEndDate),
+        rentalDays: rental.rentalDays,
+        totalAmount: rental.totalAmount,
+        depositAmount: rental.depositAmount
+      }],
+      customerSignature: signatures.contractSignature,
+      signedAt: rental.contractSignedAt,
+      date: rental.createdAt,
+      agentName: rental.agentName || user?.name || 'Agent inconnu'
+    });
+  };
+
+  const openReturn = (rental: Rental) => {
+    const category = products.find(p => p.id === rental.productId)?.category ?? '';
+
+    setReturningRental(rental);
+    setReturnForm({
+      checklist: getInspectionChecklist(category).map(item => ({ item, ok: true })),
+      inspectionNotes: '',
+      photos: [],
+      damageCharge: 0,
+      depositKept: 0,
+      lateFeePaid: getLateFee(rental).amount,
+      lateFeeFromDeposit: false,
+      paymentMethod: 'cash',
+      signature: undefined
+    });
+  };
+
+  const handleReturn = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!returningRental || !user) return;
+
+    const rental = returningRental;
+    const depositHeld = rental.depositStatus === 'held' ? rental.depositAmount : 0;
+    const lateFee = getLateFee(rental);
+    const lateFeeFromDeposit = returnForm.lateFeeFromDeposit ? Math.min(lateFee.amount, depositHeld) : 0;
+    const lateFeePaid = Math.min(Math.max(0, returnForm.lateFeePaid), lateFee.amount - lateFeeFromDeposit);
+    const damageCharge = Math.max(0, returnForm.damageCharge);
+    const depositKept = Math.min(Math.max(0, returnForm.depositKept), damageCharge, depositHeld - lateFeeFromDeposit);
+    const previousBalance = (rental.remainingAmount || 0) - (rental.lateFee || 0);
+    const issues = returnForm.checklist.filter(check => !check.ok).map(check => check.item);
+    const damageReason = [...issues, returnForm.inspectionNotes.trim()].filter(Boolean).join(', ');
+
+    if (damageCharge > 0 && !damageReason) {
+      alert('Veuillez cocher les dégâts constatés ou les décrire en note');
+      return;
+    }
+
+    try {
+      await returnRental(rental.id, {
+        depositKept,
+        depositKeptReason: depositKept > 0 ? damageReason : undefined,
+        damageCharge,
+        inspection: {
+          checklist: returnForm.checklist,
+          notes: returnForm.inspectionNotes.trim() || undefined,
+          photos: []
+        },
+        lateFeePaid,
+        lateFeeFromDeposit,
+        paymentMethod: returnForm.paymentMethod,
+        signature: returnForm.signature,
+        agentId: user.id,
+        agentName: user.name
+      }, returnForm.photos);
+
+      generateReturnReceiptPDF({
+        customerName: rental.customerName,
+        customerPhone: rental.customerPhone,
+        customerEmail: rental.customerEmail,
+        productName: rental.productName ?? 'Produit inconnu',
+        unitCode: rental.unitCode,
+        rentalStartDate: new Date(rental.rentalStartDate),
+        rentalEndDate: new Date(rental.rentalEndDate),
+        returnedAt: new Date(),
+        depositAmount: depositHeld,
+        depositRefunded: depositHeld - depositKept - lateFeeFromDeposit,
+        depositKept,
+        depositKeptReason: depositKept > 0 ? damageReason : undefined,
+        damage: {
+          amount: damageCharge,
+          fromDeposit: depositKept,
+          issues
+        },
+        lateFee: {
+          days: lateFee.days,
+          amount: lateFee.amount,
+          paid: lateFeePaid,
+          fromDeposit: lateFeeFromDeposit
+        },
+        remainingAmount: Math.max(0, previousBalance + lateFee.amount - lateFeePaid - lateFeeFromDeposit + damageCharge - depositKept),
+        customerSignature: returnForm.signature,
+        agentName: user.name,
+        receiptNumber: `RET-${rental.id.slice(0, 8).toUpperCase()}`
+      });
+
+      setReturningRental(null);
+      refreshTimeline();
+    } catch (error) {
+      console.error('Erreur lors du retour de la location:', error);
+      // Message de la base, ex. retenue sur caution sans motif
+      alert((error as { message?: string })?.message || 'Erreur lors du retour de la location');
+    }
+  };
+
+  const loadTimeline = async (start: Date) => {
+    const end = new Date(start);
+    end.setDate(end.getDate() + timelineWeeks * 7 - 1);
+
+    try {
+      setTimelineEntries(await getRentalTimeline(start, end));
+    } catch (error) {
+      console.error('Erreur lors du chargement du planning:', error);
+    }
+  };
+
+  const toggleTimeline = () => {
+    if (!showTimeline) {
+      loadTimeline(timelineStart);
+    }
+    setShowTimeline(!showTimeline);
+  };
+
+  // Recharge le planning affiché après une action sur une location
+  const refreshTimeline = () => {
+    if (showTimeline) {
+      loadTimeline(timelineStart);
+    }
+  };
+
+  const navigateTimeline = (weeks: number | null) => {
+    const newStart = weeks === null ? getDefaultTimelineStart() : new Date(timelineStart);
+    if (weeks !== null) {
+      newStart.setDate(newStart.getDate() + weeks * 7);
+    }
+    setTimelineStart(newStart);
+    loadTimeline(newStart);
+  };
+
+  // Glisser le planning à la souris pour parcourir les semaines
+  const handleTimelineMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!timelineScrollRef.current) return;
+    timelineDrag.current = { x: e.clientX, scrollLeft: timelineScrollRef.current.scrollLeft, moved: false };
+  };
+
+  const handleTimelineMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const drag = timelineDrag.current;
+    if (!drag || !timelineScrollRef.current) return;
+    const delta = e.clientX - drag.x;
+    if (Math.abs(delta) > 5) drag.moved = true;
+    timelineScrollRef.current.scrollLeft = drag.scrollLeft - delta;
+  };
+
+  const handleTimelineMouseUp = () => {
+    // Laisse passer le clic qui suit le relâchement, sauf après un glissement
+    setTimeout(() => {
+      timelineDrag.current = null;
+    });
+  };
+
+  const handleBlockClick = (block: TimelineBlock) => {
+    if (timelineDrag.current?.moved || !block.rental) return;
+    setSelectedRental(block.rental);
+  };
+
+  // Regroupe les jours consécutifs d'une même location ou d'un même ticket en un bloc
+  const getTimelineBlocks = (unitId: string, dayIndex: Map<string, number>): TimelineBlock[] => {
+    const blocks: TimelineBlock[] = [];
+
+    timelineEntries
+      .filter(entry => entry.unitId === unitId)
+      .forEach(entry => {
+        const index = dayIndex.get(new Date(entry.reservedDate).toDateString());
+        if (index === undefined) return;
+
+        const owner = entry.rentalId ?? entry.maintenanceTicketId ?? '';
+        const last = blocks[blocks.length - 1];
+
+        if (last && last.owner === owner && last.status === entry.status && last.startIndex + last.length === index) {
+          last.length += 1;
+          return;
+        }
+
+        blocks.push({
+          key: `${owner}-${entry.status}-${index}`,
+          owner,
+          startIndex: index,
+          length: 1,
+          status: entry.status,
+          rental: entry.rentalId ? rentals.find(r => r.id === entry.rentalId) : undefined,
+          ticketVendor: entry.maintenanceTicketId
+            ? maintenanceTickets.find(ticket => ticket.id === entry.maintenanceTicketId)?.vendor
+            : undefined
+        });
+      });
+
+    return blocks;
+  };
+
+  const renderTimelineBlock = (block: TimelineBlock, days: Date[]) => {
+    const rental = block.rental;
+    const colorKey = block.status === 'buffer' || block.status === 'maintenance'
+      ? block.status
+      : rental?.status === 'overdue'
+      ? 'overdue'
+      : block.status === 'occupied' ? 'occupied' : 'reserved';
+    const blockStart = days[block.startIndex].toDateString();
+    const blockEnd = days[block.startIndex + block.length - 1].toDateString();
+    const isRentalDays = rental && (block.status === 'reserved' || block.status === 'occupied');
+    const showsPickup = isRentalDays && new Date(rental.rentalStartDate).toDateString() === blockStart;
+    const showsReturn = isRentalDays && new Date(rental.rentalEndDate).toDateString() === blockEnd;
+    const label = block.status === 'buffer'
+      ? 'Battement'
+      : block.status === 'maintenance'
+      ? `Entretien${block.ticketVendor ? ` - ${block.ticketVendor}` : ''}`
+      : rental?.customerName ?? '';
+    const title = rental && isRentalDays
+      ? `${rental.customerName} · ${rental.productName ?? ''} · du ${new Date(rental.rentalStartDate).toLocaleDateString('fr-FR')} au ${new Date(rental.rentalEndDate).toLocaleDateString('fr-FR')} (${rentalStatusLabels[rental.status]})`
+      : label;
+
+    return (
+      <div
+        key={block.key}
+        onClick={() => handleBlockClick(block)}
+        title={title}
+        className={`absolute top-1 bottom-1 border rounded flex items-center px-1 text-xs overflow-hidden whitespace-nowrap ${
+          timelineBlockColors[colorKey]
+        } ${rental && isRentalDays ? 'cursor-pointer hover:shadow-md' : ''}`}
+        style={{ left: block.startIndex * timelineDayWidth + 1, width: block.length * timelineDayWidth - 2 }}
+      >
+        {showsPickup && <LogOut className="w-3 h-3 mr-1 flex-shrink-0" />}
+        {block.status === 'maintenance' && <Wrench className="w-3 h-3 mr-1 flex-shrink-0" />}
+        <span className="truncate flex-1">{label}</span>
+        {showsReturn && <LogIn className="w-3 h-3 ml-1 flex-shrink-0" />}
+      </div>
+    );
+  };
+
+  const renderTimeline = () => {
+    const days = Array.from({ length: timelineWeeks * 7 }, (_, index) => {
+      const day = new Date(timelineStart);
+      day.setDate(day.getDate() + index);
+      return day;
+    });
+    const dayIndex = new Map(days.map((day, index) => [day.toDateString(), index]));
+    const timelineEnd = days[days.length - 1];
+    const rowWidth = days.length * timelineDayWidth;
+
+    const timelineProducts = products
+      .filter(product => product.isAvailableForRental)
+      .filter(product => !timelineCategory || product.category === timelineCategory)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const categories = [...new Set(products.filter(p => p.isAvailableForRental).map(p => p.category))]
+      .sort((a, b) => a.localeCompare(b));
+
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Planning du {timelineStart.toLocaleDateString('fr-FR')} au {timelineEnd.toLocaleDateString('fr-FR')}
+          </h3>
+          <div className="flex items-center space-x-2">
+            <select
+              value={timelineCategory}
+              onChange={(e) => setTimelineCategory(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Toutes les catégories</option>
+              {categories.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => navigateTimeline(-4)}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              title="4 semaines plus tôt"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => navigateTimeline(null)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Aujourd'hui
+            </button>
+            <button
+              onClick={() => navigateTimeline(4)}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              title="4 semaines plus tard"
+            >
+              <ArrowRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div
+          ref={timelineScrollRef}
+          onMouseDown={handleTimelineMouseDown}
+          onMouseMove={handleTimelineMouseMove}
+          onMouseUp={handleTimelineMouseUp}
+          onMouseLeave={handleTimelineMouseUp}
+          className="overflow-x-auto border border-gray-100 rounded-lg cursor-grab active:cursor-grabbing select-none"
+        >
+          <div style={{ width: rowWidth + 192 }}>
+            {/* En-tête des jours */}
+            <div className="flex border-b border-gray-100 bg-gray-50">
+              <div className="w-48 flex-shrink-0 sticky left-0 z-20 bg-gray-50 px-3 py-2 text-xs font-medium text-gray-500 uppercase">
+                Produit / exemplaire
+              </div>
+              {days.map(day => {
+                const isWeekend = day.getDay() === 5 || day.getDay() === 6;
+                const isToday = day.toDateString() === today;
+
+                return (
+                  <div
+                    key={day.toISOString()}
+                    className={`flex-shrink-0 text-center text-xs py-1 border-l border-gray-100 ${
+                      isToday ? 'bg-blue-100 text-blue-800 font-semibold' : isWeekend ? 'bg-gray-100 text-gray-600' : 'text-gray-500'
+                    }`}
+                    style={{ width: timelineDayWidth }}
+                  >
+                    <div>{day.toLocaleDateString('fr-FR', { weekday: 'narrow' })}</div>
+                    <div>{day.getDate()}</div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {timelineProducts.map(product => {
+              const units = productUnits.filter(unit => unit.productId === product.id && unit.status === 'active');
+
+              return (
+                <div key={product.id} className="border-b border-gray-100">
+                  <div className="flex bg-gray-50">
+                    <div className="w-48 flex-shrink-0 sticky left-0 z-10 bg-gray-50 px-3 py-1 text-sm font-medium text-gray-900 truncate">
+                      {product.name}
+                      <span className="text-xs text-gray-500"> · {product.size} · {product.color}</span>
+                    </div>
+                  </div>
+                  {units.map(unit => (
+                    <div key={unit.id} className="flex">
+                      <div className="w-48 flex-shrink-0 sticky left-0 z-10 bg-white px-3 py-2 text-xs text-gray-600 border-r border-gray-100">
+                        {unit.unitCode}
+                      </div>
+                      <div className="relative h-9" style={{ width: rowWidth }}>
+                        {days.map((day, index) => (
+                          <div
+                            key={index}
+                            className={`absolute top-0 bottom-0 border-l border-gray-50 ${
+                              day.toDateString() === today ? 'bg-blue-50' : ''
+                            }`}
+                            style={{ left: index * timelineDayWidth, width: timelineDayWidth }}
+                          />
+                        ))}
+                        {getTimelineBlocks(unit.id, dayIndex).map(block => renderTimelineBlock(block, days))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {timelineProducts.length === 0 && (
+          <div className="text-center py-12">
+            <GanttChart className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Aucun produit louable</p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-center gap-6 mt-6 text-sm">
+          <div className="flex items-center space-x-2">
+            <div className={`w-4 h-4 border rounded ${timelineBlockColors.reserved}`}></div>
+            <span>Réservée</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className={`w-4 h-4 border rounded ${timelineBlockColors.occupied}`}></div>
+            <span>Sortie</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className={`w-4 h-4 border rounded ${timelineBlockColors.overdue}`}></div>
+            <span>En retard</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className={`w-4 h-4 border rounded ${timelineBlockColors.buffer}`}></div>
+            <span>Battement</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className={`w-4 h-4 border rounded ${timelineBlockColors.maintenance}`}></div>
+            <span>Entretien</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <LogOut className="w-4 h-4" />
+            <span>Retrait</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <LogIn className="w-4 h-4" />
+            <span>Retour</span>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const loadProductAvailability = async (productId: string) => {
+    try {
+      const availability = await getProductAvailability(productId, selectedMonth);
+      setProductAvailability(availability);
+    } catch (error) {
+      console.error('Erreur lors du chargement de la disponibilité:', error);
+    }
+  };
+
+  const handleProductSelect = (productId: string) => {
+    setSelectedProduct(productId);
+    if (productId) {
+      loadProductAvailability(productId);
+      setShowCalendar(true);
+    } else {
+      setShowCalendar(false);
+    }
+  };
+
+  const navigateMonth = (direction: 'prev' | 'next') => {
+    const newMonth = new Date(selectedMonth);
+    if (direction === 'prev') {
+      newMonth.setMonth(newMonth.getMonth() - 1);
+    } else {
+      newMonth.setMonth(newMonth.getMonth() + 1);
+    }
+    setSelectedMonth(newMonth);
+    if (selectedProduct) {
+      loadProductAvailability(selectedProduct);
+    }
+  };
+
+  const renderCalendar = () => {
+    if (!productAvailability) return null;
+
+    const year = selectedMonth.getFullYear();
+    const month = selectedMonth.getMonth();
+    const firstDay = new Date(year, month, 1);
+    const lastDay = new Date(year, month + 1, 0);
+    const startDate = new Date(firstDay);
+    startDate.setDate(startDate.getDate() - firstDay.getDay());
+
+    const days = [];
+    const currentDate = new Date(startDate);
+
+    while (currentDate <= lastDay || days.length < 42) {
+      const isCurrentMonth = currentDate.getMonth() === month;
+      const dayAvailability = productAvailability.dailyAvailability.find(day =>
+        day.date.toDateString() === currentDate.toDateString()
+      );
+      const freeUnits = dayAvailability ? dayAvailability.freeUnits : productAvailability.totalUnits;
+      const bufferUnits = dayAvailability ? dayAvailability.bufferUnits : 0;
+      const isToday = currentDate.toDateString() === new Date().toDateString();
+
+      days.push({
+        date: new Date(currentDate),
+        isCurrentMonth,
+        freeUnits,
+        bufferUnits,
+        isToday
+      });
+
+      currentDate.setDate(currentDate.getDate() + 1);
+      if (days.length >= 42) break;
+    }
+
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Calendrier de Disponibilité - {products.find(p => p.id === selectedProduct)?.name}
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              ({productAvailability.totalUnits} exemplaire{productAvailability.totalUnits > 1 ? 's' : ''})
+            </span>
+          </h3>
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => navigateMonth('prev')}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </button>
+            <span className="font-medium">
+              {selectedMonth.toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' })}
+            </span>
+            <button
+              onClick={() => navigateMonth('next')}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-7 gap-1 mb-4">
+          {['Dim', 'Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam'].map(day => (
+            <div key={day} className="p-2 text-center text-sm font-medium text-gray-500">
+              {day}
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-7 gap-1">
+          {days.map((day, index) => (
+            <div
+              key={index}
+              className={`p-2 text-center text-sm border rounded-lg ${
+                !day.isCurrentMonth
+                  ? 'text-gray-300 bg-gray-50'
+                  : day.freeUnits === 0 && day.bufferUnits === 0
+                  ? 'bg-red-100 text-red-800 border-red-200'
+                  : day.bufferUnits > 0
+                  ? 'bg-purple-100 text-purple-800 border-purple-200'
+                  : day.isToday
+                  ? 'bg-blue-100 text-blue-800 border-blue-200'
+                  : day.freeUnits < productAvailability.totalUnits
+                  ? 'bg-yellow-50 text-yellow-800 border-yellow-200 hover:bg-yellow-100'
+                  : 'bg-green-50 text-green-800 border-green-200 hover:bg-green-100'
+              }`}
+            >
+              <div>{day.date.getDate()}</div>
+              {day.isCurrentMonth && (
+                <div className="text-xs mt-1">
+                  {day.freeUnits}/{productAvailability.totalUnits} libre{day.freeUnits > 1 ? 's' : ''}
+                </div>
+              )}
+              {day.isCurrentMonth && day.bufferUnits > 0 && (
+                <div className="text-xs">
+                  {day.bufferUnits} en entretien
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-center space-x-6 mt-6 text-sm">
+          <div className="flex items-center space-x-2">
+            <div className="w-4 h-4 bg-green-100 border border-green-200 rounded"></div>
+            <span>Disponible</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className="w-4 h-4 bg-yellow-50 border border-yellow-200 rounded"></div>
+            <span>Partiellement réservé</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className="w-4 h-4 bg-red-100 border border-red-200 rounded"></div>
+            <span>Complet</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className="w-4 h-4 bg-purple-100 border border-purple-200 rounded"></div>
+            <span>Battement / entretien</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className="w-4 h-4 bg-blue-100 border border-blue-200 rounded"></div>
+            <span>Aujourd'hui</span>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const returnLateFee = returningRental ? getLateFee(returningRental) : null;
+  const returnLateFeeFromDeposit = returningRental && returnLateFee && returnForm.lateFeeFromDeposit
+    ? Math.min(returnLateFee.amount, returningRental.depositAmount)
+    : 0;
+  const returnDepositAvailable = returningRental ? Math.max(0, returningRental.depositAmount - returnLateFeeFromDeposit) : 0;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Gestion des Locations</h1>
+        <p className="text-gray-600 mt-2">Gérez les locations et consultez la disponibilité des produits</p>
+      </div>
+
+      {/* Statistiques rapides */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Réservations</p>
+              <p className="text-2xl font-bold text-yellow-600 mt-2">{bookedRentals.length}</p>
+            </div>
+            <div className="p-3 bg-yellow-100 rounded-lg">
+              <Clock className="w-6 h-6 text-yellow-600" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Articles Sortis</p>
+              <p className="text-2xl font-bold text-blue-600 mt-2">{activeRentals.length}</p>
+            </div>
+            <div className="p-3 bg-blue-100 rounded-lg">
+              <Calendar className="w-6 h-6 text-blue-600" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">En Retard</p>
+              <p className="text-2xl font-bold text-red-600 mt-2">{overdueRentals.length}</p>
+            </div>
+            <div className="p-3 bg-red-100 rounded-lg">
+              <AlertTriangle className="w-6 h-6 text-red-600" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Total Locations</p>
+              <p className="text-2xl font-bold text-gray-900 mt-2">{rentals.length}</p>
+            </div>
+            <div className="p-3 bg-gray-100 rounded-lg">
+              <Package className="w-6 h-6 text-gray-600" />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Agenda du jour */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+          <div className="p-6 border-b border-gray-100">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <LogOut className="w-5 h-5 mr-2 text-yellow-600" />
+              Retraits du jour ({todayPickups.length})
+            </h2>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {todayPickups.map(rental => {
+              const isLate = new Date(rental.rentalStartDate).toDateString() !== today;
+
+              return (
+                <div key={rental.id} className="p-4 flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {rental.productName}
+                      {rental.unitCode && <span className="text-gray-500"> - {rental.unitCode}</span>}
+                    </p>
+                    <p className="text-sm text-gray-500 flex items-center">
+                      <User className="w-3 h-3 mr-1" />
+                      {rental.customerName} · {rental.customerPhone}
+                    </p>
+                    {isLate && (
+                      <p className="text-xs text-red-600">
+                        Prévu le {new Date(rental.rentalStartDate).toLocaleDateString('fr-FR')}
+                      </p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handlePickup(rental)}
+                    className="px-3 py-1 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center space-x-1"
+                  >
+                    <PackageCheck className="w-4 h-4" />
+                    <span>Retrait</span>
+                  </button>
+                </div>
+              );
+            })}
+            {todayPickups.length === 0 && (
+              <p className="p-6 text-sm text-gray-500 text-center">Aucun retrait prévu aujourd'hui</p>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+          <div className="p-6 border-b border-gray-100">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <LogIn className="w-5 h-5 mr-2 text-blue-600" />
+              Retours du jour ({todayReturns.length})
+            </h2>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {todayReturns.map(rental => (
+              <div key={rental.id} className="p-4 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {rental.productName}
+                    {rental.unitCode && <span className="text-gray-500"> - {rental.unitCode}</span>}
+                  </p>
+                  <p className="text-sm text-gray-500 flex items-center">
+                    <User className="w-3 h-3 mr-1" />
+                    {rental.customerName} · {rental.customerPhone}
+                  </p>
+                </div>
+                <button
+                  onClick={() => openReturn(rental)}
+                  className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-1"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  <span>Retour</span>
+                </button>
+              </div>
+            ))}
+            {todayReturns.length === 0 && (
+              <p className="p-6 text-sm text-gray-500 text-center">Aucun retour attendu aujourd'hui</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Calendrier de disponibilité */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Vérifier la Disponibilité</h2>
+          <button
+            onClick={toggleTimeline}
+            className={`px-4 py-2 rounded-lg transition-colors flex items-center space-x-2 ${
+              showTimeline ? 'bg-blue-100 text-blue-800' : 'bg-blue-600 text-white hover:bg-blue-700'
+            }`}
+          >
+            <GanttChart className="w-4 h-4" />
+            <span>{showTimeline ? 'Masquer le planning' : 'Planning de tous les produits'}</span>
+          </button>
+        </div>
+        <div className="mb-4">
+          <select
+            value={selectedProduct}
+            onChange={(e) => handleProductSelect(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Sélectionner un produit</option>
+            {products
+              .filter(p => p.isAvailableForRental)
+              .map(product => (
+                <option key={product.id} value={product.id}>
+                  {product.name} - {product.size} ({product.color})
+                </option>
+              ))}
+          </select>
+        </div>
+      </div>
+
+      {showCalendar && renderCalendar()}
+
+      {showTimeline && renderTimeline()}
+
+      {/* Liste des locations */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+        <div className="p-6 border-b border-gray-100">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Locations en Cours</h2>
+            <select
+              value={filterStatus}
+              onChange={(e) => setFilterStatus(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Tous les statuts</option>
+              <option value="booked">Réservées</option>
+              <option value="picked_up">Sorties</option>
+              <option value="returned">Retournées</option>
+              <option value="overdue">En retard</option>
+              <option value="cancelled">Annulées</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Client
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Produit
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Période
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Montant
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Statut
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {filteredRentals.map((rental) => {
+                const isOverdue = rental.status === 'overdue';
+                
+                return (
+                  <tr key={rental.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">
+                          {rental.customerName}
+                        </div>
+                        <div className="text-sm text-gray-500 flex items-center">
+                          <Phone className="w-3 h-3 mr-1" />
+                          {rental.customerPhone}
+                        </div>
+                        {rental.customerEmail && (
+                          <div className="text-sm text-gray-500 flex items-center">
+                            <Mail className="w-3 h-3 mr-1" />
+                            {rental.customerEmail}
+                          </div>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        {rental.productName}
+                      </div>
+                      {rental.unitCode && (
+                        <div className="text-xs text-gray-500">
+                          Exemplaire : {rental.unitCode}
+                        </div>
+                      )}
+                      <div className="text-sm text-gray-500">
+                        {rental.rentalDays} jour(s) - {rental.dailyRate}DA/jour
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">
+                        Du {new Date(rental.rentalStartDate).toLocaleDateString('fr-FR')}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        Au {new Date(rental.rentalEndDate).toLocaleDateString('fr-FR')}
+                      </div>
+                      {rental.pickedUpAt && (
+                        <div className="text-xs text-gray-500">
+                          Retiré le {rental.pickedUpAt.toLocaleDateString('fr-FR')}
+                          {rental.pickedUpByName && ` par ${rental.pickedUpByName}`}
+                        </div>
+                      )}
+                      {rental.returnedAt && (
+                        <div className="text-xs text-gray-500">
+                          Rendu le {rental.returnedAt.toLocaleDateString('fr-FR')}
+                          {rental.returnedByName && ` par ${rental.returnedByName}`}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        {rental.totalAmount.toLocaleString('fr-FR')} DA
+                      </div>
+                      {(rental.lateFee || 0) > 0 && (
+                        <div className="text-sm text-red-600">
+                          Pénalité retard: {rental.lateFee}DA
+                        </div>
+                      )}
+                      {rental.depositAmount > 0 && (
+                        <div className="text-sm text-gray-500">
+                          Caution: {rental.depositAmount}DA
+                          {rental.depositStatus && rental.depositStatus !== 'none' && (
+                            <span className={rental.depositKept ? 'text-red-600' : ''}>
+                              {' '}({depositStatusLabels[rental.depositStatus]}
+                              {rental.depositKept ? ` : ${rental.depositKept}DA` : ''})
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${rentalStatusColors[rental.status]}`}>
+                        {rentalStatusLabels[rental.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                      {rental.status === 'booked' && (
+                        <button
+                          onClick={() => handlePickup(rental)}
+                          className="text-green-600 hover:text-green-900 transition-colors"
+                          title="Retrait par le client"
+                        >
+                          <PackageCheck className="w-4 h-4" />
+                        </button>
+                      )}
+                      {(rental.status === 'picked_up' || isOverdue) && (
+                        <button
+                          onClick={() => openReturn(rental)}
+                          className="text-green-600 hover:text-green-900 transition-colors"
+                          title="Marquer comme retourné"
+                        >
+                          <CheckCircle className="w-4 h-4" />
+                        </button>
+                      )}
+                      {(rental.status === 'booked' || rental.status === 'picked_up' || isOverdue) && (
+                        <button
+                          onClick={() => openExtension(rental)}
+                          className="text-blue-600 hover:text-blue-900 transition-colors"
+                          title="Prolonger"
+                        >
+                          <CalendarPlus className="w-4 h-4" />
+                        </button>
+                      )}
+                      {rental.status === 'booked' && (
+                        <button
+                          onClick={() => handleCancel(rental)}
+                          className="text-red-600 hover:text-red-900 transition-colors"
+                          title="Annuler"
+                        >
+                          <XCircle className="w-4 h-4" />
+                        </button>
+                      )}
+                      {rental.status !== 'cancelled' && (
+                        <button
+                          onClick={() => handlePrintContract(rental)}
+                          className="text-gray-600 hover:text-gray-900 transition-colors"
+                          title="Imprimer le contrat"
+                        >
+                          <FileSignature className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {filteredRentals.length === 0 && (
+          <div className="text-center py-12">
+            <Calendar className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Aucune location trouvée</p>
+          </div>
+        )}
+      </div>
+
+      {/* Rental Detail Modal */}
+      {selectedRental && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100 flex items-start justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">{selectedRental.productName}</h2>
+                {selectedRental.unitCode && (
+                  <p className="text-sm text-gray-600">Exemplaire : {selectedRental.unitCode}</p>
+                )}
+              </div>
+              <button
+                onClick={() => setSelectedRental(null)}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-3 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Client</span>
+                <span className="font-medium text-gray-900">{selectedRental.customerName}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Téléphone</span>
+                <span className="text-gray-900">{selectedRental.customerPhone}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Période</span>
+                <span className="text-gray-900">
+                  {new Date(selectedRental.rentalStartDate).toLocaleDateString('fr-FR')} - {new Date(selectedRental.rentalEndDate).toLocaleDateString('fr-FR')}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Montant</span>
+                <span className="text-gray-900">{selectedRental.totalAmount.toLocaleString('fr-FR')} DA</span>
+              </div>
+              {(selectedRental.remainingAmount || 0) > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Reste à payer</span>
+                  <span className="text-red-600">{(selectedRental.remainingAmount || 0).toLocaleString('fr-FR')} DA</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-gray-600">Statut</span>
+                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${rentalStatusColors[selectedRental.status]}`}>
+                  {rentalStatusLabels[selectedRental.status]}
+                </span>
+              </div>
+            </div>
+
+            <div className="p-6 border-t border-gray-100 flex justify-end space-x-3">
+              {selectedRental.status === 'booked' && (
+                <button
+                  onClick={() => {
+                    handlePickup(selectedRental);
+                    setSelectedRental(null);
+                  }}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center space-x-2"
+                >
+                  <PackageCheck className="w-4 h-4" />
+                  <span>Retrait</span>
+                </button>
+              )}
+              {(selectedRental.status === 'picked_up' || selectedRental.status === 'overdue') && (
+                <button
+                  onClick={() => {
+                    openReturn(selectedRental);
+                    setSelectedRental(null);
+                  }}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  <span>Retour</span>
+                </button>
+              )}
+              {(selectedRental.status === 'booked' || selectedRental.status === 'picked_up' || selectedRental.status === 'overdue') && (
+                <button
+                  onClick={() => {
+                    openExtension(selectedRental);
+                    setSelectedRental(null);
+                  }}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+                >
+                  <CalendarPlus className="w-4 h-4" />
+                  <span>Prolonger</span>
+                </button>
+              )}
+              {selectedRental.status !== 'cancelled' && (
+                <button
+                  onClick={() => handlePrintContract(selectedRental)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+                >
+                  <FileSignature className="w-4 h-4" />
+                  <span>Contrat</span>
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Return Modal */}
+      {returningRental && returnLateFee && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100">
+              <h2 className="text-xl font-semibold text-gray-900">Retour de location</h2>
+              <p className="text-sm text-gray-600">
+                {returningRental.productName}
+                {returningRental.unitCode && ` - ${returningRental.unitCode}`} · {returningRental.customerName}
+              </p>
+            </div>
+
+            <form onSubmit={handleReturn} className="p-6 space-y-4">
+              {returnLateFee.amount > 0 && (
+                <div className="space-y-3 pb-4 border-b border-gray-100">
+                  <div className="flex justify-between text-sm text-red-700">
+                    <span>
+                      Pénalité de retard ({returnLateFee.days} jour{returnLateFee.days > 1 ? 's' : ''}):
+                    </span>
+                    <span className="font-medium">{returnLateFee.amount.toLocaleString('fr-FR')} DA</span>
+                  </div>
+
+                  {returningRental.depositStatus === 'held' && (
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={returnForm.lateFeeFromDeposit}
+                        onChange={(e) => setReturnForm({
+                          ...returnForm,
+                          lateFeeFromDeposit: e.target.checked,
+                          lateFeePaid: e.target.checked
+                            ? Math.max(0, returnLateFee.amount - returningRental.depositAmount)
+                            : returnLateFee.amount
+                        })}
+                      />
+                      <span>Prélever sur la caution</span>
+                    </label>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Pénalité encaissée maintenant (DA)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={returnForm.lateFeePaid}
+                      onChange={(e) => setReturnForm({ ...returnForm, lateFeePaid: Number(e.target.value) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Le reste s'ajoute au solde du client</p>
+                  </div>
+                </div>
+              )}
+
+              {/* Contrôle de l'article */}
+              <div className="space-y-3 pb-4 border-b border-gray-100">
+                <h3 className="text-sm font-semibold text-gray-900">État de l'article</h3>
+
+                <div className="space-y-2">
+                  {returnForm.checklist.map((check, index) => (
+                    <label key={check.item} className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={!check.ok}
+                        onChange={(e) => setReturnForm({
+                          ...returnForm,
+                          checklist: returnForm.checklist.map((c, i) => i === index ? { ...c, ok: !e.target.checked } : c)
+                        })}
+                      />
+                      <span className={check.ok ? 'text-gray-700' : 'text-red-700 font-medium'}>{check.item}</span>
+                    </label>
+                  ))}
+                </div>
+
+                <textarea
+                  rows={2}
+                  value={returnForm.inspectionNotes}
+                  onChange={(e) => setReturnForm({ ...returnForm, inspectionNotes: e.target.value })}
+                  placeholder="Observations (emplacement de la tache, bouton manquant...)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+
+                <div>
+                  <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                    <Camera className="w-4 h-4 mr-1" />
+                    Photos
+                  </label>
+                  <input
+                    type="file"
+                    accept="image/*"
+                    capture="environment"
+                    multiple
+                    onChange={(e) => setReturnForm({ ...returnForm, photos: Array.from(e.target.files || []) })}
+                    className="w-full text-sm text-gray-600"
+                  />
+                  {returnForm.photos.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">{returnForm.photos.length} photo(s) sélectionnée(s)</p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Dégâts facturés (DA)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={returnForm.damageCharge}
+                    onChange={(e) => {
+                      const damageCharge = Number(e.target.value);
+                      setReturnForm({
+                        ...returnForm,
+                        damageCharge,
+                        depositKept: returningRental.depositStatus === 'held'
+                          ? Math.min(damageCharge, returnDepositAvailable)
+                          : 0
+                      });
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              {returningRental.depositStatus === 'held' ? (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Caution détenue:</span>
+                    <span className="font-medium">{returningRental.depositAmount.toLocaleString('fr-FR')} DA</span>
+                  </div>
+
+                  {returnForm.damageCharge > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Dégâts prélevés sur la caution (DA)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        max={Math.min(returnForm.damageCharge, returnDepositAvailable)}
+                        step="0.01"
+                        value={returnForm.depositKept}
+                        onChange={(e) => setReturnForm({ ...returnForm, depositKept: Number(e.target.value) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  )}
+
+                  <div className="flex justify-between text-sm font-semibold pt-2 border-t border-gray-100">
+                    <span>Caution à restituer:</span>
+                    <span>
+                      {Math.max(0, returningRental.depositAmount - returnForm.depositKept - returnLateFeeFromDeposit).toLocaleString('fr-FR')} DA
+                    </span>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-gray-600">Aucune caution détenue pour cette location.</p>
+              )}
+
+              {returnForm.damageCharge > returnForm.depositKept && (
+                <div className="flex justify-between text-sm text-red-700">
+                  <span>Dégâts ajoutés au solde du client:</span>
+                  <span className="font-medium">
+                    {(returnForm.damageCharge - returnForm.depositKept).toLocaleString('fr-FR')} DA
+                  </span>
+                </div>
+              )}
+
+              {(returnLateFee.amount > 0 || returningRental.depositStatus === 'held') && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Mode de paiement / restitution
+                  </label>
+                  <select
+                    value={returnForm.paymentMethod}
+                    onChange={(e) => setReturnForm({ ...returnForm, paymentMethod: e.target.value as Payment['paymentMethod'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="cash">Espèces</option>
+                    <option value="card">Carte</option>
+                    <option value="transfer">Virement</option>
+                  </select>
+                </div>
+              )}
+
+              <SignaturePad
+                label="Signature du client"
+                signed={!!returnForm.signature}
+                onChange={(signature) => setReturnForm({ ...returnForm, signature })}
+              />
+
+              <div className="flex space-x-4 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setReturningRental(null)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                >
+                  Valider le retour
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Extension Modal */}
+      {extendingRental && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100">
+              <h2 className="text-xl font-semibold text-gray-900">Prolonger la location</h2>
+              <p className="text-sm text-gray-600">
+                {extendingRental.productName}
+                {extendingRental.unitCode && ` - ${extendingRental.unitCode}`} · {extendingRental.customerName}
+              </p>
+            </div>
+
+            <form onSubmit={handleExtend} className="p-6 space-y-4">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Retour prévu:</span>
+                <span className="font-medium">{new Date(extendingRental.rentalEndDate).toLocaleDateString('fr-FR')}</span>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Jours supplémentaires
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={extensionForm.extraDays}
+                  onChange={(e) => {
+                    const extraDays = Math.max(1, parseInt(e.target.value) || 1);
+                    setExtensionForm({
+                      ...extensionForm,
+                      extraDays,
+                      amountPaid: getExtensionAmount(extendingRental, extraDays)
+                    });
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Nouveau retour:</span>
+                <span className="font-medium">
+                  {(() => {
+                    const newEndDate = new Date(extendingRental.rentalEndDate);
+                    newEndDate.setDate(newEndDate.getDate() + extensionForm.extraDays);
+                    return newEndDate.toLocaleDateString('fr-FR');
+                  })()}
+                </span>
+              </div>
+
+              <div className="flex justify-between text-sm font-semibold">
+                <span>
+                  Montant ({extensionForm.extraDays} x {extendingRental.dailyRate}DA
+                  {extendingRental.discount ? ` - ${extendingRental.discount}%` : ''}):
+                </span>
+                <span>{getExtensionAmount(extendingRental, extensionForm.extraDays).toLocaleString('fr-FR')} DA</span>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Versé maintenant (DA)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={extensionForm.amountPaid}
+                    onChange={(e) => setExtensionForm({ ...extensionForm, amountPaid: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Mode de paiement
+                  </label>
+                  <select
+                    value={extensionForm.paymentMethod}
+                    onChange={(e) => setExtensionForm({ ...extensionForm, paymentMethod: e.target.value as Payment['paymentMethod'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="cash">Espèces</option>
+                    <option value="card">Carte</option>
+                    <option value="transfer">Virement</option>
+                  </select>
+                </div>
+              </div>
+
+              <input
+                type="text"
+                value={extensionForm.notes}
+                onChange={(e) => setExtensionForm({ ...extensionForm, notes: e.target.value })}
+                placeholder="Notes (optionnel)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+
+              {extensionHistory.length > 0 && (
+                <div className="pt-4 border-t border-gray-100">
+                  <h3 className="text-sm font-medium text-gray-900 mb-2">Prolongations précédentes</h3>
+                  <div className="space-y-1">
+                    {extensionHistory.map(extension => (
+                      <div key={extension.id} className="flex justify-between text-xs text-gray-600">
+                        <span>
+                          {extension.createdAt.toLocaleDateString('fr-FR')} · +{extension.extraDays}j
+                          jusqu'au {extension.newEndDate.toLocaleDateString('fr-FR')} ({extension.agentName})
+                        </span>
+                        <span>{extension.amount.toLocaleString('fr-FR')} DA</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex space-x-4 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setExtendingRental(null)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Prolonger
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,980 @@
+import React, { useState } from 'react';
+import { useStore } from '../context/StoreContext';
+import {
+  BadgePercent,
+  CalendarRange,
+  ClipboardCheck,
+  Clock,
+  Edit,
+  Plus,
+  Save,
+  Sparkles,
+  Shield,
+  Store,
+  Tag,
+  Trash2
+} from 'lucide-react';
+import { CategorySetting, PricingPeriod, PricingRule, StoreSettings } from '../types';
+import { formatPeriodAdjustment, pricingPeriodTargetLabels, pricingRuleTypeLabels } from '../utils/pricing';
+
+type CategoryValues = Omit<CategorySetting, 'category'>;
+
+type PricingRuleValues = Omit<PricingRule, 'id' | 'createdAt'>;
+
+// Durée par défaut de chaque type de tarif
+const defaultRuleDurations: Record<PricingRule['ruleType'], number> = {
+  weekend: 3,
+  package: 3,
+  weekly: 7
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyPeriodForm = () => ({
+  name: '',
+  startDate: today(),
+  endDate: today(),
+  category: '',
+  appliesTo: 'both' as PricingPeriod['appliesTo'],
+  adjustmentType: 'multiplier' as PricingPeriod['adjustmentType'],
+  value: 1.5,
+  isActive: true
+});
+
+const emptyPricingRule: PricingRuleValues = {
+  name: '',
+  ruleType: 'weekend',
+  productId: undefined,
+  category: '',
+  price: 0,
+  durationDays: defaultRuleDurations.weekend,
+  isActive: true
+};
+
+export function Settings() {
+  const {
+    products,
+    categorySettings,
+    saveCategorySetting,
+    getInspectionChecklist,
+    pricingRules,
+    addPricingRule,
+    updatePricingRule,
+    deletePricingRule,
+    pricingPeriods,
+    addPricingPeriod,
+    updatePricingPeriod,
+    deletePricingPeriod,
+    storeSettings,
+    updateStoreSettings
+  } = useStore();
+  const [categoryDrafts, setCategoryDrafts] = useState<{[category: string]: CategoryValues}>({});
+  const [storeDraft, setStoreDraft] = useState<StoreSettings | null>(null);
+  const [showRuleModal, setShowRuleModal] = useState(false);
+  const [editingRule, setEditingRule] = useState<PricingRule | null>(null);
+  const [ruleForm, setRuleForm] = useState<PricingRuleValues>(emptyPricingRule);
+  const [showPeriodModal, setShowPeriodModal] = useState(false);
+  const [editingPeriod, setEditingPeriod] = useState<PricingPeriod | null>(null);
+  const [periodForm, setPeriodForm] = useState(emptyPeriodForm());
+
+  const storeValues = storeDraft ?? storeSettings;
+
+  const categories = [...new Set([
+    ...products.map(p => p.category),
+    ...categorySettings.map(setting => setting.category)
+  ])].sort((a, b) => a.localeCompare(b));
+
+  const getCategoryValues = (category: string): CategoryValues => {
+    const setting = categorySettings.find(s => s.category === category);
+    return categoryDrafts[category] ?? {
+      depositAmount: setting?.depositAmount ?? 0,
+      bufferDays: setting?.bufferDays ?? 0,
+      inspectionChecklist: getInspectionChecklist(category)
+    };
+  };
+
+  const updateCategoryDraft = (category: string, values: Partial<CategoryValues>) => {
+    setCategoryDrafts(prev => ({
+      ...prev,
+      [category]: { ...getCategoryValues(category), ...values }
+    }));
+  };
+
+  const handleSaveCategory = async (category: string) => {
+    try {
+      const values = getCategoryValues(category);
+      await saveCategorySetting({
+        category,
+        ...values,
+        inspectionChecklist: values.inspectionChecklist.map(item => item.trim()).filter(Boolean)
+      });
+      setCategoryDrafts(prev => {
+        const newDrafts = { ...prev };
+        delete newDrafts[category];
+        return newDrafts;
+      });
+    } catch (error) {
+      console.error('Erreur lors de l\'enregistrement des paramètres:', error);
+      alert('Erreur lors de l\'enregistrement des paramètres');
+    }
+  };
+
+  const handleSaveStoreSettings = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!storeDraft) return;
+
+    try {
+      await updateStoreSettings(storeDraft);
+      setStoreDraft(null);
+    } catch (error) {
+      console.error('Erreur lors de l\'enregistrement des paramètres:', error);
+      alert('Erreur lors de l\'enregistrement des paramètres');
+    }
+  };
+
+  const openRuleModal = (rule?: PricingRule) => {
+    setEditingRule(rule ?? null);
+    setRuleForm(rule ? {
+      name: rule.name,
+      ruleType: rule.ruleType,
+      productId: rule.productId,
+      category: rule.category ?? '',
+      price: rule.price,
+      durationDays: rule.durationDays,
+      isActive: rule.isActive
+    } : { ...emptyPricingRule, category: categories[0] ?? '' });
+    setShowRuleModal(true);
+  };
+
+  const handleSaveRule = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!ruleForm.name.trim() || (!ruleForm.productId && !ruleForm.category)) return;
+
+    const values = {
+      ...ruleForm,
+      name: ruleForm.name.trim(),
+      price: Math.max(0, ruleForm.price),
+      durationDays: Math.max(1, Math.floor(ruleForm.durationDays))
+    };
+
+    try {
+      if (editingRule) {
+        await updatePricingRule(editingRule.id, values);
+      } else {
+        await addPricingRule(values);
+      }
+      setShowRuleModal(false);
+    } catch (error) {
+      console.error('Erreur lors de l\'enregistrement du tarif:', error);
+      alert('Erreur lors de l\'enregistrement du tarif');
+    }
+  };
+
+  const handleDeleteRule = async (rule: PricingRule) => {
+    if (!confirm(`Supprimer le tarif « ${rule.name} » ?`)) return;
+
+    try {
+      await deletePricingRule(rule.id);
+    } catch (error) {
+      console.error('Erreur lors de la suppression du tarif:', error);
+      alert('Erreur lors de la suppression du tarif');
+    }
+  };
+
+  const openPeriodModal = (period?: PricingPeriod) => {
+    setEditingPeriod(period ?? null);
+    setPeriodForm(period ? {
+      name: period.name,
+      startDate: period.startDate.toISOString().split('T')[0],
+      endDate: period.endDate.toISOString().split('T')[0],
+      category: period.category ?? '',
+      appliesTo: period.appliesTo,
+      adjustmentType: period.adjustmentType,
+      value: period.value,
+      isActive: period.isActive
+    } : emptyPeriodForm());
+    setShowPeriodModal(true);
+  };
+
+  const handleSavePeriod = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!periodForm.name.trim()) return;
+
+    if (periodForm.endDate < periodForm.startDate) {
+      alert('La date de fin doit suivre la date de début');
+      return;
+    }
+
+    const values = {
+      name: periodForm.name.trim(),
+      startDate: new Date(periodForm.startDate),
+      endDate: new Date(periodForm.endDate),
+      category: periodForm.category || undefined,
+      appliesTo: periodForm.appliesTo,
+      adjustmentType: periodForm.adjustmentType,
+      value: Math.max(0, periodForm.value),
+      isActive: periodForm.isActive
+    };
+
+    try {
+      if (editingPeriod) {
+        await updatePricingPeriod(editingPeriod.id, values);
+      } else {
+        await addPricingPeriod(values);
+      }
+      setShowPeriodModal(false);
+    } catch (error) {
+      console.error('Erreur lors de l\'enregistrement de la période:', error);
+      alert('Erreur lors de l\'enregistrement de la période');
+    }
+  };
+
+  const handleDeletePeriod = async (period: PricingPeriod) => {
+    if (!confirm(`Supprimer la période « ${period.name} » ?`)) return;
+
+    try {
+      await deletePricingPeriod(period.id);
+    } catch (error) {
+      console.error('Erreur lors de la suppression de la période:', error);
+      alert('Erreur lors de la suppression de la période');
+    }
+  };
+
+  const getRuleTarget = (rule: PricingRule) => {
+    if (!rule.productId) return `Catégorie ${rule.category}`;
+    const product = products.find(p => p.id === rule.productId);
+    return product ? `${product.name} - ${product.size}` : 'Produit supprimé';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Paramètres</h1>
+        <p className="text-gray-600 mt-2">Configuration de la boutique, des catégories et des tarifs</p>
+      </div>
+
+      {/* Boutique et contrat */}
+      <form onSubmit={handleSaveStoreSettings} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Store className="w-5 h-5 mr-2" />
+            Boutique et contrat de location
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Coordonnées imprimées en tête du contrat, exigence de pièce d'identité et conditions ajoutées aux clauses de retard et de dégâts
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Nom de la boutique</label>
+            <input
+              type="text"
+              required
+              value={storeValues.storeName}
+              onChange={(e) => setStoreDraft({ ...storeValues, storeName: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Adresse</label>
+            <input
+              type="text"
+              value={storeValues.storeAddress}
+              onChange={(e) => setStoreDraft({ ...storeValues, storeAddress: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Téléphone</label>
+            <input
+              type="text"
+              value={storeValues.storePhone}
+              onChange={(e) => setStoreDraft({ ...storeValues, storePhone: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Pièce d'identité exigée à partir de (DA par article loué, 0 = jamais)
+          </label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={storeValues.identityThreshold}
+            onChange={(e) => setStoreDraft({ ...storeValues, identityThreshold: Number(e.target.value) })}
+            className="w-full md:w-1/3 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Conditions particulières (une clause par ligne)
+          </label>
+          <textarea
+            rows={4}
+            value={storeValues.contractTerms}
+            onChange={(e) => setStoreDraft({ ...storeValues, contractTerms: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={!storeDraft}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            <Save className="w-4 h-4" />
+            <span>Enregistrer</span>
+          </button>
+        </div>
+      </form>
+
+      {/* Retards */}
+      <form onSubmit={handleSaveStoreSettings} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Clock className="w-5 h-5 mr-2" />
+            Retards de location
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Pénalité ajoutée au solde du client pour chaque jour après la date de retour prévue
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Pénalité par jour (DA)
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={storeValues.lateFeePerDay}
+              onChange={(e) => setStoreDraft({ ...storeValues, lateFeePerDay: Number(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Plafond (DA, 0 = sans plafond)
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={storeValues.lateFeeCap}
+              onChange={(e) => setStoreDraft({ ...storeValues, lateFeeCap: Number(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div className="flex items-end">
+            <button
+              type="submit"
+              disabled={!storeDraft}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+            >
+              <Save className="w-4 h-4" />
+              <span>Enregistrer</span>
+            </button>
+          </div>
+        </div>
+      </form>
+
+      {/* Paramètres par catégorie */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+        <div className="p-6 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Tag className="w-5 h-5 mr-2" />
+            Catégories
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Valeurs par défaut appliquées aux produits de la catégorie, sauf si le produit définit les siennes
+          </p>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Catégorie
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <span className="flex items-center">
+                    <Shield className="w-3 h-3 mr-1" />
+                    Caution (DA)
+                  </span>
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <span className="flex items-center">
+                    <Sparkles className="w-3 h-3 mr-1" />
+                    Battement (jours)
+                  </span>
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <span className="flex items-center">
+                    <ClipboardCheck className="w-3 h-3 mr-1" />
+                    Contrôle au retour
+                  </span>
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {categories.map(category => {
+                const values = getCategoryValues(category);
+
+                return (
+                  <tr key={category} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {category}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={values.depositAmount}
+                        onChange={(e) => updateCategoryDraft(category, { depositAmount: Number(e.target.value) })}
+                        className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={values.bufferDays}
+                        onChange={(e) => updateCategoryDraft(category, { bufferDays: Math.max(0, Math.floor(Number(e.target.value))) })}
+                        className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        title="Jours de nettoyage ou d'entretien bloqués après chaque location"
+                      />
+                    </td>
+                    <td className="px-6 py-4">
+                      <textarea
+                        rows={3}
+                        value={values.inspectionChecklist.join('\n')}
+                        onChange={(e) => updateCategoryDraft(category, { inspectionChecklist: e.target.value.split('\n') })}
+                        className="w-56 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        title="Un point de contrôle par ligne"
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => handleSaveCategory(category)}
+                        disabled={!categoryDrafts[category]}
+                        className="text-blue-600 hover:text-blue-900 disabled:text-gray-300 transition-colors"
+                        title="Enregistrer"
+                      >
+                        <Save className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {categories.length === 0 && (
+          <div className="text-center py-12">
+            <Tag className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Aucune catégorie</p>
+          </div>
+        )}
+      </div>
+
+      {/* Tarifs de location */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+        <div className="p-6 border-b border-gray-100 flex items-start justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <BadgePercent className="w-5 h-5 mr-2" />
+              Tarifs de location
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Forfaits week-end, forfaits sur plusieurs jours et tarifs à la semaine. La caisse retient le tarif
+              le moins cher pour les dates choisies
+            </p>
+          </div>
+          <button
+            onClick={() => openRuleModal()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Nouveau tarif</span>
+          </button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Nom
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Type
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  S'applique à
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Prix
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Durée
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Statut
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {pricingRules.map(rule => (
+                <tr key={rule.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {rule.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {pricingRuleTypeLabels[rule.ruleType]}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {getRuleTarget(rule)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {rule.price.toLocaleString('fr-FR')} DA
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {rule.ruleType === 'weekend' ? 'Vendredi–dimanche' : `${rule.durationDays} jour(s)`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      rule.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                    }`}>
+                      {rule.isActive ? 'Actif' : 'Inactif'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => openRuleModal(rule)}
+                        className="text-blue-600 hover:text-blue-900 transition-colors"
+                        title="Modifier"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteRule(rule)}
+                        className="text-red-600 hover:text-red-900 transition-colors"
+                        title="Supprimer"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {pricingRules.length === 0 && (
+          <div className="text-center py-12">
+            <BadgePercent className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Aucun tarif : les locations sont facturées au tarif journalier</p>
+          </div>
+        )}
+      </div>
+
+      {/* Saisons et jours de pointe */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+        <div className="p-6 border-b border-gray-100 flex items-start justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <CalendarRange className="w-5 h-5 mr-2" />
+              Saisons et jours de pointe
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Majorations appliquées automatiquement en caisse pendant la période (saison des mariages, Aïd...)
+            </p>
+          </div>
+          <button
+            onClick={() => openPeriodModal()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Nouvelle période</span>
+          </button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Période
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Dates
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Catégorie
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  S'applique à
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Majoration
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Statut
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {pricingPeriods.map(period => (
+                <tr key={period.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {period.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {period.startDate.toLocaleDateString('fr-FR')} - {period.endDate.toLocaleDateString('fr-FR')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {period.category || 'Toutes'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {pricingPeriodTargetLabels[period.appliesTo]}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-orange-700">
+                    {formatPeriodAdjustment(period)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      period.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                    }`}>
+                      {period.isActive ? 'Active' : 'Inactive'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => openPeriodModal(period)}
+                        className="text-blue-600 hover:text-blue-900 transition-colors"
+                        title="Modifier"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeletePeriod(period)}
+                        className="text-red-600 hover:text-red-900 transition-colors"
+                        title="Supprimer"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {pricingPeriods.length === 0 && (
+          <div className="text-center py-12">
+            <CalendarRange className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Aucune période : les prix sont les mêmes toute l'année</p>
+          </div>
+        )}
+      </div>
+
+      {/* Pricing Rule Modal */}
+      {showRuleModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {editingRule ? 'Modifier le tarif' : 'Nouveau tarif'}
+              </h2>
+              <p className="text-sm text-gray-600">Le nom du tarif est imprimé sur le reçu</p>
+            </div>
+
+            <form onSubmit={handleSaveRule} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Nom *</label>
+                <input
+                  type="text"
+                  required
+                  value={ruleForm.name}
+                  onChange={(e) => setRuleForm({ ...ruleForm, name: e.target.value })}
+                  placeholder="Forfait mariage 3 jours"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+                  <select
+                    value={ruleForm.ruleType}
+                    onChange={(e) => {
+                      const ruleType = e.target.value as PricingRule['ruleType'];
+                      setRuleForm({ ...ruleForm, ruleType, durationDays: defaultRuleDurations[ruleType] });
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {Object.entries(pricingRuleTypeLabels).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {ruleForm.ruleType === 'weekly' ? 'Prix par semaine (DA)' : 'Prix du forfait (DA)'}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    required
+                    value={ruleForm.price}
+                    onChange={(e) => setRuleForm({ ...ruleForm, price: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              {ruleForm.ruleType !== 'weekend' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {ruleForm.ruleType === 'weekly' ? 'Jours par semaine' : 'Jours couverts par le forfait'}
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={ruleForm.durationDays}
+                    onChange={(e) => setRuleForm({ ...ruleForm, durationDays: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Les jours supplémentaires sont facturés au tarif journalier</p>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">S'applique à</label>
+                <select
+                  value={ruleForm.productId ?? ''}
+                  onChange={(e) => setRuleForm({ ...ruleForm, productId: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Toute une catégorie</option>
+                  {products.filter(product => product.isAvailableForRental).map(product => (
+                    <option key={product.id} value={product.id}>
+                      {product.name} - {product.size} ({product.color})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {!ruleForm.productId && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Catégorie *</label>
+                  <select
+                    required
+                    value={ruleForm.category ?? ''}
+                    onChange={(e) => setRuleForm({ ...ruleForm, category: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Sélectionner une catégorie</option>
+                    {categories.map(category => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={ruleForm.isActive}
+                  onChange={(e) => setRuleForm({ ...ruleForm, isActive: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Tarif actif</span>
+              </label>
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowRuleModal(false)}
+                  className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  {editingRule ? 'Enregistrer' : 'Créer'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Pricing Period Modal */}
+      {showPeriodModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-100">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {editingPeriod ? 'Modifier la période' : 'Nouvelle période'}
+              </h2>
+              <p className="text-sm text-gray-600">La majoration apparaît sur une ligne à part du reçu</p>
+            </div>
+
+            <form onSubmit={handleSavePeriod} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Nom *</label>
+                <input
+                  type="text"
+                  required
+                  value={periodForm.name}
+                  onChange={(e) => setPeriodForm({ ...periodForm, name: e.target.value })}
+                  placeholder="Saison des mariages"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Du</label>
+                  <input
+                    type="date"
+                    required
+                    value={periodForm.startDate}
+                    onChange={(e) => setPeriodForm({ ...periodForm, startDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Au</label>
+                  <input
+                    type="date"
+                    required
+                    min={periodForm.startDate}
+                    value={periodForm.endDate}
+                    onChange={(e) => setPeriodForm({ ...periodForm, endDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Catégorie</label>
+                  <select
+                    value={periodForm.category}
+                    onChange={(e) => setPeriodForm({ ...periodForm, category: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Toutes les catégories</option>
+                    {categories.map(category => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">S'applique à</label>
+                  <select
+                    value={periodForm.appliesTo}
+                    onChange={(e) => setPeriodForm({ ...periodForm, appliesTo: e.target.value as PricingPeriod['appliesTo'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {Object.entries(pricingPeriodTargetLabels).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Majoration</label>
+                  <select
+                    value={periodForm.adjustmentType}
+                    onChange={(e) => {
+                      const adjustmentType = e.target.value as PricingPeriod['adjustmentType'];
+                      setPeriodForm({ ...periodForm, adjustmentType, value: adjustmentType === 'multiplier' ? 1.5 : 0 });
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="multiplier">Coefficient</option>
+                    <option value="surcharge">Montant fixe par article</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {periodForm.adjustmentType === 'multiplier' ? 'Coefficient (ex. 1.5)' : 'Montant (DA)'}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    required
+                    value={periodForm.value}
+                    onChange={(e) => setPeriodForm({ ...periodForm, value: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={periodForm.isActive}
+                  onChange={(e) => setPeriodForm({ ...periodForm, isActive: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Période active</span>
+              </label>
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowPeriodModal(false)}
+                  className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  {editingPeriod ? 'Enregistrer' : 'Créer'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import React, { useRef } from 'react';
+import { Eraser, PenLine } from 'lucide-react';
+
+interface SignaturePadProps {
+  label: string;
+  signed: boolean;
+  onChange: (signature: string | undefined) => void; // Image PNG en data URL
+}
+
+export function SignaturePad({ label, signed, onChange }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  // Position du pointeur dans le repère du canvas, quelle que soit sa taille à l'écran
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height)
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+
+    const { x, y } = getPoint(e);
+    context.lineWidth = 2.5;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    const { x, y } = getPoint(e);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(e.currentTarget.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(undefined);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700 flex items-center">
+          <PenLine className="w-4 h-4 mr-1" />
+          {label}
+        </label>
+        <button
+          type="button"
+          onClick={handleClear}
+          disabled={!signed}
+          className="text-xs text-gray-500 hover:text-gray-700 disabled:text-gray-300 transition-colors flex items-center space-x-1"
+        >
+          <Eraser className="w-3 h-3" />
+          <span>Effacer</span>
+        </button>
+      </div>
+      <canvas
+        ref={canvasRef}
+        width={600}
+        height={200}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="w-full h-32 border border-dashed border-gray-300 rounded-lg bg-gray-50 touch-none cursor-crosshair"
+      />
+      {!signed && (
+        <p className="text-xs text-gray-500 mt-1">Le client signe dans le cadre, au doigt ou au stylet</p>
+      )}
+    </div>
+  );
+}
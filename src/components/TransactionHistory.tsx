@@ -0,0 +1,322 @@
+import React, { useState } from 'react';
+import { useStore } from '../context/StoreContext';
+import { useAuth } from '../context/AuthContext';
+import { 
+  Search, 
+  Filter, 
+  Calendar,
+  Eye,
+  Download,
+  TrendingUp,
+  TrendingDown,
+  Printer
+} from 'lucide-react';
+import { Order } from '../types';
+import { generateReceiptPDF } from '../utils/pdfGenerator';
+
+export function TransactionHistory() {
+  const { orders, rentals } = useStore();
+  const { isAdmin } = useAuth();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterType, setFilterType] = useState('');
+  const [filterStatus, setFilterStatus] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+
+  const getRentalDays = (transactionId: string) =>
+    rentals.find(r => r.transactionId === transactionId)?.rentalDays;
+
+  const getPricingRuleName = (transactionId: string) =>
+    rentals.find(r => r.transactionId === transactionId)?.pricingRuleName;
+
+  const handlePrintReceipt = (order: Order) => {
+    generateReceiptPDF({
+      customerName: order.customerName,
+      customerPhone: order.customerPhone,
+      customerEmail: order.customerEmail || '',
+      items: order.items.map(line => {
+        const unitDiscount = (line.discountAmount || 0) / (line.quantity || 1);
+        const unitSurcharge = (line.surchargeAmount || 0) / (line.quantity || 1);
+        return {
+          name: line.productName,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice + unitDiscount - unitSurcharge,
+          finalPrice: line.unitPrice,
+          discount: line.discount || 0,
+          discountAmount: unitDiscount,
+          isRental: line.type === 'rental',
+          rentalDays: getRentalDays(line.id),
+          pricingRule: getPricingRuleName(line.id),
+          surcharge: unitSurcharge > 0 ? { label: line.surchargeLabel || 'Majoration', amount: unitSurcharge } : undefined,
+        };
+      }),
+      total: order.totalAmount,
+      date: new Date(order.createdAt),
+      agentName: order.agentName,
+      receiptNumber: order.receiptNumber,
+    });
+  };
+
+  const filteredOrders = orders.filter(order => {
+    const search = searchTerm.toLowerCase();
+    const matchesSearch = order.customerName.toLowerCase().includes(search) ||
+                          order.receiptNumber.toLowerCase().includes(search) ||
+                          order.items.some(line => line.productName.toLowerCase().includes(search));
+    const matchesType = !filterType || order.items.some(line => line.type === filterType);
+    const matchesStatus = !filterStatus || order.status === filterStatus;
+
+    let matchesDate = true;
+    if (dateFrom) {
+      matchesDate = matchesDate && new Date(order.createdAt) >= new Date(dateFrom);
+    }
+    if (dateTo) {
+      const endOfDay = new Date(dateTo);
+      endOfDay.setHours(23, 59, 59, 999);
+      matchesDate = matchesDate && new Date(order.createdAt) <= endOfDay;
+    }
+
+    return matchesSearch && matchesType && matchesStatus && matchesDate;
+  });
+
+  const totalRevenue = filteredOrders.reduce((sum, o) => sum + o.totalAmount, 0);
+  const totalSales = filteredOrders.filter(o => o.items.some(line => line.type === 'sale')).length;
+  const totalRentals = filteredOrders.filter(o => o.items.some(line => line.type === 'rental')).length;
+  const totalDiscount = filteredOrders.reduce((sum, o) => sum + (o.discountAmount || 0), 0);
+
+  const statCards = [
+    // Chiffre d'affaires seulement pour admin
+    ...(isAdmin ? [{
+      title: 'Chiffre d\'Affaires',
+      value: `${totalRevenue.toLocaleString('fr-FR')} DA`,
+      icon: TrendingUp,
+      color: 'bg-green-500'
+    }] : []),
+    {
+      title: 'Ventes',
+      value: totalSales.toString(),
+      icon: TrendingUp,
+      color: 'bg-blue-500'
+    },
+    {
+      title: 'Locations',
+      value: totalRentals.toString(),
+      icon: Calendar,
+      color: 'bg-orange-500'
+    },
+    ...(isAdmin ? [{
+      title: 'Réductions Accordées',
+      value: `${totalDiscount.toLocaleString('fr-FR')} DA`,
+      icon: TrendingDown,
+      color: 'bg-red-500'
+    }] : [])
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Historique des Commandes</h1>
+        <p className="text-gray-600 mt-2">Consultez toutes les ventes et locations, commande par commande</p>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {statCards.map((stat, index) => {
+          const Icon = stat.icon;
+          return (
+            <div key={index} className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">{stat.title}</p>
+                  <p className="text-2xl font-bold text-gray-900 mt-2">{stat.value}</p>
+                </div>
+                <div className={`p-3 rounded-lg ${stat.color}`}>
+                  <Icon className="w-6 h-6 text-white" />
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Rechercher..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg w-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <select
+            value={filterType}
+            onChange={(e) => setFilterType(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Tous les types</option>
+            <option value="sale">Ventes</option>
+            <option value="rental">Locations</option>
+          </select>
+
+          <select
+            value={filterStatus}
+            onChange={(e) => setFilterStatus(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Tous les statuts</option>
+            <option value="completed">Terminé</option>
+            <option value="pending">En attente</option>
+            <option value="returned">Retourné</option>
+            <option value="cancelled">Annulé</option>
+          </select>
+
+          <input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+
+          <input
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+
+        <div className="flex items-center justify-between mt-4">
+          <p className="text-sm text-gray-600">
+            {filteredOrders.length} commande(s) trouvée(s)
+          </p>
+          <button className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 transition-colors">
+            <Download className="w-4 h-4" />
+            <span>Exporter</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Orders Table */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">N° Reçu</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Client</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Articles</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Montant</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Paiement</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Statut</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Agent</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {filteredOrders.map((order) => (
+                <tr key={order.id} className="hover:bg-gray-50 transition-colors align-top">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {new Date(order.createdAt).toLocaleDateString('fr-FR')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {order.receiptNumber}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">
+                        {order.customerName}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {order.customerPhone}
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    <div className="space-y-1">
+                      {order.items.map((line) => (
+                        <div key={line.id} className="flex items-center space-x-2">
+                          <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                            line.type === 'sale' ? 'bg-green-100 text-green-800' : 'bg-orange-100 text-orange-800'
+                          }`}>
+                            {line.type === 'sale' ? 'Vente' : 'Location'}
+                          </span>
+                          <span>
+                            {line.quantity}x {line.productName}
+                            {line.type === 'rental' && getRentalDays(line.id) && (
+                              <span className="text-xs text-gray-500"> ({getRentalDays(line.id)} jour(s))</span>
+                            )}
+                            {line.type === 'rental' && getPricingRuleName(line.id) && (
+                              <span className="text-xs text-purple-700"> · {getPricingRuleName(line.id)}</span>
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {order.totalAmount.toLocaleString('fr-FR')} DA
+                    {order.discountAmount > 0 && (
+                      <div className="text-xs text-green-600">
+                        Réduction: -{order.discountAmount.toLocaleString('fr-FR')} DA
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      order.paymentStatus === 'completed' ? 'bg-green-100 text-green-800' :
+                      order.paymentStatus === 'partial' ? 'bg-yellow-100 text-yellow-800' :
+                      'bg-red-100 text-red-800'
+                    }`}>
+                      {order.paymentStatus === 'completed' ? 'Payé' :
+                       order.paymentStatus === 'partial' ? 'Partiel' : 'En attente'}
+                    </span>
+                    {order.remainingAmount > 0 && (
+                      <div className="text-xs text-red-600 mt-1">
+                        Reste: {order.remainingAmount.toLocaleString('fr-FR')} DA
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      order.status === 'completed' ? 'bg-green-100 text-green-800' :
+                      order.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
+                      'bg-gray-100 text-gray-800'
+                    }`}>
+                      {order.status === 'completed' ? 'Terminé' :
+                       order.status === 'pending' ? 'En attente' :
+                       order.status === 'cancelled' ? 'Annulé' : 'Retourné'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {order.agentName}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                    <button
+                      className="text-green-600 hover:text-green-800 transition-colors"
+                      title="Réimprimer le reçu"
+                      onClick={() => handlePrintReceipt(order)}
+                    >
+                      <Printer className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {filteredOrders.length === 0 && (
+          <div className="text-center py-12">
+            <Calendar className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Aucune commande trouvée</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
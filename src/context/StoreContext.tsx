@@ -1,39 +1,450 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { supabase } from '../lib/supabase';
-import { Product, Transaction, Rental, StoreStats, ProductAvailability, Customer, Payment } from '../types';
+import { normalizePhone } from '../utils/phone';
+import { Product, ProductUnit, CategorySetting, PricingRule, PricingPeriod, StoreSettings, StockMovement, MaintenanceTicket, MaintenanceTicketClosing, ProductProfitability, Order, CheckoutLine, CheckoutResult, Transaction, Rental, RentalInspection, RentalPickup, RentalCancellation, RentalReturn, RentalExtension, RentalExtensionRequest, RentalCalendar, StoreStats, ProductAvailability, AvailabilitySearchResult, Customer, CustomerDetails, CustomerIdentity, CustomerMeasurement, CustomerRiskOverride, Payment, ReceivableSettlement } from '../types';
 
 interface StoreContextType {
   products: Product[];
+  productUnits: ProductUnit[];
+  orders: Order[];
   transactions: Transaction[];
   rentals: Rental[];
   customers: Customer[];
   payments: Payment[];
+  customerMeasurements: CustomerMeasurement[];
+  categorySettings: CategorySetting[];
+  pricingRules: PricingRule[];
+  pricingPeriods: PricingPeriod[];
+  maintenanceTickets: MaintenanceTicket[];
+  storeSettings: StoreSettings;
   loading: boolean;
-  addProduct: (product: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  addProduct: (
+    product: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>,
+    agent?: Pick<StockMovement, 'agentId' | 'agentName'>
+  ) => Promise<void>;
   updateProduct: (id: string, product: Partial<Product>) => Promise<void>;
   deleteProduct: (id: string) => Promise<void>;
+  addProductUnit: (unit: Omit<ProductUnit, 'id' | 'createdAt'>) => Promise<void>;
+  updateProductUnit: (id: string, unit: Partial<ProductUnit>) => Promise<void>;
+  deleteProductUnit: (id: string) => Promise<void>;
+  saveCategorySetting: (setting: CategorySetting) => Promise<void>;
+  getDefaultDeposit: (product: Product) => number;
+  getBufferDays: (product: Product) => number;
+  getInspectionChecklist: (category: string) => string[];
+  addPricingRule: (rule: Omit<PricingRule, 'id' | 'createdAt'>) => Promise<void>;
+  updatePricingRule: (id: string, rule: Omit<PricingRule, 'id' | 'createdAt'>) => Promise<void>;
+  deletePricingRule: (id: string) => Promise<void>;
+  addPricingPeriod: (period: Omit<PricingPeriod, 'id' | 'createdAt'>) => Promise<void>;
+  updatePricingPeriod: (id: string, period: Omit<PricingPeriod, 'id' | 'createdAt'>) => Promise<void>;
+  deletePricingPeriod: (id: string) => Promise<void>;
+  updateStoreSettings: (settings: Partial<StoreSettings>) => Promise<void>;
+  getLateFee: (rental: Rental, on?: Date) => { days: number; amount: number };
+  checkout: (
+    order: Omit<Order, 'id' | 'receiptNumber' | 'items' | 'status' | 'createdAt'>,
+    lines: CheckoutLine[],
+    riskOverrideReason?: string // Dérogation d'un administrateur pour un client bloqué
+  ) => Promise<CheckoutResult>;
   addTransaction: (transaction: Omit<Transaction, 'id' | 'createdAt'>) => Promise<string>;
-  addRental: (rental: Omit<Rental, 'id' | 'createdAt'>) => Promise<void>;
-  updateRentalStatus: (id: string, status: Rental['status'], returnedAt?: Date) => Promise<void>;
-  checkProductAvailability: (productId: string, startDate: Date, endDate: Date) => Promise<boolean>;
+  addRental: (rental: Omit<Rental, 'id' | 'transactionId' | 'createdAt'>) => Promise<void>;
+  cancelRental: (id: string, cancellation: RentalCancellation) => Promise<void>;
+  pickupRental: (id: string, pickup: RentalPickup) => Promise<void>;
+  returnRental: (id: string, returnData: RentalReturn, photos?: File[]) => Promise<void>;
+  uploadInspectionPhoto: (rentalId: string, file: File) => Promise<string>;
+  getInspectionPhotoUrl: (path: string) => Promise<string>;
+  getRentalSignatures: (rentalId: string) => Promise<Pick<Rental, 'contractSignature' | 'returnSignature'>>;
+  extendRental: (id: string, extension: RentalExtensionRequest) => Promise<RentalExtension>;
+  getRentalExtensions: (rentalId: string) => Promise<RentalExtension[]>;
+  checkProductAvailability: (productId: string, startDate: Date, endDate: Date, quantity?: number) => Promise<boolean>;
   getProductAvailability: (productId: string, month: Date) => Promise<ProductAvailability>;
-  updateStock: (productId: string, quantity: number) => Promise<void>;
+  searchAvailability: (startDate: Date, endDate: Date) => Promise<AvailabilitySearchResult[]>;
+  getRentalTimeline: (startDate: Date, endDate: Date) => Promise<RentalCalendar[]>;
+  addStockMovement: (movement: Omit<StockMovement, 'id' | 'stockAfter' | 'createdAt'>) => Promise<void>;
+  getStockMovements: (productId: string) => Promise<StockMovement[]>;
+  openMaintenanceTicket: (ticket: Omit<MaintenanceTicket, 'id' | 'productName' | 'unitCode' | 'returnedDate' | 'status' | 'createdAt'>) => Promise<void>;
+  closeMaintenanceTicket: (id: string, closing: MaintenanceTicketClosing) => Promise<void>;
+  getProductProfitability: (product: Product) => ProductProfitability;
   getStats: (dateFrom?: Date, dateTo?: Date) => Promise<StoreStats>;
   refreshData: () => Promise<void>;
-  getCustomerHistory: (customerPhone: string) => Promise<{ transactions: Transaction[], rentals: Rental[], payments: Payment[] }>;
+  getCustomerHistory: (customerPhone: string) => Promise<{ orders: Order[], transactions: Transaction[], rentals: Rental[], payments: Payment[] }>;
+  addCustomer: (customer: CustomerDetails) => Promise<void>;
+  updateCustomer: (id: string, customer: CustomerDetails) => Promise<void>;
+  archiveCustomer: (id: string, archived: boolean) => Promise<void>;
+  mergeCustomers: (targetId: string, sourceIds: string[], agentId: string) => Promise<void>;
+  getCustomerIdentity: (customerId: string, agentId: string) => Promise<CustomerIdentity | null>;
+  saveCustomerIdentity: (identity: Omit<CustomerIdentity, 'scanPath' | 'updatedAt' | 'recordedById' | 'recordedByName'>, agent: Pick<StockMovement, 'agentId' | 'agentName'>, scan?: File) => Promise<void>;
+  deleteCustomerIdentity: (customerId: string, agentId: string) => Promise<void>;
+  getIdentityScanUrl: (customerId: string, agentId: string) => Promise<string>;
+  updateCustomerRisk: (
+    customerId: string,
+    risk: Pick<Customer, 'riskStatus' | 'riskReason'>,
+    agent: Pick<StockMovement, 'agentId' | 'agentName'>
+  ) => Promise<void>;
+  getRiskOverrides: (customerId: string) => Promise<CustomerRiskOverride[]>;
+  addCustomerMeasurement: (measurement: Omit<CustomerMeasurement, 'id' | 'createdAt'>) => Promise<void>;
+  deleteCustomerMeasurement: (id: string) => Promise<void>;
   addPayment: (payment: Omit<Payment, 'id' | 'createdAt'>) => Promise<void>;
+  settleReceivable: (settlement: ReceivableSettlement) => Promise<void>;
   updateTransactionPayment: (transactionId: string, amountPaid: number) => Promise<void>;
-  updateRentalPayment: (rentalId: string, amountPaid: number) => Promise<void>;
 }
 
 const StoreContext = createContext<StoreContextType | undefined>(undefined);
 
+const defaultInspectionChecklist = ['Taches', 'Déchirures', 'Accessoires manquants'];
+
+// Lignes telles que renvoyées par Supabase (tables et fonctions checkout_order)
+interface TransactionRow {
+  id: string;
+  order_id: string | null;
+  type: Transaction['type'];
+  product_id: string;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  total_amount: number;
+  amount_paid: number | null;
+  remaining_amount: number | null;
+  payment_status: Transaction['paymentStatus'] | null;
+  discount: number | null;
+  discount_amount: number | null;
+  surcharge_amount: number | null;
+  surcharge_label: string | null;
+  customer_name: string;
+  customer_phone: string;
+  customer_email: string | null;
+  status: Transaction['status'];
+  agent_id: string;
+  agent_name: string;
+  notes: string | null;
+  created_at: string;
+}
+
+interface OrderRow {
+  id: string;
+  receipt_number: string;
+  customer_id: string | null;
+  customer_name: string;
+  customer_phone: string;
+  customer_email: string | null;
+  subtotal: number;
+  discount_amount: number | null;
+  total_amount: number;
+  amount_paid: number | null;
+  remaining_amount: number | null;
+  payment_status: Order['paymentStatus'] | null;
+  status: Order['status'];
+  agent_id: string;
+  agent_name: string;
+  notes: string | null;
+  transactions?: TransactionRow[];
+  created_at: string;
+}
+
+const formatTransaction = (item: TransactionRow): Transaction => ({
+  id: item.id,
+  orderId: item.order_id ?? undefined,
+  type: item.type,
+  productId: item.product_id,
+  productName: item.product_name,
+  quantity: item.quantity,
+  unitPrice: item.unit_price,
+  totalAmount: item.total_amount,
+  amountPaid: item.amount_paid || item.total_amount,
+  remainingAmount: item.remaining_amount || 0,
+  paymentStatus: item.payment_status || 'completed',
+  discount: item.discount ?? undefined,
+  discountAmount: item.discount_amount ?? undefined,
+  surchargeAmount: item.surcharge_amount || 0,
+  surchargeLabel: item.surcharge_label ?? undefined,
+  customerName: item.customer_name,
+  customerPhone: item.customer_phone,
+  customerEmail: item.customer_email ?? undefined,
+  status: item.status,
+  agentId: item.agent_id,
+  agentName: item.agent_name,
+  createdAt: new Date(item.created_at),
+  notes: item.notes ?? undefined
+});
+
+interface StockMovementRow {
+  id: string;
+  product_id: string;
+  movement_type: StockMovement['movementType'];
+  quantity: number;
+  stock_after: number;
+  reference: string | null;
+  order_id: string | null;
+  agent_id: string | null;
+  agent_name: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+const formatStockMovement = (item: StockMovementRow): StockMovement => ({
+  id: item.id,
+  productId: item.product_id,
+  movementType: item.movement_type,
+  quantity: item.quantity,
+  stockAfter: item.stock_after,
+  reference: item.reference ?? undefined,
+  orderId: item.order_id ?? undefined,
+  agentId: item.agent_id ?? undefined,
+  agentName: item.agent_name ?? undefined,
+  notes: item.notes ?? undefined,
+  createdAt: new Date(item.created_at)
+});
+
+interface RentalExtensionRow {
+  id: string;
+  rental_id: string;
+  previous_end_date: string;
+  new_end_date: string;
+  extra_days: number;
+  daily_rate: number;
+  amount: number;
+  amount_paid: number | null;
+  agent_id: string;
+  agent_name: string;
+  notes: string | null;
+  created_at: string;
+}
+
+const formatRentalExtension = (item: RentalExtensionRow): RentalExtension => ({
+  id: item.id,
+  rentalId: item.rental_id,
+  previousEndDate: new Date(item.previous_end_date),
+  newEndDate: new Date(item.new_end_date),
+  extraDays: item.extra_days,
+  dailyRate: item.daily_rate,
+  amount: item.amount,
+  amountPaid: item.amount_paid || 0,
+  agentId: item.agent_id,
+  agentName: item.agent_name,
+  notes: item.notes ?? undefined,
+  createdAt: new Date(item.created_at)
+});
+
+interface MaintenanceTicketRow {
+  id: string;
+  product_id: string;
+  products?: { name: string } | null; // Jointure de loadMaintenanceTickets
+  unit_id: string | null;
+  product_units?: { unit_code: string } | null;
+  ticket_type: MaintenanceTicket['ticketType'];
+  vendor: string;
+  sent_date: string;
+  expected_return_date: string;
+  returned_date: string | null;
+  cost: number | null;
+  status: MaintenanceTicket['status'];
+  notes: string | null;
+  agent_id: string | null;
+  agent_name: string | null;
+  created_at: string;
+}
+
+const formatMaintenanceTicket = (item: MaintenanceTicketRow): MaintenanceTicket => ({
+  id: item.id,
+  productId: item.product_id,
+  productName: item.products?.name,
+  unitId: item.unit_id ?? undefined,
+  unitCode: item.product_units?.unit_code,
+  ticketType: item.ticket_type,
+  vendor: item.vendor,
+  sentDate: new Date(item.sent_date),
+  expectedReturnDate: new Date(item.expected_return_date),
+  returnedDate: item.returned_date ? new Date(item.returned_date) : undefined,
+  cost: item.cost || 0,
+  status: item.status,
+  notes: item.notes ?? undefined,
+  agentId: item.agent_id ?? undefined,
+  agentName: item.agent_name ?? undefined,
+  createdAt: new Date(item.created_at)
+});
+
+// Colonnes des listes de locations. Les signatures (images PNG en data URL) en sont exclues :
+// elles ne sont lues qu'à l'impression du contrat, via getRentalSignatures.
+const rentalListColumns = `
+  id, transaction_id, product_id, unit_id, customer_name, customer_phone, customer_email,
+  rental_start_date, rental_end_date, rental_days, daily_rate, total_amount, pricing_rule_name,
+  amount_paid, remaining_amount, payment_status, discount, discount_amount,
+  deposit_amount, deposit_status, deposit_refunded, deposit_kept, deposit_kept_reason,
+  late_fee, damage_charge, inspection, contract_signed_at, return_signed_at,
+  status, agent_id, agent_name, notes, created_at,
+  picked_up_at, picked_up_by_name, returned_at, returned_by_name,
+  products!inner(name),
+  product_units(unit_code)
+`;
+
+interface RentalRow {
+  id: string;
+  transaction_id: string;
+  product_id: string;
+  products?: { name: string } | null;
+  unit_id: string | null;
+  product_units?: { unit_code: string } | null;
+  customer_name: string;
+  customer_phone: string;
+  customer_email: string | null;
+  rental_start_date: string;
+  rental_end_date: string;
+  rental_days: number;
+  daily_rate: number;
+  total_amount: number;
+  pricing_rule_name: string | null;
+  amount_paid: number | null;
+  remaining_amount: number | null;
+  payment_status: Rental['paymentStatus'] | null;
+  discount: number | null;
+  discount_amount: number | null;
+  deposit_amount: number;
+  deposit_status: Rental['depositStatus'] | null;
+  deposit_refunded: number | null;
+  deposit_kept: number | null;
+  deposit_kept_reason: string | null;
+  late_fee: number | null;
+  damage_charge: number | null;
+  inspection: RentalInspection | null;
+  contract_signed_at: string | null;
+  return_signed_at: string | null;
+  status: Rental['status'];
+  agent_id: string;
+  agent_name: string;
+  notes: string | null;
+  created_at: string;
+  picked_up_at: string | null;
+  picked_up_by_name: string | null;
+  returned_at: string | null;
+  returned_by_name: string | null;
+}
+
+const formatRental = (item: RentalRow): Rental => ({
+  id: item.id,
+  transactionId: item.transaction_id,
+  productId: item.product_id,
+  productName: item.products?.name,
+  unitId: item.unit_id ?? undefined,
+  unitCode: item.product_units?.unit_code,
+  customerName: item.customer_name,
+  customerPhone: item.customer_phone,
+  customerEmail: item.customer_email ?? undefined,
+  rentalStartDate: new Date(item.rental_start_date),
+  rentalEndDate: new Date(item.rental_end_date),
+  rentalDays: item.rental_days,
+  dailyRate: item.daily_rate,
+  totalAmount: item.total_amount,
+  pricingRuleName: item.pricing_rule_name ?? undefined,
+  // Vides tant que rien n'est facturé sur la location elle-même : la réservation est réglée sur la commande
+  amountPaid: item.amount_paid ?? undefined,
+  remainingAmount: item.remaining_amount || 0,
+  paymentStatus: item.payment_status ?? undefined,
+  discount: item.discount ?? undefined,
+  discountAmount: item.discount_amount ?? undefined,
+  depositAmount: item.deposit_amount,
+  depositStatus: item.deposit_status || 'none',
+  depositRefunded: item.deposit_refunded || 0,
+  depositKept: item.deposit_kept || 0,
+  depositKeptReason: item.deposit_kept_reason ?? undefined,
+  lateFee: item.late_fee || 0,
+  damageCharge: item.damage_charge || 0,
+  inspection: item.inspection ?? undefined,
+  contractSignedAt: item.contract_signed_at ? new Date(item.contract_signed_at) : undefined,
+  returnSignedAt: item.return_signed_at ? new Date(item.return_signed_at) : undefined,
+  status: item.status,
+  agentId: item.agent_id,
+  agentName: item.agent_name,
+  notes: item.notes ?? undefined,
+  createdAt: new Date(item.created_at),
+  pickedUpAt: item.picked_up_at ? new Date(item.picked_up_at) : undefined,
+  pickedUpByName: item.picked_up_by_name ?? undefined,
+  returnedAt: item.returned_at ? new Date(item.returned_at) : undefined,
+  returnedByName: item.returned_by_name ?? undefined
+});
+
+const pricingRuleToRow = (rule: Omit<PricingRule, 'id' | 'createdAt'>) => ({
+  name: rule.name,
+  rule_type: rule.ruleType,
+  product_id: rule.productId ?? null,
+  category: rule.productId ? null : rule.category ?? null,
+  price: rule.price,
+  duration_days: rule.durationDays,
+  is_active: rule.isActive
+});
+
+const pricingPeriodToRow = (period: Omit<PricingPeriod, 'id' | 'createdAt'>) => ({
+  name: period.name,
+  start_date: period.startDate.toISOString().split('T')[0],
+  end_date: period.endDate.toISOString().split('T')[0],
+  category: period.category || null,
+  applies_to: period.appliesTo,
+  adjustment_type: period.adjustmentType,
+  value: period.value,
+  is_active: period.isActive
+});
+
+// Renvoie le message d'erreur à afficher, ou null si la fiche est valide
+const validateCustomer = (customer: CustomerDetails, others: Customer[]): string | null => {
+  if (!customer.name.trim()) return 'Le nom du client est obligatoire';
+  if (!/^\+?[0-9]{9,}$/.test(normalizePhone(customer.phone))) return 'Numéro de téléphone invalide';
+  if (customer.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(customer.email.trim())) return 'Adresse email invalide';
+
+  const duplicate = others.find(other => normalizePhone(other.phone) === normalizePhone(customer.phone));
+  if (duplicate) return `Ce numéro est déjà utilisé par ${duplicate.name}`;
+
+  return null;
+};
+
+const customerToRow = (customer: CustomerDetails) => ({
+  name: customer.name.trim(),
+  phone: normalizePhone(customer.phone),
+  email: customer.email?.trim() || null,
+  address: customer.address?.trim() || null,
+  notes: customer.notes?.trim() || null
+});
+
+const formatOrder = (item: OrderRow): Order => ({
+  id: item.id,
+  receiptNumber: item.receipt_number,
+  customerId: item.customer_id ?? undefined,
+  customerName: item.customer_name,
+  customerPhone: item.customer_phone,
+  customerEmail: item.customer_email ?? undefined,
+  subtotal: item.subtotal,
+  discountAmount: item.discount_amount || 0,
+  totalAmount: item.total_amount,
+  amountPaid: item.amount_paid || 0,
+  remainingAmount: item.remaining_amount || 0,
+  paymentStatus: item.payment_status || 'completed',
+  status: item.status,
+  agentId: item.agent_id,
+  agentName: item.agent_name,
+  notes: item.notes ?? undefined,
+  items: (item.transactions || []).map(formatTransaction),
+  createdAt: new Date(item.created_at)
+});
+
 export function StoreProvider({ children }: { children: ReactNode }) {
   const [products, setProducts] = useState<Product[]>([]);
+  const [productUnits, setProductUnits] = useState<ProductUnit[]>([]);
+  const [receivedQuantities, setReceivedQuantities] = useState<Record<string, number>>({});
+  const [orders, setOrders] = useState<Order[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [rentals, setRentals] = useState<Rental[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
+  const [customerMeasurements, setCustomerMeasurements] = useState<CustomerMeasurement[]>([]);
+  const [categorySettings, setCategorySettings] = useState<CategorySetting[]>([]);
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
+  const [pricingPeriods, setPricingPeriods] = useState<PricingPeriod[]>([]);
+  const [maintenanceTickets, setMaintenanceTickets] = useState<MaintenanceTicket[]>([]);
+  const [storeSettings, setStoreSettings] = useState<StoreSettings>({
+    lateFeePerDay: 0,
+    lateFeeCap: 0,
+    storeName: 'HaliStock Boutique',
+    storeAddress: '1200 logts',
+    storePhone: '+213668979699',
+    contractTerms: '',
+    identityThreshold: 0
+  });
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -43,12 +454,21 @@ export function StoreProvider({ children }: { children: ReactNode }) {
   const loadInitialData = async () => {
     setLoading(true);
     try {
+      await markOverdueRentals();
       await Promise.all([
         loadProducts(),
+        loadProductUnits(),
+        loadOrders(),
         loadTransactions(),
         loadRentals(),
         loadCustomers(),
-        loadPayments()
+        loadPayments(),
+        loadCustomerMeasurements(),
+        loadCategorySettings(),
+        loadPricingRules(),
+        loadPricingPeriods(),
+        loadStoreSettings(),
+        loadMaintenanceTickets()
       ]);
     } catch (error) {
       console.error('Erreur lors du chargement des données:', error);
@@ -57,17 +477,35 @@ export function StoreProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Passe en retard les locations échues (doublé par la tâche planifiée côté base)
+  const markOverdueRentals = async () => {
+    const { error } = await supabase.rpc('mark_overdue_rentals');
+
+    if (error) {
+      console.error('Erreur lors de la détection des retards:', error);
+    }
+  };
+
   const loadProducts = async () => {
-    const { data, error } = await supabase
-      .from('products')
-      .select('*')
-      .order('created_at', { ascending: false });
+    const [{ data, error }, receivedResult] = await Promise.all([
+      supabase
+        .from('products')
+        .select('*')
+        .order('created_at', { ascending: false }),
+      supabase.rpc('get_received_quantities')
+    ]);
 
     if (error) {
       console.error('Erreur lors du chargement des produits:', error);
       return;
     }
 
+    if (receivedResult.error) {
+      console.error('Erreur lors du chargement des quantités reçues:', receivedResult.error);
+    } else {
+      setReceivedQuantities(receivedResult.data as Record<string, number>);
+    }
+
     const formattedProducts: Product[] = data.map(item => ({
       id: item.id,
       name: item.name,
@@ -82,6 +520,10 @@ export function StoreProvider({ children }: { children: ReactNode }) {
       description: item.description,
       barcode: item.barcode,
       isAvailableForRental: item.is_available_for_rental,
+      depositAmount: item.deposit_amount ?? undefined,
+      bufferDays: item.buffer_days ?? undefined,
+      requiresIdentity: item.requires_identity ?? false,
+      sizeChart: item.size_chart ?? {},
       createdAt: new Date(item.created_at),
       updatedAt: new Date(item.updated_at)
     }));
@@ -89,84 +531,189 @@ export function StoreProvider({ children }: { children: ReactNode }) {
     setProducts(formattedProducts);
   };
 
-  const loadTransactions = async () => {
+  const loadProductUnits = async () => {
     const { data, error } = await supabase
-      .from('transactions')
+      .from('product_units')
       .select('*')
-      .order('created_at', { ascending: false });
+      .order('unit_code', { ascending: true });
 
     if (error) {
-      console.error('Erreur lors du chargement des transactions:', error);
+      console.error('Erreur lors du chargement des exemplaires:', error);
       return;
     }
 
-    const formattedTransactions: Transaction[] = data.map(item => ({
+    const formattedUnits: ProductUnit[] = data.map(item => ({
       id: item.id,
-      type: item.type,
       productId: item.product_id,
-      productName: item.product_name,
-      quantity: item.quantity,
-      unitPrice: item.unit_price,
-      totalAmount: item.total_amount,
-      amountPaid: item.amount_paid || item.total_amount,
-      remainingAmount: item.remaining_amount || 0,
-      paymentStatus: item.payment_status || 'completed',
-      discount: item.discount,
-      discountAmount: item.discount_amount,
-      customerName: item.customer_name,
-      customerPhone: item.customer_phone,
-      customerEmail: item.customer_email,
+      unitCode: item.unit_code,
       status: item.status,
-      agentId: item.agent_id,
-      agentName: item.agent_name,
-      createdAt: new Date(item.created_at),
-      notes: item.notes
+      notes: item.notes,
+      createdAt: new Date(item.created_at)
     }));
 
-    setTransactions(formattedTransactions);
+    setProductUnits(formattedUnits);
   };
 
-  const loadRentals = async () => {
+  const loadMaintenanceTickets = async () => {
     const { data, error } = await supabase
-      .from('rentals')
+      .from('maintenance_tickets')
       .select(`
         *,
-        products!inner(name)
+        products(name),
+        product_units(unit_code)
       `)
-      .order('created_at', { ascending: false });
+      .order('sent_date', { ascending: false });
 
     if (error) {
-      console.error('Erreur lors du chargement des locations:', error);
+      console.error('Erreur lors du chargement des tickets d\'entretien:', error);
+      return;
+    }
+
+    setMaintenanceTickets(data.map(formatMaintenanceTicket));
+  };
+
+  const loadCategorySettings = async () => {
+    const { data, error } = await supabase
+      .from('category_settings')
+      .select('*')
+      .order('category', { ascending: true });
+
+    if (error) {
+      console.error('Erreur lors du chargement des paramètres de catégorie:', error);
+      return;
+    }
+
+    const formattedSettings: CategorySetting[] = data.map(item => ({
+      category: item.category,
+      depositAmount: item.deposit_amount || 0,
+      bufferDays: item.buffer_days || 0,
+      inspectionChecklist: item.inspection_checklist || defaultInspectionChecklist
+    }));
+
+    setCategorySettings(formattedSettings);
+  };
+
+  const loadPricingRules = async () => {
+    const { data, error } = await supabase
+      .from('pricing_rules')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Erreur lors du chargement des tarifs:', error);
       return;
     }
 
-    const formattedRentals: Rental[] = data.map(item => ({
+    const formattedRules: PricingRule[] = data.map(item => ({
       id: item.id,
-      transactionId: item.transaction_id,
-      productId: item.product_id,
-      productName: item.products?.name,
-      customerName: item.customer_name,
-      customerPhone: item.customer_phone,
-      customerEmail: item.customer_email,
-      rentalStartDate: new Date(item.rental_start_date),
-      rentalEndDate: new Date(item.rental_end_date),
-      rentalDays: item.rental_days,
-      dailyRate: item.daily_rate,
-      totalAmount: item.total_amount,
-      amountPaid: item.amount_paid || item.total_amount,
-      remainingAmount: item.remaining_amount || 0,
-      paymentStatus: item.payment_status || 'completed',
-      discount: item.discount,
-      discountAmount: item.discount_amount,
-      depositAmount: item.deposit_amount,
-      status: item.status,
-      agentId: item.agent_id,
-      agentName: item.agent_name,
-      notes: item.notes,
-      createdAt: new Date(item.created_at),
-      returnedAt: item.returned_at ? new Date(item.returned_at) : undefined
+      name: item.name,
+      ruleType: item.rule_type,
+      productId: item.product_id ?? undefined,
+      category: item.category ?? undefined,
+      price: item.price,
+      durationDays: item.duration_days,
+      isActive: item.is_active,
+      createdAt: new Date(item.created_at)
+    }));
+
+    setPricingRules(formattedRules);
+  };
+
+  const loadPricingPeriods = async () => {
+    const { data, error } = await supabase
+      .from('pricing_periods')
+      .select('*')
+      .order('start_date', { ascending: true });
+
+    if (error) {
+      console.error('Erreur lors du chargement des périodes tarifaires:', error);
+      return;
+    }
+
+    const formattedPeriods: PricingPeriod[] = data.map(item => ({
+      id: item.id,
+      name: item.name,
+      startDate: new Date(item.start_date),
+      endDate: new Date(item.end_date),
+      category: item.category ?? undefined,
+      appliesTo: item.applies_to,
+      adjustmentType: item.adjustment_type,
+      value: item.value,
+      isActive: item.is_active,
+      createdAt: new Date(item.created_at)
     }));
 
+    setPricingPeriods(formattedPeriods);
+  };
+
+  const loadStoreSettings = async () => {
+    const { data, error } = await supabase
+      .from('store_settings')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Erreur lors du chargement des paramètres de la boutique:', error);
+      return;
+    }
+
+    if (data) {
+      setStoreSettings({
+        lateFeePerDay: data.late_fee_per_day || 0,
+        lateFeeCap: data.late_fee_cap || 0,
+        storeName: data.store_name,
+        storeAddress: data.store_address,
+        storePhone: data.store_phone,
+        contractTerms: data.contract_terms || '',
+        identityThreshold: data.identity_threshold || 0
+      });
+    }
+  };
+
+  const loadOrders = async () => {
+    const { data, error } = await supabase
+      .from('orders')
+      .select('*, transactions(*)')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Erreur lors du chargement des commandes:', error);
+      return;
+    }
+
+    setOrders(data.map(formatOrder));
+  };
+
+  const loadTransactions = async () => {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Erreur lors du chargement des transactions:', error);
+      return;
+    }
+
+    const formattedTransactions: Transaction[] = data.map(formatTransaction);
+
+    setTransactions(formattedTransactions);
+  };
+
+  const loadRentals = async () => {
+    const { data, error } = await supabase
+      .from('rentals')
+      .select(rentalListColumns)
+      .order('created_at', { ascending: false })
+      .overrideTypes<RentalRow[], { merge: false }>();
+
+    if (error) {
+      console.error('Erreur lors du chargement des locations:', error);
+      return;
+    }
+
+    const formattedRentals: Rental[] = data.map(formatRental);
+
     setRentals(formattedRentals);
   };
 
@@ -188,6 +735,12 @@ export function StoreProvider({ children }: { children: ReactNode }) {
       email: item.email,
       address: item.address,
       notes: item.notes,
+      hasIdentity: item.has_identity ?? false,
+      riskStatus: item.risk_status || 'normal',
+      riskReason: item.risk_reason ?? undefined,
+      riskUpdatedAt: item.risk_updated_at ? new Date(item.risk_updated_at) : undefined,
+      riskUpdatedByName: item.risk_updated_by_name ?? undefined,
+      archivedAt: item.archived_at ? new Date(item.archived_at) : undefined,
       createdAt: new Date(item.created_at),
       updatedAt: new Date(item.updated_at)
     }));
@@ -208,6 +761,7 @@ export function StoreProvider({ children }: { children: ReactNode }) {
 
     const formattedPayments: Payment[] = data.map(item => ({
       id: item.id,
+      orderId: item.order_id,
       transactionId: item.transaction_id,
       rentalId: item.rental_id,
       customerName: item.customer_name,
@@ -215,6 +769,7 @@ export function StoreProvider({ children }: { children: ReactNode }) {
       amountPaid: item.amount_paid,
       remainingAmount: item.remaining_amount,
       paymentMethod: item.payment_method,
+      paymentType: item.payment_type || 'payment',
       paymentDate: new Date(item.payment_date),
       agentId: item.agent_id,
       agentName: item.agent_name,
@@ -226,10 +781,44 @@ export function StoreProvider({ children }: { children: ReactNode }) {
     setPayments(formattedPayments);
   };
 
-  const addProduct = async (productData: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const loadCustomerMeasurements = async () => {
     const { data, error } = await supabase
-      .from('products')
-      .insert({
+      .from('customer_measurements')
+      .select('*')
+      .order('measured_at', { ascending: false });
+
+    if (error) {
+      console.error('Erreur lors du chargement des mensurations:', error);
+      return;
+    }
+
+    const formattedMeasurements: CustomerMeasurement[] = data.map(item => ({
+      id: item.id,
+      customerId: item.customer_id,
+      bust: item.bust ?? undefined,
+      waist: item.waist ?? undefined,
+      hips: item.hips ?? undefined,
+      height: item.height ?? undefined,
+      shoulder: item.shoulder ?? undefined,
+      sleeve: item.sleeve ?? undefined,
+      shoeSize: item.shoe_size ?? undefined,
+      notes: item.notes ?? undefined,
+      measuredAt: new Date(item.measured_at),
+      recordedById: item.recorded_by_id ?? undefined,
+      recordedByName: item.recorded_by_name ?? undefined,
+      createdAt: new Date(item.created_at)
+    }));
+
+    setCustomerMeasurements(formattedMeasurements);
+  };
+
+  const addProduct = async (
+    productData: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>,
+    agent?: Pick<StockMovement, 'agentId' | 'agentName'>
+  ) => {
+    // Produit, stock initial et exemplaires sont créés ensemble, ou pas du tout
+    const { error } = await supabase.rpc('create_product', {
+      p_product: {
         name: productData.name,
         category: productData.category,
         size: productData.size,
@@ -241,17 +830,22 @@ export function StoreProvider({ children }: { children: ReactNode }) {
         stock: productData.stock,
         description: productData.description,
         barcode: productData.barcode,
-        is_available_for_rental: productData.isAvailableForRental ?? true
-      })
-      .select()
-      .single();
+        is_available_for_rental: productData.isAvailableForRental ?? true,
+        deposit_amount: productData.depositAmount,
+        buffer_days: productData.bufferDays,
+        requires_identity: productData.requiresIdentity ?? false,
+        size_chart: productData.sizeChart ?? {},
+        agent_id: agent?.agentId,
+        agent_name: agent?.agentName
+      }
+    });
 
     if (error) {
       console.error('Erreur lors de l\'ajout du produit:', error);
       throw error;
     }
 
-    await loadProducts();
+    await Promise.all([loadProducts(), loadProductUnits()]);
   };
 
   const updateProduct = async (id: string, productData: Partial<Product>) => {
@@ -265,10 +859,13 @@ export function StoreProvider({ children }: { children: ReactNode }) {
     if (productData.purchasePrice !== undefined) updateData.purchase_price = productData.purchasePrice;
     if (productData.salePrice !== undefined) updateData.sale_price = productData.salePrice;
     if (productData.rentalPricePerDay !== undefined) updateData.rental_price_per_day = productData.rentalPricePerDay;
-    if (productData.stock !== undefined) updateData.stock = productData.stock;
     if (productData.description !== undefined) updateData.description = productData.description;
     if (productData.barcode !== undefined) updateData.barcode = productData.barcode;
     if (productData.isAvailableForRental !== undefined) updateData.is_available_for_rental = productData.isAvailableForRental;
+    if ('depositAmount' in productData) updateData.deposit_amount = productData.depositAmount ?? null;
+    if ('bufferDays' in productData) updateData.buffer_days = productData.bufferDays ?? null;
+    if (productData.requiresIdentity !== undefined) updateData.requires_identity = productData.requiresIdentity;
+    if (productData.sizeChart !== undefined) updateData.size_chart = productData.sizeChart;
 
     const { error } = await supabase
       .from('products')
@@ -297,264 +894,829 @@ export function StoreProvider({ children }: { children: ReactNode }) {
     await loadProducts();
   };
 
-  const addTransaction = async (transactionData: Omit<Transaction, 'id' | 'createdAt'>) => {
-    // Créer ou mettre à jour le client
-    await supabase.rpc('create_customer_if_not_exists', {
-      customer_name: transactionData.customerName,
-      customer_phone: transactionData.customerPhone,
-      customer_email: transactionData.customerEmail
-    });
-
-    const { data, error } = await supabase
-      .from('transactions')
-      .insert({
-        type: transactionData.type,
-        product_id: transactionData.productId,
-        product_name: transactionData.productName,
-        quantity: transactionData.quantity,
-        unit_price: transactionData.unitPrice,
-        total_amount: transactionData.totalAmount,
-        amount_paid: transactionData.amountPaid || transactionData.totalAmount,
-        remaining_amount: transactionData.remainingAmount || 0,
-        payment_status: transactionData.paymentStatus || 'completed',
-        discount: transactionData.discount,
-        discount_amount: transactionData.discountAmount,
-        customer_name: transactionData.customerName,
-        customer_phone: transactionData.customerPhone,
-        customer_email: transactionData.customerEmail,
-        status: transactionData.status,
-        agent_id: transactionData.agentId,
-        agent_name: transactionData.agentName,
-        notes: transactionData.notes
-      })
-      .select()
-      .single();
+  const saveCategorySetting = async (setting: CategorySetting) => {
+    const { error } = await supabase
+      .from('category_settings')
+      .upsert({
+        category: setting.category,
+        deposit_amount: setting.depositAmount,
+        buffer_days: setting.bufferDays,
+        inspection_checklist: setting.inspectionChecklist
+      });
 
     if (error) {
-      console.error('Erreur lors de l\'ajout de la transaction:', error);
+      console.error('Erreur lors de l\'enregistrement des paramètres de catégorie:', error);
       throw error;
     }
 
-    if (transactionData.type === 'sale') {
-      await updateStock(transactionData.productId, -transactionData.quantity);
-    }
-
-    await Promise.all([loadTransactions(), loadCustomers()]);
-    return data.id;
+    await loadCategorySettings();
   };
 
-  const addRental = async (rentalData: Omit<Rental, 'id' | 'createdAt'>) => {
-    const isAvailable = await checkProductAvailability(
-      rentalData.productId,
-      rentalData.rentalStartDate,
-      rentalData.rentalEndDate
-    );
+  // Caution du produit, sinon celle de sa catégorie
+  const getDefaultDeposit = (product: Product) =>
+    product.depositAmount ??
+    categorySettings.find(setting => setting.category === product.category)?.depositAmount ??
+    0;
 
-    if (!isAvailable) {
-      throw new Error('Le produit n\'est pas disponible pour ces dates');
-    }
+  // Battement du produit, sinon celui de sa catégorie
+  const getBufferDays = (product: Product) =>
+    product.bufferDays ??
+    categorySettings.find(setting => setting.category === product.category)?.bufferDays ??
+    0;
 
-    const { data, error } = await supabase
-      .from('rentals')
-      .insert({
-        transaction_id: rentalData.transactionId,
-        product_id: rentalData.productId,
-        customer_name: rentalData.customerName,
-        customer_phone: rentalData.customerPhone,
-        customer_email: rentalData.customerEmail,
-        rental_start_date: rentalData.rentalStartDate.toISOString().split('T')[0],
-        rental_end_date: rentalData.rentalEndDate.toISOString().split('T')[0],
-        rental_days: rentalData.rentalDays,
-        daily_rate: rentalData.dailyRate,
-        total_amount: rentalData.totalAmount,
-        amount_paid: rentalData.amountPaid || rentalData.totalAmount,
-        remaining_amount: rentalData.remainingAmount || 0,
-        payment_status: rentalData.paymentStatus || 'completed',
-        discount: rentalData.discount,
-        discount_amount: rentalData.discountAmount,
-        deposit_amount: rentalData.depositAmount,
-        status: rentalData.status,
-        agent_id: rentalData.agentId,
-        agent_name: rentalData.agentName,
-        notes: rentalData.notes
-      })
-      .select()
-      .single();
+  const getInspectionChecklist = (category: string) =>
+    categorySettings.find(setting => setting.category === category)?.inspectionChecklist ??
+    defaultInspectionChecklist;
+
+  const addPricingRule = async (rule: Omit<PricingRule, 'id' | 'createdAt'>) => {
+    const { error } = await supabase
+      .from('pricing_rules')
+      .insert(pricingRuleToRow(rule));
 
     if (error) {
-      console.error('Erreur lors de l\'ajout de la location:', error);
+      console.error('Erreur lors de l\'ajout du tarif:', error);
       throw error;
     }
 
-    const dates = [];
-    const currentDate = new Date(rentalData.rentalStartDate);
-    while (currentDate <= rentalData.rentalEndDate) {
-      dates.push({
-        product_id: rentalData.productId,
-        rental_id: data.id,
-        reserved_date: currentDate.toISOString().split('T')[0],
-        status: 'reserved' as const
-      });
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
+    await loadPricingRules();
+  };
 
-    if (dates.length > 0) {
-      const { error: calendarError } = await supabase
-        .from('rental_calendar')
-        .insert(dates);
+  const updatePricingRule = async (id: string, rule: Omit<PricingRule, 'id' | 'createdAt'>) => {
+    const { error } = await supabase
+      .from('pricing_rules')
+      .update(pricingRuleToRow(rule))
+      .eq('id', id);
 
-      if (calendarError) {
-        console.error('Erreur lors de la création du calendrier:', calendarError);
-      }
+    if (error) {
+      console.error('Erreur lors de la mise à jour du tarif:', error);
+      throw error;
     }
 
-    await loadRentals();
-    return data.id;
+    await loadPricingRules();
   };
 
-  const updateRentalStatus = async (id: string, status: Rental['status'], returnedAt?: Date) => {
-    const updateData: any = { status };
-    if (returnedAt) {
-      updateData.returned_at = returnedAt.toISOString();
-    }
-
+  const deletePricingRule = async (id: string) => {
     const { error } = await supabase
-      .from('rentals')
-      .update(updateData)
+      .from('pricing_rules')
+      .delete()
       .eq('id', id);
 
     if (error) {
-      console.error('Erreur lors de la mise à jour du statut de location:', error);
+      console.error('Erreur lors de la suppression du tarif:', error);
       throw error;
     }
 
-    if (status === 'returned') {
-      const { error: calendarError } = await supabase
-        .from('rental_calendar')
-        .update({ status: 'available' })
-        .eq('rental_id', id);
+    await loadPricingRules();
+  };
 
-      if (calendarError) {
-        console.error('Erreur lors de la libération du calendrier:', calendarError);
-      }
+  const addPricingPeriod = async (period: Omit<PricingPeriod, 'id' | 'createdAt'>) => {
+    const { error } = await supabase
+      .from('pricing_periods')
+      .insert(pricingPeriodToRow(period));
+
+    if (error) {
+      console.error('Erreur lors de l\'ajout de la période tarifaire:', error);
+      throw error;
     }
 
-    await loadRentals();
+    await loadPricingPeriods();
   };
 
-  const checkProductAvailability = async (productId: string, startDate: Date, endDate: Date): Promise<boolean> => {
-    const { data, error } = await supabase
-      .from('rental_calendar')
-      .select('reserved_date')
-      .eq('product_id', productId)
-      .eq('status', 'reserved')
-      .gte('reserved_date', startDate.toISOString().split('T')[0])
-      .lte('reserved_date', endDate.toISOString().split('T')[0]);
+  const updatePricingPeriod = async (id: string, period: Omit<PricingPeriod, 'id' | 'createdAt'>) => {
+    const { error } = await supabase
+      .from('pricing_periods')
+      .update(pricingPeriodToRow(period))
+      .eq('id', id);
 
     if (error) {
-      console.error('Erreur lors de la vérification de disponibilité:', error);
-      return false;
+      console.error('Erreur lors de la mise à jour de la période tarifaire:', error);
+      throw error;
     }
 
-    return data.length === 0;
+    await loadPricingPeriods();
   };
 
-  const getProductAvailability = async (productId: string, month: Date): Promise<ProductAvailability> => {
-    const startOfMonth = new Date(month.getFullYear(), month.getMonth(), 1);
-    const endOfMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0);
-
-    const { data, error } = await supabase
-      .from('rental_calendar')
-      .select('reserved_date, status')
-      .eq('product_id', productId)
-      .gte('reserved_date', startOfMonth.toISOString().split('T')[0])
-      .lte('reserved_date', endOfMonth.toISOString().split('T')[0]);
+  const deletePricingPeriod = async (id: string) => {
+    const { error } = await supabase
+      .from('pricing_periods')
+      .delete()
+      .eq('id', id);
 
     if (error) {
-      console.error('Erreur lors de la récupération de la disponibilité:', error);
-      return {
-        productId,
-        availableDates: [],
-        reservedDates: [],
-        isAvailable: true
-      };
+      console.error('Erreur lors de la suppression de la période tarifaire:', error);
+      throw error;
     }
 
-    const reservedDates = data
-      .filter(item => item.status === 'reserved')
-      .map(item => new Date(item.reserved_date));
+    await loadPricingPeriods();
+  };
 
-    const availableDates: Date[] = [];
-    const currentDate = new Date(startOfMonth);
-    while (currentDate <= endOfMonth) {
-      if (!reservedDates.some(date => date.toDateString() === currentDate.toDateString())) {
-        availableDates.push(new Date(currentDate));
-      }
-      currentDate.setDate(currentDate.getDate() + 1);
+  const updateStoreSettings = async (settings: Partial<StoreSettings>) => {
+    const updateData: Record<string, string | number> = {};
+
+    if (settings.lateFeePerDay !== undefined) updateData.late_fee_per_day = settings.lateFeePerDay;
+    if (settings.lateFeeCap !== undefined) updateData.late_fee_cap = settings.lateFeeCap;
+    if (settings.storeName !== undefined) updateData.store_name = settings.storeName;
+    if (settings.storeAddress !== undefined) updateData.store_address = settings.storeAddress;
+    if (settings.storePhone !== undefined) updateData.store_phone = settings.storePhone;
+    if (settings.contractTerms !== undefined) updateData.contract_terms = settings.contractTerms;
+    if (settings.identityThreshold !== undefined) updateData.identity_threshold = settings.identityThreshold;
+
+    const { error } = await supabase
+      .from('store_settings')
+      .upsert({ id: true, ...updateData });
+
+    if (error) {
+      console.error('Erreur lors de l\'enregistrement des paramètres de la boutique:', error);
+      throw error;
     }
 
-    return {
-      productId,
-      availableDates,
-      reservedDates,
-      isAvailable: availableDates.length > 0
-    };
+    await loadStoreSettings();
   };
 
-  const updateStock = async (productId: string, quantity: number) => {
-    const product = products.find(p => p.id === productId);
-    if (!product) return;
+  // Même calcul que compute_late_fee côté base, pour l'affichage avant retour
+  const getLateFee = (rental: Rental, on: Date = new Date()) => {
+    const endDate = new Date(rental.rentalEndDate);
+    endDate.setHours(0, 0, 0, 0);
+    const day = new Date(on);
+    day.setHours(0, 0, 0, 0);
+
+    const days = Math.max(0, Math.round((day.getTime() - endDate.getTime()) / (1000 * 60 * 60 * 24)));
+    let amount = days * storeSettings.lateFeePerDay;
+    if (storeSettings.lateFeeCap > 0) {
+      amount = Math.min(amount, storeSettings.lateFeeCap);
+    }
 
-    const newStock = Math.max(0, product.stock + quantity);
+    return { days, amount };
+  };
 
+  const addProductUnit = async (unitData: Omit<ProductUnit, 'id' | 'createdAt'>) => {
     const { error } = await supabase
-      .from('products')
-      .update({ stock: newStock })
-      .eq('id', productId);
+      .from('product_units')
+      .insert({
+        product_id: unitData.productId,
+        unit_code: unitData.unitCode,
+        status: unitData.status,
+        notes: unitData.notes
+      });
 
     if (error) {
-      console.error('Erreur lors de la mise à jour du stock:', error);
+      console.error('Erreur lors de l\'ajout de l\'exemplaire:', error);
       throw error;
     }
 
-    await loadProducts();
+    await loadProductUnits();
   };
 
-  const getStats = async (dateFrom?: Date, dateTo?: Date): Promise<StoreStats> => {
-    let transactionQuery = supabase.from('transactions').select('*');
-    let rentalQuery = supabase.from('rentals').select('*');
+  const updateProductUnit = async (id: string, unitData: Partial<ProductUnit>) => {
+    const updateData: Partial<{ unit_code: string; status: ProductUnit['status']; notes: string | null }> = {};
 
-    if (dateFrom) {
-      transactionQuery = transactionQuery.gte('created_at', dateFrom.toISOString());
-      rentalQuery = rentalQuery.gte('created_at', dateFrom.toISOString());
-    }
+    if (unitData.unitCode) updateData.unit_code = unitData.unitCode;
+    if (unitData.status) updateData.status = unitData.status;
+    if (unitData.notes !== undefined) updateData.notes = unitData.notes;
 
-    if (dateTo) {
-      const endDate = new Date(dateTo);
-      endDate.setHours(23, 59, 59, 999);
-      transactionQuery = transactionQuery.lte('created_at', endDate.toISOString());
-      rentalQuery = rentalQuery.lte('created_at', endDate.toISOString());
+    const { error } = await supabase
+      .from('product_units')
+      .update(updateData)
+      .eq('id', id);
+
+    if (error) {
+      console.error('Erreur lors de la mise à jour de l\'exemplaire:', error);
+      throw error;
+    }
+
+    await loadProductUnits();
+  };
+
+  const deleteProductUnit = async (id: string) => {
+    const { error } = await supabase
+      .from('product_units')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Erreur lors de la suppression de l\'exemplaire:', error);
+      throw error;
+    }
+
+    await loadProductUnits();
+  };
+
+  const checkout = async (
+    orderData: Omit<Order, 'id' | 'receiptNumber' | 'items' | 'status' | 'createdAt'>,
+    lines: CheckoutLine[],
+    riskOverrideReason?: string
+  ): Promise<CheckoutResult> => {
+    const { data, error } = await supabase.rpc('checkout_order', {
+      p_order: {
+        customer_name: orderData.customerName,
+        customer_phone: orderData.customerPhone,
+        customer_email: orderData.customerEmail,
+        subtotal: orderData.subtotal,
+        discount_amount: orderData.discountAmount,
+        total_amount: orderData.totalAmount,
+        amount_paid: orderData.amountPaid,
+        remaining_amount: orderData.remainingAmount,
+        payment_status: orderData.paymentStatus,
+        agent_id: orderData.agentId,
+        agent_name: orderData.agentName,
+        notes: orderData.notes,
+        risk_override_reason: riskOverrideReason
+      },
+      p_items: lines.map(line => ({
+        type: line.type,
+        product_id: line.productId,
+        quantity: line.quantity,
+        unit_price: line.unitPrice,
+        total_amount: line.totalAmount,
+        discount: line.discount,
+        discount_amount: line.discountAmount,
+        surcharge_amount: line.surchargeAmount,
+        surcharge_label: line.surchargeLabel,
+        rental: line.rental && {
+          start_date: line.rental.startDate.toISOString().split('T')[0],
+          end_date: line.rental.endDate.toISOString().split('T')[0],
+          rental_days: line.rental.rentalDays,
+          daily_rate: line.rental.dailyRate,
+          total_amount: line.rental.totalAmount,
+          pricing_rule_name: line.rental.pricingRuleName,
+          discount_amount: line.rental.discountAmount,
+          deposit_amount: line.rental.depositAmount,
+          signature: line.rental.signature
+        }
+      }))
+    });
+
+    if (error) {
+      console.error('Erreur lors de la finalisation de la commande:', error);
+      throw error;
+    }
+
+    await Promise.all([loadOrders(), loadTransactions(), loadRentals(), loadProducts(), loadCustomers(), loadPayments()]);
+
+    if (!data.success) {
+      return {
+        success: false,
+        error: {
+          code: data.error.code,
+          message: data.error.message,
+          itemIndex: data.error.item_index ?? undefined
+        }
+      };
+    }
+
+    return { success: true, order: formatOrder(data.order) };
+  };
+
+  const addTransaction = async (transactionData: Omit<Transaction, 'id' | 'createdAt'>) => {
+    const amountPaid = transactionData.amountPaid ?? transactionData.totalAmount;
+
+    const result = await checkout({
+      customerName: transactionData.customerName,
+      customerPhone: transactionData.customerPhone,
+      customerEmail: transactionData.customerEmail,
+      subtotal: transactionData.totalAmount + (transactionData.discountAmount || 0),
+      discountAmount: transactionData.discountAmount || 0,
+      totalAmount: transactionData.totalAmount,
+      amountPaid,
+      remainingAmount: transactionData.remainingAmount || 0,
+      paymentStatus: transactionData.paymentStatus || 'completed',
+      agentId: transactionData.agentId,
+      agentName: transactionData.agentName,
+      notes: transactionData.notes
+    }, [{
+      type: transactionData.type,
+      productId: transactionData.productId,
+      productName: transactionData.productName,
+      quantity: transactionData.quantity,
+      unitPrice: transactionData.unitPrice,
+      totalAmount: transactionData.totalAmount,
+      discount: transactionData.discount,
+      discountAmount: transactionData.discountAmount
+    }]);
+
+    if (!result.success) {
+      throw new Error(result.error.message);
+    }
+
+    return result.order.items[0].id;
+  };
+
+  const addRental = async (rentalData: Omit<Rental, 'id' | 'transactionId' | 'createdAt'>) => {
+    const result = await checkout({
+      customerName: rentalData.customerName,
+      customerPhone: rentalData.customerPhone,
+      customerEmail: rentalData.customerEmail,
+      subtotal: rentalData.totalAmount + (rentalData.discountAmount || 0),
+      discountAmount: rentalData.discountAmount || 0,
+      totalAmount: rentalData.totalAmount,
+      amountPaid: rentalData.amountPaid ?? rentalData.totalAmount,
+      remainingAmount: rentalData.remainingAmount || 0,
+      paymentStatus: rentalData.paymentStatus || 'completed',
+      agentId: rentalData.agentId,
+      agentName: rentalData.agentName,
+      notes: rentalData.notes
+    }, [{
+      type: 'rental',
+      productId: rentalData.productId,
+      productName: rentalData.productName || '',
+      quantity: 1,
+      unitPrice: rentalData.totalAmount,
+      totalAmount: rentalData.totalAmount,
+      discount: rentalData.discount,
+      discountAmount: rentalData.discountAmount,
+      rental: {
+        startDate: rentalData.rentalStartDate,
+        endDate: rentalData.rentalEndDate,
+        rentalDays: rentalData.rentalDays,
+        dailyRate: rentalData.dailyRate,
+        totalAmount: rentalData.totalAmount,
+        discountAmount: rentalData.discountAmount,
+        depositAmount: rentalData.depositAmount
+      }
+    }]);
+
+    if (!result.success) {
+      throw new Error(result.error.message);
+    }
+  };
+
+  // Calendrier, caution et commande sont mis à jour ensemble côté serveur
+  const cancelRental = async (id: string, cancellation: RentalCancellation) => {
+    const { error } = await supabase.rpc('cancel_rental', {
+      p_rental_id: id,
+      p_cancel: {
+        payment_method: cancellation.paymentMethod,
+        agent_id: cancellation.agentId,
+        agent_name: cancellation.agentName
+      }
+    });
+
+    if (error) {
+      console.error('Erreur lors de l\'annulation de la location:', error);
+      throw error;
+    }
+
+    await Promise.all([loadRentals(), loadOrders(), loadTransactions(), loadPayments()]);
+  };
+
+  const pickupRental = async (id: string, pickup: RentalPickup) => {
+    const { error } = await supabase.rpc('pickup_rental', {
+      p_rental_id: id,
+      p_pickup: {
+        agent_id: pickup.agentId,
+        agent_name: pickup.agentName
+      }
+    });
+
+    if (error) {
+      console.error('Erreur lors du retrait de la location:', error);
+      throw error;
+    }
+
+    await loadRentals();
+  };
+
+  // Les photos sont envoyées avant le retour et supprimées si le retour est refusé
+  const returnRental = async (id: string, returnData: RentalReturn, photos: File[] = []) => {
+    const uploads = await Promise.allSettled(photos.map(file => uploadInspectionPhoto(id, file)));
+    const photoPaths = uploads.flatMap(upload => upload.status === 'fulfilled' ? [upload.value] : []);
+    const failedUpload = uploads.find((upload): upload is PromiseRejectedResult => upload.status === 'rejected');
+
+    if (failedUpload) {
+      await removeInspectionPhotos(photoPaths);
+      throw failedUpload.reason;
+    }
+
+    const inspection = returnData.inspection && {
+      ...returnData.inspection,
+      photos: [...returnData.inspection.photos, ...photoPaths]
+    };
+
+    const { error } = await supabase.rpc('return_rental', {
+      p_rental_id: id,
+      p_return: {
+        deposit_kept: returnData.depositKept,
+        deposit_kept_reason: returnData.depositKeptReason,
+        damage_charge: returnData.damageCharge,
+        inspection,
+        late_fee_paid: returnData.lateFeePaid,
+        late_fee_from_deposit: returnData.lateFeeFromDeposit,
+        payment_method: returnData.paymentMethod,
+        signature: returnData.signature,
+        agent_id: returnData.agentId,
+        agent_name: returnData.agentName
+      }
+    });
+
+    if (error) {
+      console.error('Erreur lors du retour de la location:', error);
+      await removeInspectionPhotos(photoPaths);
+      throw error;
+    }
+
+    await Promise.all([loadRentals(), loadPayments()]);
+  };
+
+  const uploadInspectionPhoto = async (rentalId: string, file: File): Promise<string> => {
+    const extension = file.name.split('.').pop() || 'jpg';
+    const path = `${rentalId}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from('rental-inspections')
+      .upload(path, file, { contentType: file.type });
+
+    if (error) {
+      console.error('Erreur lors de l\'envoi de la photo:', error);
+      throw error;
+    }
+
+    return path;
+  };
+
+  const removeInspectionPhotos = async (paths: string[]) => {
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage
+      .from('rental-inspections')
+      .remove(paths);
+
+    if (error) {
+      console.error('Erreur lors de la suppression des photos:', error);
+    }
+  };
+
+  // Le bucket est privé : lien temporaire pour consulter la photo
+  const getInspectionPhotoUrl = async (path: string): Promise<string> => {
+    const { data, error } = await supabase.storage
+      .from('rental-inspections')
+      .createSignedUrl(path, 60);
+
+    if (error) {
+      console.error('Erreur lors de l\'ouverture de la photo:', error);
+      throw error;
+    }
+
+    return data.signedUrl;
+  };
+
+  const getRentalSignatures = async (rentalId: string): Promise<Pick<Rental, 'contractSignature' | 'returnSignature'>> => {
+    const { data, error } = await supabase
+      .from('rentals')
+      .select('contract_signature, return_signature')
+      .eq('id', rentalId)
+      .single();
+
+    if (error) {
+      console.error('Erreur lors du chargement des signatures:', error);
+      throw error;
+    }
+
+    return {
+      contractSignature: data.contract_signature ?? undefined,
+      returnSignature: data.return_signature ?? undefined
+    };
+  };
+
+  const extendRental = async (id: string, extension: RentalExtensionRequest): Promise<RentalExtension> => {
+    const { data, error } = await supabase.rpc('extend_rental', {
+      p_rental_id: id,
+      p_extension: {
+        new_end_date: extension.newEndDate.toISOString().split('T')[0],
+        amount_paid: extension.amountPaid,
+        payment_method: extension.paymentMethod,
+        agent_id: extension.agentId,
+        agent_name: extension.agentName,
+        notes: extension.notes
+      }
+    });
+
+    if (error) {
+      console.error('Erreur lors de la prolongation de la location:', error);
+      throw error;
+    }
+
+    await Promise.all([loadRentals(), loadPayments()]);
+
+    return formatRentalExtension(data);
+  };
+
+  const getRentalExtensions = async (rentalId: string): Promise<RentalExtension[]> => {
+    const { data, error } = await supabase
+      .from('rental_extensions')
+      .select('*')
+      .eq('rental_id', rentalId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Erreur lors du chargement des prolongations:', error);
+      throw error;
+    }
+
+    return data.map(formatRentalExtension);
+  };
+
+  // Exemplaires actifs du produit qui n'ont aucune réservation sur la période, battement compris
+  const getFreeUnitIds = async (productId: string, startDate: Date, endDate: Date): Promise<string[]> => {
+    const product = products.find(p => p.id === productId);
+    const bufferEndDate = new Date(endDate);
+    bufferEndDate.setDate(bufferEndDate.getDate() + (product ? getBufferDays(product) : 0));
+
+    const [unitsResult, calendarResult] = await Promise.all([
+      supabase
+        .from('product_units')
+        .select('id')
+        .eq('product_id', productId)
+        .eq('status', 'active')
+        .order('unit_code', { ascending: true }),
+      supabase
+        .from('rental_calendar')
+        .select('unit_id')
+        .eq('product_id', productId)
+        .in('status', ['reserved', 'occupied', 'buffer', 'maintenance'])
+        .gte('reserved_date', startDate.toISOString().split('T')[0])
+        .lte('reserved_date', bufferEndDate.toISOString().split('T')[0])
+    ]);
+
+    if (unitsResult.error || calendarResult.error) {
+      console.error('Erreur lors de la vérification de disponibilité:', unitsResult.error || calendarResult.error);
+      return [];
+    }
+
+    const busyUnitIds = new Set(calendarResult.data.map(item => item.unit_id));
+    return unitsResult.data
+      .map(unit => unit.id)
+      .filter(id => !busyUnitIds.has(id));
+  };
+
+  const checkProductAvailability = async (productId: string, startDate: Date, endDate: Date, quantity: number = 1): Promise<boolean> => {
+    const freeUnitIds = await getFreeUnitIds(productId, startDate, endDate);
+    return freeUnitIds.length >= quantity;
+  };
+
+  // Produits louables ayant au moins un exemplaire libre sur toute la période, filtrés en base
+  const searchAvailability = async (startDate: Date, endDate: Date): Promise<AvailabilitySearchResult[]> => {
+    const { data, error } = await supabase.rpc('search_available_units', {
+      p_start: startDate.toISOString().split('T')[0],
+      p_end: endDate.toISOString().split('T')[0]
+    });
+
+    if (error) {
+      console.error('Erreur lors de la recherche de disponibilité:', error);
+      throw error;
+    }
+
+    return (data as { product_id: string; free_unit_ids: string[] }[]).map(item => ({
+      productId: item.product_id,
+      freeUnitIds: item.free_unit_ids
+    }));
+  };
+
+  // Jours occupés de tous les exemplaires sur la période, pour le planning
+  // Lue par pages : PostgREST ne renvoie pas plus de 1000 lignes par requête
+  const getRentalTimeline = async (startDate: Date, endDate: Date): Promise<RentalCalendar[]> => {
+    const pageSize = 1000;
+    const rows = [];
+
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabase
+        .from('rental_calendar')
+        .select('*')
+        .in('status', ['reserved', 'occupied', 'buffer', 'maintenance'])
+        .gte('reserved_date', startDate.toISOString().split('T')[0])
+        .lte('reserved_date', endDate.toISOString().split('T')[0])
+        .order('reserved_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + pageSize - 1);
+
+      if (error) {
+        console.error('Erreur lors du chargement du planning:', error);
+        throw error;
+      }
+
+      rows.push(...data);
+      if (data.length < pageSize) break;
+    }
+
+    return rows.map(item => ({
+      id: item.id,
+      productId: item.product_id,
+      unitId: item.unit_id,
+      rentalId: item.rental_id ?? undefined,
+      maintenanceTicketId: item.maintenance_ticket_id ?? undefined,
+      reservedDate: new Date(item.reserved_date),
+      status: item.status,
+      createdAt: new Date(item.created_at)
+    }));
+  };
+
+  const getProductAvailability = async (productId: string, month: Date): Promise<ProductAvailability> => {
+    const startOfMonth = new Date(month.getFullYear(), month.getMonth(), 1);
+    const endOfMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+
+    const [unitsResult, calendarResult] = await Promise.all([
+      supabase
+        .from('product_units')
+        .select('id')
+        .eq('product_id', productId)
+        .eq('status', 'active'),
+      supabase
+        .from('rental_calendar')
+        .select('unit_id, reserved_date, status')
+        .eq('product_id', productId)
+        .in('status', ['reserved', 'occupied', 'buffer', 'maintenance'])
+        .gte('reserved_date', startOfMonth.toISOString().split('T')[0])
+        .lte('reserved_date', endOfMonth.toISOString().split('T')[0])
+    ]);
+
+    if (unitsResult.error || calendarResult.error) {
+      console.error('Erreur lors de la récupération de la disponibilité:', unitsResult.error || calendarResult.error);
+      return {
+        productId,
+        totalUnits: 0,
+        dailyAvailability: [],
+        availableDates: [],
+        reservedDates: [],
+        isAvailable: true
+      };
+    }
+
+    const activeUnitIds = new Set(unitsResult.data.map(unit => unit.id));
+    const totalUnits = activeUnitIds.size;
+
+    const busyUnitsByDate = new Map<string, Set<string>>();
+    const bufferUnitsByDate = new Map<string, Set<string>>();
+    calendarResult.data.forEach(item => {
+      if (!activeUnitIds.has(item.unit_id)) return;
+      const key = new Date(item.reserved_date).toDateString();
+      const unitsByDate = item.status === 'buffer' || item.status === 'maintenance' ? bufferUnitsByDate : busyUnitsByDate;
+      const units = unitsByDate.get(key) || new Set<string>();
+      units.add(item.unit_id);
+      unitsByDate.set(key, units);
+    });
+
+    const dailyAvailability: ProductAvailability['dailyAvailability'] = [];
+    const availableDates: Date[] = [];
+    const reservedDates: Date[] = [];
+    const currentDate = new Date(startOfMonth);
+    while (currentDate <= endOfMonth) {
+      const busyUnits = busyUnitsByDate.get(currentDate.toDateString())?.size || 0;
+      const bufferUnits = bufferUnitsByDate.get(currentDate.toDateString())?.size || 0;
+      const freeUnits = Math.max(0, totalUnits - busyUnits - bufferUnits);
+      dailyAvailability.push({ date: new Date(currentDate), freeUnits, bufferUnits });
+      if (freeUnits > 0) {
+        availableDates.push(new Date(currentDate));
+      } else {
+        reservedDates.push(new Date(currentDate));
+      }
+      currentDate.setDate(currentDate.getDate() + 1);
+    }
+
+    return {
+      productId,
+      totalUnits,
+      dailyAvailability,
+      availableDates,
+      reservedDates,
+      isAvailable: availableDates.length > 0
+    };
+  };
+
+  const addStockMovement = async (movementData: Omit<StockMovement, 'id' | 'stockAfter' | 'createdAt'>) => {
+    const { error } = await supabase
+      .from('stock_movements')
+      .insert({
+        product_id: movementData.productId,
+        movement_type: movementData.movementType,
+        quantity: movementData.quantity,
+        reference: movementData.reference,
+        order_id: movementData.orderId,
+        agent_id: movementData.agentId,
+        agent_name: movementData.agentName,
+        notes: movementData.notes
+      });
+
+    if (error) {
+      console.error('Erreur lors de l\'enregistrement du mouvement de stock:', error);
+      throw error;
+    }
+
+    await loadProducts();
+  };
+
+  const getStockMovements = async (productId: string): Promise<StockMovement[]> => {
+    const { data, error } = await supabase
+      .from('stock_movements')
+      .select('*')
+      .eq('product_id', productId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Erreur lors du chargement des mouvements de stock:', error);
+      throw error;
+    }
+
+    return data.map(formatStockMovement);
+  };
+
+  const openMaintenanceTicket = async (ticket: Omit<MaintenanceTicket, 'id' | 'productName' | 'unitCode' | 'returnedDate' | 'status' | 'createdAt'>) => {
+    const { error } = await supabase.rpc('open_maintenance_ticket', {
+      p_ticket: {
+        product_id: ticket.productId,
+        unit_id: ticket.unitId,
+        ticket_type: ticket.ticketType,
+        vendor: ticket.vendor,
+        sent_date: ticket.sentDate.toISOString().split('T')[0],
+        expected_return_date: ticket.expectedReturnDate.toISOString().split('T')[0],
+        cost: ticket.cost,
+        notes: ticket.notes,
+        agent_id: ticket.agentId,
+        agent_name: ticket.agentName
+      }
+    });
+
+    if (error) {
+      console.error('Erreur lors de l\'ouverture du ticket d\'entretien:', error);
+      throw error;
+    }
+
+    await loadMaintenanceTickets();
+  };
+
+  const closeMaintenanceTicket = async (id: string, closing: MaintenanceTicketClosing) => {
+    const { error } = await supabase.rpc('close_maintenance_ticket', {
+      p_ticket_id: id,
+      p_close: {
+        returned_date: closing.returnedDate.toISOString().split('T')[0],
+        cost: closing.cost
+      }
+    });
+
+    if (error) {
+      console.error('Erreur lors de la clôture du ticket d\'entretien:', error);
+      throw error;
+    }
+
+    await loadMaintenanceTickets();
+  };
+
+  // Chiffre d'affaires du produit moins le coût d'achat et l'entretien (tickets clôturés)
+  const getProductProfitability = (product: Product): ProductProfitability => {
+    const sales = transactions.filter(t =>
+      t.productId === product.id && t.type === 'sale' && t.status !== 'cancelled' && t.status !== 'returned'
+    );
+    const salesRevenue = sales.reduce((sum, t) => sum + t.totalAmount, 0);
+    const rentalRevenue = rentals
+      .filter(r => r.productId === product.id && r.status !== 'cancelled')
+      .reduce((sum, r) => sum + r.totalAmount + (r.lateFee || 0), 0);
+    // Exemplaires achetés : un article vendu garde son exemplaire de location, il ne compte qu'une fois
+    const purchaseCost = (receivedQuantities[product.id] || 0) * product.purchasePrice;
+    const maintenanceCost = maintenanceTickets
+      .filter(ticket => ticket.productId === product.id && ticket.status === 'closed')
+      .reduce((sum, ticket) => sum + ticket.cost, 0);
+
+    return {
+      salesRevenue,
+      rentalRevenue,
+      purchaseCost,
+      maintenanceCost,
+      netMargin: salesRevenue + rentalRevenue - purchaseCost - maintenanceCost
+    };
+  };
+
+  const getStats = async (dateFrom?: Date, dateTo?: Date): Promise<StoreStats> => {
+    let orderQuery = supabase.from('orders').select('*, transactions(type)');
+    let rentalQuery = supabase.from('rentals').select('status');
+
+    if (dateFrom) {
+      orderQuery = orderQuery.gte('created_at', dateFrom.toISOString());
+      rentalQuery = rentalQuery.gte('created_at', dateFrom.toISOString());
     }
 
-    const [transactionsResult, rentalsResult] = await Promise.all([
-      transactionQuery,
+    if (dateTo) {
+      const endDate = new Date(dateTo);
+      endDate.setHours(23, 59, 59, 999);
+      orderQuery = orderQuery.lte('created_at', endDate.toISOString());
+      rentalQuery = rentalQuery.lte('created_at', endDate.toISOString());
+    }
+
+    const [ordersResult, rentalsResult] = await Promise.all([
+      orderQuery,
       rentalQuery
     ]);
 
-    const filteredTransactions = transactionsResult.data || [];
+    const filteredOrders = (ordersResult.data || []).filter(o => o.status !== 'cancelled');
     const filteredRentals = rentalsResult.data || [];
 
-    const totalSales = filteredTransactions.filter(t => t.type === 'sale').length;
-    const totalRentals = filteredTransactions.filter(t => t.type === 'rental').length;
-    const revenue = filteredTransactions.reduce((sum, t) => sum + (t.amount_paid || t.total_amount), 0);
+    const hasLineOfType = (order: { transactions?: { type: string }[] }, type: Transaction['type']) =>
+      (order.transactions || []).some(line => line.type === type);
+
+    const totalSales = filteredOrders.filter(o => hasLineOfType(o, 'sale')).length;
+    const totalRentals = filteredOrders.filter(o => hasLineOfType(o, 'rental')).length;
+    const revenue = filteredOrders.reduce((sum, o) => sum + Number(o.amount_paid || 0), 0);
     const lowStockItems = products.filter(p => p.stock <= 2).length;
     const totalProducts = products.length;
-    const activeRentals = filteredRentals.filter(r => r.status === 'active').length;
-    const overdueRentals = filteredRentals.filter(r => {
-      if (r.status !== 'active') return false;
-      const endDate = new Date(r.rental_end_date);
-      return endDate < new Date();
-    }).length;
+    const activeRentals = filteredRentals.filter(r => r.status === 'picked_up' || r.status === 'overdue').length;
+    const overdueRentals = filteredRentals.filter(r => r.status === 'overdue').length;
     const pendingReturns = activeRentals;
 
     return {
@@ -569,8 +1731,14 @@ export function StoreProvider({ children }: { children: ReactNode }) {
     };
   };
 
-  const getCustomerHistory = async (customerPhone: string) => {
-    const [transactionsResult, rentalsResult, paymentsResult] = await Promise.all([
+  const getCustomerHistory = async (phone: string) => {
+    const customerPhone = normalizePhone(phone);
+    const [ordersResult, transactionsResult, rentalsResult, paymentsResult] = await Promise.all([
+      supabase
+        .from('orders')
+        .select('*, transactions(*)')
+        .eq('customer_phone', customerPhone)
+        .order('created_at', { ascending: false }),
       supabase
         .from('transactions')
         .select('*')
@@ -578,9 +1746,10 @@ export function StoreProvider({ children }: { children: ReactNode }) {
         .order('created_at', { ascending: false }),
       supabase
         .from('rentals')
-        .select('*, products!inner(name)')
+        .select(rentalListColumns)
         .eq('customer_phone', customerPhone)
-        .order('created_at', { ascending: false }),
+        .order('created_at', { ascending: false })
+        .overrideTypes<RentalRow[], { merge: false }>(),
       supabase
         .from('payments')
         .select('*')
@@ -588,58 +1757,15 @@ export function StoreProvider({ children }: { children: ReactNode }) {
         .order('created_at', { ascending: false })
     ]);
 
-    const customerTransactions = transactionsResult.data?.map(item => ({
-      id: item.id,
-      type: item.type,
-      productId: item.product_id,
-      productName: item.product_name,
-      quantity: item.quantity,
-      unitPrice: item.unit_price,
-      totalAmount: item.total_amount,
-      amountPaid: item.amount_paid || item.total_amount,
-      remainingAmount: item.remaining_amount || 0,
-      paymentStatus: item.payment_status || 'completed',
-      discount: item.discount,
-      discountAmount: item.discount_amount,
-      customerName: item.customer_name,
-      customerPhone: item.customer_phone,
-      customerEmail: item.customer_email,
-      status: item.status,
-      agentId: item.agent_id,
-      agentName: item.agent_name,
-      createdAt: new Date(item.created_at),
-      notes: item.notes
-    })) || [];
+    const customerOrders = ordersResult.data?.map(formatOrder) || [];
 
-    const customerRentals = rentalsResult.data?.map(item => ({
-      id: item.id,
-      transactionId: item.transaction_id,
-      productId: item.product_id,
-      productName: item.products?.name,
-      customerName: item.customer_name,
-      customerPhone: item.customer_phone,
-      customerEmail: item.customer_email,
-      rentalStartDate: new Date(item.rental_start_date),
-      rentalEndDate: new Date(item.rental_end_date),
-      rentalDays: item.rental_days,
-      dailyRate: item.daily_rate,
-      totalAmount: item.total_amount,
-      amountPaid: item.amount_paid || item.total_amount,
-      remainingAmount: item.remaining_amount || 0,
-      paymentStatus: item.payment_status || 'completed',
-      discount: item.discount,
-      discountAmount: item.discount_amount,
-      depositAmount: item.deposit_amount,
-      status: item.status,
-      agentId: item.agent_id,
-      agentName: item.agent_name,
-      notes: item.notes,
-      createdAt: new Date(item.created_at),
-      returnedAt: item.returned_at ? new Date(item.returned_at) : undefined
-    })) || [];
+    const customerTransactions = transactionsResult.data?.map(formatTransaction) || [];
+
+    const customerRentals = rentalsResult.data?.map(formatRental) || [];
 
     const customerPayments = paymentsResult.data?.map(item => ({
       id: item.id,
+      orderId: item.order_id,
       transactionId: item.transaction_id,
       rentalId: item.rental_id,
       customerName: item.customer_name,
@@ -647,6 +1773,7 @@ export function StoreProvider({ children }: { children: ReactNode }) {
       amountPaid: item.amount_paid,
       remainingAmount: item.remaining_amount,
       paymentMethod: item.payment_method,
+      paymentType: item.payment_type || 'payment',
       paymentDate: new Date(item.payment_date),
       agentId: item.agent_id,
       agentName: item.agent_name,
@@ -656,16 +1783,295 @@ export function StoreProvider({ children }: { children: ReactNode }) {
     })) || [];
 
     return {
+      orders: customerOrders,
       transactions: customerTransactions,
       rentals: customerRentals,
       payments: customerPayments
     };
   };
 
+  const addCustomer = async (customerData: CustomerDetails) => {
+    const validationError = validateCustomer(customerData, customers);
+    if (validationError) throw new Error(validationError);
+
+    const { error } = await supabase
+      .from('customers')
+      .insert(customerToRow(customerData));
+
+    if (error) {
+      console.error('Erreur lors de l\'ajout du client:', error);
+      throw error;
+    }
+
+    await loadCustomers();
+  };
+
+  const updateCustomer = async (id: string, customerData: CustomerDetails) => {
+    const validationError = validateCustomer(customerData, customers.filter(customer => customer.id !== id));
+    if (validationError) throw new Error(validationError);
+
+    // Le nouveau numéro est reporté sur l'historique du client, retrouvé par téléphone
+    const { error } = await supabase.rpc('update_customer', {
+      p_id: id,
+      p_customer: customerToRow(customerData)
+    });
+
+    if (error) {
+      console.error('Erreur lors de la mise à jour du client:', error);
+      throw error;
+    }
+
+    await refreshData();
+  };
+
+  // Le client archivé disparaît de la liste ; ses commandes et locations restent consultables
+  const archiveCustomer = async (id: string, archived: boolean) => {
+    const { error } = await supabase
+      .from('customers')
+      .update({ archived_at: archived ? new Date().toISOString() : null })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Erreur lors de l\'archivage du client:', error);
+      throw error;
+    }
+
+    await loadCustomers();
+  };
+
+  // Réservé aux administrateurs : les commandes, locations et paiements des doublons
+  // passent sur la fiche cible, qui reprend aussi leurs coordonnées manquantes
+  const mergeCustomers = async (targetId: string, sourceIds: string[], agentId: string) => {
+    const { error } = await supabase.rpc('merge_customers', {
+      p_target_id: targetId,
+      p_source_ids: sourceIds,
+      p_agent_id: agentId
+    });
+
+    if (error) {
+      console.error('Erreur lors de la fusion des clients:', error);
+      throw error;
+    }
+
+    await refreshData();
+  };
+
+  // La table n'est pas lisible directement. Le rôle contrôlé par la base est celui de l'agent transmis,
+  // sans authentification : la restriction aux administrateurs tient à l'application
+  const getCustomerIdentity = async (customerId: string, agentId: string): Promise<CustomerIdentity | null> => {
+    const { data, error } = await supabase.rpc('get_customer_identity', {
+      p_customer_id: customerId,
+      p_agent_id: agentId
+    });
+
+    if (error) {
+      console.error('Erreur lors du chargement de la pièce d\'identité:', error);
+      throw error;
+    }
+
+    if (!data) return null;
+
+    return {
+      customerId: data.customer_id,
+      documentType: data.document_type,
+      documentNumber: data.document_number,
+      expiryDate: data.expiry_date ? new Date(data.expiry_date) : undefined,
+      scanPath: data.scan_path ?? undefined,
+      recordedById: data.recorded_by_id ?? undefined,
+      recordedByName: data.recorded_by_name ?? undefined,
+      updatedAt: new Date(data.updated_at)
+    };
+  };
+
+  // Scan remplacé ou supprimé : la fiche est déjà à jour, un échec laisse seulement un fichier orphelin
+  const removeIdentityScan = async (scanPath: string) => {
+    const { error } = await supabase.storage
+      .from('customer-documents')
+      .remove([scanPath]);
+
+    if (error) {
+      console.error('Erreur lors de la suppression du scan:', error);
+    }
+  };
+
+  const saveCustomerIdentity = async (
+    identity: Omit<CustomerIdentity, 'scanPath' | 'updatedAt' | 'recordedById' | 'recordedByName'>,
+    agent: Pick<StockMovement, 'agentId' | 'agentName'>,
+    scan?: File
+  ) => {
+    const row: Record<string, string | null> = {
+      customer_id: identity.customerId,
+      document_type: identity.documentType,
+      document_number: identity.documentNumber,
+      expiry_date: identity.expiryDate ? identity.expiryDate.toISOString().split('T')[0] : null,
+      agent_id: agent.agentId ?? null,
+      agent_name: agent.agentName ?? null
+    };
+
+    if (scan) {
+      const extension = scan.name.split('.').pop() || 'jpg';
+      const path = `${identity.customerId}/${Date.now()}.${extension}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('customer-documents')
+        .upload(path, scan, { contentType: scan.type });
+
+      if (uploadError) {
+        console.error('Erreur lors de l\'envoi du scan:', uploadError);
+        throw uploadError;
+      }
+
+      row.scan_path = path;
+    }
+
+    const { data: replacedScanPath, error } = await supabase.rpc('save_customer_identity', { p_identity: row });
+
+    if (error) {
+      console.error('Erreur lors de l\'enregistrement de la pièce d\'identité:', error);
+      throw error;
+    }
+
+    if (replacedScanPath) {
+      await removeIdentityScan(replacedScanPath);
+    }
+
+    await loadCustomers();
+  };
+
+  const deleteCustomerIdentity = async (customerId: string, agentId: string) => {
+    const { data: scanPath, error } = await supabase.rpc('delete_customer_identity', {
+      p_customer_id: customerId,
+      p_agent_id: agentId
+    });
+
+    if (error) {
+      console.error('Erreur lors de la suppression de la pièce d\'identité:', error);
+      throw error;
+    }
+
+    if (scanPath) {
+      await removeIdentityScan(scanPath);
+    }
+
+    await loadCustomers();
+  };
+
+  // Chaque relevé s'ajoute à l'historique ; le plus récent sert aux contrôles d'ajustement
+  const addCustomerMeasurement = async (measurementData: Omit<CustomerMeasurement, 'id' | 'createdAt'>) => {
+    const { error } = await supabase
+      .from('customer_measurements')
+      .insert({
+        customer_id: measurementData.customerId,
+        bust: measurementData.bust ?? null,
+        waist: measurementData.waist ?? null,
+        hips: measurementData.hips ?? null,
+        height: measurementData.height ?? null,
+        shoulder: measurementData.shoulder ?? null,
+        sleeve: measurementData.sleeve ?? null,
+        shoe_size: measurementData.shoeSize ?? null,
+        notes: measurementData.notes || null,
+        measured_at: measurementData.measuredAt.toISOString().split('T')[0],
+        recorded_by_id: measurementData.recordedById,
+        recorded_by_name: measurementData.recordedByName
+      });
+
+    if (error) {
+      console.error('Erreur lors de l\'enregistrement des mensurations:', error);
+      throw error;
+    }
+
+    await loadCustomerMeasurements();
+  };
+
+  const deleteCustomerMeasurement = async (id: string) => {
+    const { error } = await supabase
+      .from('customer_measurements')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Erreur lors de la suppression des mensurations:', error);
+      throw error;
+    }
+
+    await loadCustomerMeasurements();
+  };
+
+  // Le bucket est privé : le serveur autorise la lecture du scan, puis lien temporaire pour le consulter
+  const getIdentityScanUrl = async (customerId: string, agentId: string): Promise<string> => {
+    const { data: scanPath, error: accessError } = await supabase.rpc('open_identity_scan', {
+      p_customer_id: customerId,
+      p_agent_id: agentId
+    });
+
+    if (accessError) {
+      console.error('Erreur lors de l\'ouverture du scan:', accessError);
+      throw accessError;
+    }
+
+    const { data, error } = await supabase.storage
+      .from('customer-documents')
+      .createSignedUrl(scanPath, 60);
+
+    if (error) {
+      console.error('Erreur lors de l\'ouverture du scan:', error);
+      throw error;
+    }
+
+    return data.signedUrl;
+  };
+
+  const updateCustomerRisk = async (
+    customerId: string,
+    risk: Pick<Customer, 'riskStatus' | 'riskReason'>,
+    agent: Pick<StockMovement, 'agentId' | 'agentName'>
+  ) => {
+    // La base refuse un agent transmis qui n'est pas administrateur ; cet agent n'y est pas authentifié
+    const { error } = await supabase.rpc('update_customer_risk', {
+      p_customer_id: customerId,
+      p_risk: {
+        risk_status: risk.riskStatus,
+        risk_reason: risk.riskReason || null,
+        agent_id: agent.agentId,
+        agent_name: agent.agentName
+      }
+    });
+
+    if (error) {
+      console.error('Erreur lors de la mise à jour du statut du client:', error);
+      throw error;
+    }
+
+    await loadCustomers();
+  };
+
+  const getRiskOverrides = async (customerId: string): Promise<CustomerRiskOverride[]> => {
+    const { data, error } = await supabase
+      .from('customer_risk_overrides')
+      .select('*')
+      .eq('customer_id', customerId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Erreur lors du chargement des dérogations:', error);
+      throw error;
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      customerId: item.customer_id,
+      orderId: item.order_id ?? undefined,
+      reason: item.reason,
+      adminName: item.admin_name ?? undefined,
+      createdAt: new Date(item.created_at)
+    }));
+  };
+
   const addPayment = async (paymentData: Omit<Payment, 'id' | 'createdAt'>) => {
     const { error } = await supabase
       .from('payments')
       .insert({
+        order_id: paymentData.orderId,
         transaction_id: paymentData.transactionId,
         rental_id: paymentData.rentalId,
         customer_name: paymentData.customerName,
@@ -673,6 +2079,7 @@ export function StoreProvider({ children }: { children: ReactNode }) {
         amount_paid: paymentData.amountPaid,
         remaining_amount: paymentData.remainingAmount,
         payment_method: paymentData.paymentMethod,
+        payment_type: paymentData.paymentType ?? 'payment',
         payment_date: paymentData.paymentDate.toISOString(),
         agent_id: paymentData.agentId,
         agent_name: paymentData.agentName,
@@ -688,6 +2095,26 @@ export function StoreProvider({ children }: { children: ReactNode }) {
     await loadPayments();
   };
 
+  const settleReceivable = async (settlement: ReceivableSettlement) => {
+    const { error } = await supabase.rpc('settle_receivable', {
+      p_payment: {
+        order_id: settlement.orderId,
+        rental_id: settlement.rentalId,
+        amount: settlement.amount,
+        payment_method: settlement.paymentMethod,
+        agent_id: settlement.agentId,
+        agent_name: settlement.agentName
+      }
+    });
+
+    if (error) {
+      console.error('Erreur lors de l\'encaissement du solde:', error);
+      throw error;
+    }
+
+    await Promise.all([settlement.rentalId ? loadRentals() : loadOrders(), loadPayments()]);
+  };
+
   const updateTransactionPayment = async (transactionId: string, amountPaid: number) => {
     const transaction = transactions.find(t => t.id === transactionId);
     if (!transaction) return;
@@ -713,31 +2140,6 @@ export function StoreProvider({ children }: { children: ReactNode }) {
     await loadTransactions();
   };
 
-  const updateRentalPayment = async (rentalId: string, amountPaid: number) => {
-    const rental = rentals.find(r => r.id === rentalId);
-    if (!rental) return;
-
-    const totalPaid = (rental.amountPaid || 0) + amountPaid;
-    const remaining = Math.max(0, rental.totalAmount - totalPaid);
-    const paymentStatus = remaining === 0 ? 'completed' : totalPaid > 0 ? 'partial' : 'pending';
-
-    const { error } = await supabase
-      .from('rentals')
-      .update({
-        amount_paid: totalPaid,
-        remaining_amount: remaining,
-        payment_status: paymentStatus
-      })
-      .eq('id', rentalId);
-
-    if (error) {
-      console.error('Erreur lors de la mise à jour du paiement:', error);
-      throw error;
-    }
-
-    await loadRentals();
-  };
-
   const refreshData = async () => {
     await loadInitialData();
   };
@@ -745,26 +2147,75 @@ export function StoreProvider({ children }: { children: ReactNode }) {
   return (
     <StoreContext.Provider value={{
       products,
+      productUnits,
+      orders,
       transactions,
       rentals,
       customers,
       payments,
+      customerMeasurements,
+      categorySettings,
+      pricingRules,
+      pricingPeriods,
+      maintenanceTickets,
+      storeSettings,
       loading,
       addProduct,
       updateProduct,
       deleteProduct,
+      addProductUnit,
+      updateProductUnit,
+      deleteProductUnit,
+      saveCategorySetting,
+      getDefaultDeposit,
+      getBufferDays,
+      getInspectionChecklist,
+      addPricingRule,
+      updatePricingRule,
+      deletePricingRule,
+      addPricingPeriod,
+      updatePricingPeriod,
+      deletePricingPeriod,
+      updateStoreSettings,
+      getLateFee,
+      checkout,
       addTransaction,
       addRental,
-      updateRentalStatus,
+      cancelRental,
+      pickupRental,
+      returnRental,
+      uploadInspectionPhoto,
+      getInspectionPhotoUrl,
+      getRentalSignatures,
+      extendRental,
+      getRentalExtensions,
       checkProductAvailability,
       getProductAvailability,
-      updateStock,
+      searchAvailability,
+      getRentalTimeline,
+      addStockMovement,
+      getStockMovements,
+      openMaintenanceTicket,
+      closeMaintenanceTicket,
+      getProductProfitability,
       getStats,
       refreshData,
       getCustomerHistory,
+      addCustomer,
+      updateCustomer,
+      archiveCustomer,
+      mergeCustomers,
+      getCustomerIdentity,
+      saveCustomerIdentity,
+      deleteCustomerIdentity,
+      getIdentityScanUrl,
+      updateCustomerRisk,
+      getRiskOverrides,
+      addCustomerMeasurement,
+      deleteCustomerMeasurement,
       addPayment,
-      updateTransactionPayment,
-      updateRentalPayment
+      settleReceivable,
+      updateTransactionPayment
     }}>
       {children}
     </StoreContext.Provider>
@@ -22,10 +22,116 @@ export type Product = {
   description: string;
   barcode?: string;
   isAvailableForRental?: boolean;
+  depositAmount?: number; // Caution propre au produit, sinon celle de la catégorie
+  bufferDays?: number; // Battement propre au produit, sinon celui de la catégorie
+  requiresIdentity?: boolean; // Location soumise à la pièce d'identité du client
+  sizeChart?: SizeChart; // Mensurations couvertes par la taille du produit
   createdAt?: Date;
   updatedAt?: Date;
 };
 
+export type MeasurementKey = 'bust' | 'waist' | 'hips' | 'height' | 'shoulder' | 'sleeve' | 'shoeSize';
+
+// Intervalle accepté par mesure ; une borne absente n'est pas contrôlée
+export type SizeChart = Partial<Record<MeasurementKey, { min?: number; max?: number }>>;
+
+export interface ProductUnit {
+  id: string;
+  productId: string;
+  unitCode: string;
+  status: 'active' | 'retired';
+  notes?: string;
+  createdAt: Date;
+}
+
+export interface CategorySetting {
+  category: string;
+  depositAmount: number;
+  bufferDays: number; // Jours d'entretien après chaque location
+  inspectionChecklist: string[]; // Points contrôlés au retour
+}
+
+export interface PricingRule {
+  id: string;
+  name: string; // Imprimé sur le reçu, ex. « Forfait mariage 3 jours »
+  ruleType: 'weekend' | 'package' | 'weekly';
+  productId?: string; // Tarif propre au produit, sinon à toute la catégorie
+  category?: string;
+  price: number;
+  durationDays: number; // Jours couverts par le forfait ou la semaine
+  isActive: boolean;
+  createdAt: Date;
+}
+
+export interface PricingPeriod {
+  id: string;
+  name: string; // Imprimé sur le reçu, ex. « Saison des mariages »
+  startDate: Date;
+  endDate: Date;
+  category?: string; // Sans catégorie, la période s'applique à tout le catalogue
+  appliesTo: 'sale' | 'rental' | 'both';
+  adjustmentType: 'multiplier' | 'surcharge';
+  value: number; // Coefficient (1.5 = +50 %) ou majoration fixe par article en DA
+  isActive: boolean;
+  createdAt: Date;
+}
+
+export interface StoreSettings {
+  lateFeePerDay: number;
+  lateFeeCap: number; // 0 = sans plafond
+  storeName: string;
+  storeAddress: string;
+  storePhone: string;
+  contractTerms: string; // Conditions particulières du contrat de location
+  identityThreshold: number; // Prix de location par article exigeant une pièce d'identité, 0 = aucun seuil
+}
+
+export interface StockMovement {
+  id: string;
+  productId: string;
+  movementType: 'sale' | 'return' | 'adjustment' | 'reception' | 'loss' | 'transfer';
+  quantity: number; // Signée : négative pour une sortie de stock
+  stockAfter: number;
+  reference?: string;
+  orderId?: string;
+  agentId?: string;
+  agentName?: string;
+  notes?: string;
+  createdAt: Date;
+}
+
+export interface MaintenanceTicket {
+  id: string;
+  productId: string;
+  productName?: string;
+  unitId?: string; // Sans exemplaire, le ticket bloque tous les exemplaires actifs du produit
+  unitCode?: string;
+  ticketType: 'cleaning' | 'alteration' | 'repair';
+  vendor: string;
+  sentDate: Date;
+  expectedReturnDate: Date;
+  returnedDate?: Date;
+  cost: number; // Estimé à l'envoi, définitif à la clôture
+  status: 'open' | 'closed';
+  notes?: string;
+  agentId?: string;
+  agentName?: string;
+  createdAt: Date;
+}
+
+export interface MaintenanceTicketClosing {
+  returnedDate: Date;
+  cost: number;
+}
+
+export interface ProductProfitability {
+  salesRevenue: number;
+  rentalRevenue: number;
+  purchaseCost: number; // Articles reçus en stock, stock initial compris
+  maintenanceCost: number; // Tickets d'entretien clôturés
+  netMargin: number;
+}
+
 export interface Customer {
   id: string;
   name: string;
@@ -33,12 +139,51 @@ export interface Customer {
   email?: string;
   address?: string;
   notes?: string;
+  hasIdentity: boolean; // Pièce d'identité enregistrée, consultable par les administrateurs
+  riskStatus: 'normal' | 'watch' | 'blocked';
+  riskReason?: string;
+  riskUpdatedAt?: Date;
+  riskUpdatedByName?: string;
+  archivedAt?: Date; // Masqué de la liste, historique conservé
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type CustomerDetails = Pick<Customer, 'name' | 'phone' | 'email' | 'address' | 'notes'>;
+
+export interface CustomerRiskOverride {
+  id: string;
+  customerId: string;
+  orderId?: string;
+  reason: string;
+  adminName?: string;
+  createdAt: Date;
+}
+
+export interface CustomerIdentity {
+  customerId: string;
+  documentType: 'national_id' | 'passport' | 'driving_license';
+  documentNumber: string;
+  expiryDate?: Date;
+  scanPath?: string; // Chemin dans le bucket privé customer-documents
+  recordedById?: string;
+  recordedByName?: string;
+  updatedAt: Date;
+}
+
+export interface CustomerMeasurement extends Partial<Record<MeasurementKey, number>> {
+  id: string;
+  customerId: string;
+  notes?: string;
+  measuredAt: Date;
+  recordedById?: string;
+  recordedByName?: string;
+  createdAt: Date;
+}
+
 export interface Payment {
   id: string;
+  orderId?: string;
   transactionId?: string;
   rentalId?: string;
   customerName: string;
@@ -46,6 +191,7 @@ export interface Payment {
   amountPaid: number;
   remainingAmount: number;
   paymentMethod: 'cash' | 'card' | 'transfer';
+  paymentType?: 'payment' | 'deposit' | 'deposit_refund' | 'deposit_retained' | 'late_fee';
   paymentDate: Date;
   agentId: string;
   agentName: string;
@@ -56,6 +202,7 @@ export interface Payment {
 
 export interface Transaction {
   id: string;
+  orderId?: string;
   type: 'sale' | 'rental';
   productId: string;
   productName: string;
@@ -67,6 +214,8 @@ export interface Transaction {
   paymentStatus?: 'completed' | 'partial' | 'pending';
   discount?: number;
   discountAmount?: number;
+  surchargeAmount?: number; // Majoration saisonnière incluse dans le total
+  surchargeLabel?: string;
   customerName: string;
   customerPhone: string;
   customerEmail?: string;
@@ -77,11 +226,69 @@ export interface Transaction {
   notes?: string;
 }
 
+export interface Order {
+  id: string;
+  receiptNumber: string;
+  customerId?: string;
+  customerName: string;
+  customerPhone: string;
+  customerEmail?: string;
+  subtotal: number;
+  discountAmount: number;
+  totalAmount: number;
+  amountPaid: number;
+  remainingAmount: number;
+  paymentStatus: 'completed' | 'partial' | 'pending';
+  status: 'completed' | 'pending' | 'returned' | 'cancelled';
+  agentId: string;
+  agentName: string;
+  notes?: string;
+  items: Transaction[];
+  createdAt: Date;
+}
+
+export interface CheckoutLine {
+  type: 'sale' | 'rental';
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  totalAmount: number;
+  discount?: number;
+  discountAmount?: number;
+  surchargeAmount?: number;
+  surchargeLabel?: string;
+  rental?: {
+    startDate: Date;
+    endDate: Date;
+    rentalDays: number;
+    dailyRate: number;
+    totalAmount: number;
+    pricingRuleName?: string;
+    discountAmount?: number;
+    depositAmount: number;
+    signature?: string; // Signature du client sur le contrat
+  };
+}
+
+export interface CheckoutError {
+  code: 'empty_cart' | 'missing_customer' | 'product_not_found' | 'insufficient_stock'
+    | 'not_rentable' | 'invalid_dates' | 'already_reserved' | 'checkout_failed';
+  message: string;
+  itemIndex?: number;
+}
+
+export type CheckoutResult =
+  | { success: true; order: Order }
+  | { success: false; error: CheckoutError };
+
 export interface Rental {
   id: string;
   transactionId: string;
   productId: string;
   productName?: string;
+  unitId?: string;
+  unitCode?: string;
   customerName: string;
   customerPhone: string;
   customerEmail?: string;
@@ -90,26 +297,110 @@ export interface Rental {
   rentalDays: number;
   dailyRate: number;
   totalAmount: number;
-  amountPaid?: number;
-  remainingAmount?: number;
+  pricingRuleName?: string; // Tarif week-end, forfait ou semaine appliqué à l'encaissement
+  amountPaid?: number; // Réglé sur la location après l'encaissement ; la réservation est réglée sur la commande
+  remainingAmount?: number; // Prolongations, pénalités et dégâts restant dus
   paymentStatus?: 'completed' | 'partial' | 'pending';
   discount?: number;
   discountAmount?: number;
   depositAmount: number;
-  status: 'active' | 'returned' | 'overdue' | 'cancelled';
+  depositStatus?: 'none' | 'held' | 'refunded' | 'partially_kept' | 'kept';
+  depositRefunded?: number;
+  depositKept?: number;
+  depositKeptReason?: string;
+  lateFee?: number;
+  damageCharge?: number;
+  inspection?: RentalInspection;
+  contractSignature?: string; // Image PNG en data URL, signée à l'encaissement ; absente des listes, lue par getRentalSignatures
+  contractSignedAt?: Date;
+  returnSignature?: string;
+  returnSignedAt?: Date;
+  status: 'booked' | 'picked_up' | 'returned' | 'overdue' | 'cancelled';
   agentId: string;
   agentName: string;
   notes?: string;
   createdAt: Date;
+  pickedUpAt?: Date;
+  pickedUpByName?: string;
   returnedAt?: Date;
+  returnedByName?: string;
+}
+
+export interface RentalInspection {
+  checklist: {
+    item: string;
+    ok: boolean;
+  }[];
+  notes?: string;
+  photos: string[]; // Chemins dans le bucket privé rental-inspections
+}
+
+export interface RentalPickup {
+  agentId: string;
+  agentName: string;
+}
+
+export interface RentalCancellation {
+  paymentMethod: Payment['paymentMethod']; // Mode de remboursement de la caution et du trop-perçu
+  agentId: string;
+  agentName: string;
+}
+
+export interface RentalReturn {
+  depositKept: number; // Part des dégâts prélevée sur la caution
+  depositKeptReason?: string;
+  damageCharge?: number;
+  inspection?: RentalInspection;
+  lateFeePaid?: number;
+  lateFeeFromDeposit?: number;
+  paymentMethod?: Payment['paymentMethod'];
+  signature?: string; // Signature du client au retour
+  agentId: string;
+  agentName: string;
+}
+
+export interface RentalExtension {
+  id: string;
+  rentalId: string;
+  previousEndDate: Date;
+  newEndDate: Date;
+  extraDays: number;
+  dailyRate: number;
+  amount: number;
+  amountPaid: number;
+  agentId: string;
+  agentName: string;
+  notes?: string;
+  createdAt: Date;
+}
+
+export interface RentalExtensionRequest {
+  newEndDate: Date;
+  amountPaid: number;
+  paymentMethod?: Payment['paymentMethod'];
+  agentId: string;
+  agentName: string;
+  notes?: string;
+}
+
+// Encaissement du reste dû d'une commande ou d'une location
+export interface ReceivableSettlement {
+  orderId?: string;
+  rentalId?: string;
+  amount: number;
+  paymentMethod: Payment['paymentMethod'];
+  agentId: string;
+  agentName: string;
 }
 
 export interface RentalCalendar {
   id: string;
   productId: string;
-  rentalId: string;
+  unitId: string;
+  rentalId?: string;
+  maintenanceTicketId?: string; // Jours bloqués par un ticket d'entretien
   reservedDate: Date;
-  status: 'reserved' | 'occupied' | 'available';
+  status: 'reserved' | 'occupied' | 'buffer' | 'maintenance' | 'available';
   createdAt: Date;
 }
 
@@ -148,7 +439,17 @@ export interface StoreStats {
 
 export interface ProductAvailability {
   productId: string;
+  totalUnits: number;
+  dailyAvailability: {
+    date: Date;
+    freeUnits: number;
+    bufferUnits: number; // Exemplaires bloqués par un battement après location ou un entretien
+  }[];
   availableDates: Date[];
   reservedDates: Date[];
   isAvailable: boolean;
-}
\ No newline at end of file
+}
+export interface AvailabilitySearchResult {
+  productId: string;
+  freeUnitIds: string[]; // Exemplaires libres sur toute la période, battement compris
+}
@@ -0,0 +1,24 @@
+type CsvValue = string | number | Date | null | undefined;
+
+// Séparateur point-virgule et virgule décimale : le fichier s'ouvre directement dans Excel en français
+const formatCsvValue = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toLocaleDateString('fr-FR');
+  if (typeof value === 'number') return value.toFixed(2).replace('.', ',');
+  return /[";\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export function downloadCSV(fileName: string, headers: string[], rows: CsvValue[][]): void {
+  const content = [headers, ...rows]
+    .map(row => row.map(formatCsvValue).join(';'))
+    .join('\r\n');
+
+  // BOM UTF-8 pour que les accents s'affichent correctement
+  const blob = new Blob(['\uFEFF' + content], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,49 @@
+import { CustomerMeasurement, MeasurementKey, Product } from '../types';
+
+export const measurementKeys: MeasurementKey[] = ['bust', 'waist', 'hips', 'height', 'shoulder', 'sleeve', 'shoeSize'];
+
+export const measurementLabels: Record<MeasurementKey, string> = {
+  bust: 'Tour de poitrine',
+  waist: 'Tour de taille',
+  hips: 'Tour de hanches',
+  height: 'Stature',
+  shoulder: 'Carrure',
+  sleeve: 'Longueur de manche',
+  shoeSize: 'Pointure'
+};
+
+export const measurementUnits: Record<MeasurementKey, string> = {
+  bust: 'cm',
+  waist: 'cm',
+  hips: 'cm',
+  height: 'cm',
+  shoulder: 'cm',
+  sleeve: 'cm',
+  shoeSize: 'EU'
+};
+
+export const formatMeasurement = (key: MeasurementKey, value: number) =>
+  `${value.toLocaleString('fr-FR')} ${measurementUnits[key]}`;
+
+// Relevé le plus récent du client, qui sert aux contrôles d'ajustement
+export const getLatestMeasurement = (measurements: CustomerMeasurement[], customerId: string) =>
+  measurements
+    .filter(measurement => measurement.customerId === customerId)
+    .sort((a, b) => b.measuredAt.getTime() - a.measuredAt.getTime() || b.createdAt.getTime() - a.createdAt.getTime())[0];
+
+// Mesures du client hors de l'intervalle prévu par le guide des tailles du produit.
+// Une mesure non relevée ou non renseignée dans le guide n'est pas contrôlée.
+export const checkFit = (product: Product, measurement: CustomerMeasurement): string[] =>
+  measurementKeys.flatMap(key => {
+    const range = product.sizeChart?.[key];
+    const value = measurement[key];
+    if (!range || value === undefined) return [];
+
+    if (range.min !== undefined && value < range.min) {
+      return [`${measurementLabels[key]} ${formatMeasurement(key, value)} : en dessous du minimum de ${formatMeasurement(key, range.min)}`];
+    }
+    if (range.max !== undefined && value > range.max) {
+      return [`${measurementLabels[key]} ${formatMeasurement(key, value)} : au-dessus du maximum de ${formatMeasurement(key, range.max)}`];
+    }
+    return [];
+  });
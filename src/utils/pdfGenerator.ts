@@ -1,4 +1,6 @@
 import jsPDF from 'jspdf';
+import { agingBucketLabels, agingBuckets, AgingBucket, CustomerReceivables } from './receivables';
+import { CustomerStatement } from './statement';
 
 interface ReceiptData {
   customerName: string;
@@ -13,14 +15,129 @@ interface ReceiptData {
     discountAmount?: number;
     isRental: boolean;
     rentalDays?: number;
+    pricingRule?: string; // Forfait ou tarif appliqué à la location
+    surcharge?: {
+      label: string;
+      amount: number; // Par article, inclus dans finalPrice
+    };
+    depositAmount?: number;
     barcode?: string;
   }>;
   total: number;
+  depositTotal?: number;
   date: Date;
   agentName: string;
   receiptNumber?: string;
 }
 
+interface ReturnReceiptData {
+  customerName: string;
+  customerPhone: string;
+  customerEmail?: string;
+  productName: string;
+  unitCode?: string;
+  rentalStartDate: Date;
+  rentalEndDate: Date;
+  returnedAt: Date;
+  depositAmount: number;
+  depositRefunded: number;
+  depositKept: number;
+  depositKeptReason?: string;
+  damage?: {
+    amount: number;
+    fromDeposit: number;
+    issues: string[];
+  };
+  lateFee?: {
+    days: number;
+    amount: number;
+    paid: number;
+    fromDeposit: number;
+  };
+  remainingAmount?: number;
+  customerSignature?: string; // Image PNG en data URL
+  agentName: string;
+  receiptNumber?: string;
+}
+
+interface AmendmentReceiptData {
+  customerName: string;
+  customerPhone: string;
+  customerEmail?: string;
+  productName: string;
+  unitCode?: string;
+  rentalStartDate: Date;
+  previousEndDate: Date;
+  newEndDate: Date;
+  extraDays: number;
+  dailyRate: number;
+  amount: number;
+  amountPaid: number;
+  remainingAmount: number;
+  date: Date;
+  agentName: string;
+  receiptNumber?: string;
+}
+
+interface StoreDetails {
+  storeName: string;
+  storeAddress: string;
+  storePhone: string;
+}
+
+interface RentalContractData {
+  store: StoreDetails & {
+    lateFeePerDay: number;
+    lateFeeCap: number; // 0 = sans plafond
+    contractTerms: string;
+  };
+  contractNumber: string;
+  customerName: string;
+  customerPhone: string;
+  customerEmail?: string;
+  items: Array<{
+    productName: string;
+    category?: string;
+    size?: string;
+    color?: string;
+    unitCode?: string;
+    barcode?: string;
+    startDate: Date;
+    endDate: Date;
+    rentalDays: number;
+    totalAmount: number;
+    depositAmount: number;
+  }>;
+  customerSignature?: string; // Image PNG en data URL
+  signedAt?: Date;
+  date: Date;
+  agentName: string;
+}
+
+interface StatementData {
+  store: StoreDetails;
+  statement: CustomerStatement;
+  customerName: string;
+  customerPhone: string;
+  customerEmail?: string;
+  date: Date;
+  agentName: string;
+}
+
+interface ReceivablesReportData {
+  store: StoreDetails;
+  customers: CustomerReceivables[];
+  totals: Record<AgingBucket, number>;
+  date: Date;
+  agentName: string;
+}
+
+const defaultStoreDetails: StoreDetails = {
+  storeName: 'HaliStock Boutique',
+  storeAddress: '1200 logts',
+  storePhone: '+213668979699'
+};
+
 export function generateReceiptPDF(data: ReceiptData): void {
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.width;
@@ -126,13 +243,16 @@ export function generateReceiptPDF(data: ReceiptData): void {
   // Items
   doc.setFont('helvetica', 'normal');
   let totalDiscount = 0;
+  let totalSurcharge = 0;
 
   data.items.forEach((item) => {
     const basePrice = item.unitPrice;
     const finalPrice = item.finalPrice || basePrice;
     const itemTotal = finalPrice * item.quantity;
     const itemDiscount = (item.discountAmount || 0) * item.quantity;
+    const itemSurcharge = (item.surcharge?.amount || 0) * item.quantity;
     totalDiscount += itemDiscount;
+    totalSurcharge += itemSurcharge;
 
     doc.text(item.name.substring(0, 20), colPositions[0], yPosition);
     doc.text(item.quantity.toString(), colPositions[1], yPosition);
@@ -153,6 +273,22 @@ export function generateReceiptPDF(data: ReceiptData): void {
 
     yPosition += 6;
 
+    // Forfait appliqué
+    if (item.pricingRule) {
+      doc.setFontSize(7);
+      doc.text(`Tarif: ${item.pricingRule}`, colPositions[0], yPosition);
+      doc.setFontSize(9);
+      yPosition += 4;
+    }
+
+    // Majoration saisonnière
+    if (item.surcharge) {
+      doc.setFontSize(7);
+      doc.text(`${item.surcharge.label}: +${itemSurcharge.toFixed(2)}DA`, colPositions[0], yPosition);
+      doc.setFontSize(9);
+      yPosition += 4;
+    }
+
     // Code-barres si disponible
     if (item.barcode) {
       doc.setFontSize(7);
@@ -173,12 +309,20 @@ export function generateReceiptPDF(data: ReceiptData): void {
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
 
-  if (totalDiscount > 0) {
-    const subtotal = data.total + totalDiscount;
+  if (totalDiscount > 0 || totalSurcharge > 0) {
+    const subtotal = data.total + totalDiscount - totalSurcharge;
     doc.text('Sous-total:', pageWidth - margin - 60, yPosition);
     doc.text(`${subtotal.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
     yPosition += 6;
+  }
 
+  if (totalSurcharge > 0) {
+    doc.text('Majoration saisonnière:', pageWidth - margin - 60, yPosition);
+    doc.text(`+${totalSurcharge.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+    yPosition += 6;
+  }
+
+  if (totalDiscount > 0) {
     doc.setTextColor(220, 38, 127); // Rouge pour la réduction
     doc.text('Réduction totale:', pageWidth - margin - 60, yPosition);
     doc.text(`-${totalDiscount.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
@@ -192,6 +336,14 @@ export function generateReceiptPDF(data: ReceiptData): void {
   doc.text('TOTAL À PAYER:', pageWidth - margin - 60, yPosition);
   doc.text(`${data.total.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
 
+  if (data.depositTotal && data.depositTotal > 0) {
+    yPosition += 7;
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Caution (restituable):', pageWidth - margin - 60, yPosition);
+    doc.text(`${data.depositTotal.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+  }
+
   yPosition += 20;
 
   // Rental Info
@@ -212,7 +364,8 @@ export function generateReceiptPDF(data: ReceiptData): void {
           month: '2-digit',
           day: '2-digit'
         });
-        doc.text(`${item.name}: À retourner le ${formattedReturnDate}`, margin, yPosition);
+        const depositText = item.depositAmount ? ` - Caution: ${(item.depositAmount * item.quantity).toFixed(2)} DA` : '';
+        doc.text(`${item.name}: À retourner le ${formattedReturnDate}${depositText}`, margin, yPosition);
         yPosition += 6;
       }
     });
@@ -235,4 +388,762 @@ export function generateReceiptPDF(data: ReceiptData): void {
   // Save
   const fileName = `Recu_${data.customerName.replace(/\s+/g, '_')}_${formattedDate.replace(/\//g, '-')}.pdf`;
   doc.save(fileName);
-}
\ No newline at end of file
+}
+
+// En-tête boutique, titre et informations du reçu ; renvoie la position verticale suivante
+function drawDocumentHeader(
+  doc: jsPDF,
+  title: string,
+  receiptNumber: string,
+  date: Date,
+  agentName: string,
+  store: StoreDetails = defaultStoreDetails,
+  numberLabel = 'N° Reçu'
+): number {
+  const pageWidth = doc.internal.pageSize.width;
+  const margin = 20;
+  let yPosition = 20;
+
+  // Header - Store Info
+  doc.setFontSize(24);
+  doc.setFont('helvetica', 'bold');
+  doc.text(store.storeName, pageWidth / 2, yPosition, { align: 'center' });
+
+  yPosition += 10;
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Système de Gestion de Vêtements', pageWidth / 2, yPosition, { align: 'center' });
+
+  yPosition += 5;
+  doc.text(store.storeAddress, pageWidth / 2, yPosition, { align: 'center' });
+
+  yPosition += 5;
+  doc.text(`Tél: ${store.storePhone}`, pageWidth / 2, yPosition, { align: 'center' });
+
+  yPosition += 15;
+  doc.line(margin, yPosition, pageWidth - margin, yPosition);
+  yPosition += 15;
+
+  // Receipt Title
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text(title, pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 15;
+
+  // Receipt Info
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`${numberLabel}: ${receiptNumber}`, margin, yPosition);
+
+  const formattedDate = date.toLocaleDateString('fr-FR', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  });
+  const formattedTime = date.toLocaleTimeString('fr-FR', {
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  doc.text(`Date: ${formattedDate} ${formattedTime}`, pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 10;
+
+  doc.text(`Agent: ${agentName}`, margin, yPosition);
+  return yPosition + 15;
+}
+
+function drawCustomerInfo(
+  doc: jsPDF,
+  customer: { customerName: string; customerPhone: string; customerEmail?: string },
+  yPosition: number
+): number {
+  const margin = 20;
+
+  doc.setFont('helvetica', 'bold');
+  doc.text('INFORMATIONS CLIENT:', margin, yPosition);
+  yPosition += 8;
+
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Nom: ${customer.customerName}`, margin, yPosition);
+  yPosition += 6;
+  doc.text(`Téléphone: ${customer.customerPhone}`, margin, yPosition);
+  yPosition += 6;
+
+  if (customer.customerEmail) {
+    doc.text(`Email: ${customer.customerEmail}`, margin, yPosition);
+    yPosition += 6;
+  }
+
+  return yPosition + 10;
+}
+
+export function generateReturnReceiptPDF(data: ReturnReceiptData): void {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.width;
+  const margin = 20;
+
+  let yPosition = drawDocumentHeader(
+    doc,
+    'REÇU DE RETOUR',
+    data.receiptNumber || `RET-${Date.now()}`,
+    data.returnedAt,
+    data.agentName
+  );
+  yPosition = drawCustomerInfo(doc, data, yPosition);
+
+  // Rental Info
+  doc.setFont('helvetica', 'bold');
+  doc.text('ARTICLE RETOURNÉ:', margin, yPosition);
+  yPosition += 8;
+
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Article: ${data.productName}`, margin, yPosition);
+  yPosition += 6;
+
+  if (data.unitCode) {
+    doc.text(`Exemplaire: ${data.unitCode}`, margin, yPosition);
+    yPosition += 6;
+  }
+
+  const period = `Du ${data.rentalStartDate.toLocaleDateString('fr-FR')} au ${data.rentalEndDate.toLocaleDateString('fr-FR')}`;
+  doc.text(`Période: ${period}`, margin, yPosition);
+  yPosition += 15;
+
+  // Late Fee
+  if (data.lateFee && data.lateFee.amount > 0) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('RETARD:', margin, yPosition);
+    yPosition += 5;
+    doc.line(margin, yPosition, pageWidth - margin, yPosition);
+    yPosition += 8;
+
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Pénalité (${data.lateFee.days} jour(s)):`, pageWidth - margin - 80, yPosition);
+    doc.text(`${data.lateFee.amount.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+    yPosition += 6;
+
+    if (data.lateFee.paid > 0) {
+      doc.text('Encaissé:', pageWidth - margin - 80, yPosition);
+      doc.text(`${data.lateFee.paid.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+      yPosition += 6;
+    }
+
+    if (data.lateFee.fromDeposit > 0) {
+      doc.text('Prélevé sur la caution:', pageWidth - margin - 80, yPosition);
+      doc.text(`${data.lateFee.fromDeposit.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+      yPosition += 6;
+    }
+
+    yPosition += 9;
+  }
+
+  // Damage
+  if (data.damage && (data.damage.amount > 0 || data.damage.issues.length > 0)) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('ÉTAT DE L\'ARTICLE:', margin, yPosition);
+    yPosition += 5;
+    doc.line(margin, yPosition, pageWidth - margin, yPosition);
+    yPosition += 8;
+
+    doc.setFont('helvetica', 'normal');
+    if (data.damage.issues.length > 0) {
+      doc.text(`Constaté: ${data.damage.issues.join(', ')}`, margin, yPosition);
+      yPosition += 6;
+    }
+
+    if (data.damage.amount > 0) {
+      doc.text('Dégâts facturés:', pageWidth - margin - 80, yPosition);
+      doc.text(`${data.damage.amount.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+      yPosition += 6;
+
+      if (data.damage.amount > data.damage.fromDeposit) {
+        doc.text('Ajouté au solde:', pageWidth - margin - 80, yPosition);
+        doc.text(`${(data.damage.amount - data.damage.fromDeposit).toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+        yPosition += 6;
+      }
+    }
+
+    yPosition += 9;
+  }
+
+  // Deposit
+  if (data.depositAmount > 0) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('CAUTION:', margin, yPosition);
+    yPosition += 5;
+    doc.line(margin, yPosition, pageWidth - margin, yPosition);
+    yPosition += 8;
+
+    doc.setFont('helvetica', 'normal');
+    doc.text('Caution encaissée:', pageWidth - margin - 80, yPosition);
+    doc.text(`${data.depositAmount.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+    yPosition += 6;
+
+    doc.setTextColor(220, 38, 127); // Rouge pour les retenues
+    if (data.lateFee && data.lateFee.fromDeposit > 0) {
+      doc.text('Pénalité de retard:', pageWidth - margin - 80, yPosition);
+      doc.text(`-${data.lateFee.fromDeposit.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+      yPosition += 6;
+    }
+
+    if (data.depositKept > 0) {
+      doc.text('Retenue sur caution:', pageWidth - margin - 80, yPosition);
+      doc.text(`-${data.depositKept.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+      yPosition += 6;
+
+      if (data.depositKeptReason) {
+        doc.setFontSize(8);
+        doc.text(`Motif: ${data.depositKeptReason}`, margin, yPosition);
+        doc.setFontSize(10);
+        yPosition += 6;
+      }
+    }
+    doc.setTextColor(0, 0, 0); // Retour au noir
+
+    yPosition += 4;
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text('CAUTION RESTITUÉE:', pageWidth - margin - 80, yPosition);
+    doc.text(`${data.depositRefunded.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+  }
+
+  if (data.remainingAmount && data.remainingAmount > 0) {
+    yPosition += 8;
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(220, 38, 127); // Rouge pour le solde dû
+    doc.text('RESTE À PAYER:', pageWidth - margin - 80, yPosition);
+    doc.text(`${data.remainingAmount.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+    doc.setTextColor(0, 0, 0); // Retour au noir
+  }
+
+  if (data.customerSignature) {
+    yPosition += 15;
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Signature du client au retour:', margin, yPosition);
+    drawSignature(doc, data.customerSignature, margin, yPosition + 3, 70, 25);
+    yPosition += 28;
+  }
+
+  // Footer
+  yPosition += 20;
+  doc.line(margin, yPosition, pageWidth - margin, yPosition);
+  yPosition += 10;
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'italic');
+  doc.text('Merci pour votre confiance !', pageWidth / 2, yPosition, { align: 'center' });
+
+  // Save
+  const formattedDate = data.returnedAt.toLocaleDateString('fr-FR').replace(/\//g, '-');
+  const fileName = `Retour_${data.customerName.replace(/\s+/g, '_')}_${formattedDate}.pdf`;
+  doc.save(fileName);
+}
+
+export function generateAmendmentReceiptPDF(data: AmendmentReceiptData): void {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.width;
+  const margin = 20;
+
+  let yPosition = drawDocumentHeader(
+    doc,
+    'AVENANT DE LOCATION',
+    data.receiptNumber || `AVN-${Date.now()}`,
+    data.date,
+    data.agentName
+  );
+  yPosition = drawCustomerInfo(doc, data, yPosition);
+
+  // Rental Info
+  doc.setFont('helvetica', 'bold');
+  doc.text('ARTICLE LOUÉ:', margin, yPosition);
+  yPosition += 8;
+
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Article: ${data.productName}`, margin, yPosition);
+  yPosition += 6;
+
+  if (data.unitCode) {
+    doc.text(`Exemplaire: ${data.unitCode}`, margin, yPosition);
+    yPosition += 6;
+  }
+
+  doc.text(`Début de location: ${data.rentalStartDate.toLocaleDateString('fr-FR')}`, margin, yPosition);
+  yPosition += 15;
+
+  // Extension
+  doc.setFont('helvetica', 'bold');
+  doc.text('PROLONGATION:', margin, yPosition);
+  yPosition += 5;
+  doc.line(margin, yPosition, pageWidth - margin, yPosition);
+  yPosition += 8;
+
+  doc.setFont('helvetica', 'normal');
+  doc.text('Ancienne date de retour:', margin, yPosition);
+  doc.text(data.previousEndDate.toLocaleDateString('fr-FR'), pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 6;
+
+  doc.setFont('helvetica', 'bold');
+  doc.text('Nouvelle date de retour:', margin, yPosition);
+  doc.text(data.newEndDate.toLocaleDateString('fr-FR'), pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 6;
+
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Jours ajoutés: ${data.extraDays} x ${data.dailyRate.toFixed(2)} DA`, margin, yPosition);
+  doc.text(`${data.amount.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 10;
+
+  doc.text('Versé:', pageWidth - margin - 60, yPosition);
+  doc.text(`${data.amountPaid.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 8;
+
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('RESTE À PAYER:', pageWidth - margin - 60, yPosition);
+  doc.text(`${data.remainingAmount.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+
+  // Footer
+  yPosition += 20;
+  doc.line(margin, yPosition, pageWidth - margin, yPosition);
+  yPosition += 10;
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'italic');
+  doc.text('Cet avenant complète le reçu de location initial', pageWidth / 2, yPosition, { align: 'center' });
+
+  // Save
+  const formattedDate = data.date.toLocaleDateString('fr-FR').replace(/\//g, '-');
+  const fileName = `Avenant_${data.customerName.replace(/\s+/g, '_')}_${formattedDate}.pdf`;
+  doc.save(fileName);
+}
+
+// Signature capturée à l'écran ; le canvas a un rapport 3:1, l'image est centrée dans la zone
+function drawSignature(doc: jsPDF, image: string, x: number, y: number, width: number, height: number): void {
+  const imageWidth = Math.min(width, height * 3);
+  const imageHeight = imageWidth / 3;
+  doc.addImage(image, 'PNG', x + (width - imageWidth) / 2, y + (height - imageHeight) / 2, imageWidth, imageHeight);
+}
+
+// Motifs Code 39 : 9 éléments (barre, espace, barre...), 1 = élément large
+const code39Patterns: Record<string, string> = {
+  '0': '000110100', '1': '100100001', '2': '001100001', '3': '101100000',
+  '4': '000110001', '5': '100110000', '6': '001110000', '7': '000100101',
+  '8': '100100100', '9': '001100100', A: '100001001', B: '001001001',
+  C: '101001000', D: '000011001', E: '100011000', F: '001011000',
+  G: '000001101', H: '100001100', I: '001001100', J: '000011100',
+  K: '100000011', L: '001000011', M: '101000010', N: '000010011',
+  O: '100010010', P: '001010010', Q: '000000111', R: '100000110',
+  S: '001000110', T: '000010110', U: '110000001', V: '011000001',
+  W: '111000000', X: '010010001', Y: '110010000', Z: '011010000',
+  '-': '010000101', '.': '110000100', ' ': '011000100', '$': '010101000',
+  '/': '010100010', '+': '010001010', '%': '000101010', '*': '010010100'
+};
+
+// Dessine le code-barres Code 39 de la valeur ; renvoie false si un caractère n'est pas encodable
+function drawCode39(doc: jsPDF, value: string, x: number, y: number, height: number): boolean {
+  const text = value.toUpperCase();
+  if (!text || [...text].some(char => char === '*' || !code39Patterns[char])) return false;
+
+  const narrow = 0.35;
+  const wide = narrow * 2.5;
+  let cursor = x;
+
+  [...`*${text}*`].forEach(char => {
+    [...code39Patterns[char]].forEach((element, index) => {
+      const width = element === '1' ? wide : narrow;
+      if (index % 2 === 0) {
+        doc.rect(cursor, y, width, height, 'F');
+      }
+      cursor += width;
+    });
+    cursor += narrow; // Espace entre deux caractères
+  });
+
+  doc.setFontSize(8);
+  doc.text(text, x, y + height + 4);
+  return true;
+}
+
+export function generateRentalContractPDF(data: RentalContractData): void {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.width;
+  const pageHeight = doc.internal.pageSize.height;
+  const margin = 20;
+
+  const ensureSpace = (yPosition: number, needed: number) => {
+    if (yPosition + needed > pageHeight - margin) {
+      doc.addPage();
+      return 20;
+    }
+    return yPosition;
+  };
+
+  let yPosition = drawDocumentHeader(
+    doc,
+    'CONTRAT DE LOCATION',
+    data.contractNumber,
+    data.date,
+    data.agentName,
+    data.store,
+    'N° Contrat'
+  );
+  yPosition = drawCustomerInfo(doc, data, yPosition);
+
+  // Articles loués
+  doc.setFont('helvetica', 'bold');
+  doc.text('ARTICLES LOUÉS:', margin, yPosition);
+  yPosition += 5;
+  doc.line(margin, yPosition, pageWidth - margin, yPosition);
+  yPosition += 8;
+
+  data.items.forEach(item => {
+    yPosition = ensureSpace(yPosition, 50);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.text(item.productName, margin, yPosition);
+    yPosition += 6;
+
+    doc.setFont('helvetica', 'normal');
+    const description = [item.category, item.size && `Taille ${item.size}`, item.color].filter(Boolean).join(' · ');
+    if (description) {
+      doc.text(description, margin, yPosition);
+      yPosition += 6;
+    }
+    if (item.unitCode) {
+      doc.text(`Exemplaire: ${item.unitCode}`, margin, yPosition);
+      yPosition += 6;
+    }
+
+    doc.text(`Retrait: ${item.startDate.toLocaleDateString('fr-FR')}`, margin, yPosition);
+    doc.text(`Retour au plus tard: ${item.endDate.toLocaleDateString('fr-FR')}`, margin + 60, yPosition);
+    doc.text(`${item.rentalDays} jour(s)`, pageWidth - margin, yPosition, { align: 'right' });
+    yPosition += 6;
+
+    doc.text('Prix de la location:', margin, yPosition);
+    doc.text(`${item.totalAmount.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+    yPosition += 6;
+    doc.text('Caution:', margin, yPosition);
+    doc.text(`${item.depositAmount.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+    yPosition += 4;
+
+    // L'exemplaire est identifié par son code, à défaut par le code-barres du produit
+    const code = item.unitCode || item.barcode;
+    if (code && drawCode39(doc, code, margin, yPosition, 10)) {
+      yPosition += 16;
+    }
+
+    yPosition += 6;
+    doc.setFontSize(10);
+  });
+
+  // Totaux
+  const rentalTotal = data.items.reduce((sum, item) => sum + item.totalAmount, 0);
+  const depositTotal = data.items.reduce((sum, item) => sum + item.depositAmount, 0);
+
+  yPosition = ensureSpace(yPosition, 20);
+  doc.line(margin, yPosition, pageWidth - margin, yPosition);
+  yPosition += 8;
+  doc.setFont('helvetica', 'bold');
+  doc.text('TOTAL LOCATION:', pageWidth - margin - 70, yPosition);
+  doc.text(`${rentalTotal.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 6;
+  doc.text('CAUTION VERSÉE:', pageWidth - margin - 70, yPosition);
+  doc.text(`${depositTotal.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 15;
+
+  // Conditions
+  const lateFeeTerm = data.store.lateFeePerDay > 0
+    ? `Tout retard est facturé ${data.store.lateFeePerDay.toFixed(2)} DA par jour et par article` +
+      (data.store.lateFeeCap > 0 ? `, dans la limite de ${data.store.lateFeeCap.toFixed(2)} DA.` : '.')
+    : 'Les articles doivent être rendus au plus tard à la date de retour indiquée.';
+  const terms = [
+    lateFeeTerm,
+    'Les dégâts constatés au retour (taches, déchirures, pièces manquantes) sont facturés selon le barème ' +
+      'de la boutique, retenus en priorité sur la caution puis réclamés au client pour le solde.',
+    'La caution est restituée au retour des articles, déduction faite des frais de retard et de dégâts.',
+    ...data.store.contractTerms.split('\n').map(line => line.trim()).filter(Boolean)
+  ];
+
+  yPosition = ensureSpace(yPosition, 20);
+  doc.setFont('helvetica', 'bold');
+  doc.text('CONDITIONS:', margin, yPosition);
+  yPosition += 8;
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  terms.forEach((term, index) => {
+    const lines: string[] = doc.splitTextToSize(`${index + 1}. ${term}`, pageWidth - margin * 2);
+    yPosition = ensureSpace(yPosition, lines.length * 5);
+    doc.text(lines, margin, yPosition);
+    yPosition += lines.length * 5 + 2;
+  });
+
+  // Signatures
+  yPosition = ensureSpace(yPosition + 10, 50);
+  const boxWidth = (pageWidth - margin * 2 - 10) / 2;
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Signature du client', margin, yPosition);
+  doc.text("Signature de l'agent", margin + boxWidth + 10, yPosition);
+  yPosition += 3;
+
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'italic');
+  doc.text('Précédée de la mention « Lu et approuvé »', margin, yPosition + 4);
+  doc.text(data.agentName, margin + boxWidth + 10, yPosition + 4);
+  doc.rect(margin, yPosition + 7, boxWidth, 30);
+  doc.rect(margin + boxWidth + 10, yPosition + 7, boxWidth, 30);
+
+  if (data.customerSignature) {
+    drawSignature(doc, data.customerSignature, margin + 2, yPosition + 8, boxWidth - 4, 28);
+    if (data.signedAt) {
+      doc.text(`Signé le ${data.signedAt.toLocaleString('fr-FR')}`, margin, yPosition + 41);
+    }
+  }
+
+  // Save
+  const formattedDate = data.date.toLocaleDateString('fr-FR').replace(/\//g, '-');
+  const fileName = `Contrat_${data.customerName.replace(/\s+/g, '_')}_${formattedDate}.pdf`;
+  doc.save(fileName);
+}
+
+export function generateCustomerStatementPDF(data: StatementData): void {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.width;
+  const pageHeight = doc.internal.pageSize.height;
+  const margin = 20;
+  const { statement } = data;
+
+  const period = `${statement.dateFrom.toLocaleDateString('fr-FR')} au ${statement.dateTo.toLocaleDateString('fr-FR')}`;
+  let yPosition = drawDocumentHeader(
+    doc,
+    'RELEVÉ DE COMPTE',
+    `REL-${statement.dateTo.toISOString().split('T')[0].replace(/-/g, '')}`,
+    data.date,
+    data.agentName,
+    data.store,
+    'N° Relevé'
+  );
+  yPosition = drawCustomerInfo(doc, data, yPosition);
+
+  doc.setFont('helvetica', 'bold');
+  doc.text(`PÉRIODE: du ${period}`, margin, yPosition);
+  yPosition += 10;
+
+  // Table Header
+  const colPositions = [margin, margin + 20, margin + 45, margin + 110, margin + 130, margin + 150];
+  const drawTableHeader = () => {
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Date', colPositions[0], yPosition);
+    doc.text('Reçu', colPositions[1], yPosition);
+    doc.text('Opération', colPositions[2], yPosition);
+    doc.text('Débit', colPositions[3] + 18, yPosition, { align: 'right' });
+    doc.text('Crédit', colPositions[4] + 18, yPosition, { align: 'right' });
+    doc.text('Solde', pageWidth - margin, yPosition, { align: 'right' });
+    yPosition += 5;
+    doc.line(margin, yPosition, pageWidth - margin, yPosition);
+    yPosition += 6;
+    doc.setFont('helvetica', 'normal');
+  };
+
+  drawTableHeader();
+
+  doc.setFont('helvetica', 'italic');
+  doc.text('Solde reporté', colPositions[2], yPosition);
+  doc.text(`${statement.openingBalance.toFixed(2)}DA`, pageWidth - margin, yPosition, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  yPosition += 6;
+
+  statement.entries.forEach(entry => {
+    const label: string[] = doc.splitTextToSize(entry.label, colPositions[3] - colPositions[2] - 2);
+    if (yPosition + label.length * 4 > pageHeight - margin) {
+      doc.addPage();
+      yPosition = 20;
+      drawTableHeader();
+    }
+
+    doc.text(entry.date.toLocaleDateString('fr-FR'), colPositions[0], yPosition);
+    doc.text(entry.reference.substring(0, 12), colPositions[1], yPosition);
+    doc.text(label, colPositions[2], yPosition);
+    if (entry.debit > 0) {
+      doc.text(`${entry.debit.toFixed(2)}DA`, colPositions[3] + 18, yPosition, { align: 'right' });
+    }
+    if (entry.credit > 0) {
+      doc.text(`${entry.credit.toFixed(2)}DA`, colPositions[4] + 18, yPosition, { align: 'right' });
+    }
+    doc.text(`${entry.balance.toFixed(2)}DA`, pageWidth - margin, yPosition, { align: 'right' });
+    yPosition += label.length * 4 + 2;
+
+    // Mouvement de caution : indiqué pour mémoire, sans effet sur le solde
+    if (entry.deposit !== 0) {
+      doc.setFontSize(7);
+      doc.text(`Caution: ${entry.deposit > 0 ? '+' : ''}${entry.deposit.toFixed(2)}DA`, colPositions[2], yPosition - 1);
+      doc.setFontSize(9);
+      yPosition += 3;
+    }
+  });
+
+  if (statement.entries.length === 0) {
+    doc.setFont('helvetica', 'italic');
+    doc.text('Aucune opération sur la période', colPositions[2], yPosition);
+    yPosition += 6;
+  }
+
+  // Totals
+  if (yPosition + 45 > pageHeight - margin) {
+    doc.addPage();
+    yPosition = 20;
+  }
+
+  yPosition += 2;
+  doc.line(margin, yPosition, pageWidth - margin, yPosition);
+  yPosition += 8;
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Total débit:', pageWidth - margin - 80, yPosition);
+  doc.text(`${statement.totalDebit.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 6;
+
+  doc.text('Total crédit:', pageWidth - margin - 80, yPosition);
+  doc.text(`${statement.totalCredit.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+  yPosition += 6;
+
+  if (statement.depositHeld > 0) {
+    doc.text('Caution détenue:', pageWidth - margin - 80, yPosition);
+    doc.text(`${statement.depositHeld.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+    yPosition += 6;
+  }
+
+  yPosition += 2;
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  if (statement.closingBalance > 0) {
+    doc.setTextColor(220, 38, 127); // Rouge pour le solde dû
+  }
+  doc.text(statement.closingBalance > 0 ? 'RESTE À PAYER:' : 'SOLDE:', pageWidth - margin - 80, yPosition);
+  doc.text(`${statement.closingBalance.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+  doc.setTextColor(0, 0, 0); // Retour au noir
+
+  // Footer
+  yPosition += 15;
+  doc.line(margin, yPosition, pageWidth - margin, yPosition);
+  yPosition += 10;
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'italic');
+  doc.text('Merci pour votre confiance !', pageWidth / 2, yPosition, { align: 'center' });
+
+  // Save
+  const formattedDate = statement.dateTo.toLocaleDateString('fr-FR').replace(/\//g, '-');
+  const fileName = `Releve_${data.customerName.replace(/\s+/g, '_')}_${formattedDate}.pdf`;
+  doc.save(fileName);
+}
+
+export function generateReceivablesPDF(data: ReceivablesReportData): void {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.width;
+  const pageHeight = doc.internal.pageSize.height;
+  const margin = 20;
+
+  let yPosition = drawDocumentHeader(
+    doc,
+    'BALANCE ÂGÉE DES CRÉANCES',
+    `BAL-${data.date.toISOString().split('T')[0].replace(/-/g, '')}`,
+    data.date,
+    data.agentName,
+    data.store,
+    'N° État'
+  );
+
+  // Table Header
+  const amountColumns = [...agingBuckets.map(bucket => agingBucketLabels[bucket]), 'Total'];
+  const amountWidth = 20;
+  const firstAmountRight = pageWidth - margin - amountWidth * (amountColumns.length - 1);
+  const drawTableHeader = () => {
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Client', margin, yPosition);
+    amountColumns.forEach((column, index) => {
+      doc.text(column.replace(' jours', ' j'), firstAmountRight + amountWidth * index, yPosition, { align: 'right' });
+    });
+    yPosition += 5;
+    doc.line(margin, yPosition, pageWidth - margin, yPosition);
+    yPosition += 6;
+    doc.setFont('helvetica', 'normal');
+  };
+
+  const drawAmounts = (buckets: Record<AgingBucket, number>, total: number) => {
+    [...agingBuckets.map(bucket => buckets[bucket]), total].forEach((amount, index) => {
+      doc.text(amount > 0 ? amount.toFixed(2) : '-', firstAmountRight + amountWidth * index, yPosition, { align: 'right' });
+    });
+  };
+
+  drawTableHeader();
+
+  data.customers.forEach(customer => {
+    const documentLines = (customer.documents.length + 1) * 4;
+    if (yPosition + 6 + documentLines > pageHeight - margin) {
+      doc.addPage();
+      yPosition = 20;
+      drawTableHeader();
+    }
+
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    doc.text(customer.customerName.substring(0, 28), margin, yPosition);
+    drawAmounts(customer.buckets, customer.total);
+    yPosition += 4;
+
+    // Téléphone et documents d'origine
+    doc.setFontSize(7);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Tél: ${customer.customerPhone}`, margin, yPosition);
+    yPosition += 4;
+    customer.documents.forEach(document => {
+      doc.text(
+        `${document.reference} · ${document.dueDate.toLocaleDateString('fr-FR')} · ${document.ageDays} j · ${document.remainingAmount.toFixed(2)} DA`,
+        margin + 4,
+        yPosition
+      );
+      yPosition += 4;
+    });
+    yPosition += 2;
+  });
+
+  if (data.customers.length === 0) {
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'italic');
+    doc.text('Aucun solde restant dû', margin, yPosition);
+    yPosition += 6;
+  }
+
+  // Totals
+  if (yPosition + 30 > pageHeight - margin) {
+    doc.addPage();
+    yPosition = 20;
+  }
+
+  doc.line(margin, yPosition, pageWidth - margin, yPosition);
+  yPosition += 7;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'bold');
+  doc.text('TOTAL', margin, yPosition);
+  const grandTotal = agingBuckets.reduce((sum, bucket) => sum + data.totals[bucket], 0);
+  drawAmounts(data.totals, grandTotal);
+
+  yPosition += 12;
+  doc.setFontSize(12);
+  doc.setTextColor(220, 38, 127); // Rouge pour le solde dû
+  doc.text('TOTAL RESTANT DÛ:', pageWidth - margin - 80, yPosition);
+  doc.text(`${grandTotal.toFixed(2)} DA`, pageWidth - margin, yPosition, { align: 'right' });
+  doc.setTextColor(0, 0, 0); // Retour au noir
+
+  // Save
+  const formattedDate = data.date.toLocaleDateString('fr-FR').replace(/\//g, '-');
+  doc.save(`Balance_agee_${formattedDate}.pdf`);
+}
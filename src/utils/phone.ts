@@ -0,0 +1,26 @@
+// Format canonique des numéros algériens : +213 suivi des 9 chiffres de l'abonné.
+// "0555 12 34 56", "0555123456", "00213555123456" et "+213555123456" donnent
+// le même numéro. Même règle que la fonction SQL normalize_phone.
+export const normalizePhone = (phone: string) => {
+  const digits = phone.replace(/[\s.()-]/g, '');
+
+  if (/^00213[0-9]{9}$/.test(digits)) return `+213${digits.slice(5)}`;
+  if (/^\+?213[0-9]{9}$/.test(digits)) return `+213${digits.slice(-9)}`;
+  if (/^0[0-9]{9}$/.test(digits)) return `+213${digits.slice(1)}`;
+
+  return digits;
+};
+
+// Partie d'un numéro saisie dans une recherche : sans l'indicatif ni le 0 initial, "0555 12" et
+// "+213 555 12" cherchent tous deux 55512 dans les numéros enregistrés. Vide si la saisie n'est pas
+// un numéro, ou ne contient que le préfixe, pour ne pas retenir tous les clients.
+export const phoneSearchTerm = (term: string) => {
+  const digits = term.replace(/[\s.()-]/g, '').replace(/^(\+213|00213|0)/, '');
+  return /^[0-9]+$/.test(digits) ? digits : '';
+};
+
+// Affichage groupé : +213 555 12 34 56
+export const formatPhone = (phone: string) => {
+  const match = /^\+213([0-9])([0-9]{2})([0-9]{2})([0-9]{2})([0-9]{2})$/.exec(phone);
+  return match ? `+213 ${match[1]}${match[2]} ${match[3]} ${match[4]} ${match[5]}` : phone;
+};
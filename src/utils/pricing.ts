@@ -0,0 +1,170 @@
+import { PricingPeriod, PricingRule, Product } from '../types';
+
+export interface RentalPrice {
+  total: number;
+  rule?: PricingRule; // Absent quand le tarif journalier reste le moins cher
+  explanation: string;
+}
+
+export interface SeasonalSurcharge {
+  amount: number; // Par article
+  period: PricingPeriod;
+  label: string;
+}
+
+export const pricingPeriodTargetLabels: Record<PricingPeriod['appliesTo'], string> = {
+  sale: 'Vente',
+  rental: 'Location',
+  both: 'Vente et location'
+};
+
+export const pricingRuleTypeLabels: Record<PricingRule['ruleType'], string> = {
+  weekend: 'Week-end',
+  package: 'Forfait',
+  weekly: 'Semaine'
+};
+
+const formatAmount = (amount: number) => `${amount.toFixed(2)} DA`;
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+// Nombre de jours du premier au dernier inclus
+const countDays = (first: Date, last: Date) =>
+  Math.round((last.getTime() - first.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+
+// Les tarifs du produit s'ajoutent à ceux de sa catégorie
+export const getApplicableRules = (product: Product, rules: PricingRule[]) =>
+  rules.filter(rule =>
+    rule.isActive && (rule.productId ? rule.productId === product.id : rule.category === product.category)
+  );
+
+// Le forfait week-end couvre une location qui commence le vendredi ou le samedi
+// et se termine au plus tard le dimanche suivant
+const isWithinWeekend = (startDate: Date, endDate: Date) => {
+  const start = startOfDay(startDate);
+  const day = start.getDay();
+  if (day !== 5 && day !== 6) return false;
+
+  const sunday = new Date(start);
+  sunday.setDate(sunday.getDate() + (7 - day) % 7);
+  return startOfDay(endDate) <= sunday;
+};
+
+const priceWithRule = (
+  rule: PricingRule,
+  startDate: Date,
+  endDate: Date,
+  rentalDays: number,
+  dailyRate: number
+): RentalPrice | null => {
+  switch (rule.ruleType) {
+    case 'weekend':
+      if (!isWithinWeekend(startDate, endDate)) return null;
+      return {
+        total: rule.price,
+        rule,
+        explanation: `${rule.name} : forfait vendredi–dimanche à ${formatAmount(rule.price)}`
+      };
+
+    case 'package': {
+      const extraDays = Math.max(0, rentalDays - rule.durationDays);
+      return {
+        total: rule.price + extraDays * dailyRate,
+        rule,
+        explanation: `${rule.name} : ${rule.durationDays} jour(s) à ${formatAmount(rule.price)}` +
+          (extraDays > 0 ? ` + ${extraDays} jour(s) × ${formatAmount(dailyRate)}` : '')
+      };
+    }
+
+    case 'weekly': {
+      if (rentalDays < rule.durationDays) return null;
+      const weeks = Math.floor(rentalDays / rule.durationDays);
+      const extraDays = rentalDays % rule.durationDays;
+      // Les jours restants ne coûtent jamais plus qu'une semaine entière
+      const extraAmount = Math.min(extraDays * dailyRate, rule.price);
+      return {
+        total: weeks * rule.price + extraAmount,
+        rule,
+        explanation: `${rule.name} : ${weeks} semaine(s) à ${formatAmount(rule.price)}` +
+          (extraDays > 0 ? ` + ${extraDays} jour(s) pour ${formatAmount(extraAmount)}` : '')
+      };
+    }
+  }
+};
+
+// Retient le tarif le moins cher entre le tarif journalier et les règles applicables
+export const computeRentalPrice = (
+  product: Product,
+  startDate: Date,
+  endDate: Date,
+  rentalDays: number,
+  rules: PricingRule[]
+): RentalPrice => {
+  const days = Math.max(1, rentalDays);
+  let best: RentalPrice = {
+    total: days * product.rentalPricePerDay,
+    explanation: `Tarif journalier : ${days} jour(s) × ${formatAmount(product.rentalPricePerDay)}`
+  };
+
+  getApplicableRules(product, rules).forEach(rule => {
+    const price = priceWithRule(rule, startDate, endDate, days, product.rentalPricePerDay);
+    if (price && price.total < best.total) {
+      best = price;
+    }
+  });
+
+  return { ...best, total: Math.round(best.total * 100) / 100 };
+};
+
+export const formatPeriodAdjustment = (period: PricingPeriod) =>
+  period.adjustmentType === 'multiplier'
+    ? `×${period.value}`
+    : `+${formatAmount(period.value)}`;
+
+// Majoration de la période la plus chère qui couvre la vente ou une partie de la location.
+// Le coefficient s'applique au prix de base (tarif de location retenu ou prix de vente) ; coefficient
+// comme majoration fixe sont proratisés sur les jours de location compris dans la période.
+export const getSeasonalSurcharge = (
+  product: Product,
+  type: 'sale' | 'rental',
+  startDate: Date,
+  endDate: Date,
+  basePrice: number,
+  periods: PricingPeriod[]
+): SeasonalSurcharge | null => {
+  const start = startOfDay(startDate);
+  const end = startOfDay(endDate);
+  const totalDays = countDays(start, end);
+  let best: SeasonalSurcharge | null = null;
+
+  periods
+    .filter(period =>
+      period.isActive &&
+      (period.appliesTo === 'both' || period.appliesTo === type) &&
+      (!period.category || period.category === product.category) &&
+      startOfDay(period.startDate) <= end &&
+      startOfDay(period.endDate) >= start
+    )
+    .forEach(period => {
+      const periodStart = startOfDay(period.startDate);
+      const periodEnd = startOfDay(period.endDate);
+      const overlapDays = countDays(periodStart > start ? periodStart : start, periodEnd < end ? periodEnd : end);
+      const fullAmount = period.adjustmentType === 'multiplier'
+        ? basePrice * (period.value - 1)
+        : period.value;
+      const amount = fullAmount * overlapDays / totalDays;
+      if (amount > 0 && (!best || amount > best.amount)) {
+        best = {
+          amount: Math.round(amount * 100) / 100,
+          period,
+          label: `${period.name} (${formatPeriodAdjustment(period)}${overlapDays < totalDays ? `, ${overlapDays}/${totalDays} j` : ''})`
+        };
+      }
+    });
+
+  return best;
+};
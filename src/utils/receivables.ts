@@ -0,0 +1,132 @@
+import { Order, Rental } from '../types';
+
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export interface ReceivableDocument {
+  kind: 'order' | 'rental';
+  id: string;
+  reference: string; // N° de reçu de la commande, ou produit et exemplaire pour une location
+  label: string;
+  customerName: string;
+  customerPhone: string;
+  dueDate: Date; // Date de la commande, ou de retour pour une location
+  ageDays: number;
+  bucket: AgingBucket;
+  totalAmount: number;
+  remainingAmount: number;
+}
+
+export interface CustomerReceivables {
+  customerName: string;
+  customerPhone: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  oldestDays: number;
+  documents: ReceivableDocument[];
+}
+
+export const agingBuckets: AgingBucket[] = ['0-30', '31-60', '61-90', '90+'];
+
+export const agingBucketLabels: Record<AgingBucket, string> = {
+  '0-30': '0–30 jours',
+  '31-60': '31–60 jours',
+  '61-90': '61–90 jours',
+  '90+': 'Plus de 90 jours'
+};
+
+const dayMs = 1000 * 60 * 60 * 24;
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+export const getAgingBucket = (ageDays: number): AgingBucket => {
+  if (ageDays <= 30) return '0-30';
+  if (ageDays <= 60) return '31-60';
+  if (ageDays <= 90) return '61-90';
+  return '90+';
+};
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+// Soldes restants des commandes (reste de l'encaissement) et des locations (prolongations,
+// pénalités et dégâts). Une location en cours vieillit à partir de sa date de retour prévue.
+export const getReceivableDocuments = (orders: Order[], rentals: Rental[], today: Date = new Date()): ReceivableDocument[] => {
+  const documentAge = (date: Date) =>
+    Math.max(0, Math.round((startOfDay(today).getTime() - startOfDay(date).getTime()) / dayMs));
+
+  const orderDocuments = orders
+    .filter(order => order.status !== 'cancelled' && order.remainingAmount > 0)
+    .map(order => {
+      const ageDays = documentAge(order.createdAt);
+      return {
+        kind: 'order' as const,
+        id: order.id,
+        reference: order.receiptNumber,
+        label: order.items.map(item => item.productName).join(', ') || 'Commande',
+        customerName: order.customerName,
+        customerPhone: order.customerPhone,
+        dueDate: order.createdAt,
+        ageDays,
+        bucket: getAgingBucket(ageDays),
+        totalAmount: order.totalAmount,
+        remainingAmount: order.remainingAmount
+      };
+    });
+
+  const rentalDocuments = rentals
+    .filter(rental => rental.status !== 'cancelled' && (rental.remainingAmount || 0) > 0)
+    .map(rental => {
+      const dueDate = rental.returnedAt ?? rental.rentalEndDate;
+      const ageDays = documentAge(dueDate);
+      return {
+        kind: 'rental' as const,
+        id: rental.id,
+        reference: rental.unitCode ? `LOC ${rental.unitCode}` : `LOC-${rental.id.slice(0, 8).toUpperCase()}`,
+        label: `Location : ${rental.productName ?? 'Article'}`,
+        customerName: rental.customerName,
+        customerPhone: rental.customerPhone,
+        dueDate,
+        ageDays,
+        bucket: getAgingBucket(ageDays),
+        totalAmount: rental.totalAmount,
+        remainingAmount: rental.remainingAmount || 0
+      };
+    });
+
+  return [...orderDocuments, ...rentalDocuments].sort((a, b) => b.ageDays - a.ageDays);
+};
+
+// Regroupement par client, les plus gros encours en tête
+export const groupReceivablesByCustomer = (documents: ReceivableDocument[]): CustomerReceivables[] => {
+  const groups = new Map<string, CustomerReceivables>();
+
+  documents.forEach(document => {
+    const group = groups.get(document.customerPhone) ?? {
+      customerName: document.customerName,
+      customerPhone: document.customerPhone,
+      buckets: emptyBuckets(),
+      total: 0,
+      oldestDays: 0,
+      documents: []
+    };
+
+    group.buckets[document.bucket] += document.remainingAmount;
+    group.total += document.remainingAmount;
+    group.oldestDays = Math.max(group.oldestDays, document.ageDays);
+    group.documents.push(document);
+    groups.set(document.customerPhone, group);
+  });
+
+  return [...groups.values()].sort((a, b) => b.total - a.total);
+};
+
+export const sumBuckets = (groups: CustomerReceivables[]) =>
+  groups.reduce((totals, group) => {
+    agingBuckets.forEach(bucket => {
+      totals[bucket] += group.buckets[bucket];
+    });
+    return totals;
+  }, emptyBuckets());
@@ -0,0 +1,67 @@
+import { Customer, Order, Rental } from '../types';
+
+export interface RiskSuggestion {
+  status: Customer['riskStatus'];
+  reasons: string[];
+}
+
+export const riskStatusLabels: Record<Customer['riskStatus'], string> = {
+  normal: 'Normal',
+  watch: 'Sous surveillance',
+  blocked: 'Bloqué'
+};
+
+export const riskStatusColors: Record<Customer['riskStatus'], string> = {
+  normal: 'bg-green-100 text-green-800',
+  watch: 'bg-yellow-100 text-yellow-800',
+  blocked: 'bg-red-100 text-red-800'
+};
+
+const unpaidDelayDays = 30; // Solde impayé depuis plus longtemps : client bloqué
+const lateReturnLimit = 3; // Retours en retard à partir desquels le client est bloqué
+
+const dayMs = 1000 * 60 * 60 * 24;
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+// Suggestion tirée de l'historique du client : retards, dégâts et soldes impayés.
+// L'administrateur reste libre de l'appliquer ou non.
+export const suggestRiskStatus = (
+  customer: Customer,
+  rentals: Rental[],
+  orders: Order[],
+  today: Date = new Date()
+): RiskSuggestion => {
+  const customerRentals = rentals.filter(rental => rental.customerPhone === customer.phone);
+  const customerOrders = orders.filter(order => order.customerPhone === customer.phone && order.status !== 'cancelled');
+  const unpaidBefore = today.getTime() - unpaidDelayDays * dayMs;
+
+  const overdue = customerRentals.filter(rental => rental.status === 'overdue').length;
+  const lateReturns = customerRentals.filter(rental =>
+    rental.returnedAt && startOfDay(rental.returnedAt) > startOfDay(rental.rentalEndDate)
+  ).length;
+  const damaged = customerRentals.filter(rental => (rental.damageCharge || 0) > 0).length;
+
+  const balance = customerRentals.reduce((sum, rental) => sum + (rental.remainingAmount || 0), 0) +
+    customerOrders.reduce((sum, order) => sum + order.remainingAmount, 0);
+  const oldUnpaid = customerRentals.some(rental =>
+    (rental.remainingAmount || 0) > 0 && rental.returnedAt && rental.returnedAt.getTime() < unpaidBefore
+  ) || customerOrders.some(order => order.remainingAmount > 0 && order.createdAt.getTime() < unpaidBefore);
+
+  const reasons: string[] = [];
+  if (overdue > 0) reasons.push(`${overdue} location(s) en retard`);
+  if (lateReturns > 0) reasons.push(`${lateReturns} retour(s) après la date prévue`);
+  if (damaged > 0) reasons.push(`${damaged} location(s) rendue(s) avec dégâts`);
+  if (balance > 0) {
+    reasons.push(`Solde impayé de ${balance.toLocaleString('fr-FR')} DA` +
+      (oldUnpaid ? ` depuis plus de ${unpaidDelayDays} jours` : ''));
+  }
+
+  if (oldUnpaid || lateReturns >= lateReturnLimit) return { status: 'blocked', reasons };
+  if (reasons.length > 0) return { status: 'watch', reasons };
+  return { status: 'normal', reasons };
+};
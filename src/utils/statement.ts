@@ -0,0 +1,209 @@
+import { Order, Payment, Rental, RentalExtension } from '../types';
+
+export interface StatementEntry {
+  date: Date;
+  reference: string; // N° de reçu de la commande d'origine
+  label: string;
+  debit: number; // Montant dû par le client
+  credit: number; // Montant réglé ou imputé sur la caution
+  deposit: number; // Mouvement de caution : + encaissée, - restituée ; sans effet sur le solde
+  balance: number; // Solde après l'opération
+}
+
+export interface CustomerStatement {
+  dateFrom: Date;
+  dateTo: Date;
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  depositHeld: number; // Cautions encore détenues à la fin de la période
+}
+
+export interface StatementSource {
+  orders: Order[];
+  rentals: Rental[];
+  payments: Payment[];
+  extensions: RentalExtension[];
+}
+
+type StatementMovement = Omit<StatementEntry, 'balance'>;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const endOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(23, 59, 59, 999);
+  return day;
+};
+
+const paymentLabels: Record<NonNullable<Payment['paymentType']>, string> = {
+  payment: 'Règlement',
+  deposit: 'Caution encaissée',
+  deposit_refund: 'Caution restituée',
+  deposit_retained: 'Retenue sur caution',
+  late_fee: 'Règlement pénalité de retard'
+};
+
+// Toutes les opérations du client, dans l'ordre chronologique. Les montants dus viennent des
+// commandes (lignes de vente et de location), des prolongations, pénalités et dégâts ; les
+// règlements viennent de la commande et des paiements enregistrés ensuite.
+const collectMovements = ({ orders, rentals, payments, extensions }: StatementSource): StatementMovement[] => {
+  const movements: StatementMovement[] = [];
+  const activeOrders = orders.filter(order => order.status !== 'cancelled');
+  const orderIds = new Set(activeOrders.map(order => order.id));
+  const receiptFor = (orderId?: string) => activeOrders.find(order => order.id === orderId)?.receiptNumber ?? '';
+  const orderIdForTransaction = (transactionId: string) =>
+    activeOrders.find(order => order.items.some(item => item.id === transactionId))?.id;
+
+  activeOrders.forEach(order => {
+    // Une location annulée a déjà été retirée du total de la commande
+    const items = order.items.filter(item => item.status !== 'cancelled');
+
+    items.forEach(item => {
+      movements.push({
+        date: order.createdAt,
+        reference: order.receiptNumber,
+        label: item.type === 'rental'
+          ? `Location : ${item.productName}`
+          : `Vente : ${item.productName}${item.quantity > 1 ? ` × ${item.quantity}` : ''}`,
+        debit: item.totalAmount,
+        credit: 0,
+        deposit: 0
+      });
+    });
+
+    // Écart entre les lignes et le total de la commande (remise globale, arrondi)
+    const linesTotal = round(items.reduce((sum, item) => sum + item.totalAmount, 0));
+    const adjustment = round(order.totalAmount - linesTotal);
+    if (adjustment !== 0) {
+      movements.push({
+        date: order.createdAt,
+        reference: order.receiptNumber,
+        label: adjustment < 0 ? 'Remise sur la commande' : 'Ajustement de la commande',
+        debit: Math.max(0, adjustment),
+        credit: Math.max(0, -adjustment),
+        deposit: 0
+      });
+    }
+
+    // Versement à la caisse : les règlements enregistrés plus tard sur la commande figurent à leur date
+    const laterPayments = payments
+      .filter(payment => payment.orderId === order.id && !payment.rentalId && (payment.paymentType ?? 'payment') === 'payment')
+      .reduce((sum, payment) => sum + payment.amountPaid, 0);
+    const paidAtCheckout = round(order.amountPaid - laterPayments);
+    if (paidAtCheckout > 0) {
+      movements.push({
+        date: order.createdAt,
+        reference: order.receiptNumber,
+        label: 'Règlement à la caisse',
+        debit: 0,
+        credit: paidAtCheckout,
+        deposit: 0
+      });
+    }
+  });
+
+  rentals
+    .filter(rental => rental.status !== 'cancelled')
+    .forEach(rental => {
+      const orderId = orderIdForTransaction(rental.transactionId);
+      if (!orderId) return;
+      const reference = receiptFor(orderId);
+      const productName = rental.productName ?? 'Article';
+
+      if (rental.returnedAt && (rental.lateFee || 0) > 0) {
+        movements.push({
+          date: rental.returnedAt,
+          reference,
+          label: `Pénalité de retard : ${productName}`,
+          debit: rental.lateFee || 0,
+          credit: 0,
+          deposit: 0
+        });
+      }
+
+      if (rental.returnedAt && (rental.damageCharge || 0) > 0) {
+        movements.push({
+          date: rental.returnedAt,
+          reference,
+          label: `Dégâts constatés : ${productName}`,
+          debit: rental.damageCharge || 0,
+          credit: 0,
+          deposit: 0
+        });
+      }
+
+      extensions
+        .filter(extension => extension.rentalId === rental.id)
+        .forEach(extension => {
+          movements.push({
+            date: extension.createdAt,
+            reference,
+            label: `Prolongation : ${productName} (+${extension.extraDays} j)`,
+            debit: extension.amount,
+            credit: 0,
+            deposit: 0
+          });
+        });
+    });
+
+  payments
+    .filter(payment => !payment.orderId || orderIds.has(payment.orderId))
+    .forEach(payment => {
+      const type = payment.paymentType ?? 'payment';
+      const isDeposit = type === 'deposit' || type === 'deposit_refund';
+      // La retenue est imputée sur la dette et sort de la caution détenue
+      const depositMovement = type === 'deposit' ? payment.amountPaid
+        : type === 'deposit_refund' || type === 'deposit_retained' ? -payment.amountPaid
+        : 0;
+
+      movements.push({
+        date: payment.paymentDate,
+        reference: receiptFor(payment.orderId),
+        label: payment.notes && payment.notes !== paymentLabels[type]
+          ? `${paymentLabels[type]} : ${payment.notes}`
+          : paymentLabels[type],
+        debit: 0,
+        credit: isDeposit ? 0 : payment.amountPaid,
+        deposit: depositMovement
+      });
+    });
+
+  return movements.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+// Relevé de compte sur la période : solde reporté, opérations avec solde courant, solde final
+export const buildCustomerStatement = (source: StatementSource, dateFrom: Date, dateTo: Date): CustomerStatement => {
+  const from = startOfDay(dateFrom);
+  const to = endOfDay(dateTo);
+  const movements = collectMovements(source).filter(movement => movement.date <= to);
+  const before = movements.filter(movement => movement.date < from);
+
+  const openingBalance = round(before.reduce((sum, movement) => sum + movement.debit - movement.credit, 0));
+  let balance = openingBalance;
+  const entries = movements
+    .filter(movement => movement.date >= from)
+    .map(movement => {
+      balance = round(balance + movement.debit - movement.credit);
+      return { ...movement, balance };
+    });
+
+  return {
+    dateFrom: from,
+    dateTo: to,
+    openingBalance,
+    entries,
+    totalDebit: round(entries.reduce((sum, entry) => sum + entry.debit, 0)),
+    totalCredit: round(entries.reduce((sum, entry) => sum + entry.credit, 0)),
+    closingBalance: balance,
+    depositHeld: round(movements.reduce((sum, movement) => sum + movement.deposit, 0))
+  };
+};
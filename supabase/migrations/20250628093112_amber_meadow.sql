@@ -0,0 +1,94 @@
+/*
+  # Exemplaires de location individuels
+
+  1. Nouvelles Tables
+    - `product_units` - Exemplaires physiques d'un produit, chacun avec sa propre étiquette ou code-barres
+
+  2. Modifications
+    - `rentals.unit_id` - Exemplaire attribué à la location
+    - `rental_calendar.unit_id` - Une réservation porte sur un exemplaire et non plus sur le produit
+    - Suppression de UNIQUE(product_id, reserved_date) : plusieurs exemplaires d'un même produit
+      peuvent être loués le même jour
+
+  3. Données existantes
+    - Création d'un exemplaire par unité de stock pour les produits louables
+    - Rattachement des réservations existantes au premier exemplaire du produit
+*/
+
+-- Table des exemplaires
+CREATE TABLE IF NOT EXISTS product_units (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  unit_code text UNIQUE NOT NULL,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retired')),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS product_units_product_id_idx ON product_units(product_id);
+
+-- Exemplaire attribué aux locations
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rentals' AND column_name = 'unit_id'
+  ) THEN
+    ALTER TABLE rentals ADD COLUMN unit_id uuid REFERENCES product_units(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Exemplaire réservé dans le calendrier
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rental_calendar' AND column_name = 'unit_id'
+  ) THEN
+    ALTER TABLE rental_calendar ADD COLUMN unit_id uuid REFERENCES product_units(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+ALTER TABLE rental_calendar DROP CONSTRAINT IF EXISTS rental_calendar_product_id_reserved_date_key;
+
+CREATE INDEX IF NOT EXISTS rental_calendar_unit_date_idx ON rental_calendar(unit_id, reserved_date);
+CREATE INDEX IF NOT EXISTS rental_calendar_product_date_idx ON rental_calendar(product_id, reserved_date);
+
+-- Un exemplaire par unité de stock pour les produits louables
+INSERT INTO product_units (product_id, unit_code)
+SELECT
+  p.id,
+  COALESCE(NULLIF(p.barcode, ''), 'U' || upper(substr(p.id::text, 1, 8))) || '-' || lpad(n::text, 2, '0')
+FROM products p
+CROSS JOIN LATERAL generate_series(1, GREATEST(p.stock, 1)) AS n
+WHERE p.is_available_for_rental = true
+  AND NOT EXISTS (SELECT 1 FROM product_units u WHERE u.product_id = p.id);
+
+-- Rattacher les réservations existantes au premier exemplaire
+UPDATE rental_calendar rc
+SET unit_id = (
+  SELECT u.id FROM product_units u
+  WHERE u.product_id = rc.product_id
+  ORDER BY u.unit_code
+  LIMIT 1
+)
+WHERE rc.unit_id IS NULL;
+
+UPDATE rentals r
+SET unit_id = (
+  SELECT rc.unit_id FROM rental_calendar rc
+  WHERE rc.rental_id = r.id AND rc.unit_id IS NOT NULL
+  LIMIT 1
+)
+WHERE r.unit_id IS NULL;
+
+-- Enable RLS
+ALTER TABLE product_units ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read product units" ON product_units FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage product units" ON product_units FOR ALL TO authenticated USING (true);
+
+-- Trigger pour updated_at sur product_units
+CREATE TRIGGER update_product_units_updated_at BEFORE UPDATE ON product_units
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
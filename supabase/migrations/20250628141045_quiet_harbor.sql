@@ -0,0 +1,99 @@
+/*
+  # Commandes : en-tête et lignes
+
+  1. Nouvelles Tables
+    - `orders` - En-tête de commande (client, agent, totaux, statut de paiement, numéro de reçu)
+
+  2. Modifications
+    - `transactions.order_id` - Chaque transaction devient une ligne de commande
+    - `payments.order_id` - Les paiements peuvent être rattachés à une commande entière
+
+  3. Données existantes
+    - Création d'une commande par transaction existante, avec un numéro de reçu dérivé
+*/
+
+-- Séquence des numéros de reçu
+CREATE SEQUENCE IF NOT EXISTS order_receipt_seq;
+
+-- Table des commandes
+CREATE TABLE IF NOT EXISTS orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_number text UNIQUE NOT NULL DEFAULT (
+    'REC-' || to_char(now(), 'YYYYMMDD') || '-' || lpad(nextval('order_receipt_seq')::text, 5, '0')
+  ),
+  customer_id uuid REFERENCES customers(id) ON DELETE SET NULL,
+  customer_name text NOT NULL,
+  customer_phone text NOT NULL,
+  customer_email text,
+  subtotal decimal(10,2) NOT NULL DEFAULT 0,
+  discount_amount decimal(10,2) DEFAULT 0,
+  total_amount decimal(10,2) NOT NULL DEFAULT 0,
+  amount_paid decimal(10,2) DEFAULT 0,
+  remaining_amount decimal(10,2) DEFAULT 0,
+  payment_status text DEFAULT 'completed' CHECK (payment_status IN ('completed', 'partial', 'pending')),
+  status text NOT NULL DEFAULT 'completed' CHECK (status IN ('completed', 'pending', 'returned', 'cancelled')),
+  agent_id uuid REFERENCES users(id),
+  agent_name text NOT NULL,
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS orders_customer_phone_idx ON orders(customer_phone);
+
+-- Lignes de commande
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'order_id'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN order_id uuid REFERENCES orders(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS transactions_order_id_idx ON transactions(order_id);
+
+-- Paiements rattachés à une commande
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'payments' AND column_name = 'order_id'
+  ) THEN
+    ALTER TABLE payments ADD COLUMN order_id uuid REFERENCES orders(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+-- Une commande par transaction existante
+DO $$
+DECLARE
+  t record;
+  new_order_id uuid;
+BEGIN
+  FOR t IN SELECT * FROM transactions WHERE order_id IS NULL ORDER BY created_at LOOP
+    INSERT INTO orders (
+      receipt_number, customer_id, customer_name, customer_phone, customer_email,
+      subtotal, discount_amount, total_amount, amount_paid, remaining_amount, payment_status,
+      status, agent_id, agent_name, notes, created_at
+    ) VALUES (
+      'REC-' || to_char(t.created_at, 'YYYYMMDD') || '-' || upper(substr(t.id::text, 1, 6)),
+      (SELECT id FROM customers WHERE phone = t.customer_phone),
+      t.customer_name, t.customer_phone, t.customer_email,
+      t.total_amount + COALESCE(t.discount_amount, 0), COALESCE(t.discount_amount, 0), t.total_amount,
+      COALESCE(NULLIF(t.amount_paid, 0), t.total_amount), COALESCE(t.remaining_amount, 0),
+      COALESCE(t.payment_status, 'completed'),
+      t.status, t.agent_id, t.agent_name, t.notes, t.created_at
+    )
+    RETURNING id INTO new_order_id;
+
+    UPDATE transactions SET order_id = new_order_id WHERE id = t.id;
+    UPDATE payments SET order_id = new_order_id WHERE transaction_id = t.id;
+  END LOOP;
+END $$;
+
+-- Enable RLS
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read orders" ON orders FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Users can create orders" ON orders FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Users can update orders" ON orders FOR UPDATE TO authenticated USING (true);
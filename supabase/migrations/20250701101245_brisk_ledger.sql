@@ -0,0 +1,297 @@
+/*
+  # Journal des mouvements de stock
+
+  1. Nouvelles Tables
+    - `stock_movements` - Chaque variation de stock avec son type (vente, retour, ajustement, réception,
+      perte, transfert), sa quantité signée, le stock résultant, l'agent et une référence
+
+  2. Fonctions et Triggers
+    - `apply_stock_movement()` - Applique la quantité au stock du produit dans la même transaction
+      et refuse un stock négatif (`insufficient_stock`)
+    - `guard_product_stock()` - Le stock d'un produit ne peut plus être écrit directement,
+      uniquement au travers d'un mouvement
+    - `checkout_order` enregistre un mouvement `sale` au lieu de décrémenter le stock lui-même
+
+  3. Données existantes
+    - Un mouvement d'ajustement « Stock initial » par produit, égal à son stock actuel
+*/
+
+-- Table des mouvements de stock
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  movement_type text NOT NULL CHECK (movement_type IN ('sale', 'return', 'adjustment', 'reception', 'loss', 'transfer')),
+  quantity integer NOT NULL CHECK (quantity <> 0),
+  stock_after integer NOT NULL DEFAULT 0,
+  reference text,
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  agent_id uuid REFERENCES users(id),
+  agent_name text,
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stock_movements_product_id_idx ON stock_movements(product_id, created_at);
+
+-- Stock initial (avant la création du trigger, pour ne pas l'appliquer deux fois)
+INSERT INTO stock_movements (product_id, movement_type, quantity, stock_after, reference, created_at)
+SELECT p.id, 'adjustment', p.stock, p.stock, 'Stock initial', p.created_at
+FROM products p
+WHERE p.stock <> 0
+  AND NOT EXISTS (SELECT 1 FROM stock_movements sm WHERE sm.product_id = p.id);
+
+-- Application du mouvement au stock du produit
+CREATE OR REPLACE FUNCTION apply_stock_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_name text;
+BEGIN
+  UPDATE products
+  SET stock = stock + NEW.quantity
+  WHERE id = NEW.product_id
+  RETURNING stock, name INTO NEW.stock_after, v_name;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Produit introuvable' USING HINT = 'product_not_found';
+  END IF;
+
+  IF NEW.stock_after < 0 THEN
+    RAISE EXCEPTION 'Stock insuffisant pour %', v_name USING HINT = 'insufficient_stock';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER apply_stock_movement_before_insert BEFORE INSERT ON stock_movements
+    FOR EACH ROW EXECUTE FUNCTION apply_stock_movement();
+
+-- Le stock ne change que par un mouvement
+CREATE OR REPLACE FUNCTION guard_product_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.stock IS DISTINCT FROM OLD.stock AND pg_trigger_depth() < 2 THEN
+    RAISE EXCEPTION 'Le stock doit être modifié par un mouvement de stock' USING HINT = 'stock_ledger';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_product_stock_before_update BEFORE UPDATE ON products
+    FOR EACH ROW EXECUTE FUNCTION guard_product_stock();
+
+-- Enable RLS
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read stock movements" ON stock_movements FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Users can create stock movements" ON stock_movements FOR INSERT TO authenticated WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION checkout_order(
+  p_order jsonb,
+  p_items jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_customer_id uuid;
+  v_order_id uuid;
+  v_transaction_id uuid;
+  v_rental_id uuid;
+  v_unit_id uuid;
+  v_tried_units uuid[];
+  v_item jsonb;
+  v_rental jsonb;
+  v_product products%ROWTYPE;
+  v_index integer := -1;
+  v_quantity integer;
+  v_start date;
+  v_end date;
+  v_error_code text;
+  v_result jsonb;
+BEGIN
+  BEGIN
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+      RAISE EXCEPTION 'Le panier est vide' USING HINT = 'empty_cart';
+    END IF;
+
+    IF COALESCE(p_order->>'customer_name', '') = '' OR COALESCE(p_order->>'customer_phone', '') = '' THEN
+      RAISE EXCEPTION 'Veuillez renseigner au minimum le nom et téléphone du client' USING HINT = 'missing_customer';
+    END IF;
+
+    v_customer_id := create_customer_if_not_exists(
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_email', '')
+    );
+
+    INSERT INTO orders (
+      customer_id, customer_name, customer_phone, customer_email,
+      subtotal, discount_amount, total_amount, amount_paid, remaining_amount, payment_status,
+      status, agent_id, agent_name, notes
+    ) VALUES (
+      v_customer_id,
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_email', ''),
+      COALESCE((p_order->>'subtotal')::decimal, 0),
+      COALESCE((p_order->>'discount_amount')::decimal, 0),
+      COALESCE((p_order->>'total_amount')::decimal, 0),
+      COALESCE((p_order->>'amount_paid')::decimal, (p_order->>'total_amount')::decimal, 0),
+      COALESCE((p_order->>'remaining_amount')::decimal, 0),
+      COALESCE(p_order->>'payment_status', 'completed'),
+      'completed',
+      (p_order->>'agent_id')::uuid,
+      p_order->>'agent_name',
+      p_order->>'notes'
+    )
+    RETURNING id INTO v_order_id;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+      v_index := v_index + 1;
+      v_quantity := COALESCE((v_item->>'quantity')::integer, 1);
+
+      SELECT * INTO v_product FROM products WHERE id = (v_item->>'product_id')::uuid FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Produit introuvable' USING HINT = 'product_not_found';
+      END IF;
+
+      INSERT INTO transactions (
+        order_id, type, product_id, product_name, quantity, unit_price, total_amount,
+        amount_paid, remaining_amount, payment_status, discount, discount_amount,
+        customer_name, customer_phone, customer_email, status, agent_id, agent_name
+      ) VALUES (
+        v_order_id,
+        v_item->>'type',
+        v_product.id,
+        v_product.name,
+        v_quantity,
+        (v_item->>'unit_price')::decimal,
+        (v_item->>'total_amount')::decimal,
+        (v_item->>'total_amount')::decimal,
+        0,
+        'completed',
+        COALESCE((v_item->>'discount')::decimal, 0),
+        COALESCE((v_item->>'discount_amount')::decimal, 0),
+        p_order->>'customer_name',
+        p_order->>'customer_phone',
+        NULLIF(p_order->>'customer_email', ''),
+        'completed',
+        (p_order->>'agent_id')::uuid,
+        p_order->>'agent_name'
+      )
+      RETURNING id INTO v_transaction_id;
+
+      IF v_item->>'type' = 'sale' THEN
+        IF v_product.stock < v_quantity THEN
+          RAISE EXCEPTION 'Stock insuffisant pour %', v_product.name USING HINT = 'insufficient_stock';
+        END IF;
+
+        INSERT INTO stock_movements (product_id, movement_type, quantity, reference, order_id, agent_id, agent_name)
+        SELECT v_product.id, 'sale', -v_quantity, o.receipt_number, o.id, o.agent_id, o.agent_name
+        FROM orders o
+        WHERE o.id = v_order_id;
+      ELSE
+        IF NOT v_product.is_available_for_rental THEN
+          RAISE EXCEPTION 'Le produit % n''est pas disponible pour la location', v_product.name USING HINT = 'not_rentable';
+        END IF;
+
+        v_rental := v_item->'rental';
+        v_start := (v_rental->>'start_date')::date;
+        v_end := (v_rental->>'end_date')::date;
+
+        IF v_start IS NULL OR v_end IS NULL OR v_end < v_start THEN
+          RAISE EXCEPTION 'Veuillez définir les dates de location pour %', v_product.name USING HINT = 'invalid_dates';
+        END IF;
+
+        -- Une location par exemplaire loué. Le verrou sur l'exemplaire écarte les encaissements
+        -- concurrents ; l'index unique du calendrier garantit qu'un jour n'est jamais réservé deux fois.
+        FOR i IN 1..v_quantity LOOP
+          v_tried_units := '{}';
+
+          LOOP
+            SELECT u.id INTO v_unit_id
+            FROM product_units u
+            WHERE u.product_id = v_product.id
+              AND u.status = 'active'
+              AND u.id <> ALL(v_tried_units)
+              AND NOT EXISTS (
+                SELECT 1 FROM rental_calendar rc
+                WHERE rc.unit_id = u.id
+                  AND rc.status IN ('reserved', 'occupied')
+                  AND rc.reserved_date BETWEEN v_start AND v_end
+              )
+            ORDER BY u.unit_code
+            LIMIT 1
+            FOR UPDATE OF u SKIP LOCKED;
+
+            IF v_unit_id IS NULL THEN
+              RAISE EXCEPTION '% est déjà réservé pour ces dates', v_product.name USING HINT = 'already_reserved';
+            END IF;
+
+            BEGIN
+              INSERT INTO rentals (
+                transaction_id, product_id, unit_id, customer_name, customer_phone, customer_email,
+                rental_start_date, rental_end_date, rental_days, daily_rate, total_amount,
+                amount_paid, remaining_amount, payment_status, discount, discount_amount, deposit_amount,
+                status, agent_id, agent_name
+              ) VALUES (
+                v_transaction_id,
+                v_product.id,
+                v_unit_id,
+                p_order->>'customer_name',
+                p_order->>'customer_phone',
+                NULLIF(p_order->>'customer_email', ''),
+                v_start,
+                v_end,
+                (v_rental->>'rental_days')::integer,
+                (v_rental->>'daily_rate')::decimal,
+                (v_rental->>'total_amount')::decimal,
+                (v_rental->>'total_amount')::decimal,
+                0,
+                'completed',
+                COALESCE((v_item->>'discount')::decimal, 0),
+                COALESCE((v_rental->>'discount_amount')::decimal, 0),
+                COALESCE((v_rental->>'deposit_amount')::decimal, 0),
+                'active',
+                (p_order->>'agent_id')::uuid,
+                p_order->>'agent_name'
+              )
+              RETURNING id INTO v_rental_id;
+
+              INSERT INTO rental_calendar (product_id, unit_id, rental_id, reserved_date, status)
+              SELECT v_product.id, v_unit_id, v_rental_id, day::date, 'reserved'
+              FROM generate_series(v_start, v_end, interval '1 day') AS day;
+
+              EXIT;
+            EXCEPTION
+              WHEN unique_violation THEN
+                -- Exemplaire réservé entre-temps par un autre poste : essayer le suivant
+                v_tried_units := array_append(v_tried_units, v_unit_id);
+            END;
+          END LOOP;
+        END LOOP;
+      END IF;
+    END LOOP;
+  EXCEPTION
+    WHEN raise_exception THEN
+      GET STACKED DIAGNOSTICS v_error_code = PG_EXCEPTION_HINT;
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object(
+          'code', COALESCE(NULLIF(v_error_code, ''), 'checkout_failed'),
+          'message', SQLERRM,
+          'item_index', CASE WHEN v_index >= 0 THEN v_index END
+        )
+      );
+  END;
+
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'transactions',
+    COALESCE((SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at, t.id) FROM transactions t WHERE t.order_id = o.id), '[]'::jsonb)
+  )
+  INTO v_result
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN jsonb_build_object('success', true, 'order', v_result);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,186 @@
+/*
+  # Cycle de vie des cautions de location
+
+  1. Nouvelles Tables
+    - `category_settings` - Paramètres par catégorie de produit, dont la caution par défaut
+
+  2. Modifications
+    - `products.deposit_amount` - Caution propre au produit (prioritaire sur celle de la catégorie)
+    - `rentals.deposit_status` - none, held, refunded, partially_kept, kept
+    - `rentals.deposit_refunded`, `rentals.deposit_kept`, `rentals.deposit_kept_reason`
+    - `payments.payment_type` - payment, deposit, deposit_refund, deposit_retained
+
+  3. Fonctions et Triggers
+    - `hold_rental_deposit()` - À la création d'une location avec caution, enregistre l'encaissement
+      de la caution et la marque comme détenue
+    - `return_rental(p_rental_id, p_return)` - Retour d'une location : statut, libération du calendrier
+      et restitution de la caution (totale ou partielle), chaque mouvement étant un paiement
+
+  4. Données existantes
+    - Les cautions des locations actives sont considérées comme détenues
+*/
+
+-- Paramètres par catégorie
+CREATE TABLE IF NOT EXISTS category_settings (
+  category text PRIMARY KEY,
+  deposit_amount decimal(10,2) NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Caution propre au produit
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'deposit_amount'
+  ) THEN
+    ALTER TABLE products ADD COLUMN deposit_amount decimal(10,2) CHECK (deposit_amount >= 0);
+  END IF;
+END $$;
+
+-- Suivi de la caution sur les locations
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rentals' AND column_name = 'deposit_status'
+  ) THEN
+    ALTER TABLE rentals ADD COLUMN deposit_status text NOT NULL DEFAULT 'none'
+      CHECK (deposit_status IN ('none', 'held', 'refunded', 'partially_kept', 'kept'));
+    ALTER TABLE rentals ADD COLUMN deposit_refunded decimal(10,2) DEFAULT 0;
+    ALTER TABLE rentals ADD COLUMN deposit_kept decimal(10,2) DEFAULT 0;
+    ALTER TABLE rentals ADD COLUMN deposit_kept_reason text;
+  END IF;
+END $$;
+
+UPDATE rentals
+SET deposit_status = 'held'
+WHERE status = 'active' AND deposit_amount > 0 AND deposit_status = 'none';
+
+-- Type de paiement
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'payments' AND column_name = 'payment_type'
+  ) THEN
+    ALTER TABLE payments ADD COLUMN payment_type text NOT NULL DEFAULT 'payment'
+      CHECK (payment_type IN ('payment', 'deposit', 'deposit_refund', 'deposit_retained'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS payments_rental_id_idx ON payments(rental_id);
+
+-- Encaissement de la caution à la création de la location
+CREATE OR REPLACE FUNCTION hold_rental_deposit()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO payments (
+    order_id, transaction_id, rental_id, customer_name, customer_phone,
+    amount_paid, remaining_amount, payment_type, agent_id, agent_name, notes, is_completed
+  ) VALUES (
+    (SELECT order_id FROM transactions WHERE id = NEW.transaction_id),
+    NEW.transaction_id, NEW.id, NEW.customer_name, NEW.customer_phone,
+    NEW.deposit_amount, 0, 'deposit', NEW.agent_id, NEW.agent_name, 'Caution encaissée', true
+  );
+
+  UPDATE rentals SET deposit_status = 'held' WHERE id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER hold_rental_deposit_after_insert AFTER INSERT ON rentals
+    FOR EACH ROW WHEN (NEW.deposit_amount > 0)
+    EXECUTE FUNCTION hold_rental_deposit();
+
+-- Retour d'une location et restitution de la caution
+CREATE OR REPLACE FUNCTION return_rental(
+  p_rental_id uuid,
+  p_return jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_rental rentals%ROWTYPE;
+  v_order_id uuid;
+  v_kept decimal(10,2);
+  v_refunded decimal(10,2);
+  v_method text := COALESCE(p_return->>'payment_method', 'cash');
+BEGIN
+  SELECT * INTO v_rental FROM rentals WHERE id = p_rental_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Location introuvable';
+  END IF;
+
+  IF v_rental.status NOT IN ('active', 'overdue') THEN
+    RAISE EXCEPTION 'Cette location n''est plus en cours';
+  END IF;
+
+  SELECT order_id INTO v_order_id FROM transactions WHERE id = v_rental.transaction_id;
+
+  UPDATE rentals
+  SET status = 'returned', returned_at = now()
+  WHERE id = p_rental_id;
+
+  UPDATE rental_calendar SET status = 'available' WHERE rental_id = p_rental_id;
+
+  IF v_rental.deposit_status = 'held' THEN
+    v_kept := COALESCE((p_return->>'deposit_kept')::decimal, 0);
+
+    IF v_kept < 0 OR v_kept > v_rental.deposit_amount THEN
+      RAISE EXCEPTION 'Le montant retenu doit être compris entre 0 et %', v_rental.deposit_amount;
+    END IF;
+
+    IF v_kept > 0 AND COALESCE(p_return->>'deposit_kept_reason', '') = '' THEN
+      RAISE EXCEPTION 'Veuillez indiquer le motif de la retenue sur caution';
+    END IF;
+
+    v_refunded := v_rental.deposit_amount - v_kept;
+
+    IF v_refunded > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_refunded, 0, v_method, 'deposit_refund',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Caution restituée', true
+      );
+    END IF;
+
+    IF v_kept > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_kept, 0, v_method, 'deposit_retained',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', p_return->>'deposit_kept_reason', true
+      );
+    END IF;
+
+    UPDATE rentals
+    SET deposit_refunded = v_refunded,
+        deposit_kept = v_kept,
+        deposit_kept_reason = NULLIF(p_return->>'deposit_kept_reason', ''),
+        deposit_status = CASE
+          WHEN v_kept = 0 THEN 'refunded'
+          WHEN v_refunded = 0 THEN 'kept'
+          ELSE 'partially_kept'
+        END
+    WHERE id = p_rental_id;
+  END IF;
+
+  RETURN (SELECT to_jsonb(r) FROM rentals r WHERE r.id = p_rental_id);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE category_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read category settings" ON category_settings FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage category settings" ON category_settings FOR ALL TO authenticated USING (true);
+
+-- Trigger pour updated_at sur category_settings
+CREATE TRIGGER update_category_settings_updated_at BEFORE UPDATE ON category_settings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,239 @@
+/*
+  # Retards de location et pénalités
+
+  1. Nouvelles Tables
+    - `store_settings` - Paramètres de la boutique (une seule ligne) : pénalité de retard par jour et plafond
+
+  2. Modifications
+    - `rentals.late_fee` - Pénalité de retard courue, incluse dans `remaining_amount`
+    - `payments.payment_type` accepte `late_fee`
+
+  3. Fonctions
+    - `compute_late_fee(p_end_date, p_on)` - Pénalité due à une date (jours de retard × tarif, plafonnée ;
+      un plafond à 0 signifie sans plafond)
+    - `mark_overdue_rentals()` - Passe en `overdue` les locations dont la date de fin est dépassée et met à jour
+      leur pénalité ; exécutée chaque nuit par pg_cron lorsque l'extension est disponible, et au chargement de l'application
+    - `return_rental` arrête la pénalité au jour du retour et l'encaisse (paiement ou prélèvement sur la caution)
+*/
+
+-- Paramètres de la boutique
+CREATE TABLE IF NOT EXISTS store_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  late_fee_per_day decimal(10,2) NOT NULL DEFAULT 0 CHECK (late_fee_per_day >= 0),
+  late_fee_cap decimal(10,2) NOT NULL DEFAULT 0 CHECK (late_fee_cap >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO store_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+-- Pénalité de retard sur les locations
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rentals' AND column_name = 'late_fee'
+  ) THEN
+    ALTER TABLE rentals ADD COLUMN late_fee decimal(10,2) DEFAULT 0;
+  END IF;
+END $$;
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_payment_type_check;
+ALTER TABLE payments ADD CONSTRAINT payments_payment_type_check
+  CHECK (payment_type IN ('payment', 'deposit', 'deposit_refund', 'deposit_retained', 'late_fee'));
+
+-- Pénalité due pour une location terminée le p_end_date
+CREATE OR REPLACE FUNCTION compute_late_fee(p_end_date date, p_on date)
+RETURNS decimal AS $$
+DECLARE
+  v_settings store_settings%ROWTYPE;
+  v_fee decimal(10,2);
+BEGIN
+  SELECT * INTO v_settings FROM store_settings WHERE id = true;
+  IF NOT FOUND OR p_on <= p_end_date THEN
+    RETURN 0;
+  END IF;
+
+  v_fee := (p_on - p_end_date) * v_settings.late_fee_per_day;
+
+  IF v_settings.late_fee_cap > 0 THEN
+    v_fee := LEAST(v_fee, v_settings.late_fee_cap);
+  END IF;
+
+  RETURN v_fee;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Détection des retards
+CREATE OR REPLACE FUNCTION mark_overdue_rentals()
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE rentals r
+  SET status = 'overdue',
+      late_fee = f.fee,
+      remaining_amount = GREATEST(0, COALESCE(r.remaining_amount, 0) - COALESCE(r.late_fee, 0) + f.fee),
+      payment_status = CASE
+        WHEN COALESCE(r.remaining_amount, 0) - COALESCE(r.late_fee, 0) + f.fee > 0 THEN 'partial'
+        ELSE r.payment_status
+      END
+  FROM (
+    SELECT id, compute_late_fee(rental_end_date, current_date) AS fee
+    FROM rentals
+    WHERE status IN ('active', 'overdue')
+      AND rental_end_date < current_date
+  ) f
+  WHERE r.id = f.id
+    AND (r.status <> 'overdue' OR COALESCE(r.late_fee, 0) <> f.fee);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Exécution nocturne si pg_cron est installé
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('mark-overdue-rentals', '5 0 * * *', 'SELECT mark_overdue_rentals()');
+  END IF;
+END $$;
+
+SELECT mark_overdue_rentals();
+
+-- Retour d'une location : pénalité de retard et restitution de la caution
+CREATE OR REPLACE FUNCTION return_rental(
+  p_rental_id uuid,
+  p_return jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_rental rentals%ROWTYPE;
+  v_order_id uuid;
+  v_method text := COALESCE(p_return->>'payment_method', 'cash');
+  v_late_fee decimal(10,2);
+  v_late_paid decimal(10,2) := COALESCE((p_return->>'late_fee_paid')::decimal, 0);
+  v_late_from_deposit decimal(10,2) := COALESCE((p_return->>'late_fee_from_deposit')::decimal, 0);
+  v_remaining decimal(10,2);
+  v_kept decimal(10,2) := COALESCE((p_return->>'deposit_kept')::decimal, 0);
+  v_refunded decimal(10,2);
+BEGIN
+  SELECT * INTO v_rental FROM rentals WHERE id = p_rental_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Location introuvable';
+  END IF;
+
+  IF v_rental.status NOT IN ('active', 'overdue') THEN
+    RAISE EXCEPTION 'Cette location n''est plus en cours';
+  END IF;
+
+  SELECT order_id INTO v_order_id FROM transactions WHERE id = v_rental.transaction_id;
+
+  -- Pénalité arrêtée au jour du retour
+  v_late_fee := compute_late_fee(v_rental.rental_end_date, current_date);
+  v_remaining := GREATEST(0, COALESCE(v_rental.remaining_amount, 0) - COALESCE(v_rental.late_fee, 0) + v_late_fee);
+
+  IF v_late_paid < 0 OR v_late_from_deposit < 0 OR v_late_paid + v_late_from_deposit > v_late_fee THEN
+    RAISE EXCEPTION 'Le montant encaissé dépasse la pénalité de retard (% DA)', v_late_fee;
+  END IF;
+
+  IF v_rental.deposit_status <> 'held' AND (v_kept > 0 OR v_late_from_deposit > 0) THEN
+    RAISE EXCEPTION 'Aucune caution détenue pour cette location';
+  END IF;
+
+  IF v_kept < 0 OR v_kept + v_late_from_deposit > v_rental.deposit_amount THEN
+    RAISE EXCEPTION 'Le montant retenu doit être compris entre 0 et %', v_rental.deposit_amount;
+  END IF;
+
+  IF v_kept > 0 AND COALESCE(p_return->>'deposit_kept_reason', '') = '' THEN
+    RAISE EXCEPTION 'Veuillez indiquer le motif de la retenue sur caution';
+  END IF;
+
+  IF v_late_paid > 0 THEN
+    INSERT INTO payments (
+      order_id, transaction_id, rental_id, customer_name, customer_phone,
+      amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+    ) VALUES (
+      v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+      v_late_paid, v_remaining - v_late_paid - v_late_from_deposit, v_method, 'late_fee',
+      (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Pénalité de retard', true
+    );
+  END IF;
+
+  v_remaining := v_remaining - v_late_paid - v_late_from_deposit;
+
+  UPDATE rentals
+  SET status = 'returned',
+      returned_at = now(),
+      late_fee = v_late_fee,
+      amount_paid = COALESCE(amount_paid, 0) + v_late_paid + v_late_from_deposit,
+      remaining_amount = v_remaining,
+      payment_status = CASE WHEN v_remaining > 0 THEN 'partial' ELSE 'completed' END
+  WHERE id = p_rental_id;
+
+  UPDATE rental_calendar SET status = 'available' WHERE rental_id = p_rental_id;
+
+  IF v_rental.deposit_status = 'held' THEN
+    v_refunded := v_rental.deposit_amount - v_kept - v_late_from_deposit;
+
+    IF v_refunded > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_refunded, 0, v_method, 'deposit_refund',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Caution restituée', true
+      );
+    END IF;
+
+    IF v_late_from_deposit > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_late_from_deposit, v_remaining, v_method, 'deposit_retained',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Pénalité de retard', true
+      );
+    END IF;
+
+    IF v_kept > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_kept, 0, v_method, 'deposit_retained',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', p_return->>'deposit_kept_reason', true
+      );
+    END IF;
+
+    UPDATE rentals
+    SET deposit_refunded = v_refunded,
+        deposit_kept = v_kept + v_late_from_deposit,
+        deposit_kept_reason = NULLIF(concat_ws(' ; ',
+          NULLIF(p_return->>'deposit_kept_reason', ''),
+          CASE WHEN v_late_from_deposit > 0 THEN 'Pénalité de retard' END
+        ), ''),
+        deposit_status = CASE
+          WHEN v_kept + v_late_from_deposit = 0 THEN 'refunded'
+          WHEN v_refunded = 0 THEN 'kept'
+          ELSE 'partially_kept'
+        END
+    WHERE id = p_rental_id;
+  END IF;
+
+  RETURN (SELECT to_jsonb(r) FROM rentals r WHERE r.id = p_rental_id);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE store_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read store settings" ON store_settings FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage store settings" ON store_settings FOR ALL TO authenticated USING (true);
+
+-- Trigger pour updated_at sur store_settings
+CREATE TRIGGER update_store_settings_updated_at BEFORE UPDATE ON store_settings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,132 @@
+/*
+  # Prolongation des locations
+
+  1. Nouvelles Tables
+    - `rental_extensions` - Historique des prolongations : ancienne et nouvelle date de fin, jours ajoutés,
+      tarif appliqué, montant, acompte versé et agent
+
+  2. Fonctions
+    - `extend_rental(p_rental_id, p_extension)` - Réserve les jours supplémentaires sur le même exemplaire,
+      recalcule durée, montant et reste à payer, et journalise la prolongation.
+      Un jour déjà pris renvoie l'erreur `already_reserved` (index unique du calendrier)
+*/
+
+-- Table des prolongations
+CREATE TABLE IF NOT EXISTS rental_extensions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rental_id uuid NOT NULL REFERENCES rentals(id) ON DELETE CASCADE,
+  previous_end_date date NOT NULL,
+  new_end_date date NOT NULL,
+  extra_days integer NOT NULL CHECK (extra_days > 0),
+  daily_rate decimal(10,2) NOT NULL,
+  amount decimal(10,2) NOT NULL,
+  amount_paid decimal(10,2) DEFAULT 0,
+  agent_id uuid REFERENCES users(id),
+  agent_name text NOT NULL,
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS rental_extensions_rental_id_idx ON rental_extensions(rental_id);
+
+-- Prolongation d'une location
+CREATE OR REPLACE FUNCTION extend_rental(
+  p_rental_id uuid,
+  p_extension jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_rental rentals%ROWTYPE;
+  v_order_id uuid;
+  v_new_end date := (p_extension->>'new_end_date')::date;
+  v_extra_days integer;
+  v_amount decimal(10,2);
+  v_paid decimal(10,2) := COALESCE((p_extension->>'amount_paid')::decimal, 0);
+  v_late_fee decimal(10,2);
+  v_remaining decimal(10,2);
+  v_calendar_status text;
+  v_extension rental_extensions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_rental FROM rentals WHERE id = p_rental_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Location introuvable';
+  END IF;
+
+  IF v_rental.status NOT IN ('active', 'overdue') THEN
+    RAISE EXCEPTION 'Seule une location en cours peut être prolongée';
+  END IF;
+
+  IF v_new_end IS NULL OR v_new_end <= v_rental.rental_end_date THEN
+    RAISE EXCEPTION 'La nouvelle date de fin doit être postérieure au %', to_char(v_rental.rental_end_date, 'DD/MM/YYYY');
+  END IF;
+
+  v_extra_days := v_new_end - v_rental.rental_end_date;
+  v_amount := round(v_extra_days * v_rental.daily_rate * (1 - COALESCE(v_rental.discount, 0) / 100), 2);
+
+  IF v_paid < 0 OR v_paid > v_amount THEN
+    RAISE EXCEPTION 'L''acompte doit être compris entre 0 et %', v_amount;
+  END IF;
+
+  -- Les jours ajoutés gardent le statut des jours déjà réservés (réservé ou occupé)
+  SELECT status INTO v_calendar_status
+  FROM rental_calendar
+  WHERE rental_id = p_rental_id AND status IN ('reserved', 'occupied')
+  ORDER BY reserved_date DESC
+  LIMIT 1;
+
+  BEGIN
+    INSERT INTO rental_calendar (product_id, unit_id, rental_id, reserved_date, status)
+    SELECT v_rental.product_id, v_rental.unit_id, p_rental_id, day::date, COALESCE(v_calendar_status, 'reserved')
+    FROM generate_series(v_rental.rental_end_date + 1, v_new_end, interval '1 day') AS day;
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'L''exemplaire est déjà réservé sur ces dates' USING HINT = 'already_reserved';
+  END;
+
+  -- Pénalité recalculée sur la nouvelle date de fin
+  v_late_fee := compute_late_fee(v_new_end, current_date);
+  v_remaining := GREATEST(0,
+    COALESCE(v_rental.remaining_amount, 0) - COALESCE(v_rental.late_fee, 0) + v_late_fee + v_amount - v_paid
+  );
+
+  UPDATE rentals
+  SET rental_end_date = v_new_end,
+      rental_days = rental_days + v_extra_days,
+      total_amount = total_amount + v_amount,
+      amount_paid = COALESCE(amount_paid, 0) + v_paid,
+      remaining_amount = v_remaining,
+      late_fee = v_late_fee,
+      payment_status = CASE WHEN v_remaining > 0 THEN 'partial' ELSE 'completed' END,
+      status = CASE WHEN v_new_end < current_date THEN 'overdue' ELSE 'active' END
+  WHERE id = p_rental_id;
+
+  INSERT INTO rental_extensions (
+    rental_id, previous_end_date, new_end_date, extra_days, daily_rate, amount, amount_paid,
+    agent_id, agent_name, notes
+  ) VALUES (
+    p_rental_id, v_rental.rental_end_date, v_new_end, v_extra_days, v_rental.daily_rate, v_amount, v_paid,
+    (p_extension->>'agent_id')::uuid, p_extension->>'agent_name', NULLIF(p_extension->>'notes', '')
+  )
+  RETURNING * INTO v_extension;
+
+  IF v_paid > 0 THEN
+    SELECT order_id INTO v_order_id FROM transactions WHERE id = v_rental.transaction_id;
+
+    INSERT INTO payments (
+      order_id, transaction_id, rental_id, customer_name, customer_phone,
+      amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+    ) VALUES (
+      v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+      v_paid, v_remaining, COALESCE(p_extension->>'payment_method', 'cash'), 'payment',
+      (p_extension->>'agent_id')::uuid, p_extension->>'agent_name', 'Prolongation', v_remaining = 0
+    );
+  END IF;
+
+  RETURN to_jsonb(v_extension);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE rental_extensions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read rental extensions" ON rental_extensions FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Users can create rental extensions" ON rental_extensions FOR INSERT TO authenticated WITH CHECK (true);
@@ -0,0 +1,566 @@
+/*
+  # Réservation, retrait et retour des locations
+
+  1. Modifications
+    - `rentals.status` : `booked` (réservée) → `picked_up` (retirée) → `returned`, avec `overdue` et
+      `cancelled`. Le statut `active` disparaît
+    - `rentals.picked_up_at`, `rentals.picked_up_by_id`, `rentals.picked_up_by_name` - Retrait de l'article
+    - `rentals.returned_by_id`, `rentals.returned_by_name` - Agent ayant enregistré le retour
+
+  2. Nouvelles Fonctions
+    - `pickup_rental(p_rental_id, p_pickup)` - Retrait : les jours du calendrier passent de `reserved` à `occupied`
+
+  3. Fonctions modifiées
+    - `checkout_order` crée les locations au statut `booked`
+    - `mark_overdue_rentals` ne concerne que les articles retirés
+    - `return_rental` refuse une location qui n'a pas été retirée et enregistre l'agent du retour
+    - `extend_rental` accepte aussi une location réservée
+
+  4. Données existantes
+    - Les locations `active` qui n'ont pas commencé deviennent `booked`, les autres `picked_up` avec leurs
+      jours de calendrier `occupied`
+*/
+
+-- Retrait et retour
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rentals' AND column_name = 'picked_up_at'
+  ) THEN
+    ALTER TABLE rentals ADD COLUMN picked_up_at timestamptz;
+    ALTER TABLE rentals ADD COLUMN picked_up_by_id uuid REFERENCES users(id);
+    ALTER TABLE rentals ADD COLUMN picked_up_by_name text;
+    ALTER TABLE rentals ADD COLUMN returned_by_id uuid REFERENCES users(id);
+    ALTER TABLE rentals ADD COLUMN returned_by_name text;
+  END IF;
+END $$;
+
+-- Nouveaux statuts
+ALTER TABLE rentals DROP CONSTRAINT IF EXISTS rentals_status_check;
+
+UPDATE rentals
+SET status = CASE WHEN rental_start_date > current_date THEN 'booked' ELSE 'picked_up' END,
+    picked_up_at = CASE WHEN rental_start_date > current_date THEN NULL ELSE rental_start_date::timestamptz END
+WHERE status = 'active';
+
+UPDATE rentals
+SET picked_up_at = rental_start_date::timestamptz
+WHERE status IN ('overdue', 'returned') AND picked_up_at IS NULL;
+
+UPDATE rental_calendar rc
+SET status = 'occupied'
+FROM rentals r
+WHERE rc.rental_id = r.id
+  AND r.status IN ('picked_up', 'overdue')
+  AND rc.status = 'reserved';
+
+ALTER TABLE rentals ALTER COLUMN status SET DEFAULT 'booked';
+ALTER TABLE rentals ADD CONSTRAINT rentals_status_check
+  CHECK (status IN ('booked', 'picked_up', 'returned', 'overdue', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS rentals_start_date_idx ON rentals(rental_start_date);
+CREATE INDEX IF NOT EXISTS rentals_end_date_idx ON rentals(rental_end_date);
+
+-- Retrait d'une location réservée
+CREATE OR REPLACE FUNCTION pickup_rental(
+  p_rental_id uuid,
+  p_pickup jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_rental rentals%ROWTYPE;
+BEGIN
+  SELECT * INTO v_rental FROM rentals WHERE id = p_rental_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Location introuvable';
+  END IF;
+
+  IF v_rental.status <> 'booked' THEN
+    RAISE EXCEPTION 'Seule une location réservée peut être retirée';
+  END IF;
+
+  UPDATE rentals
+  SET status = CASE WHEN rental_end_date < current_date THEN 'overdue' ELSE 'picked_up' END,
+      picked_up_at = now(),
+      picked_up_by_id = (p_pickup->>'agent_id')::uuid,
+      picked_up_by_name = p_pickup->>'agent_name'
+  WHERE id = p_rental_id
+  RETURNING * INTO v_rental;
+
+  UPDATE rental_calendar
+  SET status = 'occupied'
+  WHERE rental_id = p_rental_id AND status = 'reserved';
+
+  RETURN to_jsonb(v_rental);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Les locations sont créées au statut « réservée »
+CREATE OR REPLACE FUNCTION checkout_order(
+  p_order jsonb,
+  p_items jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_customer_id uuid;
+  v_order_id uuid;
+  v_transaction_id uuid;
+  v_rental_id uuid;
+  v_unit_id uuid;
+  v_tried_units uuid[];
+  v_item jsonb;
+  v_rental jsonb;
+  v_product products%ROWTYPE;
+  v_index integer := -1;
+  v_quantity integer;
+  v_start date;
+  v_end date;
+  v_error_code text;
+  v_result jsonb;
+BEGIN
+  BEGIN
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+      RAISE EXCEPTION 'Le panier est vide' USING HINT = 'empty_cart';
+    END IF;
+
+    IF COALESCE(p_order->>'customer_name', '') = '' OR COALESCE(p_order->>'customer_phone', '') = '' THEN
+      RAISE EXCEPTION 'Veuillez renseigner au minimum le nom et téléphone du client' USING HINT = 'missing_customer';
+    END IF;
+
+    v_customer_id := create_customer_if_not_exists(
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_email', '')
+    );
+
+    INSERT INTO orders (
+      customer_id, customer_name, customer_phone, customer_email,
+      subtotal, discount_amount, total_amount, amount_paid, remaining_amount, payment_status,
+      status, agent_id, agent_name, notes
+    ) VALUES (
+      v_customer_id,
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_email', ''),
+      COALESCE((p_order->>'subtotal')::decimal, 0),
+      COALESCE((p_order->>'discount_amount')::decimal, 0),
+      COALESCE((p_order->>'total_amount')::decimal, 0),
+      COALESCE((p_order->>'amount_paid')::decimal, (p_order->>'total_amount')::decimal, 0),
+      COALESCE((p_order->>'remaining_amount')::decimal, 0),
+      COALESCE(p_order->>'payment_status', 'completed'),
+      'completed',
+      (p_order->>'agent_id')::uuid,
+      p_order->>'agent_name',
+      p_order->>'notes'
+    )
+    RETURNING id INTO v_order_id;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+      v_index := v_index + 1;
+      v_quantity := COALESCE((v_item->>'quantity')::integer, 1);
+
+      SELECT * INTO v_product FROM products WHERE id = (v_item->>'product_id')::uuid FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Produit introuvable' USING HINT = 'product_not_found';
+      END IF;
+
+      INSERT INTO transactions (
+        order_id, type, product_id, product_name, quantity, unit_price, total_amount,
+        amount_paid, remaining_amount, payment_status, discount, discount_amount,
+        customer_name, customer_phone, customer_email, status, agent_id, agent_name
+      ) VALUES (
+        v_order_id,
+        v_item->>'type',
+        v_product.id,
+        v_product.name,
+        v_quantity,
+        (v_item->>'unit_price')::decimal,
+        (v_item->>'total_amount')::decimal,
+        (v_item->>'total_amount')::decimal,
+        0,
+        'completed',
+        COALESCE((v_item->>'discount')::decimal, 0),
+        COALESCE((v_item->>'discount_amount')::decimal, 0),
+        p_order->>'customer_name',
+        p_order->>'customer_phone',
+        NULLIF(p_order->>'customer_email', ''),
+        'completed',
+        (p_order->>'agent_id')::uuid,
+        p_order->>'agent_name'
+      )
+      RETURNING id INTO v_transaction_id;
+
+      IF v_item->>'type' = 'sale' THEN
+        IF v_product.stock < v_quantity THEN
+          RAISE EXCEPTION 'Stock insuffisant pour %', v_product.name USING HINT = 'insufficient_stock';
+        END IF;
+
+        INSERT INTO stock_movements (product_id, movement_type, quantity, reference, order_id, agent_id, agent_name)
+        SELECT v_product.id, 'sale', -v_quantity, o.receipt_number, o.id, o.agent_id, o.agent_name
+        FROM orders o
+        WHERE o.id = v_order_id;
+      ELSE
+        IF NOT v_product.is_available_for_rental THEN
+          RAISE EXCEPTION 'Le produit % n''est pas disponible pour la location', v_product.name USING HINT = 'not_rentable';
+        END IF;
+
+        v_rental := v_item->'rental';
+        v_start := (v_rental->>'start_date')::date;
+        v_end := (v_rental->>'end_date')::date;
+
+        IF v_start IS NULL OR v_end IS NULL OR v_end < v_start THEN
+          RAISE EXCEPTION 'Veuillez définir les dates de location pour %', v_product.name USING HINT = 'invalid_dates';
+        END IF;
+
+        -- Une location par exemplaire loué. Le verrou sur l'exemplaire écarte les encaissements
+        -- concurrents ; l'index unique du calendrier garantit qu'un jour n'est jamais réservé deux fois.
+        FOR i IN 1..v_quantity LOOP
+          v_tried_units := '{}';
+
+          LOOP
+            SELECT u.id INTO v_unit_id
+            FROM product_units u
+            WHERE u.product_id = v_product.id
+              AND u.status = 'active'
+              AND u.id <> ALL(v_tried_units)
+              AND NOT EXISTS (
+                SELECT 1 FROM rental_calendar rc
+                WHERE rc.unit_id = u.id
+                  AND rc.status IN ('reserved', 'occupied')
+                  AND rc.reserved_date BETWEEN v_start AND v_end
+              )
+            ORDER BY u.unit_code
+            LIMIT 1
+            FOR UPDATE OF u SKIP LOCKED;
+
+            IF v_unit_id IS NULL THEN
+              RAISE EXCEPTION '% est déjà réservé pour ces dates', v_product.name USING HINT = 'already_reserved';
+            END IF;
+
+            BEGIN
+              INSERT INTO rentals (
+                transaction_id, product_id, unit_id, customer_name, customer_phone, customer_email,
+                rental_start_date, rental_end_date, rental_days, daily_rate, total_amount,
+                amount_paid, remaining_amount, payment_status, discount, discount_amount, deposit_amount,
+                status, agent_id, agent_name
+              ) VALUES (
+                v_transaction_id,
+                v_product.id,
+                v_unit_id,
+                p_order->>'customer_name',
+                p_order->>'customer_phone',
+                NULLIF(p_order->>'customer_email', ''),
+                v_start,
+                v_end,
+                (v_rental->>'rental_days')::integer,
+                (v_rental->>'daily_rate')::decimal,
+                (v_rental->>'total_amount')::decimal,
+                (v_rental->>'total_amount')::decimal,
+                0,
+                'completed',
+                COALESCE((v_item->>'discount')::decimal, 0),
+                COALESCE((v_rental->>'discount_amount')::decimal, 0),
+                COALESCE((v_rental->>'deposit_amount')::decimal, 0),
+                'booked',
+                (p_order->>'agent_id')::uuid,
+                p_order->>'agent_name'
+              )
+              RETURNING id INTO v_rental_id;
+
+              INSERT INTO rental_calendar (product_id, unit_id, rental_id, reserved_date, status)
+              SELECT v_product.id, v_unit_id, v_rental_id, day::date, 'reserved'
+              FROM generate_series(v_start, v_end, interval '1 day') AS day;
+
+              EXIT;
+            EXCEPTION
+              WHEN unique_violation THEN
+                -- Exemplaire réservé entre-temps par un autre poste : essayer le suivant
+                v_tried_units := array_append(v_tried_units, v_unit_id);
+            END;
+          END LOOP;
+        END LOOP;
+      END IF;
+    END LOOP;
+  EXCEPTION
+    WHEN raise_exception THEN
+      GET STACKED DIAGNOSTICS v_error_code = PG_EXCEPTION_HINT;
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object(
+          'code', COALESCE(NULLIF(v_error_code, ''), 'checkout_failed'),
+          'message', SQLERRM,
+          'item_index', CASE WHEN v_index >= 0 THEN v_index END
+        )
+      );
+  END;
+
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'transactions',
+    COALESCE((SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at, t.id) FROM transactions t WHERE t.order_id = o.id), '[]'::jsonb)
+  )
+  INTO v_result
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN jsonb_build_object('success', true, 'order', v_result);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Seuls les articles retirés peuvent être en retard
+CREATE OR REPLACE FUNCTION mark_overdue_rentals()
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE rentals r
+  SET status = 'overdue',
+      late_fee = f.fee,
+      remaining_amount = GREATEST(0, COALESCE(r.remaining_amount, 0) - COALESCE(r.late_fee, 0) + f.fee),
+      payment_status = CASE
+        WHEN COALESCE(r.remaining_amount, 0) - COALESCE(r.late_fee, 0) + f.fee > 0 THEN 'partial'
+        ELSE r.payment_status
+      END
+  FROM (
+    SELECT id, compute_late_fee(rental_end_date, current_date) AS fee
+    FROM rentals
+    WHERE status IN ('picked_up', 'overdue')
+      AND rental_end_date < current_date
+  ) f
+  WHERE r.id = f.id
+    AND (r.status <> 'overdue' OR COALESCE(r.late_fee, 0) <> f.fee);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Retour d'un article retiré
+CREATE OR REPLACE FUNCTION return_rental(
+  p_rental_id uuid,
+  p_return jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_rental rentals%ROWTYPE;
+  v_order_id uuid;
+  v_method text := COALESCE(p_return->>'payment_method', 'cash');
+  v_late_fee decimal(10,2);
+  v_late_paid decimal(10,2) := COALESCE((p_return->>'late_fee_paid')::decimal, 0);
+  v_late_from_deposit decimal(10,2) := COALESCE((p_return->>'late_fee_from_deposit')::decimal, 0);
+  v_remaining decimal(10,2);
+  v_kept decimal(10,2) := COALESCE((p_return->>'deposit_kept')::decimal, 0);
+  v_refunded decimal(10,2);
+BEGIN
+  SELECT * INTO v_rental FROM rentals WHERE id = p_rental_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Location introuvable';
+  END IF;
+
+  IF v_rental.status = 'booked' THEN
+    RAISE EXCEPTION 'Cette location n''a pas encore été retirée';
+  END IF;
+
+  IF v_rental.status NOT IN ('picked_up', 'overdue') THEN
+    RAISE EXCEPTION 'Cette location n''est plus en cours';
+  END IF;
+
+  SELECT order_id INTO v_order_id FROM transactions WHERE id = v_rental.transaction_id;
+
+  -- Pénalité arrêtée au jour du retour
+  v_late_fee := compute_late_fee(v_rental.rental_end_date, current_date);
+  v_remaining := GREATEST(0, COALESCE(v_rental.remaining_amount, 0) - COALESCE(v_rental.late_fee, 0) + v_late_fee);
+
+  IF v_late_paid < 0 OR v_late_from_deposit < 0 OR v_late_paid + v_late_from_deposit > v_late_fee THEN
+    RAISE EXCEPTION 'Le montant encaissé dépasse la pénalité de retard (% DA)', v_late_fee;
+  END IF;
+
+  IF v_rental.deposit_status <> 'held' AND (v_kept > 0 OR v_late_from_deposit > 0) THEN
+    RAISE EXCEPTION 'Aucune caution détenue pour cette location';
+  END IF;
+
+  IF v_kept < 0 OR v_kept + v_late_from_deposit > v_rental.deposit_amount THEN
+    RAISE EXCEPTION 'Le montant retenu doit être compris entre 0 et %', v_rental.deposit_amount;
+  END IF;
+
+  IF v_kept > 0 AND COALESCE(p_return->>'deposit_kept_reason', '') = '' THEN
+    RAISE EXCEPTION 'Veuillez indiquer le motif de la retenue sur caution';
+  END IF;
+
+  IF v_late_paid > 0 THEN
+    INSERT INTO payments (
+      order_id, transaction_id, rental_id, customer_name, customer_phone,
+      amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+    ) VALUES (
+      v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+      v_late_paid, v_remaining - v_late_paid - v_late_from_deposit, v_method, 'late_fee',
+      (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Pénalité de retard', true
+    );
+  END IF;
+
+  v_remaining := v_remaining - v_late_paid - v_late_from_deposit;
+
+  UPDATE rentals
+  SET status = 'returned',
+      returned_at = now(),
+      returned_by_id = (p_return->>'agent_id')::uuid,
+      returned_by_name = p_return->>'agent_name',
+      late_fee = v_late_fee,
+      amount_paid = COALESCE(amount_paid, 0) + v_late_paid + v_late_from_deposit,
+      remaining_amount = v_remaining,
+      payment_status = CASE WHEN v_remaining > 0 THEN 'partial' ELSE 'completed' END
+  WHERE id = p_rental_id;
+
+  UPDATE rental_calendar SET status = 'available' WHERE rental_id = p_rental_id;
+
+  IF v_rental.deposit_status = 'held' THEN
+    v_refunded := v_rental.deposit_amount - v_kept - v_late_from_deposit;
+
+    IF v_refunded > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_refunded, 0, v_method, 'deposit_refund',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Caution restituée', true
+      );
+    END IF;
+
+    IF v_late_from_deposit > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_late_from_deposit, v_remaining, v_method, 'deposit_retained',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Pénalité de retard', true
+      );
+    END IF;
+
+    IF v_kept > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_kept, 0, v_method, 'deposit_retained',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', p_return->>'deposit_kept_reason', true
+      );
+    END IF;
+
+    UPDATE rentals
+    SET deposit_refunded = v_refunded,
+        deposit_kept = v_kept + v_late_from_deposit,
+        deposit_kept_reason = NULLIF(concat_ws(' ; ',
+          NULLIF(p_return->>'deposit_kept_reason', ''),
+          CASE WHEN v_late_from_deposit > 0 THEN 'Pénalité de retard' END
+        ), ''),
+        deposit_status = CASE
+          WHEN v_kept + v_late_from_deposit = 0 THEN 'refunded'
+          WHEN v_refunded = 0 THEN 'kept'
+          ELSE 'partially_kept'
+        END
+    WHERE id = p_rental_id;
+  END IF;
+
+  RETURN (SELECT to_jsonb(r) FROM rentals r WHERE r.id = p_rental_id);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Prolongation d'une location réservée ou en cours
+CREATE OR REPLACE FUNCTION extend_rental(
+  p_rental_id uuid,
+  p_extension jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_rental rentals%ROWTYPE;
+  v_order_id uuid;
+  v_new_end date := (p_extension->>'new_end_date')::date;
+  v_extra_days integer;
+  v_amount decimal(10,2);
+  v_paid decimal(10,2) := COALESCE((p_extension->>'amount_paid')::decimal, 0);
+  v_late_fee decimal(10,2);
+  v_remaining decimal(10,2);
+  v_calendar_status text;
+  v_extension rental_extensions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_rental FROM rentals WHERE id = p_rental_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Location introuvable';
+  END IF;
+
+  IF v_rental.status NOT IN ('booked', 'picked_up', 'overdue') THEN
+    RAISE EXCEPTION 'Seule une location en cours peut être prolongée';
+  END IF;
+
+  IF v_new_end IS NULL OR v_new_end <= v_rental.rental_end_date THEN
+    RAISE EXCEPTION 'La nouvelle date de fin doit être postérieure au %', to_char(v_rental.rental_end_date, 'DD/MM/YYYY');
+  END IF;
+
+  v_extra_days := v_new_end - v_rental.rental_end_date;
+  v_amount := round(v_extra_days * v_rental.daily_rate * (1 - COALESCE(v_rental.discount, 0) / 100), 2);
+
+  IF v_paid < 0 OR v_paid > v_amount THEN
+    RAISE EXCEPTION 'L''acompte doit être compris entre 0 et %', v_amount;
+  END IF;
+
+  -- Les jours ajoutés gardent le statut des jours déjà réservés (réservé ou occupé)
+  SELECT status INTO v_calendar_status
+  FROM rental_calendar
+  WHERE rental_id = p_rental_id AND status IN ('reserved', 'occupied')
+  ORDER BY reserved_date DESC
+  LIMIT 1;
+
+  BEGIN
+    INSERT INTO rental_calendar (product_id, unit_id, rental_id, reserved_date, status)
+    SELECT v_rental.product_id, v_rental.unit_id, p_rental_id, day::date, COALESCE(v_calendar_status, 'reserved')
+    FROM generate_series(v_rental.rental_end_date + 1, v_new_end, interval '1 day') AS day;
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'L''exemplaire est déjà réservé sur ces dates' USING HINT = 'already_reserved';
+  END;
+
+  -- Pénalité recalculée sur la nouvelle date de fin
+  v_late_fee := compute_late_fee(v_new_end, current_date);
+  v_remaining := GREATEST(0,
+    COALESCE(v_rental.remaining_amount, 0) - COALESCE(v_rental.late_fee, 0) + v_late_fee + v_amount - v_paid
+  );
+
+  UPDATE rentals
+  SET rental_end_date = v_new_end,
+      rental_days = rental_days + v_extra_days,
+      total_amount = total_amount + v_amount,
+      amount_paid = COALESCE(amount_paid, 0) + v_paid,
+      remaining_amount = v_remaining,
+      late_fee = v_late_fee,
+      payment_status = CASE WHEN v_remaining > 0 THEN 'partial' ELSE 'completed' END,
+      status = CASE
+        WHEN v_rental.status = 'booked' THEN 'booked'
+        WHEN v_new_end < current_date THEN 'overdue'
+        ELSE 'picked_up'
+      END
+  WHERE id = p_rental_id;
+
+  INSERT INTO rental_extensions (
+    rental_id, previous_end_date, new_end_date, extra_days, daily_rate, amount, amount_paid,
+    agent_id, agent_name, notes
+  ) VALUES (
+    p_rental_id, v_rental.rental_end_date, v_new_end, v_extra_days, v_rental.daily_rate, v_amount, v_paid,
+    (p_extension->>'agent_id')::uuid, p_extension->>'agent_name', NULLIF(p_extension->>'notes', '')
+  )
+  RETURNING * INTO v_extension;
+
+  IF v_paid > 0 THEN
+    SELECT order_id INTO v_order_id FROM transactions WHERE id = v_rental.transaction_id;
+
+    INSERT INTO payments (
+      order_id, transaction_id, rental_id, customer_name, customer_phone,
+      amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+    ) VALUES (
+      v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+      v_paid, v_remaining, COALESCE(p_extension->>'payment_method', 'cash'), 'payment',
+      (p_extension->>'agent_id')::uuid, p_extension->>'agent_name', 'Prolongation', v_remaining = 0
+    );
+  END IF;
+
+  RETURN to_jsonb(v_extension);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,556 @@
+/*
+  # Jours de battement entre deux locations
+
+  1. Modifications
+    - `category_settings.buffer_days` - Jours d'entretien (pressing, retouches) après chaque location
+    - `products.buffer_days` - Battement propre au produit (prioritaire sur celui de la catégorie)
+    - `rental_calendar.status` accepte `buffer` : jours bloqués après la fin d'une location
+    - L'index unique du calendrier couvre aussi les jours de battement
+
+  2. Nouvelles Fonctions
+    - `get_buffer_days(p_product_id)` - Battement applicable au produit
+    - `place_rental_buffer(p_rental_id, p_after)` - (Re)pose les jours de battement d'une location à partir
+      du lendemain de `p_after`
+
+  3. Fonctions modifiées
+    - `checkout_order` exige un exemplaire libre sur la location et son battement, puis pose le battement
+    - `return_rental` conserve le battement, décalé après la date de retour réelle en cas de retard
+    - `extend_rental` déplace le battement après la nouvelle date de fin
+*/
+
+-- Battement par catégorie
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'category_settings' AND column_name = 'buffer_days'
+  ) THEN
+    ALTER TABLE category_settings ADD COLUMN buffer_days integer NOT NULL DEFAULT 0 CHECK (buffer_days >= 0);
+  END IF;
+END $$;
+
+-- Battement propre au produit
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'buffer_days'
+  ) THEN
+    ALTER TABLE products ADD COLUMN buffer_days integer CHECK (buffer_days >= 0);
+  END IF;
+END $$;
+
+-- Jours de battement dans le calendrier
+ALTER TABLE rental_calendar DROP CONSTRAINT IF EXISTS rental_calendar_status_check;
+ALTER TABLE rental_calendar ADD CONSTRAINT rental_calendar_status_check
+  CHECK (status IN ('reserved', 'occupied', 'buffer', 'available'));
+
+DROP INDEX IF EXISTS rental_calendar_unit_day_claim_idx;
+CREATE UNIQUE INDEX rental_calendar_unit_day_claim_idx
+  ON rental_calendar(unit_id, reserved_date)
+  WHERE status IN ('reserved', 'occupied', 'buffer');
+
+-- Battement du produit, sinon celui de sa catégorie
+CREATE OR REPLACE FUNCTION get_buffer_days(p_product_id uuid)
+RETURNS integer AS $$
+  SELECT COALESCE(p.buffer_days, cs.buffer_days, 0)
+  FROM products p
+  LEFT JOIN category_settings cs ON cs.category = p.category
+  WHERE p.id = p_product_id;
+$$ LANGUAGE sql STABLE;
+
+-- Pose des jours de battement après une location. Un jour déjà pris par une autre location
+-- (retour tardif) est laissé à celle-ci.
+CREATE OR REPLACE FUNCTION place_rental_buffer(
+  p_rental_id uuid,
+  p_after date
+) RETURNS void AS $$
+DECLARE
+  v_rental rentals%ROWTYPE;
+  v_buffer_days integer;
+BEGIN
+  SELECT * INTO v_rental FROM rentals WHERE id = p_rental_id;
+  IF NOT FOUND OR v_rental.unit_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM rental_calendar WHERE rental_id = p_rental_id AND status = 'buffer';
+
+  v_buffer_days := get_buffer_days(v_rental.product_id);
+  IF v_buffer_days = 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO rental_calendar (product_id, unit_id, rental_id, reserved_date, status)
+  SELECT v_rental.product_id, v_rental.unit_id, p_rental_id, day::date, 'buffer'
+  FROM generate_series(p_after + 1, p_after + v_buffer_days, interval '1 day') AS day
+  ON CONFLICT (unit_id, reserved_date) WHERE status IN ('reserved', 'occupied', 'buffer') DO NOTHING;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Les réservations tiennent compte du battement
+CREATE OR REPLACE FUNCTION checkout_order(
+  p_order jsonb,
+  p_items jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_customer_id uuid;
+  v_order_id uuid;
+  v_transaction_id uuid;
+  v_rental_id uuid;
+  v_unit_id uuid;
+  v_tried_units uuid[];
+  v_item jsonb;
+  v_rental jsonb;
+  v_product products%ROWTYPE;
+  v_index integer := -1;
+  v_quantity integer;
+  v_start date;
+  v_end date;
+  v_buffer_days integer;
+  v_error_code text;
+  v_result jsonb;
+BEGIN
+  BEGIN
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+      RAISE EXCEPTION 'Le panier est vide' USING HINT = 'empty_cart';
+    END IF;
+
+    IF COALESCE(p_order->>'customer_name', '') = '' OR COALESCE(p_order->>'customer_phone', '') = '' THEN
+      RAISE EXCEPTION 'Veuillez renseigner au minimum le nom et téléphone du client' USING HINT = 'missing_customer';
+    END IF;
+
+    v_customer_id := create_customer_if_not_exists(
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_email', '')
+    );
+
+    INSERT INTO orders (
+      customer_id, customer_name, customer_phone, customer_email,
+      subtotal, discount_amount, total_amount, amount_paid, remaining_amount, payment_status,
+      status, agent_id, agent_name, notes
+    ) VALUES (
+      v_customer_id,
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_email', ''),
+      COALESCE((p_order->>'subtotal')::decimal, 0),
+      COALESCE((p_order->>'discount_amount')::decimal, 0),
+      COALESCE((p_order->>'total_amount')::decimal, 0),
+      COALESCE((p_order->>'amount_paid')::decimal, (p_order->>'total_amount')::decimal, 0),
+      COALESCE((p_order->>'remaining_amount')::decimal, 0),
+      COALESCE(p_order->>'payment_status', 'completed'),
+      'completed',
+      (p_order->>'agent_id')::uuid,
+      p_order->>'agent_name',
+      p_order->>'notes'
+    )
+    RETURNING id INTO v_order_id;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+      v_index := v_index + 1;
+      v_quantity := COALESCE((v_item->>'quantity')::integer, 1);
+
+      SELECT * INTO v_product FROM products WHERE id = (v_item->>'product_id')::uuid FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Produit introuvable' USING HINT = 'product_not_found';
+      END IF;
+
+      INSERT INTO transactions (
+        order_id, type, product_id, product_name, quantity, unit_price, total_amount,
+        amount_paid, remaining_amount, payment_status, discount, discount_amount,
+        customer_name, customer_phone, customer_email, status, agent_id, agent_name
+      ) VALUES (
+        v_order_id,
+        v_item->>'type',
+        v_product.id,
+        v_product.name,
+        v_quantity,
+        (v_item->>'unit_price')::decimal,
+        (v_item->>'total_amount')::decimal,
+        (v_item->>'total_amount')::decimal,
+        0,
+        'completed',
+        COALESCE((v_item->>'discount')::decimal, 0),
+        COALESCE((v_item->>'discount_amount')::decimal, 0),
+        p_order->>'customer_name',
+        p_order->>'customer_phone',
+        NULLIF(p_order->>'customer_email', ''),
+        'completed',
+        (p_order->>'agent_id')::uuid,
+        p_order->>'agent_name'
+      )
+      RETURNING id INTO v_transaction_id;
+
+      IF v_item->>'type' = 'sale' THEN
+        IF v_product.stock < v_quantity THEN
+          RAISE EXCEPTION 'Stock insuffisant pour %', v_product.name USING HINT = 'insufficient_stock';
+        END IF;
+
+        INSERT INTO stock_movements (product_id, movement_type, quantity, reference, order_id, agent_id, agent_name)
+        SELECT v_product.id, 'sale', -v_quantity, o.receipt_number, o.id, o.agent_id, o.agent_name
+        FROM orders o
+        WHERE o.id = v_order_id;
+      ELSE
+        IF NOT v_product.is_available_for_rental THEN
+          RAISE EXCEPTION 'Le produit % n''est pas disponible pour la location', v_product.name USING HINT = 'not_rentable';
+        END IF;
+
+        v_rental := v_item->'rental';
+        v_start := (v_rental->>'start_date')::date;
+        v_end := (v_rental->>'end_date')::date;
+
+        IF v_start IS NULL OR v_end IS NULL OR v_end < v_start THEN
+          RAISE EXCEPTION 'Veuillez définir les dates de location pour %', v_product.name USING HINT = 'invalid_dates';
+        END IF;
+
+        -- L'exemplaire doit aussi être libre pendant le battement qui suit la location
+        v_buffer_days := get_buffer_days(v_product.id);
+
+        -- Une location par exemplaire loué. Le verrou sur l'exemplaire écarte les encaissements
+        -- concurrents ; l'index unique du calendrier garantit qu'un jour n'est jamais réservé deux fois.
+        FOR i IN 1..v_quantity LOOP
+          v_tried_units := '{}';
+
+          LOOP
+            SELECT u.id INTO v_unit_id
+            FROM product_units u
+            WHERE u.product_id = v_product.id
+              AND u.status = 'active'
+              AND u.id <> ALL(v_tried_units)
+              AND NOT EXISTS (
+                SELECT 1 FROM rental_calendar rc
+                WHERE rc.unit_id = u.id
+                  AND rc.status IN ('reserved', 'occupied', 'buffer')
+                  AND rc.reserved_date BETWEEN v_start AND v_end + v_buffer_days
+              )
+            ORDER BY u.unit_code
+            LIMIT 1
+            FOR UPDATE OF u SKIP LOCKED;
+
+            IF v_unit_id IS NULL THEN
+              RAISE EXCEPTION '% est déjà réservé pour ces dates', v_product.name USING HINT = 'already_reserved';
+            END IF;
+
+            BEGIN
+              INSERT INTO rentals (
+                transaction_id, product_id, unit_id, customer_name, customer_phone, customer_email,
+                rental_start_date, rental_end_date, rental_days, daily_rate, total_amount,
+                amount_paid, remaining_amount, payment_status, discount, discount_amount, deposit_amount,
+                status, agent_id, agent_name
+              ) VALUES (
+                v_transaction_id,
+                v_product.id,
+                v_unit_id,
+                p_order->>'customer_name',
+                p_order->>'customer_phone',
+                NULLIF(p_order->>'customer_email', ''),
+                v_start,
+                v_end,
+                (v_rental->>'rental_days')::integer,
+                (v_rental->>'daily_rate')::decimal,
+                (v_rental->>'total_amount')::decimal,
+                (v_rental->>'total_amount')::decimal,
+                0,
+                'completed',
+                COALESCE((v_item->>'discount')::decimal, 0),
+                COALESCE((v_rental->>'discount_amount')::decimal, 0),
+                COALESCE((v_rental->>'deposit_amount')::decimal, 0),
+                'booked',
+                (p_order->>'agent_id')::uuid,
+                p_order->>'agent_name'
+              )
+              RETURNING id INTO v_rental_id;
+
+              INSERT INTO rental_calendar (product_id, unit_id, rental_id, reserved_date, status)
+              SELECT v_product.id, v_unit_id, v_rental_id, day::date, 'reserved'
+              FROM generate_series(v_start, v_end, interval '1 day') AS day;
+
+              PERFORM place_rental_buffer(v_rental_id, v_end);
+
+              EXIT;
+            EXCEPTION
+              WHEN unique_violation THEN
+                -- Exemplaire réservé entre-temps par un autre poste : essayer le suivant
+                v_tried_units := array_append(v_tried_units, v_unit_id);
+            END;
+          END LOOP;
+        END LOOP;
+      END IF;
+    END LOOP;
+  EXCEPTION
+    WHEN raise_exception THEN
+      GET STACKED DIAGNOSTICS v_error_code = PG_EXCEPTION_HINT;
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object(
+          'code', COALESCE(NULLIF(v_error_code, ''), 'checkout_failed'),
+          'message', SQLERRM,
+          'item_index', CASE WHEN v_index >= 0 THEN v_index END
+        )
+      );
+  END;
+
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'transactions',
+    COALESCE((SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at, t.id) FROM transactions t WHERE t.order_id = o.id), '[]'::jsonb)
+  )
+  INTO v_result
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN jsonb_build_object('success', true, 'order', v_result);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Retour : le battement commence à la restitution si elle est tardive
+CREATE OR REPLACE FUNCTION return_rental(
+  p_rental_id uuid,
+  p_return jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_rental rentals%ROWTYPE;
+  v_order_id uuid;
+  v_method text := COALESCE(p_return->>'payment_method', 'cash');
+  v_late_fee decimal(10,2);
+  v_late_paid decimal(10,2) := COALESCE((p_return->>'late_fee_paid')::decimal, 0);
+  v_late_from_deposit decimal(10,2) := COALESCE((p_return->>'late_fee_from_deposit')::decimal, 0);
+  v_remaining decimal(10,2);
+  v_kept decimal(10,2) := COALESCE((p_return->>'deposit_kept')::decimal, 0);
+  v_refunded decimal(10,2);
+BEGIN
+  SELECT * INTO v_rental FROM rentals WHERE id = p_rental_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Location introuvable';
+  END IF;
+
+  IF v_rental.status = 'booked' THEN
+    RAISE EXCEPTION 'Cette location n''a pas encore été retirée';
+  END IF;
+
+  IF v_rental.status NOT IN ('picked_up', 'overdue') THEN
+    RAISE EXCEPTION 'Cette location n''est plus en cours';
+  END IF;
+
+  SELECT order_id INTO v_order_id FROM transactions WHERE id = v_rental.transaction_id;
+
+  -- Pénalité arrêtée au jour du retour
+  v_late_fee := compute_late_fee(v_rental.rental_end_date, current_date);
+  v_remaining := GREATEST(0, COALESCE(v_rental.remaining_amount, 0) - COALESCE(v_rental.late_fee, 0) + v_late_fee);
+
+  IF v_late_paid < 0 OR v_late_from_deposit < 0 OR v_late_paid + v_late_from_deposit > v_late_fee THEN
+    RAISE EXCEPTION 'Le montant encaissé dépasse la pénalité de retard (% DA)', v_late_fee;
+  END IF;
+
+  IF v_rental.deposit_status <> 'held' AND (v_kept > 0 OR v_late_from_deposit > 0) THEN
+    RAISE EXCEPTION 'Aucune caution détenue pour cette location';
+  END IF;
+
+  IF v_kept < 0 OR v_kept + v_late_from_deposit > v_rental.deposit_amount THEN
+    RAISE EXCEPTION 'Le montant retenu doit être compris entre 0 et %', v_rental.deposit_amount;
+  END IF;
+
+  IF v_kept > 0 AND COALESCE(p_return->>'deposit_kept_reason', '') = '' THEN
+    RAISE EXCEPTION 'Veuillez indiquer le motif de la retenue sur caution';
+  END IF;
+
+  IF v_late_paid > 0 THEN
+    INSERT INTO payments (
+      order_id, transaction_id, rental_id, customer_name, customer_phone,
+      amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+    ) VALUES (
+      v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+      v_late_paid, v_remaining - v_late_paid - v_late_from_deposit, v_method, 'late_fee',
+      (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Pénalité de retard', true
+    );
+  END IF;
+
+  v_remaining := v_remaining - v_late_paid - v_late_from_deposit;
+
+  UPDATE rentals
+  SET status = 'returned',
+      returned_at = now(),
+      returned_by_id = (p_return->>'agent_id')::uuid,
+      returned_by_name = p_return->>'agent_name',
+      late_fee = v_late_fee,
+      amount_paid = COALESCE(amount_paid, 0) + v_late_paid + v_late_from_deposit,
+      remaining_amount = v_remaining,
+      payment_status = CASE WHEN v_remaining > 0 THEN 'partial' ELSE 'completed' END
+  WHERE id = p_rental_id;
+
+  -- Les jours loués sont libérés ; le battement part de la date de fin, ou d'aujourd'hui en cas de retard
+  UPDATE rental_calendar SET status = 'available' WHERE rental_id = p_rental_id AND status <> 'buffer';
+  PERFORM place_rental_buffer(p_rental_id, GREATEST(v_rental.rental_end_date, current_date));
+
+  IF v_rental.deposit_status = 'held' THEN
+    v_refunded := v_rental.deposit_amount - v_kept - v_late_from_deposit;
+
+    IF v_refunded > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_refunded, 0, v_method, 'deposit_refund',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Caution restituée', true
+      );
+    END IF;
+
+    IF v_late_from_deposit > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_late_from_deposit, v_remaining, v_method, 'deposit_retained',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Pénalité de retard', true
+      );
+    END IF;
+
+    IF v_kept > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_kept, 0, v_method, 'deposit_retained',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', p_return->>'deposit_kept_reason', true
+      );
+    END IF;
+
+    UPDATE rentals
+    SET deposit_refunded = v_refunded,
+        deposit_kept = v_kept + v_late_from_deposit,
+        deposit_kept_reason = NULLIF(concat_ws(' ; ',
+          NULLIF(p_return->>'deposit_kept_reason', ''),
+          CASE WHEN v_late_from_deposit > 0 THEN 'Pénalité de retard' END
+        ), ''),
+        deposit_status = CASE
+          WHEN v_kept + v_late_from_deposit = 0 THEN 'refunded'
+          WHEN v_refunded = 0 THEN 'kept'
+          ELSE 'partially_kept'
+        END
+    WHERE id = p_rental_id;
+  END IF;
+
+  RETURN (SELECT to_jsonb(r) FROM rentals r WHERE r.id = p_rental_id);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Prolongation : le battement suit la nouvelle date de fin
+CREATE OR REPLACE FUNCTION extend_rental(
+  p_rental_id uuid,
+  p_extension jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_rental rentals%ROWTYPE;
+  v_order_id uuid;
+  v_new_end date := (p_extension->>'new_end_date')::date;
+  v_extra_days integer;
+  v_amount decimal(10,2);
+  v_paid decimal(10,2) := COALESCE((p_extension->>'amount_paid')::decimal, 0);
+  v_late_fee decimal(10,2);
+  v_remaining decimal(10,2);
+  v_calendar_status text;
+  v_buffer_days integer;
+  v_extension rental_extensions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_rental FROM rentals WHERE id = p_rental_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Location introuvable';
+  END IF;
+
+  IF v_rental.status NOT IN ('booked', 'picked_up', 'overdue') THEN
+    RAISE EXCEPTION 'Seule une location en cours peut être prolongée';
+  END IF;
+
+  IF v_new_end IS NULL OR v_new_end <= v_rental.rental_end_date THEN
+    RAISE EXCEPTION 'La nouvelle date de fin doit être postérieure au %', to_char(v_rental.rental_end_date, 'DD/MM/YYYY');
+  END IF;
+
+  v_extra_days := v_new_end - v_rental.rental_end_date;
+  v_amount := round(v_extra_days * v_rental.daily_rate * (1 - COALESCE(v_rental.discount, 0) / 100), 2);
+
+  IF v_paid < 0 OR v_paid > v_amount THEN
+    RAISE EXCEPTION 'L''acompte doit être compris entre 0 et %', v_amount;
+  END IF;
+
+  -- Les jours ajoutés gardent le statut des jours déjà réservés (réservé ou occupé)
+  SELECT status INTO v_calendar_status
+  FROM rental_calendar
+  WHERE rental_id = p_rental_id AND status IN ('reserved', 'occupied')
+  ORDER BY reserved_date DESC
+  LIMIT 1;
+
+  -- Le battement de la location est déplacé après la nouvelle date de fin
+  v_buffer_days := get_buffer_days(v_rental.product_id);
+  DELETE FROM rental_calendar WHERE rental_id = p_rental_id AND status = 'buffer';
+
+  IF EXISTS (
+    SELECT 1 FROM rental_calendar
+    WHERE unit_id = v_rental.unit_id
+      AND status IN ('reserved', 'occupied', 'buffer')
+      AND reserved_date BETWEEN v_new_end + 1 AND v_new_end + v_buffer_days
+  ) THEN
+    RAISE EXCEPTION 'L''exemplaire est réservé pendant le battement qui suit la nouvelle date de fin'
+      USING HINT = 'already_reserved';
+  END IF;
+
+  BEGIN
+    INSERT INTO rental_calendar (product_id, unit_id, rental_id, reserved_date, status)
+    SELECT v_rental.product_id, v_rental.unit_id, p_rental_id, day::date, COALESCE(v_calendar_status, 'reserved')
+    FROM generate_series(v_rental.rental_end_date + 1, v_new_end, interval '1 day') AS day;
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'L''exemplaire est déjà réservé sur ces dates' USING HINT = 'already_reserved';
+  END;
+
+  PERFORM place_rental_buffer(p_rental_id, v_new_end);
+
+  -- Pénalité recalculée sur la nouvelle date de fin
+  v_late_fee := compute_late_fee(v_new_end, current_date);
+  v_remaining := GREATEST(0,
+    COALESCE(v_rental.remaining_amount, 0) - COALESCE(v_rental.late_fee, 0) + v_late_fee + v_amount - v_paid
+  );
+
+  UPDATE rentals
+  SET rental_end_date = v_new_end,
+      rental_days = rental_days + v_extra_days,
+      total_amount = total_amount + v_amount,
+      amount_paid = COALESCE(amount_paid, 0) + v_paid,
+      remaining_amount = v_remaining,
+      late_fee = v_late_fee,
+      payment_status = CASE WHEN v_remaining > 0 THEN 'partial' ELSE 'completed' END,
+      status = CASE
+        WHEN v_rental.status = 'booked' THEN 'booked'
+        WHEN v_new_end < current_date THEN 'overdue'
+        ELSE 'picked_up'
+      END
+  WHERE id = p_rental_id;
+
+  INSERT INTO rental_extensions (
+    rental_id, previous_end_date, new_end_date, extra_days, daily_rate, amount, amount_paid,
+    agent_id, agent_name, notes
+  ) VALUES (
+    p_rental_id, v_rental.rental_end_date, v_new_end, v_extra_days, v_rental.daily_rate, v_amount, v_paid,
+    (p_extension->>'agent_id')::uuid, p_extension->>'agent_name', NULLIF(p_extension->>'notes', '')
+  )
+  RETURNING * INTO v_extension;
+
+  IF v_paid > 0 THEN
+    SELECT order_id INTO v_order_id FROM transactions WHERE id = v_rental.transaction_id;
+
+    INSERT INTO payments (
+      order_id, transaction_id, rental_id, customer_name, customer_phone,
+      amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+    ) VALUES (
+      v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+      v_paid, v_remaining, COALESCE(p_extension->>'payment_method', 'cash'), 'payment',
+      (p_extension->>'agent_id')::uuid, p_extension->>'agent_name', 'Prolongation', v_remaining = 0
+    );
+  END IF;
+
+  RETURN to_jsonb(v_extension);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,509 @@
+/*
+  # Entretien des articles : nettoyage, retouche et réparation
+
+  1. Nouvelles Tables
+    - `maintenance_tickets` - Envoi d'un produit ou d'un exemplaire chez un prestataire (type, prestataire,
+      date d'envoi, retour prévu, coût) ; le coût des tickets clôturés entre dans la rentabilité du produit
+
+  2. Modifications
+    - `rental_calendar.maintenance_ticket_id` - Jours bloqués par un ticket d'entretien
+    - `rental_calendar.status` accepte `maintenance`, couvert par l'index unique du calendrier
+
+  3. Nouvelles Fonctions
+    - `open_maintenance_ticket(p_ticket)` - Ouvre le ticket et bloque l'exemplaire jusqu'au retour prévu
+    - `close_maintenance_ticket(p_ticket_id, p_close)` - Clôture le ticket (date de retour, coût final)
+      et libère le calendrier
+
+  4. Fonctions modifiées
+    - `checkout_order`, `extend_rental` et `place_rental_buffer` tiennent compte des jours d'entretien
+*/
+
+-- Table des tickets d'entretien
+CREATE TABLE IF NOT EXISTS maintenance_tickets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  unit_id uuid REFERENCES product_units(id) ON DELETE SET NULL,
+  ticket_type text NOT NULL CHECK (ticket_type IN ('cleaning', 'alteration', 'repair')),
+  vendor text NOT NULL,
+  sent_date date NOT NULL DEFAULT current_date,
+  expected_return_date date NOT NULL,
+  returned_date date,
+  cost decimal(10,2) NOT NULL DEFAULT 0 CHECK (cost >= 0),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  notes text,
+  agent_id uuid REFERENCES users(id),
+  agent_name text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (expected_return_date >= sent_date)
+);
+
+CREATE INDEX IF NOT EXISTS maintenance_tickets_product_id_idx ON maintenance_tickets(product_id);
+CREATE INDEX IF NOT EXISTS maintenance_tickets_status_idx ON maintenance_tickets(status);
+
+-- Jours d'entretien dans le calendrier
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rental_calendar' AND column_name = 'maintenance_ticket_id'
+  ) THEN
+    ALTER TABLE rental_calendar ADD COLUMN maintenance_ticket_id uuid REFERENCES maintenance_tickets(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+ALTER TABLE rental_calendar DROP CONSTRAINT IF EXISTS rental_calendar_status_check;
+ALTER TABLE rental_calendar ADD CONSTRAINT rental_calendar_status_check
+  CHECK (status IN ('reserved', 'occupied', 'buffer', 'maintenance', 'available'));
+
+DROP INDEX IF EXISTS rental_calendar_unit_day_claim_idx;
+CREATE UNIQUE INDEX rental_calendar_unit_day_claim_idx
+  ON rental_calendar(unit_id, reserved_date)
+  WHERE status IN ('reserved', 'occupied', 'buffer', 'maintenance');
+
+-- Ouverture d'un ticket d'entretien
+CREATE OR REPLACE FUNCTION open_maintenance_ticket(p_ticket jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_ticket maintenance_tickets%ROWTYPE;
+  v_unit product_units%ROWTYPE;
+BEGIN
+  IF (p_ticket->>'unit_id') IS NOT NULL THEN
+    SELECT * INTO v_unit FROM product_units WHERE id = (p_ticket->>'unit_id')::uuid FOR UPDATE;
+    IF NOT FOUND OR v_unit.product_id <> (p_ticket->>'product_id')::uuid THEN
+      RAISE EXCEPTION 'Exemplaire introuvable pour ce produit';
+    END IF;
+  END IF;
+
+  INSERT INTO maintenance_tickets (
+    product_id, unit_id, ticket_type, vendor, sent_date, expected_return_date, cost, notes, agent_id, agent_name
+  ) VALUES (
+    (p_ticket->>'product_id')::uuid,
+    (p_ticket->>'unit_id')::uuid,
+    p_ticket->>'ticket_type',
+    p_ticket->>'vendor',
+    COALESCE((p_ticket->>'sent_date')::date, current_date),
+    (p_ticket->>'expected_return_date')::date,
+    COALESCE((p_ticket->>'cost')::decimal, 0),
+    NULLIF(p_ticket->>'notes', ''),
+    (p_ticket->>'agent_id')::uuid,
+    p_ticket->>'agent_name'
+  )
+  RETURNING * INTO v_ticket;
+
+  -- Un ticket sur le produit seul (sans exemplaire) ne bloque pas le calendrier
+  IF v_ticket.unit_id IS NOT NULL THEN
+    BEGIN
+      INSERT INTO rental_calendar (product_id, unit_id, maintenance_ticket_id, reserved_date, status)
+      SELECT v_ticket.product_id, v_ticket.unit_id, v_ticket.id, day::date, 'maintenance'
+      FROM generate_series(v_ticket.sent_date, v_ticket.expected_return_date, interval '1 day') AS day;
+    EXCEPTION
+      WHEN unique_violation THEN
+        RAISE EXCEPTION 'L''exemplaire est réservé pendant la période d''entretien' USING HINT = 'already_reserved';
+    END;
+  END IF;
+
+  RETURN to_jsonb(v_ticket);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Clôture d'un ticket d'entretien
+CREATE OR REPLACE FUNCTION close_maintenance_ticket(
+  p_ticket_id uuid,
+  p_close jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_ticket maintenance_tickets%ROWTYPE;
+BEGIN
+  SELECT * INTO v_ticket FROM maintenance_tickets WHERE id = p_ticket_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ticket d''entretien introuvable';
+  END IF;
+
+  IF v_ticket.status <> 'open' THEN
+    RAISE EXCEPTION 'Ce ticket d''entretien est déjà clôturé';
+  END IF;
+
+  UPDATE maintenance_tickets
+  SET status = 'closed',
+      returned_date = COALESCE((p_close->>'returned_date')::date, current_date),
+      cost = COALESCE((p_close->>'cost')::decimal, cost)
+  WHERE id = p_ticket_id
+  RETURNING * INTO v_ticket;
+
+  UPDATE rental_calendar SET status = 'available' WHERE maintenance_ticket_id = p_ticket_id;
+
+  RETURN to_jsonb(v_ticket);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE maintenance_tickets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read maintenance tickets" ON maintenance_tickets FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage maintenance tickets" ON maintenance_tickets FOR ALL TO authenticated USING (true);
+
+-- Trigger pour updated_at sur maintenance_tickets
+CREATE TRIGGER update_maintenance_tickets_updated_at BEFORE UPDATE ON maintenance_tickets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Le battement ne recouvre pas un entretien
+CREATE OR REPLACE FUNCTION place_rental_buffer(
+  p_rental_id uuid,
+  p_after date
+) RETURNS void AS $$
+DECLARE
+  v_rental rentals%ROWTYPE;
+  v_buffer_days integer;
+BEGIN
+  SELECT * INTO v_rental FROM rentals WHERE id = p_rental_id;
+  IF NOT FOUND OR v_rental.unit_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM rental_calendar WHERE rental_id = p_rental_id AND status = 'buffer';
+
+  v_buffer_days := get_buffer_days(v_rental.product_id);
+  IF v_buffer_days = 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO rental_calendar (product_id, unit_id, rental_id, reserved_date, status)
+  SELECT v_rental.product_id, v_rental.unit_id, p_rental_id, day::date, 'buffer'
+  FROM generate_series(p_after + 1, p_after + v_buffer_days, interval '1 day') AS day
+  ON CONFLICT (unit_id, reserved_date) WHERE status IN ('reserved', 'occupied', 'buffer', 'maintenance') DO NOTHING;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Les jours d'entretien rendent l'exemplaire indisponible
+CREATE OR REPLACE FUNCTION checkout_order(
+  p_order jsonb,
+  p_items jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_customer_id uuid;
+  v_order_id uuid;
+  v_transaction_id uuid;
+  v_rental_id uuid;
+  v_unit_id uuid;
+  v_tried_units uuid[];
+  v_item jsonb;
+  v_rental jsonb;
+  v_product products%ROWTYPE;
+  v_index integer := -1;
+  v_quantity integer;
+  v_start date;
+  v_end date;
+  v_buffer_days integer;
+  v_error_code text;
+  v_result jsonb;
+BEGIN
+  BEGIN
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+      RAISE EXCEPTION 'Le panier est vide' USING HINT = 'empty_cart';
+    END IF;
+
+    IF COALESCE(p_order->>'customer_name', '') = '' OR COALESCE(p_order->>'customer_phone', '') = '' THEN
+      RAISE EXCEPTION 'Veuillez renseigner au minimum le nom et téléphone du client' USING HINT = 'missing_customer';
+    END IF;
+
+    v_customer_id := create_customer_if_not_exists(
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_email', '')
+    );
+
+    INSERT INTO orders (
+      customer_id, customer_name, customer_phone, customer_email,
+      subtotal, discount_amount, total_amount, amount_paid, remaining_amount, payment_status,
+      status, agent_id, agent_name, notes
+    ) VALUES (
+      v_customer_id,
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_email', ''),
+      COALESCE((p_order->>'subtotal')::decimal, 0),
+      COALESCE((p_order->>'discount_amount')::decimal, 0),
+      COALESCE((p_order->>'total_amount')::decimal, 0),
+      COALESCE((p_order->>'amount_paid')::decimal, (p_order->>'total_amount')::decimal, 0),
+      COALESCE((p_order->>'remaining_amount')::decimal, 0),
+      COALESCE(p_order->>'payment_status', 'completed'),
+      'completed',
+      (p_order->>'agent_id')::uuid,
+      p_order->>'agent_name',
+      p_order->>'notes'
+    )
+    RETURNING id INTO v_order_id;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+      v_index := v_index + 1;
+      v_quantity := COALESCE((v_item->>'quantity')::integer, 1);
+
+      SELECT * INTO v_product FROM products WHERE id = (v_item->>'product_id')::uuid FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Produit introuvable' USING HINT = 'product_not_found';
+      END IF;
+
+      INSERT INTO transactions (
+        order_id, type, product_id, product_name, quantity, unit_price, total_amount,
+        amount_paid, remaining_amount, payment_status, discount, discount_amount,
+        customer_name, customer_phone, customer_email, status, agent_id, agent_name
+      ) VALUES (
+        v_order_id,
+        v_item->>'type',
+        v_product.id,
+        v_product.name,
+        v_quantity,
+        (v_item->>'unit_price')::decimal,
+        (v_item->>'total_amount')::decimal,
+        (v_item->>'total_amount')::decimal,
+        0,
+        'completed',
+        COALESCE((v_item->>'discount')::decimal, 0),
+        COALESCE((v_item->>'discount_amount')::decimal, 0),
+        p_order->>'customer_name',
+        p_order->>'customer_phone',
+        NULLIF(p_order->>'customer_email', ''),
+        'completed',
+        (p_order->>'agent_id')::uuid,
+        p_order->>'agent_name'
+      )
+      RETURNING id INTO v_transaction_id;
+
+      IF v_item->>'type' = 'sale' THEN
+        IF v_product.stock < v_quantity THEN
+          RAISE EXCEPTION 'Stock insuffisant pour %', v_product.name USING HINT = 'insufficient_stock';
+        END IF;
+
+        INSERT INTO stock_movements (product_id, movement_type, quantity, reference, order_id, agent_id, agent_name)
+        SELECT v_product.id, 'sale', -v_quantity, o.receipt_number, o.id, o.agent_id, o.agent_name
+        FROM orders o
+        WHERE o.id = v_order_id;
+      ELSE
+        IF NOT v_product.is_available_for_rental THEN
+          RAISE EXCEPTION 'Le produit % n''est pas disponible pour la location', v_product.name USING HINT = 'not_rentable';
+        END IF;
+
+        v_rental := v_item->'rental';
+        v_start := (v_rental->>'start_date')::date;
+        v_end := (v_rental->>'end_date')::date;
+
+        IF v_start IS NULL OR v_end IS NULL OR v_end < v_start THEN
+          RAISE EXCEPTION 'Veuillez définir les dates de location pour %', v_product.name USING HINT = 'invalid_dates';
+        END IF;
+
+        -- L'exemplaire doit aussi être libre pendant le battement qui suit la location
+        v_buffer_days := get_buffer_days(v_product.id);
+
+        -- Une location par exemplaire loué. Le verrou sur l'exemplaire écarte les encaissements
+        -- concurrents ; l'index unique du calendrier garantit qu'un jour n'est jamais réservé deux fois.
+        FOR i IN 1..v_quantity LOOP
+          v_tried_units := '{}';
+
+          LOOP
+            SELECT u.id INTO v_unit_id
+            FROM product_units u
+            WHERE u.product_id = v_product.id
+              AND u.status = 'active'
+              AND u.id <> ALL(v_tried_units)
+              AND NOT EXISTS (
+                SELECT 1 FROM rental_calendar rc
+                WHERE rc.unit_id = u.id
+                  AND rc.status IN ('reserved', 'occupied', 'buffer', 'maintenance')
+                  AND rc.reserved_date BETWEEN v_start AND v_end + v_buffer_days
+              )
+            ORDER BY u.unit_code
+            LIMIT 1
+            FOR UPDATE OF u SKIP LOCKED;
+
+            IF v_unit_id IS NULL THEN
+              RAISE EXCEPTION '% est déjà réservé pour ces dates', v_product.name USING HINT = 'already_reserved';
+            END IF;
+
+            BEGIN
+              INSERT INTO rentals (
+                transaction_id, product_id, unit_id, customer_name, customer_phone, customer_email,
+                rental_start_date, rental_end_date, rental_days, daily_rate, total_amount,
+                amount_paid, remaining_amount, payment_status, discount, discount_amount, deposit_amount,
+                status, agent_id, agent_name
+              ) VALUES (
+                v_transaction_id,
+                v_product.id,
+                v_unit_id,
+                p_order->>'customer_name',
+                p_order->>'customer_phone',
+                NULLIF(p_order->>'customer_email', ''),
+                v_start,
+                v_end,
+                (v_rental->>'rental_days')::integer,
+                (v_rental->>'daily_rate')::decimal,
+                (v_rental->>'total_amount')::decimal,
+                (v_rental->>'total_amount')::decimal,
+                0,
+                'completed',
+                COALESCE((v_item->>'discount')::decimal, 0),
+                COALESCE((v_rental->>'discount_amount')::decimal, 0),
+                COALESCE((v_rental->>'deposit_amount')::decimal, 0),
+                'booked',
+                (p_order->>'agent_id')::uuid,
+                p_order->>'agent_name'
+              )
+              RETURNING id INTO v_rental_id;
+
+              INSERT INTO rental_calendar (product_id, unit_id, rental_id, reserved_date, status)
+              SELECT v_product.id, v_unit_id, v_rental_id, day::date, 'reserved'
+              FROM generate_series(v_start, v_end, interval '1 day') AS day;
+
+              PERFORM place_rental_buffer(v_rental_id, v_end);
+
+              EXIT;
+            EXCEPTION
+              WHEN unique_violation THEN
+                -- Exemplaire réservé entre-temps par un autre poste : essayer le suivant
+                v_tried_units := array_append(v_tried_units, v_unit_id);
+            END;
+          END LOOP;
+        END LOOP;
+      END IF;
+    END LOOP;
+  EXCEPTION
+    WHEN raise_exception THEN
+      GET STACKED DIAGNOSTICS v_error_code = PG_EXCEPTION_HINT;
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object(
+          'code', COALESCE(NULLIF(v_error_code, ''), 'checkout_failed'),
+          'message', SQLERRM,
+          'item_index', CASE WHEN v_index >= 0 THEN v_index END
+        )
+      );
+  END;
+
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'transactions',
+    COALESCE((SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at, t.id) FROM transactions t WHERE t.order_id = o.id), '[]'::jsonb)
+  )
+  INTO v_result
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN jsonb_build_object('success', true, 'order', v_result);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Une prolongation ne peut empiéter sur un entretien
+CREATE OR REPLACE FUNCTION extend_rental(
+  p_rental_id uuid,
+  p_extension jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_rental rentals%ROWTYPE;
+  v_order_id uuid;
+  v_new_end date := (p_extension->>'new_end_date')::date;
+  v_extra_days integer;
+  v_amount decimal(10,2);
+  v_paid decimal(10,2) := COALESCE((p_extension->>'amount_paid')::decimal, 0);
+  v_late_fee decimal(10,2);
+  v_remaining decimal(10,2);
+  v_calendar_status text;
+  v_buffer_days integer;
+  v_extension rental_extensions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_rental FROM rentals WHERE id = p_rental_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Location introuvable';
+  END IF;
+
+  IF v_rental.status NOT IN ('booked', 'picked_up', 'overdue') THEN
+    RAISE EXCEPTION 'Seule une location en cours peut être prolongée';
+  END IF;
+
+  IF v_new_end IS NULL OR v_new_end <= v_rental.rental_end_date THEN
+    RAISE EXCEPTION 'La nouvelle date de fin doit être postérieure au %', to_char(v_rental.rental_end_date, 'DD/MM/YYYY');
+  END IF;
+
+  v_extra_days := v_new_end - v_rental.rental_end_date;
+  v_amount := round(v_extra_days * v_rental.daily_rate * (1 - COALESCE(v_rental.discount, 0) / 100), 2);
+
+  IF v_paid < 0 OR v_paid > v_amount THEN
+    RAISE EXCEPTION 'L''acompte doit être compris entre 0 et %', v_amount;
+  END IF;
+
+  -- Les jours ajoutés gardent le statut des jours déjà réservés (réservé ou occupé)
+  SELECT status INTO v_calendar_status
+  FROM rental_calendar
+  WHERE rental_id = p_rental_id AND status IN ('reserved', 'occupied')
+  ORDER BY reserved_date DESC
+  LIMIT 1;
+
+  -- Le battement de la location est déplacé après la nouvelle date de fin
+  v_buffer_days := get_buffer_days(v_rental.product_id);
+  DELETE FROM rental_calendar WHERE rental_id = p_rental_id AND status = 'buffer';
+
+  IF EXISTS (
+    SELECT 1 FROM rental_calendar
+    WHERE unit_id = v_rental.unit_id
+      AND status IN ('reserved', 'occupied', 'buffer', 'maintenance')
+      AND reserved_date BETWEEN v_new_end + 1 AND v_new_end + v_buffer_days
+  ) THEN
+    RAISE EXCEPTION 'L''exemplaire est réservé pendant le battement qui suit la nouvelle date de fin'
+      USING HINT = 'already_reserved';
+  END IF;
+
+  BEGIN
+    INSERT INTO rental_calendar (product_id, unit_id, rental_id, reserved_date, status)
+    SELECT v_rental.product_id, v_rental.unit_id, p_rental_id, day::date, COALESCE(v_calendar_status, 'reserved')
+    FROM generate_series(v_rental.rental_end_date + 1, v_new_end, interval '1 day') AS day;
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'L''exemplaire est déjà réservé sur ces dates' USING HINT = 'already_reserved';
+  END;
+
+  PERFORM place_rental_buffer(p_rental_id, v_new_end);
+
+  -- Pénalité recalculée sur la nouvelle date de fin
+  v_late_fee := compute_late_fee(v_new_end, current_date);
+  v_remaining := GREATEST(0,
+    COALESCE(v_rental.remaining_amount, 0) - COALESCE(v_rental.late_fee, 0) + v_late_fee + v_amount - v_paid
+  );
+
+  UPDATE rentals
+  SET rental_end_date = v_new_end,
+      rental_days = rental_days + v_extra_days,
+      total_amount = total_amount + v_amount,
+      amount_paid = COALESCE(amount_paid, 0) + v_paid,
+      remaining_amount = v_remaining,
+      late_fee = v_late_fee,
+      payment_status = CASE WHEN v_remaining > 0 THEN 'partial' ELSE 'completed' END,
+      status = CASE
+        WHEN v_rental.status = 'booked' THEN 'booked'
+        WHEN v_new_end < current_date THEN 'overdue'
+        ELSE 'picked_up'
+      END
+  WHERE id = p_rental_id;
+
+  INSERT INTO rental_extensions (
+    rental_id, previous_end_date, new_end_date, extra_days, daily_rate, amount, amount_paid,
+    agent_id, agent_name, notes
+  ) VALUES (
+    p_rental_id, v_rental.rental_end_date, v_new_end, v_extra_days, v_rental.daily_rate, v_amount, v_paid,
+    (p_extension->>'agent_id')::uuid, p_extension->>'agent_name', NULLIF(p_extension->>'notes', '')
+  )
+  RETURNING * INTO v_extension;
+
+  IF v_paid > 0 THEN
+    SELECT order_id INTO v_order_id FROM transactions WHERE id = v_rental.transaction_id;
+
+    INSERT INTO payments (
+      order_id, transaction_id, rental_id, customer_name, customer_phone,
+      amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+    ) VALUES (
+      v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+      v_paid, v_remaining, COALESCE(p_extension->>'payment_method', 'cash'), 'payment',
+      (p_extension->>'agent_id')::uuid, p_extension->>'agent_name', 'Prolongation', v_remaining = 0
+    );
+  END IF;
+
+  RETURN to_jsonb(v_extension);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,192 @@
+/*
+  # Contrôle de l'article au retour de location
+
+  1. Modifications
+    - `category_settings.inspection_checklist` - Points à contrôler au retour (taches, déchirures, accessoires...)
+    - `rentals.inspection` - Résultat du contrôle : points cochés, notes et photos
+    - `rentals.damage_charge` - Dégâts facturés au client, prélevés sur la caution ou ajoutés au solde
+
+  2. Stockage
+    - Bucket `rental-inspections` pour les photos prises au retour
+
+  3. Fonctions modifiées
+    - `return_rental` accepte `damage_charge` et `inspection` : la part prélevée sur la caution reste
+      `deposit_kept`, le reste des dégâts s'ajoute à `remaining_amount`
+*/
+
+-- Points de contrôle par catégorie
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'category_settings' AND column_name = 'inspection_checklist'
+  ) THEN
+    ALTER TABLE category_settings ADD COLUMN inspection_checklist text[] NOT NULL
+      DEFAULT ARRAY['Taches', 'Déchirures', 'Accessoires manquants'];
+  END IF;
+END $$;
+
+-- Résultat du contrôle sur la location
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rentals' AND column_name = 'damage_charge'
+  ) THEN
+    ALTER TABLE rentals ADD COLUMN damage_charge decimal(10,2) DEFAULT 0 CHECK (damage_charge >= 0);
+    ALTER TABLE rentals ADD COLUMN inspection jsonb;
+  END IF;
+END $$;
+
+-- Photos du contrôle
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('rental-inspections', 'rental-inspections', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read inspection photos" ON storage.objects
+  FOR SELECT TO authenticated USING (bucket_id = 'rental-inspections');
+CREATE POLICY "Users can upload inspection photos" ON storage.objects
+  FOR INSERT TO authenticated WITH CHECK (bucket_id = 'rental-inspections');
+
+-- Retour avec contrôle et facturation des dégâts
+CREATE OR REPLACE FUNCTION return_rental(
+  p_rental_id uuid,
+  p_return jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_rental rentals%ROWTYPE;
+  v_order_id uuid;
+  v_method text := COALESCE(p_return->>'payment_method', 'cash');
+  v_late_fee decimal(10,2);
+  v_late_paid decimal(10,2) := COALESCE((p_return->>'late_fee_paid')::decimal, 0);
+  v_late_from_deposit decimal(10,2) := COALESCE((p_return->>'late_fee_from_deposit')::decimal, 0);
+  v_remaining decimal(10,2);
+  v_kept decimal(10,2) := COALESCE((p_return->>'deposit_kept')::decimal, 0);
+  -- Sans montant de dégâts explicite, la retenue sur caution en tient lieu
+  v_damage decimal(10,2) := COALESCE((p_return->>'damage_charge')::decimal, v_kept);
+  v_refunded decimal(10,2);
+BEGIN
+  SELECT * INTO v_rental FROM rentals WHERE id = p_rental_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Location introuvable';
+  END IF;
+
+  IF v_rental.status = 'booked' THEN
+    RAISE EXCEPTION 'Cette location n''a pas encore été retirée';
+  END IF;
+
+  IF v_rental.status NOT IN ('picked_up', 'overdue') THEN
+    RAISE EXCEPTION 'Cette location n''est plus en cours';
+  END IF;
+
+  SELECT order_id INTO v_order_id FROM transactions WHERE id = v_rental.transaction_id;
+
+  -- Pénalité arrêtée au jour du retour
+  v_late_fee := compute_late_fee(v_rental.rental_end_date, current_date);
+  v_remaining := GREATEST(0, COALESCE(v_rental.remaining_amount, 0) - COALESCE(v_rental.late_fee, 0) + v_late_fee);
+
+  IF v_late_paid < 0 OR v_late_from_deposit < 0 OR v_late_paid + v_late_from_deposit > v_late_fee THEN
+    RAISE EXCEPTION 'Le montant encaissé dépasse la pénalité de retard (% DA)', v_late_fee;
+  END IF;
+
+  IF v_rental.deposit_status <> 'held' AND (v_kept > 0 OR v_late_from_deposit > 0) THEN
+    RAISE EXCEPTION 'Aucune caution détenue pour cette location';
+  END IF;
+
+  IF v_kept < 0 OR v_kept + v_late_from_deposit > v_rental.deposit_amount THEN
+    RAISE EXCEPTION 'Le montant retenu doit être compris entre 0 et %', v_rental.deposit_amount;
+  END IF;
+
+  IF v_damage < v_kept THEN
+    RAISE EXCEPTION 'La retenue sur caution dépasse le montant des dégâts (% DA)', v_damage;
+  END IF;
+
+  IF v_kept > 0 AND COALESCE(p_return->>'deposit_kept_reason', '') = '' THEN
+    RAISE EXCEPTION 'Veuillez indiquer le motif de la retenue sur caution';
+  END IF;
+
+  IF v_late_paid > 0 THEN
+    INSERT INTO payments (
+      order_id, transaction_id, rental_id, customer_name, customer_phone,
+      amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+    ) VALUES (
+      v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+      v_late_paid, v_remaining - v_late_paid - v_late_from_deposit, v_method, 'late_fee',
+      (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Pénalité de retard', true
+    );
+  END IF;
+
+  -- Dégâts non couverts par la caution : ajoutés au solde du client
+  v_remaining := v_remaining - v_late_paid - v_late_from_deposit + (v_damage - v_kept);
+
+  UPDATE rentals
+  SET status = 'returned',
+      returned_at = now(),
+      returned_by_id = (p_return->>'agent_id')::uuid,
+      returned_by_name = p_return->>'agent_name',
+      late_fee = v_late_fee,
+      damage_charge = v_damage,
+      inspection = p_return->'inspection',
+      amount_paid = COALESCE(amount_paid, 0) + v_late_paid + v_late_from_deposit,
+      remaining_amount = v_remaining,
+      payment_status = CASE WHEN v_remaining > 0 THEN 'partial' ELSE 'completed' END
+  WHERE id = p_rental_id;
+
+  -- Les jours loués sont libérés ; le battement part de la date de fin, ou d'aujourd'hui en cas de retard
+  UPDATE rental_calendar SET status = 'available' WHERE rental_id = p_rental_id AND status <> 'buffer';
+  PERFORM place_rental_buffer(p_rental_id, GREATEST(v_rental.rental_end_date, current_date));
+
+  IF v_rental.deposit_status = 'held' THEN
+    v_refunded := v_rental.deposit_amount - v_kept - v_late_from_deposit;
+
+    IF v_refunded > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_refunded, 0, v_method, 'deposit_refund',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Caution restituée', true
+      );
+    END IF;
+
+    IF v_late_from_deposit > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_late_from_deposit, v_remaining, v_method, 'deposit_retained',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Pénalité de retard', true
+      );
+    END IF;
+
+    IF v_kept > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_kept, 0, v_method, 'deposit_retained',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', p_return->>'deposit_kept_reason', true
+      );
+    END IF;
+
+    UPDATE rentals
+    SET deposit_refunded = v_refunded,
+        deposit_kept = v_kept + v_late_from_deposit,
+        deposit_kept_reason = NULLIF(concat_ws(' ; ',
+          NULLIF(p_return->>'deposit_kept_reason', ''),
+          CASE WHEN v_late_from_deposit > 0 THEN 'Pénalité de retard' END
+        ), ''),
+        deposit_status = CASE
+          WHEN v_kept + v_late_from_deposit = 0 THEN 'refunded'
+          WHEN v_refunded = 0 THEN 'kept'
+          ELSE 'partially_kept'
+        END
+    WHERE id = p_rental_id;
+  END IF;
+
+  RETURN (SELECT to_jsonb(r) FROM rentals r WHERE r.id = p_rental_id);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,22 @@
+/*
+  # Contrat de location
+
+  1. Modifications
+    - `store_settings.store_name`, `store_address`, `store_phone` - Coordonnées de la boutique imprimées
+      en tête du contrat de location
+    - `store_settings.contract_terms` - Conditions particulières ajoutées aux conditions de retard et de dégâts
+*/
+
+-- Coordonnées de la boutique et conditions du contrat
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'store_settings' AND column_name = 'store_name'
+  ) THEN
+    ALTER TABLE store_settings ADD COLUMN store_name text NOT NULL DEFAULT 'HaliStock Boutique';
+    ALTER TABLE store_settings ADD COLUMN store_address text NOT NULL DEFAULT '1200 logts';
+    ALTER TABLE store_settings ADD COLUMN store_phone text NOT NULL DEFAULT '+213668979699';
+    ALTER TABLE store_settings ADD COLUMN contract_terms text NOT NULL DEFAULT '';
+  END IF;
+END $$;
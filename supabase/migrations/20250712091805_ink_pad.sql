@@ -0,0 +1,394 @@
+/*
+  # Signature électronique des locations
+
+  1. Modifications
+    - `rentals.contract_signature`, `contract_signed_at` - Signature du client à l'encaissement (image PNG
+      en data URL), imprimée sur le contrat de location
+    - `rentals.return_signature`, `return_signed_at` - Signature du client au retour, imprimée sur le reçu de retour
+
+  2. Fonctions modifiées
+    - `checkout_order` enregistre la signature transmise avec chaque location
+    - `return_rental` enregistre la signature du retour
+*/
+
+-- Signatures du client
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rentals' AND column_name = 'contract_signature'
+  ) THEN
+    ALTER TABLE rentals ADD COLUMN contract_signature text;
+    ALTER TABLE rentals ADD COLUMN contract_signed_at timestamptz;
+    ALTER TABLE rentals ADD COLUMN return_signature text;
+    ALTER TABLE rentals ADD COLUMN return_signed_at timestamptz;
+  END IF;
+END $$;
+
+-- Encaissement avec la signature du contrat
+CREATE OR REPLACE FUNCTION checkout_order(
+  p_order jsonb,
+  p_items jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_customer_id uuid;
+  v_order_id uuid;
+  v_transaction_id uuid;
+  v_rental_id uuid;
+  v_unit_id uuid;
+  v_tried_units uuid[];
+  v_item jsonb;
+  v_rental jsonb;
+  v_product products%ROWTYPE;
+  v_index integer := -1;
+  v_quantity integer;
+  v_start date;
+  v_end date;
+  v_buffer_days integer;
+  v_error_code text;
+  v_result jsonb;
+BEGIN
+  BEGIN
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+      RAISE EXCEPTION 'Le panier est vide' USING HINT = 'empty_cart';
+    END IF;
+
+    IF COALESCE(p_order->>'customer_name', '') = '' OR COALESCE(p_order->>'customer_phone', '') = '' THEN
+      RAISE EXCEPTION 'Veuillez renseigner au minimum le nom et téléphone du client' USING HINT = 'missing_customer';
+    END IF;
+
+    v_customer_id := create_customer_if_not_exists(
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_email', '')
+    );
+
+    INSERT INTO orders (
+      customer_id, customer_name, customer_phone, customer_email,
+      subtotal, discount_amount, total_amount, amount_paid, remaining_amount, payment_status,
+      status, agent_id, agent_name, notes
+    ) VALUES (
+      v_customer_id,
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_email', ''),
+      COALESCE((p_order->>'subtotal')::decimal, 0),
+      COALESCE((p_order->>'discount_amount')::decimal, 0),
+      COALESCE((p_order->>'total_amount')::decimal, 0),
+      COALESCE((p_order->>'amount_paid')::decimal, (p_order->>'total_amount')::decimal, 0),
+      COALESCE((p_order->>'remaining_amount')::decimal, 0),
+      COALESCE(p_order->>'payment_status', 'completed'),
+      'completed',
+      (p_order->>'agent_id')::uuid,
+      p_order->>'agent_name',
+      p_order->>'notes'
+    )
+    RETURNING id INTO v_order_id;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+      v_index := v_index + 1;
+      v_quantity := COALESCE((v_item->>'quantity')::integer, 1);
+
+      SELECT * INTO v_product FROM products WHERE id = (v_item->>'product_id')::uuid FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Produit introuvable' USING HINT = 'product_not_found';
+      END IF;
+
+      INSERT INTO transactions (
+        order_id, type, product_id, product_name, quantity, unit_price, total_amount,
+        amount_paid, remaining_amount, payment_status, discount, discount_amount,
+        surcharge_amount, surcharge_label,
+        customer_name, customer_phone, customer_email, status, agent_id, agent_name
+      ) VALUES (
+        v_order_id,
+        v_item->>'type',
+        v_product.id,
+        v_product.name,
+        v_quantity,
+        (v_item->>'unit_price')::decimal,
+        (v_item->>'total_amount')::decimal,
+        (v_item->>'total_amount')::decimal,
+        0,
+        'completed',
+        COALESCE((v_item->>'discount')::decimal, 0),
+        COALESCE((v_item->>'discount_amount')::decimal, 0),
+        COALESCE((v_item->>'surcharge_amount')::decimal, 0),
+        NULLIF(v_item->>'surcharge_label', ''),
+        p_order->>'customer_name',
+        p_order->>'customer_phone',
+        NULLIF(p_order->>'customer_email', ''),
+        'completed',
+        (p_order->>'agent_id')::uuid,
+        p_order->>'agent_name'
+      )
+      RETURNING id INTO v_transaction_id;
+
+      IF v_item->>'type' = 'sale' THEN
+        IF v_product.stock < v_quantity THEN
+          RAISE EXCEPTION 'Stock insuffisant pour %', v_product.name USING HINT = 'insufficient_stock';
+        END IF;
+
+        INSERT INTO stock_movements (product_id, movement_type, quantity, reference, order_id, agent_id, agent_name)
+        SELECT v_product.id, 'sale', -v_quantity, o.receipt_number, o.id, o.agent_id, o.agent_name
+        FROM orders o
+        WHERE o.id = v_order_id;
+      ELSE
+        IF NOT v_product.is_available_for_rental THEN
+          RAISE EXCEPTION 'Le produit % n''est pas disponible pour la location', v_product.name USING HINT = 'not_rentable';
+        END IF;
+
+        v_rental := v_item->'rental';
+        v_start := (v_rental->>'start_date')::date;
+        v_end := (v_rental->>'end_date')::date;
+
+        IF v_start IS NULL OR v_end IS NULL OR v_end < v_start THEN
+          RAISE EXCEPTION 'Veuillez définir les dates de location pour %', v_product.name USING HINT = 'invalid_dates';
+        END IF;
+
+        -- L'exemplaire doit aussi être libre pendant le battement qui suit la location
+        v_buffer_days := get_buffer_days(v_product.id);
+
+        -- Une location par exemplaire loué. Le verrou sur l'exemplaire écarte les encaissements
+        -- concurrents ; l'index unique du calendrier garantit qu'un jour n'est jamais réservé deux fois.
+        FOR i IN 1..v_quantity LOOP
+          v_tried_units := '{}';
+
+          LOOP
+            SELECT u.id INTO v_unit_id
+            FROM product_units u
+            WHERE u.product_id = v_product.id
+              AND u.status = 'active'
+              AND u.id <> ALL(v_tried_units)
+              AND NOT EXISTS (
+                SELECT 1 FROM rental_calendar rc
+                WHERE rc.unit_id = u.id
+                  AND rc.status IN ('reserved', 'occupied', 'buffer', 'maintenance')
+                  AND rc.reserved_date BETWEEN v_start AND v_end + v_buffer_days
+              )
+            ORDER BY u.unit_code
+            LIMIT 1
+            FOR UPDATE OF u SKIP LOCKED;
+
+            IF v_unit_id IS NULL THEN
+              RAISE EXCEPTION '% est déjà réservé pour ces dates', v_product.name USING HINT = 'already_reserved';
+            END IF;
+
+            BEGIN
+              INSERT INTO rentals (
+                transaction_id, product_id, unit_id, customer_name, customer_phone, customer_email,
+                rental_start_date, rental_end_date, rental_days, daily_rate, total_amount, pricing_rule_name,
+                amount_paid, remaining_amount, payment_status, discount, discount_amount, deposit_amount,
+                contract_signature, contract_signed_at,
+                status, agent_id, agent_name
+              ) VALUES (
+                v_transaction_id,
+                v_product.id,
+                v_unit_id,
+                p_order->>'customer_name',
+                p_order->>'customer_phone',
+                NULLIF(p_order->>'customer_email', ''),
+                v_start,
+                v_end,
+                (v_rental->>'rental_days')::integer,
+                (v_rental->>'daily_rate')::decimal,
+                (v_rental->>'total_amount')::decimal,
+                NULLIF(v_rental->>'pricing_rule_name', ''),
+                (v_rental->>'total_amount')::decimal,
+                0,
+                'completed',
+                COALESCE((v_item->>'discount')::decimal, 0),
+                COALESCE((v_rental->>'discount_amount')::decimal, 0),
+                COALESCE((v_rental->>'deposit_amount')::decimal, 0),
+                NULLIF(v_rental->>'signature', ''),
+                CASE WHEN COALESCE(v_rental->>'signature', '') <> '' THEN now() END,
+                'booked',
+                (p_order->>'agent_id')::uuid,
+                p_order->>'agent_name'
+              )
+              RETURNING id INTO v_rental_id;
+
+              INSERT INTO rental_calendar (product_id, unit_id, rental_id, reserved_date, status)
+              SELECT v_product.id, v_unit_id, v_rental_id, day::date, 'reserved'
+              FROM generate_series(v_start, v_end, interval '1 day') AS day;
+
+              PERFORM place_rental_buffer(v_rental_id, v_end);
+
+              EXIT;
+            EXCEPTION
+              WHEN unique_violation THEN
+                -- Exemplaire réservé entre-temps par un autre poste : essayer le suivant
+                v_tried_units := array_append(v_tried_units, v_unit_id);
+            END;
+          END LOOP;
+        END LOOP;
+      END IF;
+    END LOOP;
+  EXCEPTION
+    WHEN raise_exception THEN
+      GET STACKED DIAGNOSTICS v_error_code = PG_EXCEPTION_HINT;
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object(
+          'code', COALESCE(NULLIF(v_error_code, ''), 'checkout_failed'),
+          'message', SQLERRM,
+          'item_index', CASE WHEN v_index >= 0 THEN v_index END
+        )
+      );
+  END;
+
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'transactions',
+    COALESCE((SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at, t.id) FROM transactions t WHERE t.order_id = o.id), '[]'::jsonb)
+  )
+  INTO v_result
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN jsonb_build_object('success', true, 'order', v_result);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Retour avec la signature du client
+CREATE OR REPLACE FUNCTION return_rental(
+  p_rental_id uuid,
+  p_return jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_rental rentals%ROWTYPE;
+  v_order_id uuid;
+  v_method text := COALESCE(p_return->>'payment_method', 'cash');
+  v_late_fee decimal(10,2);
+  v_late_paid decimal(10,2) := COALESCE((p_return->>'late_fee_paid')::decimal, 0);
+  v_late_from_deposit decimal(10,2) := COALESCE((p_return->>'late_fee_from_deposit')::decimal, 0);
+  v_remaining decimal(10,2);
+  v_kept decimal(10,2) := COALESCE((p_return->>'deposit_kept')::decimal, 0);
+  -- Sans montant de dégâts explicite, la retenue sur caution en tient lieu
+  v_damage decimal(10,2) := COALESCE((p_return->>'damage_charge')::decimal, v_kept);
+  v_refunded decimal(10,2);
+BEGIN
+  SELECT * INTO v_rental FROM rentals WHERE id = p_rental_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Location introuvable';
+  END IF;
+
+  IF v_rental.status = 'booked' THEN
+    RAISE EXCEPTION 'Cette location n''a pas encore été retirée';
+  END IF;
+
+  IF v_rental.status NOT IN ('picked_up', 'overdue') THEN
+    RAISE EXCEPTION 'Cette location n''est plus en cours';
+  END IF;
+
+  SELECT order_id INTO v_order_id FROM transactions WHERE id = v_rental.transaction_id;
+
+  -- Pénalité arrêtée au jour du retour
+  v_late_fee := compute_late_fee(v_rental.rental_end_date, current_date);
+  v_remaining := GREATEST(0, COALESCE(v_rental.remaining_amount, 0) - COALESCE(v_rental.late_fee, 0) + v_late_fee);
+
+  IF v_late_paid < 0 OR v_late_from_deposit < 0 OR v_late_paid + v_late_from_deposit > v_late_fee THEN
+    RAISE EXCEPTION 'Le montant encaissé dépasse la pénalité de retard (% DA)', v_late_fee;
+  END IF;
+
+  IF v_rental.deposit_status <> 'held' AND (v_kept > 0 OR v_late_from_deposit > 0) THEN
+    RAISE EXCEPTION 'Aucune caution détenue pour cette location';
+  END IF;
+
+  IF v_kept < 0 OR v_kept + v_late_from_deposit > v_rental.deposit_amount THEN
+    RAISE EXCEPTION 'Le montant retenu doit être compris entre 0 et %', v_rental.deposit_amount;
+  END IF;
+
+  IF v_damage < v_kept THEN
+    RAISE EXCEPTION 'La retenue sur caution dépasse le montant des dégâts (% DA)', v_damage;
+  END IF;
+
+  IF v_kept > 0 AND COALESCE(p_return->>'deposit_kept_reason', '') = '' THEN
+    RAISE EXCEPTION 'Veuillez indiquer le motif de la retenue sur caution';
+  END IF;
+
+  IF v_late_paid > 0 THEN
+    INSERT INTO payments (
+      order_id, transaction_id, rental_id, customer_name, customer_phone,
+      amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+    ) VALUES (
+      v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+      v_late_paid, v_remaining - v_late_paid - v_late_from_deposit, v_method, 'late_fee',
+      (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Pénalité de retard', true
+    );
+  END IF;
+
+  -- Dégâts non couverts par la caution : ajoutés au solde du client
+  v_remaining := v_remaining - v_late_paid - v_late_from_deposit + (v_damage - v_kept);
+
+  UPDATE rentals
+  SET status = 'returned',
+      returned_at = now(),
+      returned_by_id = (p_return->>'agent_id')::uuid,
+      returned_by_name = p_return->>'agent_name',
+      late_fee = v_late_fee,
+      damage_charge = v_damage,
+      inspection = p_return->'inspection',
+      return_signature = NULLIF(p_return->>'signature', ''),
+      return_signed_at = CASE WHEN COALESCE(p_return->>'signature', '') <> '' THEN now() END,
+      amount_paid = COALESCE(amount_paid, 0) + v_late_paid + v_late_from_deposit,
+      remaining_amount = v_remaining,
+      payment_status = CASE WHEN v_remaining > 0 THEN 'partial' ELSE 'completed' END
+  WHERE id = p_rental_id;
+
+  -- Les jours loués sont libérés ; le battement part de la date de fin, ou d'aujourd'hui en cas de retard
+  UPDATE rental_calendar SET status = 'available' WHERE rental_id = p_rental_id AND status <> 'buffer';
+  PERFORM place_rental_buffer(p_rental_id, GREATEST(v_rental.rental_end_date, current_date));
+
+  IF v_rental.deposit_status = 'held' THEN
+    v_refunded := v_rental.deposit_amount - v_kept - v_late_from_deposit;
+
+    IF v_refunded > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_refunded, 0, v_method, 'deposit_refund',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Caution restituée', true
+      );
+    END IF;
+
+    IF v_late_from_deposit > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_late_from_deposit, v_remaining, v_method, 'deposit_retained',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', 'Pénalité de retard', true
+      );
+    END IF;
+
+    IF v_kept > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, rental_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order_id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+        v_kept, 0, v_method, 'deposit_retained',
+        (p_return->>'agent_id')::uuid, p_return->>'agent_name', p_return->>'deposit_kept_reason', true
+      );
+    END IF;
+
+    UPDATE rentals
+    SET deposit_refunded = v_refunded,
+        deposit_kept = v_kept + v_late_from_deposit,
+        deposit_kept_reason = NULLIF(concat_ws(' ; ',
+          NULLIF(p_return->>'deposit_kept_reason', ''),
+          CASE WHEN v_late_from_deposit > 0 THEN 'Pénalité de retard' END
+        ), ''),
+        deposit_status = CASE
+          WHEN v_kept + v_late_from_deposit = 0 THEN 'refunded'
+          WHEN v_refunded = 0 THEN 'kept'
+          ELSE 'partially_kept'
+        END
+    WHERE id = p_rental_id;
+  END IF;
+
+  RETURN (SELECT to_jsonb(r) FROM rentals r WHERE r.id = p_rental_id);
+END;
+$$ LANGUAGE plpgsql;
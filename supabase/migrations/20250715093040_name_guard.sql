@@ -0,0 +1,50 @@
+/*
+  # Gestion des fiches clients
+
+  1. Modifications
+    - `customers.archived_at` - Client archivé : masqué de la liste, son historique est conservé
+
+  2. Fonctions modifiées
+    - `create_customer_if_not_exists` ne renomme plus un client existant : le nom enregistré fait foi,
+      l'email n'est complété que s'il manquait. Un client archivé qui revient est désarchivé
+*/
+
+-- Archivage des clients
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customers' AND column_name = 'archived_at'
+  ) THEN
+    ALTER TABLE customers ADD COLUMN archived_at timestamptz;
+  END IF;
+END $$;
+
+-- Fonction pour créer automatiquement un client, sans écraser la fiche existante
+CREATE OR REPLACE FUNCTION create_customer_if_not_exists(
+  customer_name text,
+  customer_phone text,
+  customer_email text DEFAULT NULL
+) RETURNS uuid AS $$
+DECLARE
+  customer_id uuid;
+BEGIN
+  -- Chercher le client existant
+  SELECT id INTO customer_id FROM customers WHERE phone = customer_phone;
+
+  -- Si le client n'existe pas, le créer
+  IF customer_id IS NULL THEN
+    INSERT INTO customers (name, phone, email)
+    VALUES (customer_name, customer_phone, customer_email)
+    RETURNING id INTO customer_id;
+  ELSE
+    -- Compléter l'email manquant ; le nom est modifié depuis la fiche client uniquement
+    UPDATE customers
+    SET email = COALESCE(email, customer_email),
+        archived_at = NULL
+    WHERE id = customer_id;
+  END IF;
+
+  RETURN customer_id;
+END;
+$$ LANGUAGE plpgsql;
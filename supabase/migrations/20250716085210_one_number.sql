@@ -0,0 +1,192 @@
+/*
+  # Numéros de téléphone algériens et fusion des doublons
+
+  1. Nouvelles Fonctions
+    - `normalize_phone(text)` - Format canonique `+213XXXXXXXXX` ("0555 12 34 56", "0555123456",
+      "00213555123456" et "+213555123456" donnent le même numéro). Les numéros étrangers sont seulement
+      débarrassés des espaces et séparateurs
+    - `merge_customer_into(p_target_id, p_source_id)` - Rattache au client cible les commandes, lignes,
+      locations et paiements du client source, complète sa fiche puis supprime le source
+    - `merge_customers(p_target_id, p_source_ids)` - Fusion déclenchée par un administrateur
+
+  2. Déclencheurs
+    - Le téléphone est normalisé à l'écriture dans `customers`, `orders`, `transactions`, `rentals` et `payments`
+
+  3. Données existantes
+    - Les clients dont les numéros normalisés coïncident sont fusionnés dans la fiche la plus ancienne,
+      puis tous les numéros enregistrés sont normalisés
+
+  4. Fonctions modifiées
+    - `create_customer_if_not_exists` recherche le client par numéro normalisé
+*/
+
+-- Format canonique des numéros
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone text)
+RETURNS text AS $$
+DECLARE
+  v_phone text := regexp_replace(COALESCE(p_phone, ''), '[\s.()-]', '', 'g');
+BEGIN
+  IF v_phone ~ '^00213[0-9]{9}$' THEN
+    RETURN '+213' || substring(v_phone FROM 6);
+  ELSIF v_phone ~ '^\+?213[0-9]{9}$' THEN
+    RETURN '+213' || right(v_phone, 9);
+  ELSIF v_phone ~ '^0[0-9]{9}$' THEN
+    RETURN '+213' || substring(v_phone FROM 2);
+  END IF;
+
+  RETURN NULLIF(v_phone, '');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Fusion d'un client dans un autre
+CREATE OR REPLACE FUNCTION merge_customer_into(
+  p_target_id uuid,
+  p_source_id uuid
+) RETURNS void AS $$
+DECLARE
+  v_target customers%ROWTYPE;
+  v_source customers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_target FROM customers WHERE id = p_target_id FOR UPDATE;
+  SELECT * INTO v_source FROM customers WHERE id = p_source_id FOR UPDATE;
+
+  IF v_target.id IS NULL OR v_source.id IS NULL THEN
+    RAISE EXCEPTION 'Client introuvable';
+  END IF;
+
+  IF v_target.id = v_source.id THEN
+    RAISE EXCEPTION 'Impossible de fusionner un client avec lui-même';
+  END IF;
+
+  -- L'historique est retrouvé par numéro : il suit le numéro du client cible
+  UPDATE orders SET customer_id = v_target.id, customer_phone = v_target.phone
+  WHERE customer_id = v_source.id OR customer_phone = v_source.phone;
+  UPDATE transactions SET customer_phone = v_target.phone WHERE customer_phone = v_source.phone;
+  UPDATE rentals SET customer_phone = v_target.phone WHERE customer_phone = v_source.phone;
+  UPDATE payments SET customer_phone = v_target.phone WHERE customer_phone = v_source.phone;
+
+  UPDATE customer_risk_overrides SET customer_id = v_target.id WHERE customer_id = v_source.id;
+
+  -- La pièce d'identité du source n'est reprise que si la cible n'en a pas
+  IF NOT EXISTS (SELECT 1 FROM customer_identities WHERE customer_id = v_target.id) THEN
+    UPDATE customer_identities SET customer_id = v_target.id WHERE customer_id = v_source.id;
+  END IF;
+
+  -- Fiche cible complétée ; le statut de risque le plus sévère est conservé
+  UPDATE customers
+  SET email = COALESCE(email, v_source.email),
+      address = COALESCE(address, v_source.address),
+      notes = NULLIF(concat_ws(E'\n', notes, v_source.notes), ''),
+      has_identity = has_identity OR EXISTS (SELECT 1 FROM customer_identities WHERE customer_id = v_target.id),
+      risk_status = CASE
+        WHEN 'blocked' IN (risk_status, v_source.risk_status) THEN 'blocked'
+        WHEN 'watch' IN (risk_status, v_source.risk_status) THEN 'watch'
+        ELSE 'normal'
+      END,
+      risk_reason = NULLIF(concat_ws(' ; ', risk_reason, v_source.risk_reason), ''),
+      archived_at = CASE WHEN v_source.archived_at IS NULL THEN NULL ELSE archived_at END,
+      created_at = LEAST(created_at, v_source.created_at)
+  WHERE id = v_target.id;
+
+  DELETE FROM customers WHERE id = v_source.id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION merge_customers(
+  p_target_id uuid,
+  p_source_ids uuid[]
+) RETURNS void AS $$
+DECLARE
+  v_source_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Seul un administrateur peut fusionner des clients';
+  END IF;
+
+  FOREACH v_source_id IN ARRAY p_source_ids LOOP
+    PERFORM merge_customer_into(p_target_id, v_source_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Doublons existants : fusion dans la fiche la plus ancienne
+DO $$
+DECLARE
+  v_group record;
+  v_source_id uuid;
+BEGIN
+  FOR v_group IN
+    SELECT array_agg(id ORDER BY created_at, id) AS ids
+    FROM customers
+    GROUP BY normalize_phone(phone)
+    HAVING count(*) > 1
+  LOOP
+    FOREACH v_source_id IN ARRAY v_group.ids[2:] LOOP
+      PERFORM merge_customer_into(v_group.ids[1], v_source_id);
+    END LOOP;
+  END LOOP;
+END $$;
+
+-- Normalisation à l'écriture
+CREATE OR REPLACE FUNCTION normalize_customer_phone()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.phone := normalize_phone(NEW.phone);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION normalize_record_customer_phone()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.customer_phone := normalize_phone(NEW.customer_phone);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER normalize_customers_phone BEFORE INSERT OR UPDATE OF phone ON customers
+    FOR EACH ROW EXECUTE FUNCTION normalize_customer_phone();
+CREATE TRIGGER normalize_orders_customer_phone BEFORE INSERT OR UPDATE OF customer_phone ON orders
+    FOR EACH ROW EXECUTE FUNCTION normalize_record_customer_phone();
+CREATE TRIGGER normalize_transactions_customer_phone BEFORE INSERT OR UPDATE OF customer_phone ON transactions
+    FOR EACH ROW EXECUTE FUNCTION normalize_record_customer_phone();
+CREATE TRIGGER normalize_rentals_customer_phone BEFORE INSERT OR UPDATE OF customer_phone ON rentals
+    FOR EACH ROW EXECUTE FUNCTION normalize_record_customer_phone();
+CREATE TRIGGER normalize_payments_customer_phone BEFORE INSERT OR UPDATE OF customer_phone ON payments
+    FOR EACH ROW EXECUTE FUNCTION normalize_record_customer_phone();
+
+-- Numéros existants
+UPDATE customers SET phone = phone WHERE phone IS DISTINCT FROM normalize_phone(phone);
+UPDATE orders SET customer_phone = customer_phone WHERE customer_phone IS DISTINCT FROM normalize_phone(customer_phone);
+UPDATE transactions SET customer_phone = customer_phone WHERE customer_phone IS DISTINCT FROM normalize_phone(customer_phone);
+UPDATE rentals SET customer_phone = customer_phone WHERE customer_phone IS DISTINCT FROM normalize_phone(customer_phone);
+UPDATE payments SET customer_phone = customer_phone WHERE customer_phone IS DISTINCT FROM normalize_phone(customer_phone);
+
+-- Fonction pour créer automatiquement un client, retrouvé par numéro normalisé
+CREATE OR REPLACE FUNCTION create_customer_if_not_exists(
+  customer_name text,
+  customer_phone text,
+  customer_email text DEFAULT NULL
+) RETURNS uuid AS $$
+DECLARE
+  customer_id uuid;
+BEGIN
+  -- Chercher le client existant
+  SELECT id INTO customer_id FROM customers WHERE phone = normalize_phone(customer_phone);
+
+  -- Si le client n'existe pas, le créer
+  IF customer_id IS NULL THEN
+    INSERT INTO customers (name, phone, email)
+    VALUES (customer_name, customer_phone, customer_email)
+    RETURNING id INTO customer_id;
+  ELSE
+    -- Compléter l'email manquant ; le nom est modifié depuis la fiche client uniquement
+    UPDATE customers
+    SET email = COALESCE(email, customer_email),
+        archived_at = NULL
+    WHERE id = customer_id;
+  END IF;
+
+  RETURN customer_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,106 @@
+/*
+  # Mensurations des clients et guides des tailles
+
+  1. Nouvelles Tables
+    - `customer_measurements` - Relevés datés des mensurations d'un client (tour de poitrine, taille,
+      hanches, stature, carrure, longueur de manche en cm ; pointure EU). Le dernier relevé fait foi
+
+  2. Modifications
+    - `products.size_chart` - Mensurations couvertes par la taille du produit, en intervalles min/max
+      par mesure, ex. `{"bust": {"min": 84, "max": 90}}`
+
+  3. Fonctions modifiées
+    - `merge_customer_into` reprend aussi les relevés du client fusionné
+*/
+
+-- Table des relevés de mensurations
+CREATE TABLE IF NOT EXISTS customer_measurements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  bust decimal(5,1) CHECK (bust > 0),
+  waist decimal(5,1) CHECK (waist > 0),
+  hips decimal(5,1) CHECK (hips > 0),
+  height decimal(5,1) CHECK (height > 0),
+  shoulder decimal(5,1) CHECK (shoulder > 0),
+  sleeve decimal(5,1) CHECK (sleeve > 0),
+  shoe_size decimal(4,1) CHECK (shoe_size > 0),
+  notes text,
+  measured_at date NOT NULL DEFAULT CURRENT_DATE,
+  recorded_by_id uuid REFERENCES users(id),
+  recorded_by_name text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS customer_measurements_customer_idx ON customer_measurements(customer_id, measured_at DESC);
+
+-- Guide des tailles du produit
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'size_chart'
+  ) THEN
+    ALTER TABLE products ADD COLUMN size_chart jsonb NOT NULL DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+-- Enable RLS
+ALTER TABLE customer_measurements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read customer measurements" ON customer_measurements FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Users can manage customer measurements" ON customer_measurements FOR ALL TO authenticated USING (true);
+
+-- Fusion d'un client dans un autre, relevés de mensurations compris
+CREATE OR REPLACE FUNCTION merge_customer_into(
+  p_target_id uuid,
+  p_source_id uuid
+) RETURNS void AS $$
+DECLARE
+  v_target customers%ROWTYPE;
+  v_source customers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_target FROM customers WHERE id = p_target_id FOR UPDATE;
+  SELECT * INTO v_source FROM customers WHERE id = p_source_id FOR UPDATE;
+
+  IF v_target.id IS NULL OR v_source.id IS NULL THEN
+    RAISE EXCEPTION 'Client introuvable';
+  END IF;
+
+  IF v_target.id = v_source.id THEN
+    RAISE EXCEPTION 'Impossible de fusionner un client avec lui-même';
+  END IF;
+
+  -- L'historique est retrouvé par numéro : il suit le numéro du client cible
+  UPDATE orders SET customer_id = v_target.id, customer_phone = v_target.phone
+  WHERE customer_id = v_source.id OR customer_phone = v_source.phone;
+  UPDATE transactions SET customer_phone = v_target.phone WHERE customer_phone = v_source.phone;
+  UPDATE rentals SET customer_phone = v_target.phone WHERE customer_phone = v_source.phone;
+  UPDATE payments SET customer_phone = v_target.phone WHERE customer_phone = v_source.phone;
+
+  UPDATE customer_risk_overrides SET customer_id = v_target.id WHERE customer_id = v_source.id;
+  UPDATE customer_measurements SET customer_id = v_target.id WHERE customer_id = v_source.id;
+
+  -- La pièce d'identité du source n'est reprise que si la cible n'en a pas
+  IF NOT EXISTS (SELECT 1 FROM customer_identities WHERE customer_id = v_target.id) THEN
+    UPDATE customer_identities SET customer_id = v_target.id WHERE customer_id = v_source.id;
+  END IF;
+
+  -- Fiche cible complétée ; le statut de risque le plus sévère est conservé
+  UPDATE customers
+  SET email = COALESCE(email, v_source.email),
+      address = COALESCE(address, v_source.address),
+      notes = NULLIF(concat_ws(E'\n', notes, v_source.notes), ''),
+      has_identity = has_identity OR EXISTS (SELECT 1 FROM customer_identities WHERE customer_id = v_target.id),
+      risk_status = CASE
+        WHEN 'blocked' IN (risk_status, v_source.risk_status) THEN 'blocked'
+        WHEN 'watch' IN (risk_status, v_source.risk_status) THEN 'watch'
+        ELSE 'normal'
+      END,
+      risk_reason = NULLIF(concat_ws(' ; ', risk_reason, v_source.risk_reason), ''),
+      archived_at = CASE WHEN v_source.archived_at IS NULL THEN NULL ELSE archived_at END,
+      created_at = LEAST(created_at, v_source.created_at)
+  WHERE id = v_target.id;
+
+  DELETE FROM customers WHERE id = v_source.id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,85 @@
+/*
+  # Encaissement des soldes clients
+
+  1. Nouvelles Fonctions
+    - `settle_receivable(p_payment)` - Encaisse tout ou partie du solde restant d'une commande
+      (`order_id`) ou d'une location (`rental_id`) : met à jour le montant payé, le reste dû et le
+      statut de paiement, et enregistre le paiement dans le journal. Les encaissements concurrents
+      sur un même document sont sérialisés par le verrou de ligne
+*/
+
+CREATE OR REPLACE FUNCTION settle_receivable(p_payment jsonb)
+RETURNS void AS $$
+DECLARE
+  v_amount decimal(10,2) := (p_payment->>'amount')::decimal;
+  v_method text := COALESCE(p_payment->>'payment_method', 'cash');
+  v_order orders%ROWTYPE;
+  v_rental rentals%ROWTYPE;
+  v_order_id uuid;
+  v_remaining decimal(10,2);
+BEGIN
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Le montant encaissé doit être positif';
+  END IF;
+
+  IF p_payment->>'rental_id' IS NOT NULL THEN
+    SELECT * INTO v_rental FROM rentals WHERE id = (p_payment->>'rental_id')::uuid FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Location introuvable';
+    END IF;
+
+    IF v_amount > COALESCE(v_rental.remaining_amount, 0) THEN
+      RAISE EXCEPTION 'Le montant dépasse le reste dû (% DA)', COALESCE(v_rental.remaining_amount, 0);
+    END IF;
+
+    v_remaining := v_rental.remaining_amount - v_amount;
+
+    UPDATE rentals
+    SET amount_paid = COALESCE(amount_paid, 0) + v_amount,
+        remaining_amount = v_remaining,
+        payment_status = CASE WHEN v_remaining > 0 THEN 'partial' ELSE 'completed' END
+    WHERE id = v_rental.id;
+
+    SELECT order_id INTO v_order_id FROM transactions WHERE id = v_rental.transaction_id;
+
+    INSERT INTO payments (
+      order_id, transaction_id, rental_id, customer_name, customer_phone,
+      amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+    ) VALUES (
+      v_order_id, v_rental.transaction_id, v_rental.id, v_rental.customer_name, v_rental.customer_phone,
+      v_amount, v_remaining, v_method, 'payment',
+      (p_payment->>'agent_id')::uuid, p_payment->>'agent_name', 'Encaissement du solde', v_remaining = 0
+    );
+  ELSE
+    SELECT * INTO v_order FROM orders WHERE id = (p_payment->>'order_id')::uuid FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Commande introuvable';
+    END IF;
+
+    IF v_order.status = 'cancelled' THEN
+      RAISE EXCEPTION 'La commande % est annulée', v_order.receipt_number;
+    END IF;
+
+    IF v_amount > v_order.remaining_amount THEN
+      RAISE EXCEPTION 'Le montant dépasse le reste dû (% DA)', v_order.remaining_amount;
+    END IF;
+
+    v_remaining := v_order.remaining_amount - v_amount;
+
+    UPDATE orders
+    SET amount_paid = amount_paid + v_amount,
+        remaining_amount = v_remaining,
+        payment_status = CASE WHEN v_remaining > 0 THEN 'partial' ELSE 'completed' END
+    WHERE id = v_order.id;
+
+    INSERT INTO payments (
+      order_id, customer_name, customer_phone,
+      amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+    ) VALUES (
+      v_order.id, v_order.customer_name, v_order.customer_phone,
+      v_amount, v_remaining, v_method, 'payment',
+      (p_payment->>'agent_id')::uuid, p_payment->>'agent_name', 'Encaissement du solde', v_remaining = 0
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
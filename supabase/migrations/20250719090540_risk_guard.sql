@@ -0,0 +1,132 @@
+/*
+  # Statut de risque réservé aux administrateurs
+
+  1. Nouvelles Fonctions
+    - `update_customer_risk(p_customer_id, p_risk)` - Change le statut de risque d'un client ; l'agent
+      transmis (`agent_id`) doit être administrateur. La date et l'auteur du changement sont renseignés ici
+
+  2. Déclencheurs
+    - `guard_customer_risk` refuse toute autre écriture de `risk_status`, `risk_reason`, `risk_updated_at`
+      et `risk_updated_by_name` : la politique d'écriture des clients reste ouverte à tous les agents
+
+  3. Fonctions modifiées
+    - `merge_customer_into` est autorisé à reporter le statut le plus sévère sur le client cible
+
+  4. Limite
+    - Le déclencheur ferme l'écriture directe, mais `update_customer_risk` se fie à l'`agent_id` envoyé par
+      l'application, sans session Supabase Auth pour le confirmer : quiconque connaît l'identifiant d'un
+      administrateur (lisible dans `users`) peut débloquer un client en son nom
+*/
+
+-- Écritures du statut de risque limitées aux fonctions qui les autorisent
+CREATE OR REPLACE FUNCTION guard_customer_risk()
+RETURNS trigger AS $$
+BEGIN
+  IF current_setting('app.customer_risk_update', true) IS DISTINCT FROM 'on' AND (
+    TG_OP = 'INSERT' AND (NEW.risk_status <> 'normal' OR NEW.risk_reason IS NOT NULL) OR
+    TG_OP = 'UPDATE' AND (
+      NEW.risk_status IS DISTINCT FROM OLD.risk_status OR
+      NEW.risk_reason IS DISTINCT FROM OLD.risk_reason OR
+      NEW.risk_updated_at IS DISTINCT FROM OLD.risk_updated_at OR
+      NEW.risk_updated_by_name IS DISTINCT FROM OLD.risk_updated_by_name
+    )
+  ) THEN
+    RAISE EXCEPTION 'Seul un administrateur peut modifier le statut de risque d''un client';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_customer_risk ON customers;
+CREATE TRIGGER guard_customer_risk BEFORE INSERT OR UPDATE ON customers
+    FOR EACH ROW EXECUTE FUNCTION guard_customer_risk();
+
+CREATE OR REPLACE FUNCTION update_customer_risk(
+  p_customer_id uuid,
+  p_risk jsonb
+) RETURNS void AS $$
+DECLARE
+  v_status text := COALESCE(p_risk->>'risk_status', 'normal');
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = (p_risk->>'agent_id')::uuid AND role = 'admin') THEN
+    RAISE EXCEPTION 'Seul un administrateur peut modifier le statut de risque d''un client';
+  END IF;
+
+  IF v_status <> 'normal' AND COALESCE(p_risk->>'risk_reason', '') = '' THEN
+    RAISE EXCEPTION 'Veuillez indiquer le motif';
+  END IF;
+
+  PERFORM set_config('app.customer_risk_update', 'on', true);
+
+  UPDATE customers
+  SET risk_status = v_status,
+      risk_reason = NULLIF(p_risk->>'risk_reason', ''),
+      risk_updated_at = now(),
+      risk_updated_by_name = p_risk->>'agent_name'
+  WHERE id = p_customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client introuvable';
+  END IF;
+
+  PERFORM set_config('app.customer_risk_update', 'off', true);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION merge_customer_into(
+  p_target_id uuid,
+  p_source_id uuid
+) RETURNS void AS $$
+DECLARE
+  v_target customers%ROWTYPE;
+  v_source customers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_target FROM customers WHERE id = p_target_id FOR UPDATE;
+  SELECT * INTO v_source FROM customers WHERE id = p_source_id FOR UPDATE;
+
+  IF v_target.id IS NULL OR v_source.id IS NULL THEN
+    RAISE EXCEPTION 'Client introuvable';
+  END IF;
+
+  IF v_target.id = v_source.id THEN
+    RAISE EXCEPTION 'Impossible de fusionner un client avec lui-même';
+  END IF;
+
+  -- L'historique est retrouvé par numéro : il suit le numéro du client cible
+  UPDATE orders SET customer_id = v_target.id, customer_phone = v_target.phone
+  WHERE customer_id = v_source.id OR customer_phone = v_source.phone;
+  UPDATE transactions SET customer_phone = v_target.phone WHERE customer_phone = v_source.phone;
+  UPDATE rentals SET customer_phone = v_target.phone WHERE customer_phone = v_source.phone;
+  UPDATE payments SET customer_phone = v_target.phone WHERE customer_phone = v_source.phone;
+
+  UPDATE customer_risk_overrides SET customer_id = v_target.id WHERE customer_id = v_source.id;
+  UPDATE customer_measurements SET customer_id = v_target.id WHERE customer_id = v_source.id;
+
+  -- La pièce d'identité du source n'est reprise que si la cible n'en a pas
+  IF NOT EXISTS (SELECT 1 FROM customer_identities WHERE customer_id = v_target.id) THEN
+    UPDATE customer_identities SET customer_id = v_target.id WHERE customer_id = v_source.id;
+  END IF;
+
+  -- Fiche cible complétée ; le statut de risque le plus sévère est conservé
+  PERFORM set_config('app.customer_risk_update', 'on', true);
+  UPDATE customers
+  SET email = COALESCE(email, v_source.email),
+      address = COALESCE(address, v_source.address),
+      notes = NULLIF(concat_ws(E'\n', notes, v_source.notes), ''),
+      has_identity = has_identity OR EXISTS (SELECT 1 FROM customer_identities WHERE customer_id = v_target.id),
+      risk_status = CASE
+        WHEN 'blocked' IN (risk_status, v_source.risk_status) THEN 'blocked'
+        WHEN 'watch' IN (risk_status, v_source.risk_status) THEN 'watch'
+        ELSE 'normal'
+      END,
+      risk_reason = NULLIF(concat_ws(' ; ', risk_reason, v_source.risk_reason), ''),
+      archived_at = CASE WHEN v_source.archived_at IS NULL THEN NULL ELSE archived_at END,
+      created_at = LEAST(created_at, v_source.created_at)
+  WHERE id = v_target.id;
+
+  PERFORM set_config('app.customer_risk_update', 'off', true);
+
+  DELETE FROM customers WHERE id = v_source.id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,32 @@
+/*
+  # Fusion des clients : contrôle du rôle administrateur
+
+  1. Fonctions modifiées
+    - `merge_customers(p_target_id, p_source_ids, p_agent_id)` vérifie le rôle de l'agent transmis au lieu de
+      `auth.uid()`, toujours vide avec la connexion par la table `users`
+
+  2. Limite
+    - L'agent transmis n'est pas authentifié par la base. La fusion, définitive, reste accessible à un appel
+      direct à l'API portant l'identifiant d'un administrateur ; seule une connexion par Supabase Auth
+      permettrait de la réserver réellement
+*/
+
+DROP FUNCTION IF EXISTS merge_customers(uuid, uuid[]);
+
+CREATE OR REPLACE FUNCTION merge_customers(
+  p_target_id uuid,
+  p_source_ids uuid[],
+  p_agent_id uuid
+) RETURNS void AS $$
+DECLARE
+  v_source_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_agent_id AND role = 'admin') THEN
+    RAISE EXCEPTION 'Seul un administrateur peut fusionner des clients';
+  END IF;
+
+  FOREACH v_source_id IN ARRAY p_source_ids LOOP
+    PERFORM merge_customer_into(p_target_id, v_source_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,461 @@
+/*
+  # Pièces d'identité : accès administrateur et validité
+
+  La connexion passe par la table `users` et non par Supabase Auth : `auth.uid()` est toujours vide et les
+  politiques réservées aux administrateurs ne distinguaient pas les rôles.
+
+  Limite : sans session Supabase Auth, la base ne sait pas qui appelle. Le rôle contrôlé est celui de l'agent
+  dont l'application transmet l'identifiant, et les identifiants de `users` sont lisibles par toute session :
+  un appel forgé avec l'identifiant d'un administrateur passe le contrôle. Ces fonctions empêchent un agent
+  d'ouvrir les pièces depuis l'application, elles ne les protègent pas d'un accès direct à l'API. Seul le
+  passage de la connexion sur Supabase Auth (`auth.uid()`) permettrait de le faire.
+
+  1. Sécurité
+    - `customer_identities` n'est plus accessible directement ; lecture et écriture passent par des fonctions
+      qui vérifient le rôle administrateur de l'agent transmis
+    - Les scans du bucket `customer-documents` ne sont lisibles et supprimables que pendant une minute après
+      l'autorisation donnée par l'une de ces fonctions (`customer_document_access`)
+
+  2. Nouvelles Fonctions
+    - `customer_has_valid_identity(p_customer_id)` - Pièce enregistrée et non expirée
+    - `get_customer_identity(p_customer_id, p_agent_id)` - Pièce du client
+    - `save_customer_identity(p_identity)` - Enregistre ou remplace la pièce ; renvoie le chemin de l'ancien
+      scan remplacé, à supprimer du bucket
+    - `delete_customer_identity(p_customer_id, p_agent_id)` - Supprime la pièce ; renvoie le chemin du scan
+    - `open_identity_scan(p_customer_id, p_agent_id)` - Autorise la consultation du scan et renvoie son chemin
+
+  3. Fonctions modifiées
+    - `merge_customers` s'exécute avec les droits du propriétaire pour reprendre la pièce du client source
+    - `checkout_order` vérifie la pièce elle-même et sa date d'expiration, et non plus `customers.has_identity`
+*/
+
+-- Accès direct fermé : aucune politique sur la table
+DROP POLICY IF EXISTS "Admins can read customer identities" ON customer_identities;
+DROP POLICY IF EXISTS "Admins can manage customer identities" ON customer_identities;
+
+-- Autorisations temporaires d'accès aux scans
+CREATE TABLE IF NOT EXISTS customer_document_access (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  path text NOT NULL,
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '1 minute'
+);
+
+CREATE INDEX IF NOT EXISTS customer_document_access_path_idx ON customer_document_access(path);
+
+ALTER TABLE customer_document_access ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION can_access_customer_document(p_path text)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (SELECT 1 FROM customer_document_access WHERE path = p_path AND expires_at > now());
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Admins can read customer documents" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can upload customer documents" ON storage.objects;
+
+CREATE POLICY "Users can upload customer documents" ON storage.objects
+  FOR INSERT TO authenticated WITH CHECK (bucket_id = 'customer-documents');
+CREATE POLICY "Users can read granted customer documents" ON storage.objects
+  FOR SELECT TO authenticated USING (bucket_id = 'customer-documents' AND can_access_customer_document(name));
+CREATE POLICY "Users can delete granted customer documents" ON storage.objects
+  FOR DELETE TO authenticated USING (bucket_id = 'customer-documents' AND can_access_customer_document(name));
+
+CREATE OR REPLACE FUNCTION customer_has_valid_identity(p_customer_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM customer_identities
+    WHERE customer_id = p_customer_id
+      AND (expiry_date IS NULL OR expiry_date >= current_date)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Rôle de l'agent transmis par l'application, qui n'est pas authentifié (voir la limite en tête)
+CREATE OR REPLACE FUNCTION check_identity_admin(p_agent_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_agent_id AND role = 'admin') THEN
+    RAISE EXCEPTION 'Les pièces d''identité sont réservées aux administrateurs';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Autorise pour une minute la lecture ou la suppression d'un scan
+CREATE OR REPLACE FUNCTION grant_customer_document_access(p_path text)
+RETURNS text AS $$
+BEGIN
+  IF p_path IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM customer_document_access WHERE expires_at <= now();
+  INSERT INTO customer_document_access (path) VALUES (p_path);
+
+  RETURN p_path;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Seules les fonctions ci-dessous accordent l'accès
+REVOKE EXECUTE ON FUNCTION grant_customer_document_access(text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_customer_identity(
+  p_customer_id uuid,
+  p_agent_id uuid
+) RETURNS jsonb AS $$
+BEGIN
+  PERFORM check_identity_admin(p_agent_id);
+
+  RETURN (SELECT to_jsonb(ci) FROM customer_identities ci WHERE ci.customer_id = p_customer_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION save_customer_identity(p_identity jsonb)
+RETURNS text AS $$
+DECLARE
+  v_customer_id uuid := (p_identity->>'customer_id')::uuid;
+  v_previous_scan text;
+BEGIN
+  PERFORM check_identity_admin((p_identity->>'agent_id')::uuid);
+
+  SELECT scan_path INTO v_previous_scan FROM customer_identities WHERE customer_id = v_customer_id FOR UPDATE;
+
+  INSERT INTO customer_identities (
+    customer_id, document_type, document_number, expiry_date, scan_path, recorded_by_id, recorded_by_name
+  ) VALUES (
+    v_customer_id,
+    p_identity->>'document_type',
+    p_identity->>'document_number',
+    NULLIF(p_identity->>'expiry_date', '')::date,
+    NULLIF(p_identity->>'scan_path', ''),
+    (p_identity->>'agent_id')::uuid,
+    p_identity->>'agent_name'
+  )
+  ON CONFLICT (customer_id) DO UPDATE
+  SET document_type = EXCLUDED.document_type,
+      document_number = EXCLUDED.document_number,
+      expiry_date = EXCLUDED.expiry_date,
+      scan_path = COALESCE(EXCLUDED.scan_path, customer_identities.scan_path),
+      recorded_by_id = EXCLUDED.recorded_by_id,
+      recorded_by_name = EXCLUDED.recorded_by_name;
+
+  -- Un nouveau scan remplace l'ancien, qui doit être supprimé du bucket
+  IF NULLIF(p_identity->>'scan_path', '') IS NOT NULL AND v_previous_scan IS DISTINCT FROM p_identity->>'scan_path' THEN
+    RETURN grant_customer_document_access(v_previous_scan);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION delete_customer_identity(
+  p_customer_id uuid,
+  p_agent_id uuid
+) RETURNS text AS $$
+DECLARE
+  v_scan_path text;
+BEGIN
+  PERFORM check_identity_admin(p_agent_id);
+
+  DELETE FROM customer_identities WHERE customer_id = p_customer_id
+  RETURNING scan_path INTO v_scan_path;
+
+  RETURN grant_customer_document_access(v_scan_path);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION open_identity_scan(
+  p_customer_id uuid,
+  p_agent_id uuid
+) RETURNS text AS $$
+DECLARE
+  v_scan_path text;
+BEGIN
+  PERFORM check_identity_admin(p_agent_id);
+
+  SELECT scan_path INTO v_scan_path FROM customer_identities WHERE customer_id = p_customer_id;
+  IF v_scan_path IS NULL THEN
+    RAISE EXCEPTION 'Aucun scan enregistré pour ce client';
+  END IF;
+
+  RETURN grant_customer_document_access(v_scan_path);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Fusion : la pièce du client source est reprise malgré la table fermée
+CREATE OR REPLACE FUNCTION merge_customers(
+  p_target_id uuid,
+  p_source_ids uuid[],
+  p_agent_id uuid
+) RETURNS void AS $$
+DECLARE
+  v_source_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_agent_id AND role = 'admin') THEN
+    RAISE EXCEPTION 'Seul un administrateur peut fusionner des clients';
+  END IF;
+
+  FOREACH v_source_id IN ARRAY p_source_ids LOOP
+    PERFORM merge_customer_into(p_target_id, v_source_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Encaissement soumis à une pièce d'identité valide
+CREATE OR REPLACE FUNCTION checkout_order(
+  p_order jsonb,
+  p_items jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_customer_id uuid;
+  v_order_id uuid;
+  v_transaction_id uuid;
+  v_rental_id uuid;
+  v_unit_id uuid;
+  v_tried_units uuid[];
+  v_item jsonb;
+  v_rental jsonb;
+  v_product products%ROWTYPE;
+  v_index integer := -1;
+  v_quantity integer;
+  v_start date;
+  v_end date;
+  v_buffer_days integer;
+  v_identity_threshold decimal(10,2);
+  v_has_identity boolean;
+  v_risk_status text;
+  v_risk_override boolean := false;
+  v_error_code text;
+  v_result jsonb;
+BEGIN
+  BEGIN
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+      RAISE EXCEPTION 'Le panier est vide' USING HINT = 'empty_cart';
+    END IF;
+
+    IF COALESCE(p_order->>'customer_name', '') = '' OR COALESCE(p_order->>'customer_phone', '') = '' THEN
+      RAISE EXCEPTION 'Veuillez renseigner au minimum le nom et téléphone du client' USING HINT = 'missing_customer';
+    END IF;
+
+    v_customer_id := create_customer_if_not_exists(
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_email', '')
+    );
+
+    SELECT COALESCE(identity_threshold, 0) INTO v_identity_threshold FROM store_settings WHERE id = true;
+    SELECT risk_status INTO v_risk_status FROM customers WHERE id = v_customer_id;
+    v_has_identity := customer_has_valid_identity(v_customer_id);
+
+    -- Client bloqué : aucune location sans dérogation motivée d'un administrateur
+    IF v_risk_status = 'blocked' AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_items) AS item WHERE item->>'type' = 'rental'
+    ) THEN
+      IF COALESCE(p_order->>'risk_override_reason', '') = '' OR NOT EXISTS (
+        SELECT 1 FROM users WHERE id = (p_order->>'agent_id')::uuid AND role = 'admin'
+      ) THEN
+        RAISE EXCEPTION 'Ce client est bloqué pour la location' USING HINT = 'customer_blocked';
+      END IF;
+
+      v_risk_override := true;
+    END IF;
+
+    INSERT INTO orders (
+      customer_id, customer_name, customer_phone, customer_email,
+      subtotal, discount_amount, total_amount, amount_paid, remaining_amount, payment_status,
+      status, agent_id, agent_name, notes
+    ) VALUES (
+      v_customer_id,
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_email', ''),
+      COALESCE((p_order->>'subtotal')::decimal, 0),
+      COALESCE((p_order->>'discount_amount')::decimal, 0),
+      COALESCE((p_order->>'total_amount')::decimal, 0),
+      COALESCE((p_order->>'amount_paid')::decimal, (p_order->>'total_amount')::decimal, 0),
+      COALESCE((p_order->>'remaining_amount')::decimal, 0),
+      COALESCE(p_order->>'payment_status', 'completed'),
+      'completed',
+      (p_order->>'agent_id')::uuid,
+      p_order->>'agent_name',
+      p_order->>'notes'
+    )
+    RETURNING id INTO v_order_id;
+
+    IF v_risk_override THEN
+      INSERT INTO customer_risk_overrides (customer_id, order_id, reason, admin_id, admin_name)
+      VALUES (v_customer_id, v_order_id, p_order->>'risk_override_reason', (p_order->>'agent_id')::uuid, p_order->>'agent_name');
+    END IF;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+      v_index := v_index + 1;
+      v_quantity := COALESCE((v_item->>'quantity')::integer, 1);
+
+      SELECT * INTO v_product FROM products WHERE id = (v_item->>'product_id')::uuid FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Produit introuvable' USING HINT = 'product_not_found';
+      END IF;
+
+      INSERT INTO transactions (
+        order_id, type, product_id, product_name, quantity, unit_price, total_amount,
+        amount_paid, remaining_amount, payment_status, discount, discount_amount,
+        surcharge_amount, surcharge_label,
+        customer_name, customer_phone, customer_email, status, agent_id, agent_name
+      ) VALUES (
+        v_order_id,
+        v_item->>'type',
+        v_product.id,
+        v_product.name,
+        v_quantity,
+        (v_item->>'unit_price')::decimal,
+        (v_item->>'total_amount')::decimal,
+        (v_item->>'total_amount')::decimal,
+        0,
+        'completed',
+        COALESCE((v_item->>'discount')::decimal, 0),
+        COALESCE((v_item->>'discount_amount')::decimal, 0),
+        COALESCE((v_item->>'surcharge_amount')::decimal, 0),
+        NULLIF(v_item->>'surcharge_label', ''),
+        p_order->>'customer_name',
+        p_order->>'customer_phone',
+        NULLIF(p_order->>'customer_email', ''),
+        'completed',
+        (p_order->>'agent_id')::uuid,
+        p_order->>'agent_name'
+      )
+      RETURNING id INTO v_transaction_id;
+
+      IF v_item->>'type' = 'sale' THEN
+        IF v_product.stock < v_quantity THEN
+          RAISE EXCEPTION 'Stock insuffisant pour %', v_product.name USING HINT = 'insufficient_stock';
+        END IF;
+
+        INSERT INTO stock_movements (product_id, movement_type, quantity, reference, order_id, agent_id, agent_name)
+        SELECT v_product.id, 'sale', -v_quantity, o.receipt_number, o.id, o.agent_id, o.agent_name
+        FROM orders o
+        WHERE o.id = v_order_id;
+      ELSE
+        IF NOT v_product.is_available_for_rental THEN
+          RAISE EXCEPTION 'Le produit % n''est pas disponible pour la location', v_product.name USING HINT = 'not_rentable';
+        END IF;
+
+        v_rental := v_item->'rental';
+        v_start := (v_rental->>'start_date')::date;
+        v_end := (v_rental->>'end_date')::date;
+
+        IF v_start IS NULL OR v_end IS NULL OR v_end < v_start THEN
+          RAISE EXCEPTION 'Veuillez définir les dates de location pour %', v_product.name USING HINT = 'invalid_dates';
+        END IF;
+
+        -- Pièce d'identité en cours de validité exigée par le produit ou au-delà du seuil de prix par article
+        IF NOT COALESCE(v_has_identity, false) AND (
+          v_product.requires_identity OR
+          (COALESCE(v_identity_threshold, 0) > 0 AND (v_rental->>'total_amount')::decimal >= v_identity_threshold)
+        ) THEN
+          RAISE EXCEPTION 'Une pièce d''identité valide du client doit être enregistrée pour louer %', v_product.name
+            USING HINT = 'identity_required';
+        END IF;
+
+        -- L'exemplaire doit aussi être libre pendant le battement qui suit la location
+        v_buffer_days := get_buffer_days(v_product.id);
+
+        -- Une location par exemplaire loué. Le verrou sur l'exemplaire écarte les encaissements
+        -- concurrents ; l'index unique du calendrier garantit qu'un jour n'est jamais réservé deux fois.
+        FOR i IN 1..v_quantity LOOP
+          v_tried_units := '{}';
+
+          LOOP
+            SELECT u.id INTO v_unit_id
+            FROM product_units u
+            WHERE u.product_id = v_product.id
+              AND u.status = 'active'
+              AND u.id <> ALL(v_tried_units)
+              AND NOT EXISTS (
+                SELECT 1 FROM rental_calendar rc
+                WHERE rc.unit_id = u.id
+                  AND rc.status IN ('reserved', 'occupied', 'buffer', 'maintenance')
+                  AND rc.reserved_date BETWEEN v_start AND v_end + v_buffer_days
+              )
+            ORDER BY u.unit_code
+            LIMIT 1
+            FOR UPDATE OF u SKIP LOCKED;
+
+            IF v_unit_id IS NULL THEN
+              RAISE EXCEPTION '% est déjà réservé pour ces dates', v_product.name USING HINT = 'already_reserved';
+            END IF;
+
+            BEGIN
+              INSERT INTO rentals (
+                transaction_id, product_id, unit_id, customer_name, customer_phone, customer_email,
+                rental_start_date, rental_end_date, rental_days, daily_rate, total_amount, pricing_rule_name,
+                amount_paid, remaining_amount, payment_status, discount, discount_amount, deposit_amount,
+                contract_signature, contract_signed_at,
+                status, agent_id, agent_name
+              ) VALUES (
+                v_transaction_id,
+                v_product.id,
+                v_unit_id,
+                p_order->>'customer_name',
+                p_order->>'customer_phone',
+                NULLIF(p_order->>'customer_email', ''),
+                v_start,
+                v_end,
+                (v_rental->>'rental_days')::integer,
+                (v_rental->>'daily_rate')::decimal,
+                (v_rental->>'total_amount')::decimal,
+                NULLIF(v_rental->>'pricing_rule_name', ''),
+                (v_rental->>'total_amount')::decimal,
+                0,
+                'completed',
+                COALESCE((v_item->>'discount')::decimal, 0),
+                COALESCE((v_rental->>'discount_amount')::decimal, 0),
+                COALESCE((v_rental->>'deposit_amount')::decimal, 0),
+                NULLIF(v_rental->>'signature', ''),
+                CASE WHEN COALESCE(v_rental->>'signature', '') <> '' THEN now() END,
+                'booked',
+                (p_order->>'agent_id')::uuid,
+                p_order->>'agent_name'
+              )
+              RETURNING id INTO v_rental_id;
+
+              INSERT INTO rental_calendar (product_id, unit_id, rental_id, reserved_date, status)
+              SELECT v_product.id, v_unit_id, v_rental_id, day::date, 'reserved'
+              FROM generate_series(v_start, v_end, interval '1 day') AS day;
+
+              PERFORM place_rental_buffer(v_rental_id, v_end);
+
+              EXIT;
+            EXCEPTION
+              WHEN unique_violation THEN
+                -- Exemplaire réservé entre-temps par un autre poste : essayer le suivant
+                v_tried_units := array_append(v_tried_units, v_unit_id);
+            END;
+          END LOOP;
+        END LOOP;
+      END IF;
+    END LOOP;
+  EXCEPTION
+    WHEN raise_exception THEN
+      GET STACKED DIAGNOSTICS v_error_code = PG_EXCEPTION_HINT;
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', jsonb_build_object(
+          'code', COALESCE(NULLIF(v_error_code, ''), 'checkout_failed'),
+          'message', SQLERRM,
+          'item_index', CASE WHEN v_index >= 0 THEN v_index END
+        )
+      );
+  END;
+
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'transactions',
+    COALESCE((SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at, t.id) FROM transactions t WHERE t.order_id = o.id), '[]'::jsonb)
+  )
+  INTO v_result
+  FROM orders o
+  WHERE o.id = v_order_id;
+
+  RETURN jsonb_build_object('success', true, 'order', v_result);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,117 @@
+/*
+  # Annulation d'une location réservée
+
+  1. Nouvelles Fonctions
+    - `cancel_rental(p_rental_id, p_cancel)` - Annule en une seule transaction une location encore réservée :
+      - libère les jours du calendrier, battement compris
+      - restitue la caution détenue (paiement `deposit_refund`)
+      - rembourse ce qui a été réglé sur la location elle-même (prolongations, soldes encaissés)
+      - passe la ligne de commande en `cancelled`, retire son montant du total de la commande et recalcule
+        le reste dû ; le trop-perçu éventuel est remboursé (paiement négatif sur la commande)
+      - annule la commande lorsque toutes ses lignes le sont
+*/
+
+CREATE OR REPLACE FUNCTION cancel_rental(
+  p_rental_id uuid,
+  p_cancel jsonb
+) RETURNS jsonb AS $$
+DECLARE
+  v_rental rentals%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_method text := COALESCE(p_cancel->>'payment_method', 'cash');
+  v_booked decimal(10,2);
+  v_rental_paid decimal(10,2);
+  v_total decimal(10,2);
+  v_refund decimal(10,2);
+BEGIN
+  SELECT * INTO v_rental FROM rentals WHERE id = p_rental_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Location introuvable';
+  END IF;
+
+  IF v_rental.status <> 'booked' THEN
+    RAISE EXCEPTION 'Seule une location réservée peut être annulée';
+  END IF;
+
+  SELECT * INTO v_transaction FROM transactions WHERE id = v_rental.transaction_id FOR UPDATE;
+  SELECT * INTO v_order FROM orders WHERE id = v_transaction.order_id FOR UPDATE;
+
+  -- Montant réservé à la caisse, hors prolongations
+  v_booked := v_rental.total_amount - COALESCE((SELECT SUM(amount) FROM rental_extensions WHERE rental_id = p_rental_id), 0);
+  SELECT COALESCE(SUM(amount_paid), 0) INTO v_rental_paid
+  FROM payments
+  WHERE rental_id = p_rental_id AND payment_type = 'payment';
+
+  UPDATE rentals
+  SET status = 'cancelled',
+      remaining_amount = 0
+  WHERE id = p_rental_id;
+
+  UPDATE rental_calendar SET status = 'available' WHERE rental_id = p_rental_id;
+
+  IF v_rental.deposit_status = 'held' THEN
+    INSERT INTO payments (
+      order_id, transaction_id, rental_id, customer_name, customer_phone,
+      amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+    ) VALUES (
+      v_order.id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+      v_rental.deposit_amount, 0, v_method, 'deposit_refund',
+      (p_cancel->>'agent_id')::uuid, p_cancel->>'agent_name', 'Caution restituée (location annulée)', true
+    );
+
+    UPDATE rentals
+    SET deposit_status = 'refunded',
+        deposit_refunded = deposit_amount
+    WHERE id = p_rental_id;
+  END IF;
+
+  IF v_rental_paid > 0 THEN
+    INSERT INTO payments (
+      order_id, transaction_id, rental_id, customer_name, customer_phone,
+      amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+    ) VALUES (
+      v_order.id, v_rental.transaction_id, p_rental_id, v_rental.customer_name, v_rental.customer_phone,
+      -v_rental_paid, 0, v_method, 'payment',
+      (p_cancel->>'agent_id')::uuid, p_cancel->>'agent_name', 'Remboursement (location annulée)', true
+    );
+  END IF;
+
+  -- Une ligne de commande par exemplaire loué : seule la part de cette location est retirée
+  UPDATE transactions
+  SET status = CASE WHEN quantity > 1 THEN status ELSE 'cancelled' END,
+      quantity = GREATEST(quantity - 1, 1),
+      total_amount = total_amount - CASE WHEN quantity > 1 THEN v_booked ELSE 0 END
+  WHERE id = v_transaction.id;
+
+  IF v_order.id IS NOT NULL THEN
+    v_total := GREATEST(0, v_order.total_amount - v_booked);
+    v_refund := GREATEST(0, COALESCE(v_order.amount_paid, 0) - v_total);
+
+    -- Trop-perçu rendu au client : le règlement à la caisse reste visible, le remboursement s'y ajoute
+    IF v_refund > 0 THEN
+      INSERT INTO payments (
+        order_id, transaction_id, customer_name, customer_phone,
+        amount_paid, remaining_amount, payment_method, payment_type, agent_id, agent_name, notes, is_completed
+      ) VALUES (
+        v_order.id, v_rental.transaction_id, v_rental.customer_name, v_rental.customer_phone,
+        -v_refund, 0, v_method, 'payment',
+        (p_cancel->>'agent_id')::uuid, p_cancel->>'agent_name', 'Remboursement (location annulée)', true
+      );
+    END IF;
+
+    UPDATE orders
+    SET total_amount = v_total,
+        amount_paid = COALESCE(amount_paid, 0) - v_refund,
+        remaining_amount = v_total - (COALESCE(amount_paid, 0) - v_refund),
+        payment_status = CASE WHEN v_total - (COALESCE(amount_paid, 0) - v_refund) > 0 THEN 'partial' ELSE 'completed' END,
+        status = CASE
+          WHEN NOT EXISTS (SELECT 1 FROM transactions WHERE order_id = v_order.id AND status <> 'cancelled') THEN 'cancelled'
+          ELSE status
+        END
+    WHERE id = v_order.id;
+  END IF;
+
+  RETURN (SELECT to_jsonb(r) FROM rentals r WHERE r.id = p_rental_id);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,124 @@
+/*
+  # Entretien : blocage du produit entier et des tickets en retard
+
+  1. Nouvelles Fonctions
+    - `extend_overdue_maintenance()` - Prolonge jusqu'à aujourd'hui le blocage des exemplaires dont le ticket
+      est encore ouvert après la date de retour prévue : l'exemplaire reste indisponible jusqu'à la clôture
+
+  2. Fonctions modifiées
+    - `open_maintenance_ticket` bloque tous les exemplaires actifs lorsque le ticket porte sur le produit entier
+    - `mark_overdue_rentals`, exécutée chaque nuit et au chargement de l'application, prolonge aussi les
+      tickets d'entretien en retard
+
+  3. Données existantes
+    - Les tickets ouverts sur un produit entier bloquent ses exemplaires, et les tickets en retard sont prolongés
+*/
+
+-- Ouverture d'un ticket d'entretien
+CREATE OR REPLACE FUNCTION open_maintenance_ticket(p_ticket jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_ticket maintenance_tickets%ROWTYPE;
+  v_unit product_units%ROWTYPE;
+BEGIN
+  IF (p_ticket->>'unit_id') IS NOT NULL THEN
+    SELECT * INTO v_unit FROM product_units WHERE id = (p_ticket->>'unit_id')::uuid FOR UPDATE;
+    IF NOT FOUND OR v_unit.product_id <> (p_ticket->>'product_id')::uuid THEN
+      RAISE EXCEPTION 'Exemplaire introuvable pour ce produit';
+    END IF;
+  END IF;
+
+  INSERT INTO maintenance_tickets (
+    product_id, unit_id, ticket_type, vendor, sent_date, expected_return_date, cost, notes, agent_id, agent_name
+  ) VALUES (
+    (p_ticket->>'product_id')::uuid,
+    (p_ticket->>'unit_id')::uuid,
+    p_ticket->>'ticket_type',
+    p_ticket->>'vendor',
+    COALESCE((p_ticket->>'sent_date')::date, current_date),
+    (p_ticket->>'expected_return_date')::date,
+    COALESCE((p_ticket->>'cost')::decimal, 0),
+    NULLIF(p_ticket->>'notes', ''),
+    (p_ticket->>'agent_id')::uuid,
+    p_ticket->>'agent_name'
+  )
+  RETURNING * INTO v_ticket;
+
+  -- Un ticket sur le produit entier bloque tous ses exemplaires actifs
+  BEGIN
+    INSERT INTO rental_calendar (product_id, unit_id, maintenance_ticket_id, reserved_date, status)
+    SELECT v_ticket.product_id, u.id, v_ticket.id, day::date, 'maintenance'
+    FROM product_units u
+    CROSS JOIN generate_series(
+      v_ticket.sent_date, GREATEST(v_ticket.expected_return_date, current_date), interval '1 day'
+    ) AS day
+    WHERE u.product_id = v_ticket.product_id
+      AND u.status = 'active'
+      AND (v_ticket.unit_id IS NULL OR u.id = v_ticket.unit_id);
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'L''exemplaire est réservé pendant la période d''entretien' USING HINT = 'already_reserved';
+  END;
+
+  RETURN to_jsonb(v_ticket);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Tickets en retard : l'exemplaire est toujours chez le prestataire
+CREATE OR REPLACE FUNCTION extend_overdue_maintenance()
+RETURNS void AS $$
+BEGIN
+  INSERT INTO rental_calendar (product_id, unit_id, maintenance_ticket_id, reserved_date, status)
+  SELECT DISTINCT rc.product_id, rc.unit_id, t.id, day::date, 'maintenance'
+  FROM maintenance_tickets t
+  JOIN rental_calendar rc ON rc.maintenance_ticket_id = t.id
+  CROSS JOIN generate_series(t.expected_return_date + 1, current_date, interval '1 day') AS day
+  WHERE t.status = 'open'
+    AND t.expected_return_date < current_date
+  ON CONFLICT (unit_id, reserved_date) WHERE status IN ('reserved', 'occupied', 'buffer', 'maintenance') DO NOTHING;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION mark_overdue_rentals()
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE rentals r
+  SET status = 'overdue',
+      late_fee = f.fee,
+      remaining_amount = GREATEST(0, COALESCE(r.remaining_amount, 0) - COALESCE(r.late_fee, 0) + f.fee),
+      payment_status = CASE
+        WHEN COALESCE(r.remaining_amount, 0) - COALESCE(r.late_fee, 0) + f.fee > 0 THEN 'partial'
+        ELSE r.payment_status
+      END
+  FROM (
+    SELECT id, compute_late_fee(rental_end_date, current_date) AS fee
+    FROM rentals
+    WHERE status IN ('picked_up', 'overdue')
+      AND rental_end_date < current_date
+  ) f
+  WHERE r.id = f.id
+    AND (r.status <> 'overdue' OR COALESCE(r.late_fee, 0) <> f.fee);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM extend_overdue_maintenance();
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Tickets ouverts sur un produit entier
+INSERT INTO rental_calendar (product_id, unit_id, maintenance_ticket_id, reserved_date, status)
+SELECT t.product_id, u.id, t.id, day::date, 'maintenance'
+FROM maintenance_tickets t
+JOIN product_units u ON u.product_id = t.product_id AND u.status = 'active'
+CROSS JOIN generate_series(
+  GREATEST(t.sent_date, current_date), GREATEST(t.expected_return_date, current_date), interval '1 day'
+) AS day
+WHERE t.status = 'open'
+  AND t.unit_id IS NULL
+ON CONFLICT (unit_id, reserved_date) WHERE status IN ('reserved', 'occupied', 'buffer', 'maintenance') DO NOTHING;
+
+SELECT extend_overdue_maintenance();
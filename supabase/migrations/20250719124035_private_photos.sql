@@ -0,0 +1,26 @@
+/*
+  # Photos de contrôle dans un bucket privé
+
+  1. Stockage
+    - Le bucket `rental-inspections` devient privé : les photos sont consultées par lien temporaire
+    - Les photos qui ne sont rattachées à aucun retour (retour refusé après l'envoi) peuvent être supprimées
+
+  2. Données existantes
+    - Les URLs publiques enregistrées dans `rentals.inspection` sont remplacées par le chemin de la photo
+*/
+
+UPDATE storage.buckets SET public = false WHERE id = 'rental-inspections';
+
+CREATE POLICY "Users can delete orphan inspection photos" ON storage.objects
+  FOR DELETE TO authenticated USING (
+    bucket_id = 'rental-inspections' AND NOT EXISTS (
+      SELECT 1 FROM rentals WHERE inspection->'photos' ? storage.objects.name
+    )
+  );
+
+UPDATE rentals
+SET inspection = jsonb_set(inspection, '{photos}', (
+  SELECT COALESCE(jsonb_agg(regexp_replace(photo, '^.*/object/public/rental-inspections/', '')), '[]'::jsonb)
+  FROM jsonb_array_elements_text(inspection->'photos') AS photo
+))
+WHERE jsonb_typeof(inspection->'photos') = 'array';
@@ -0,0 +1,34 @@
+/*
+  # Recherche de disponibilité côté serveur
+
+  1. Nouvelles Fonctions
+    - `search_available_units(p_start, p_end)` - Produits louables ayant au moins un exemplaire libre sur
+      toute la période, battement du produit compris, avec la liste de ces exemplaires. Le filtre est fait
+      en base : la recherche ne dépend plus du nombre de jours réservés dans `rental_calendar`, qu'une
+      requête PostgREST tronque à 1000 lignes
+*/
+
+CREATE OR REPLACE FUNCTION search_available_units(
+  p_start date,
+  p_end date
+) RETURNS jsonb AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_id', p.id,
+    'free_unit_ids', free.unit_ids
+  )), '[]'::jsonb)
+  FROM products p
+  CROSS JOIN LATERAL (
+    SELECT array_agg(pu.id ORDER BY pu.unit_code) AS unit_ids
+    FROM product_units pu
+    WHERE pu.product_id = p.id
+      AND pu.status = 'active'
+      AND NOT EXISTS (
+        SELECT 1 FROM rental_calendar rc
+        WHERE rc.unit_id = pu.id
+          AND rc.status IN ('reserved', 'occupied', 'buffer', 'maintenance')
+          AND rc.reserved_date BETWEEN p_start AND p_end + get_buffer_days(p.id)
+      )
+  ) free
+  WHERE p.is_available_for_rental = true
+    AND free.unit_ids IS NOT NULL;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,62 @@
+/*
+  # Création d'un produit en une seule transaction
+
+  1. Nouvelles Fonctions
+    - `create_product(p_product)` - Crée le produit, enregistre son stock de départ comme une réception
+      et crée un exemplaire de location par unité de stock. Si le mouvement ou les exemplaires échouent
+      (code d'exemplaire déjà pris, par exemple), rien n'est créé et l'erreur remonte à l'écran
+*/
+
+CREATE OR REPLACE FUNCTION create_product(p_product jsonb)
+RETURNS uuid AS $$
+DECLARE
+  v_product products%ROWTYPE;
+  v_stock integer := COALESCE((p_product->>'stock')::integer, 0);
+  v_prefix text;
+BEGIN
+  INSERT INTO products (
+    name, category, size, color, brand,
+    purchase_price, sale_price, rental_price_per_day, stock,
+    description, barcode, is_available_for_rental,
+    deposit_amount, buffer_days, requires_identity, size_chart
+  ) VALUES (
+    p_product->>'name',
+    p_product->>'category',
+    p_product->>'size',
+    p_product->>'color',
+    p_product->>'brand',
+    (p_product->>'purchase_price')::decimal,
+    (p_product->>'sale_price')::decimal,
+    (p_product->>'rental_price_per_day')::decimal,
+    0,
+    p_product->>'description',
+    p_product->>'barcode',
+    COALESCE((p_product->>'is_available_for_rental')::boolean, true),
+    (p_product->>'deposit_amount')::decimal,
+    (p_product->>'buffer_days')::integer,
+    COALESCE((p_product->>'requires_identity')::boolean, false),
+    COALESCE(p_product->'size_chart', '{}'::jsonb)
+  )
+  RETURNING * INTO v_product;
+
+  -- Le stock de départ passe par le journal comme tout autre mouvement
+  IF v_stock > 0 THEN
+    INSERT INTO stock_movements (product_id, movement_type, quantity, reference, agent_id, agent_name)
+    VALUES (
+      v_product.id, 'reception', v_stock, 'Stock initial',
+      NULLIF(p_product->>'agent_id', '')::uuid, p_product->>'agent_name'
+    );
+  END IF;
+
+  -- Un exemplaire de location par unité de stock
+  IF v_product.is_available_for_rental AND v_stock > 0 THEN
+    v_prefix := COALESCE(NULLIF(v_product.barcode, ''), 'U' || upper(left(v_product.id::text, 8)));
+
+    INSERT INTO product_units (product_id, unit_code)
+    SELECT v_product.id, v_prefix || '-' || lpad(n::text, GREATEST(2, length(n::text)), '0')
+    FROM generate_series(1, v_stock) AS n;
+  END IF;
+
+  RETURN v_product.id;
+END;
+$$ LANGUAGE plpgsql;
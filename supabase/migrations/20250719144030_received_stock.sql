@@ -0,0 +1,20 @@
+/*
+  # Quantités reçues par produit
+
+  1. Nouvelles Fonctions
+    - `get_received_quantities()` - Nombre d'articles entrés en stock par produit : réceptions, et stock
+      initial repris dans le journal sous forme d'ajustement. Sert au coût d'achat de la rentabilité, qui ne
+      compte plus deux fois un article vendu et son exemplaire de location
+*/
+
+CREATE OR REPLACE FUNCTION get_received_quantities()
+RETURNS jsonb AS $$
+  SELECT COALESCE(jsonb_object_agg(product_id, quantity), '{}'::jsonb)
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM stock_movements
+    WHERE movement_type = 'reception'
+       OR (movement_type = 'adjustment' AND reference = 'Stock initial')
+    GROUP BY product_id
+  ) received;
+$$ LANGUAGE sql STABLE;
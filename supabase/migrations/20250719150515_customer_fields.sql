@@ -0,0 +1,51 @@
+/*
+  # Fiche client : champs obligatoires contrôlés en base
+
+  1. Fonctions modifiées
+    - `update_customer` refuse un téléphone vide avec son propre message : `normalize_phone` renvoie NULL
+      pour un numéro vide, que la comparaison à '' ne détectait pas, et l'erreur NOT NULL de la table
+      remontait telle quelle. Un nom vide est refusé de la même façon
+*/
+
+CREATE OR REPLACE FUNCTION update_customer(
+  p_id uuid,
+  p_customer jsonb
+) RETURNS void AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+  v_phone text := normalize_phone(p_customer->>'phone');
+BEGIN
+  SELECT * INTO v_customer FROM customers WHERE id = p_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client introuvable';
+  END IF;
+
+  IF NULLIF(trim(p_customer->>'name'), '') IS NULL THEN
+    RAISE EXCEPTION 'Le nom du client est obligatoire';
+  END IF;
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Veuillez renseigner le téléphone du client';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM customers WHERE phone = v_phone AND id <> p_id) THEN
+    RAISE EXCEPTION 'Ce numéro est déjà utilisé par un autre client';
+  END IF;
+
+  UPDATE customers
+  SET name = trim(p_customer->>'name'),
+      phone = v_phone,
+      email = NULLIF(p_customer->>'email', ''),
+      address = NULLIF(p_customer->>'address', ''),
+      notes = NULLIF(p_customer->>'notes', '')
+  WHERE id = p_id;
+
+  IF v_phone <> v_customer.phone THEN
+    UPDATE orders SET customer_id = p_id, customer_phone = v_phone
+    WHERE customer_id = p_id OR customer_phone = v_customer.phone;
+    UPDATE transactions SET customer_phone = v_phone WHERE customer_phone = v_customer.phone;
+    UPDATE rentals SET customer_phone = v_phone WHERE customer_phone = v_customer.phone;
+    UPDATE payments SET customer_phone = v_phone WHERE customer_phone = v_customer.phone;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;